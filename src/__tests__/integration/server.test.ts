@@ -8,6 +8,9 @@
  * - Error propagation through the server
  * - Async prediction store integration
  * - Server lifecycle (startup, shutdown)
+ * - Structured tool output (output schemas, structuredContent, isError)
+ * - Progress notifications for requests with a progress token
+ * - Cancellation of tool calls by the client
  *
  * Unlike unit tests that isolate individual functions, these integration
  * tests verify that all components work together correctly.
@@ -28,6 +31,13 @@ vi.mock('../../config/config.js', () => ({
     enableLocalSave: false,
     maxConcurrentRequests: 3,
     requestTimeoutMs: 10000,
+    imageContentEnabled: true,
+    imageContentMaxDimension: 512,
+    imageContentMaxBytes: 1024 * 1024,
+    transport: 'stdio',
+    httpHost: '127.0.0.1',
+    httpPort: 3000,
+    httpPath: '/mcp',
   },
   isConfigValid: vi.fn(() => true),
   getConfigErrors: vi.fn(() => []),
@@ -124,25 +134,68 @@ vi.mock('../../services/storage.service.js', () => ({
 
 // Mock retry utility to skip delays
 vi.mock('../../utils/retry.js', () => ({
-  withRetry: vi.fn(async (fn: () => Promise<unknown>) => fn()),
+  withRetry: vi.fn(async (fn: (context: unknown) => Promise<unknown>) =>
+    fn({ attempt: 1, maxAttempts: 1, isRetry: false })
+  ),
+}));
+
+// Mock axios so webhook deliveries and image downloads never leave the process
+const mockAxiosPost = vi.fn();
+const mockAxiosGet = vi.fn();
+vi.mock('axios', () => ({
+  default: {
+    post: vi.fn((...args: unknown[]) => mockAxiosPost(...args) as unknown),
+    get: vi.fn((...args: unknown[]) => mockAxiosGet(...args) as unknown),
+    isAxiosError: vi.fn(() => false),
+  },
 }));
 
 // =============================================================================
 // Imports after mocks
 // =============================================================================
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  type CreateMessageRequest,
+  type ElicitRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
 import {
   createServer,
   getDefaultServer,
   resetDefaultServer,
   disposeSharedStore,
   allTools,
+  getEnabledTools,
   getToolByName,
   getToolNames,
   initializeSharedStore,
+  getSharedStore,
+  registerTools,
+  formatToolResult,
+  type ServerOptions,
 } from '../../server.js';
+import { startHttpServer, type HttpServerStartResult } from '../../transports/http.js';
+import { createImageContentService } from '../../services/image.content.js';
+import { createCancelledError } from '../../utils/error.handler.js';
+import { GenerateOutputSchema, ToolErrorOutputSchema } from '../../types/tool.types.js';
+import { encodePng } from '../../utils/image.js';
 import { SERVER_INFO } from '../../config/constants.js';
-import { createPredictionStore, type PredictionStore } from '../../services/prediction.store.js';
+import { config } from '../../config/config.js';
+import {
+  createPredictionStore,
+  isPredictionTerminal,
+  type PredictionStore,
+} from '../../services/prediction.store.js';
 
 // =============================================================================
 // Test Utilities
@@ -255,22 +308,31 @@ describe('MCP Server Integration', () => {
       expect(server).toBeDefined();
     });
 
-    it('should register all 10 tools', () => {
+    it('should register all 19 tools', () => {
       createServer();
 
       // Verify all tools are registered
-      expect(allTools).toHaveLength(10);
+      expect(allTools).toHaveLength(19);
       const toolNames = getToolNames();
       expect(toolNames).toContain('ideogram_generate');
       expect(toolNames).toContain('ideogram_edit');
       expect(toolNames).toContain('ideogram_generate_async');
       expect(toolNames).toContain('ideogram_get_prediction');
       expect(toolNames).toContain('ideogram_cancel_prediction');
+      expect(toolNames).toContain('ideogram_list_predictions');
+      expect(toolNames).toContain('ideogram_retry_prediction');
+      expect(toolNames).toContain('ideogram_submit_batch');
+      expect(toolNames).toContain('ideogram_get_batch');
       expect(toolNames).toContain('ideogram_describe');
       expect(toolNames).toContain('ideogram_upscale');
       expect(toolNames).toContain('ideogram_remix');
       expect(toolNames).toContain('ideogram_reframe');
       expect(toolNames).toContain('ideogram_replace_background');
+      expect(toolNames).toContain('ideogram_edit_async');
+      expect(toolNames).toContain('ideogram_remix_async');
+      expect(toolNames).toContain('ideogram_upscale_async');
+      expect(toolNames).toContain('ideogram_reframe_async');
+      expect(toolNames).toContain('ideogram_replace_background_async');
     });
 
     it('should use default server info from constants', () => {
@@ -772,6 +834,212 @@ describe('MCP Server Integration', () => {
       expect(typeof statusResult.success).toBe('boolean');
     });
 
+    it('should process queued predictions through the shared store', async () => {
+      disposeSharedStore();
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(2));
+      createServer();
+
+      const generateAsyncTool = getToolByName('ideogram_generate_async');
+      const queueResult = (await generateAsyncTool!.handler({
+        prompt: 'A processed image',
+        num_images: 2,
+      })) as { success: true; prediction_id: string };
+
+      // The shared store's background processor should complete the job
+      const store = getSharedStore();
+      expect(store).not.toBeNull();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('completed');
+      });
+
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'A processed image', numImages: 2 }),
+        { signal: expect.any(AbortSignal) }
+      );
+
+      const getPredictionTool = getToolByName('ideogram_get_prediction');
+      const statusResult = (await getPredictionTool!.handler({
+        prediction_id: queueResult.prediction_id,
+      })) as { success: boolean; status: string; images: unknown[] };
+
+      expect(statusResult.success).toBe(true);
+      expect(statusResult.status).toBe('completed');
+      expect(statusResult.images).toHaveLength(2);
+    });
+
+    it('should process queued predictions for servers set up with registerTools', async () => {
+      disposeSharedStore();
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(1));
+      registerTools(new McpServer({ name: 'embedded', version: '1.0.0' }));
+
+      const generateAsyncTool = getToolByName('ideogram_generate_async');
+      const queueResult = (await generateAsyncTool!.handler({
+        prompt: 'An embedded image',
+        num_images: 1,
+      })) as { success: true; prediction_id: string };
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('completed');
+      });
+    });
+
+    it('should abort a running prediction when it is cancelled', async () => {
+      disposeSharedStore();
+      let requestSignal: AbortSignal | undefined;
+      mockGenerate.mockImplementationOnce(
+        (_params: unknown, options: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            requestSignal = options.signal;
+            options.signal.addEventListener('abort', () => reject(new Error('canceled')));
+          })
+      );
+      createServer();
+
+      const generateAsyncTool = getToolByName('ideogram_generate_async');
+      const queueResult = (await generateAsyncTool!.handler({
+        prompt: 'A long running image',
+      })) as { success: true; prediction_id: string };
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('processing');
+      });
+
+      const cancelTool = getToolByName('ideogram_cancel_prediction');
+      const cancelResult = (await cancelTool!.handler({
+        prediction_id: queueResult.prediction_id,
+      })) as { success: boolean; status: string };
+
+      expect(cancelResult).toMatchObject({ success: true, status: 'cancelled' });
+      expect(requestSignal?.aborted).toBe(true);
+      await vi.waitFor(() => {
+        expect(store!.getStats().activeWorkers).toBe(0);
+      });
+      expect(store!.get(queueResult.prediction_id)?.status).toBe('cancelled');
+    });
+
+    it('should retry a failed prediction with a new seed', async () => {
+      disposeSharedStore();
+      mockGenerate
+        .mockRejectedValueOnce(new Error('Content rejected'))
+        .mockResolvedValueOnce(createMockGenerateResponse(1));
+      createServer();
+
+      const generateAsyncTool = getToolByName('ideogram_generate_async');
+      const queueResult = (await generateAsyncTool!.handler({
+        prompt: 'Retry me',
+        seed: 7,
+      })) as { success: true; prediction_id: string };
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('failed');
+      });
+
+      const retryTool = getToolByName('ideogram_retry_prediction');
+      const retryResult = await retryTool!.handler({
+        prediction_id: queueResult.prediction_id,
+        seed: 42,
+      });
+
+      expect(retryResult).toMatchObject({
+        success: true,
+        status: 'queued',
+        previous_status: 'failed',
+        attempt: 2,
+        seed: 42,
+      });
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('completed');
+      });
+      expect(mockGenerate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ prompt: 'Retry me', seed: 42 }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(store!.get(queueResult.prediction_id)?.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, status: 'failed', seed: 7, retry: 'manual' }),
+      ]);
+    });
+
+    it('should run a submitted batch and report its completed images', async () => {
+      disposeSharedStore();
+      mockGenerate
+        .mockResolvedValueOnce(createMockGenerateResponse(1))
+        .mockRejectedValueOnce(new Error('Content rejected'))
+        .mockResolvedValueOnce(createMockGenerateResponse(1));
+      createServer();
+
+      const submitTool = getToolByName('ideogram_submit_batch');
+      const submitResult = (await submitTool!.handler({
+        matrix: { prompt: ['A fox', 'A wolf', 'A bear'], num_images: 1 },
+        save_locally: false,
+        priority: 'normal',
+      })) as { success: true; batch_id: string; prediction_ids: string[] };
+
+      expect(submitResult).toMatchObject({ success: true, status: 'queued', num_predictions: 3 });
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.getBatchPredictions(submitResult.batch_id).every(isPredictionTerminal)).toBe(
+          true
+        );
+      });
+
+      const getBatchTool = getToolByName('ideogram_get_batch');
+      const batchResult = await getBatchTool!.handler({
+        batch_id: submitResult.batch_id,
+        include_images: true,
+      });
+
+      expect(batchResult).toMatchObject({
+        success: true,
+        status: 'partial',
+        counts: { total: 3, completed: 2, failed: 1 },
+        total_cost: { num_predictions: 2, num_images: 2 },
+        estimated_cost: { num_predictions: 3 },
+      });
+      expect(
+        (batchResult as { images: Array<{ prediction_id: string }> }).images.map(
+          (image) => image.prediction_id
+        )
+      ).toHaveLength(2);
+    });
+
+    it('should process async upscale jobs with the upscale operation', async () => {
+      disposeSharedStore();
+      mockUpscale.mockResolvedValueOnce(createMockGenerateResponse(1));
+      createServer();
+
+      const upscaleAsyncTool = getToolByName('ideogram_upscale_async');
+      const queueResult = (await upscaleAsyncTool!.handler({
+        image: 'https://example.com/photo.png',
+        resemblance: 70,
+      })) as { success: true; prediction_id: string };
+
+      expect(queueResult.success).toBe(true);
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.status).toBe('completed');
+      });
+
+      expect(store!.get(queueResult.prediction_id)?.type).toBe('upscale');
+      expect(mockUpscale).toHaveBeenCalledWith(
+        expect.objectContaining({ image: 'https://example.com/photo.png', resemblance: 70 }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(mockGenerate).not.toHaveBeenCalled();
+
+      const getPredictionTool = getToolByName('ideogram_get_prediction');
+      const statusResult = (await getPredictionTool!.handler({
+        prediction_id: queueResult.prediction_id,
+      })) as { success: boolean; status: string; images: unknown[] };
+
+      expect(statusResult.status).toBe('completed');
+      expect(statusResult.images).toHaveLength(1);
+    });
+
     it('should handle webhook URL in async generation', async () => {
       const generateAsyncTool = getToolByName('ideogram_generate_async');
       const result = (await generateAsyncTool!.handler({
@@ -782,6 +1050,37 @@ describe('MCP Server Integration', () => {
       expect(result.success).toBe(true);
       expect(result.prediction_id).toBeDefined();
     });
+
+    it('should deliver the prediction output to the webhook URL on completion', async () => {
+      createServer();
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(1));
+      mockAxiosPost.mockResolvedValueOnce({ status: 200 });
+
+      const generateAsyncTool = getToolByName('ideogram_generate_async');
+      const queueResult = (await generateAsyncTool!.handler({
+        prompt: 'Test with webhook',
+        webhook_url: 'https://example.com/webhook',
+      })) as { success: true; prediction_id: string };
+
+      const store = getSharedStore();
+      await vi.waitFor(() => {
+        expect(store!.get(queueResult.prediction_id)?.webhook_delivery?.status).toBe('delivered');
+      });
+
+      expect(mockAxiosPost).toHaveBeenCalledTimes(1);
+      const [url, body, requestConfig] = mockAxiosPost.mock.calls[0] as [
+        string,
+        string,
+        { headers: Record<string, string> },
+      ];
+      expect(url).toBe('https://example.com/webhook');
+      expect(JSON.parse(body)).toMatchObject({
+        success: true,
+        prediction_id: queueResult.prediction_id,
+        status: 'completed',
+      });
+      expect(requestConfig.headers['X-Ideogram-Event']).toBe('prediction.completed');
+    });
   });
 
   // ===========================================================================
@@ -968,5 +1267,806 @@ describe('MCP Server Integration', () => {
       expect(result.success).toBe(true);
       expect(result.images.length).toBeGreaterThan(0);
     });
+
+    it('should add thumbnails of generated images as image content blocks', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(2));
+      mockAxiosGet.mockResolvedValue({
+        data: encodePng({
+          width: 256,
+          height: 256,
+          channels: 3,
+          data: Buffer.alloc(256 * 256 * 3),
+        }),
+      });
+
+      const generateTool = getToolByName('ideogram_generate');
+      const result = await generateTool!.handler({ prompt: 'Test prompt', num_images: 2 });
+      const formatted = await formatToolResult(
+        'ideogram_generate',
+        result,
+        createImageContentService({ maxDimension: 64 })
+      );
+
+      expect(formatted.content).toHaveLength(3);
+      expect(formatted.content[0]).toEqual({
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      });
+      expect(formatted.content[1]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+      expect(mockAxiosGet).toHaveBeenCalledWith(
+        'https://ideogram.ai/api/images/test-image-1.png',
+        expect.objectContaining({ responseType: 'arraybuffer' })
+      );
+      mockAxiosGet.mockReset();
+    });
+
+    it('should only return the JSON text block for failed and non-image results', async () => {
+      const imageContent = createImageContentService();
+      const createImageContent = vi.spyOn(imageContent, 'createImageContent');
+
+      const described = await formatToolResult(
+        'ideogram_describe',
+        { success: true, descriptions: [] },
+        imageContent
+      );
+      const failed = await formatToolResult(
+        'ideogram_generate',
+        { success: false, error_code: 'API_ERROR' },
+        imageContent
+      );
+
+      expect(described.content).toHaveLength(1);
+      expect(described.structuredContent).toEqual({ success: true, descriptions: [] });
+      expect(failed.content).toHaveLength(1);
+      expect(failed.isError).toBe(true);
+      expect(failed.structuredContent).toBeUndefined();
+      expect(createImageContent).toHaveBeenCalledTimes(1);
+      expect(createImageContent).toHaveBeenCalledWith([]);
+    });
+  });
+
+  // ===========================================================================
+  // Structured Output Tests
+  // ===========================================================================
+
+  describe('Structured Tool Output', () => {
+    let client: Client;
+
+    /**
+     * Calls a tool and returns its structured content
+     */
+    async function callTool(
+      name: string,
+      args: Record<string, unknown>
+    ): Promise<Record<string, unknown>> {
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError).toBeFalsy();
+      const content = result.content as Array<{ type: string; text: string }>;
+      expect(result.structuredContent).toEqual(JSON.parse(content[0]?.text ?? '{}'));
+      return result.structuredContent as Record<string, unknown>;
+    }
+
+    beforeEach(async () => {
+      disposeSharedStore();
+      const server = createServer({ toolOptions: { imageContentOptions: { enabled: false } } });
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+      disposeSharedStore();
+    });
+
+    it('should declare an object output schema for every tool', async () => {
+      const { tools } = await client.listTools();
+
+      expect(tools).toHaveLength(allTools.length);
+      for (const tool of tools) {
+        expect(tool.outputSchema).toMatchObject({ type: 'object', properties: expect.any(Object) });
+      }
+      expect(tools.find((t) => t.name === 'ideogram_generate')?.outputSchema?.required).toEqual([
+        'success',
+        'created',
+        'images',
+        'total_cost',
+        'num_images',
+      ]);
+    });
+
+    it('should return successful results as structured content', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(2));
+
+      const result = await callTool('ideogram_generate', { prompt: 'Structured', num_images: 2 });
+
+      expect(GenerateOutputSchema.parse(result)).toEqual(result);
+      expect(result).toMatchObject({ success: true, num_images: 2 });
+    });
+
+    it('should return tool errors with isError and the ToolErrorOutput shape', async () => {
+      mockGenerate.mockRejectedValueOnce(createCancelledError('generate'));
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'Failing' },
+      });
+      const content = result.content as Array<{ type: string; text: string }>;
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(ToolErrorOutputSchema.parse(JSON.parse(content[0]?.text ?? '{}'))).toMatchObject({
+        success: false,
+        error_code: 'CANCELLED',
+      });
+    });
+
+    it('should match the output schemas of the prediction and batch tools', async () => {
+      mockGenerate.mockResolvedValue(createMockGenerateResponse(1));
+
+      const queued = await callTool('ideogram_generate_async', { prompt: 'Queued image' });
+      await vi.waitFor(() =>
+        expect(getSharedStore()?.get(queued.prediction_id as string)?.status).toBe('completed')
+      );
+      const completed = await callTool('ideogram_get_prediction', {
+        prediction_id: queued.prediction_id,
+      });
+      const listed = await callTool('ideogram_list_predictions', {});
+      const notCancelled = await callTool('ideogram_cancel_prediction', {
+        prediction_id: queued.prediction_id,
+      });
+      const notRetried = await callTool('ideogram_retry_prediction', {
+        prediction_id: queued.prediction_id,
+      });
+      const batch = await callTool('ideogram_submit_batch', {
+        matrix: { prompt: ['First', 'Second'] },
+      });
+      await vi.waitFor(async () =>
+        expect((await callTool('ideogram_get_batch', { batch_id: batch.batch_id })).status).toBe(
+          'completed'
+        )
+      );
+      const batchResult = await callTool('ideogram_get_batch', { batch_id: batch.batch_id });
+
+      expect(completed).toMatchObject({ success: true, status: 'completed' });
+      expect(listed.predictions).toHaveLength(1);
+      expect(notCancelled).toMatchObject({ success: false, status: 'completed' });
+      expect(notRetried).toMatchObject({ success: false, status: 'completed' });
+      expect(batchResult.images).toHaveLength(2);
+      mockGenerate.mockReset();
+    });
+
+    it('should match the output schema for failed predictions', async () => {
+      mockGenerate.mockRejectedValueOnce(createMockApiError('Bad request', 'INVALID_REQUEST', 400));
+
+      const queued = await callTool('ideogram_generate_async', { prompt: 'Failing image' });
+      await vi.waitFor(() =>
+        expect(getSharedStore()?.get(queued.prediction_id as string)?.status).toBe('failed')
+      );
+      const failed = await callTool('ideogram_get_prediction', {
+        prediction_id: queued.prediction_id,
+      });
+
+      expect(failed).toMatchObject({
+        success: false,
+        status: 'failed',
+        error: { retryable: false },
+      });
+    });
+  });
+
+  // ===========================================================================
+  // Tool Annotation and Enablement Tests
+  // ===========================================================================
+
+  describe('Tool Annotations and Enablement', () => {
+    /**
+     * Connects a client to a new server and lists its tools
+     */
+    async function listTools(
+      toolOptions: NonNullable<ServerOptions['toolOptions']> = {}
+    ): Promise<Awaited<ReturnType<Client['listTools']>>['tools']> {
+      const server = createServer({ toolOptions: { initializeStore: false, ...toolOptions } });
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      const { tools } = await client.listTools();
+      await client.close();
+      return tools;
+    }
+
+    it('should declare all behavior hints for every tool', async () => {
+      const tools = await listTools();
+
+      expect(tools).toHaveLength(allTools.length);
+      for (const tool of tools) {
+        expect(tool.annotations).toEqual({
+          readOnlyHint: expect.any(Boolean),
+          destructiveHint: expect.any(Boolean),
+          idempotentHint: expect.any(Boolean),
+          openWorldHint: expect.any(Boolean),
+        });
+      }
+    });
+
+    it('should mark read-only, destructive, and API-calling tools', async () => {
+      const tools = await listTools();
+      const annotations = (name: string): unknown =>
+        tools.find((tool) => tool.name === name)?.annotations;
+
+      expect(annotations('ideogram_generate')).toMatchObject({
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      });
+      expect(annotations('ideogram_describe')).toMatchObject({
+        readOnlyHint: true,
+        openWorldHint: true,
+      });
+      expect(annotations('ideogram_get_prediction')).toMatchObject({
+        readOnlyHint: true,
+        openWorldHint: false,
+      });
+      expect(annotations('ideogram_cancel_prediction')).toMatchObject({
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      });
+    });
+
+    it('should only register the tools in the allow list', async () => {
+      const tools = await listTools({
+        enabledTools: ['ideogram_get_prediction', 'ideogram_describe'],
+      });
+
+      expect(tools.map((tool) => tool.name)).toEqual([
+        'ideogram_get_prediction',
+        'ideogram_describe',
+      ]);
+    });
+
+    it('should not register the tools in the deny list', async () => {
+      const tools = await listTools({
+        disabledTools: ['ideogram_submit_batch', 'ideogram_upscale'],
+      });
+      const names = tools.map((tool) => tool.name);
+
+      expect(names).toHaveLength(allTools.length - 2);
+      expect(names).not.toContain('ideogram_submit_batch');
+      expect(names).not.toContain('ideogram_upscale');
+    });
+
+    it('should apply the deny list after the allow list and ignore unknown names', () => {
+      const tools = getEnabledTools({
+        enabledTools: ['ideogram_describe', 'ideogram_generate', 'ideogram_unknown'],
+        disabledTools: ['ideogram_generate'],
+      });
+
+      expect(tools.map((tool) => tool.name)).toEqual(['ideogram_describe']);
+      expect(getEnabledTools()).toHaveLength(allTools.length);
+    });
+  });
+
+  // ===========================================================================
+  // Prompt Refinement Tests
+  // ===========================================================================
+
+  describe('Prompt Refinement', () => {
+    /**
+     * Connects a client, with or without sampling support, to a new server.
+     * Sampling requests are answered with the given text.
+     */
+    async function connectClient(
+      sampledText?: string
+    ): Promise<{ client: Client; requests: CreateMessageRequest['params'][] }> {
+      const server = createServer({
+        toolOptions: { initializeStore: false, imageContentOptions: { enabled: false } },
+      });
+      const requests: CreateMessageRequest['params'][] = [];
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: sampledText !== undefined ? { sampling: {} } : {} }
+      );
+      if (sampledText !== undefined) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request) => {
+          requests.push(request.params);
+          return {
+            model: 'test-model',
+            role: 'assistant',
+            content: { type: 'text', text: sampledText },
+          };
+        });
+      }
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      return { client, requests };
+    }
+
+    afterEach(() => {
+      delete (config as { promptStyleGuideFile?: string }).promptStyleGuideFile;
+    });
+
+    it('should generate with the prompt refined by the client', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse());
+      const { client, requests } = await connectClient('"A lighthouse at dusk, oil painting"');
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'lighthouse', refine_prompt: true },
+      });
+
+      expect(requests).toEqual([
+        expect.objectContaining({
+          messages: [{ role: 'user', content: { type: 'text', text: 'lighthouse' } }],
+          systemPrompt: expect.stringContaining('Ideogram'),
+        }),
+      ]);
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'A lighthouse at dusk, oil painting' }),
+        expect.any(Object)
+      );
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        original_prompt: 'lighthouse',
+        refined_prompt: 'A lighthouse at dusk, oil painting',
+      });
+      await client.close();
+    });
+
+    it('should send the team style guide with the sampling request', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-style-guide-'));
+      const styleGuideFile = path.join(tempDir, 'style.md');
+      fs.writeFileSync(styleGuideFile, 'Always use flat pastel colors.\n');
+      (config as { promptStyleGuideFile?: string }).promptStyleGuideFile = styleGuideFile;
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse());
+      const { client, requests } = await connectClient('A pastel lighthouse');
+
+      await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'lighthouse', refine_prompt: true },
+      });
+
+      expect(requests[0]?.systemPrompt).toContain('Always use flat pastel colors.');
+      await client.close();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should fail without calling the API when the client does not support sampling', async () => {
+      const { client } = await connectClient();
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'lighthouse', refine_prompt: true },
+      });
+      const content = result.content as Array<{ type: string; text: string }>;
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0]?.text ?? '{}')).toMatchObject({
+        error_code: 'PROMPT_REFINEMENT_FAILED',
+      });
+      expect(mockGenerate).not.toHaveBeenCalled();
+      await client.close();
+    });
+
+    it('should not ask the client when refine_prompt is not set', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse());
+      const { client, requests } = await connectClient('Unused');
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'lighthouse' },
+      });
+
+      expect(requests).toHaveLength(0);
+      expect(result.structuredContent).not.toHaveProperty('refined_prompt');
+      await client.close();
+    });
+  });
+
+  // ===========================================================================
+  // Cost Confirmation Tests
+  // ===========================================================================
+
+  describe('Cost Confirmation', () => {
+    /**
+     * Connects a client, with or without elicitation support, to a new server.
+     * Elicitation requests are answered with the given `confirm` value.
+     */
+    async function connectClient(
+      confirm?: boolean
+    ): Promise<{ client: Client; requests: ElicitRequest['params'][] }> {
+      const server = createServer({
+        toolOptions: { initializeStore: false, imageContentOptions: { enabled: false } },
+      });
+      const requests: ElicitRequest['params'][] = [];
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: confirm !== undefined ? { elicitation: {} } : {} }
+      );
+      if (confirm !== undefined) {
+        client.setRequestHandler(ElicitRequestSchema, (request) => {
+          requests.push(request.params);
+          return { action: 'accept', content: { confirm } };
+        });
+      }
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      return { client, requests };
+    }
+
+    const expensiveArguments = { prompt: 'lighthouse', num_images: 4, rendering_speed: 'QUALITY' };
+
+    beforeEach(() => {
+      (config as { confirmCreditThreshold?: number }).confirmCreditThreshold = 0.5;
+    });
+
+    afterEach(() => {
+      delete (config as { confirmCreditThreshold?: number }).confirmCreditThreshold;
+    });
+
+    it('should generate after the user confirms the estimated cost', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse(4));
+      const { client, requests } = await connectClient(true);
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: expensiveArguments,
+      });
+
+      expect(requests).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('ideogram_generate') }),
+      ]);
+      expect(mockGenerate).toHaveBeenCalledTimes(1);
+      expect(result.structuredContent).toMatchObject({ success: true, num_images: 4 });
+      await client.close();
+    });
+
+    it('should fail without calling the API when the user declines', async () => {
+      const { client } = await connectClient(false);
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: expensiveArguments,
+      });
+      const content = result.content as Array<{ type: string; text: string }>;
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0]?.text ?? '{}')).toMatchObject({
+        error_code: 'COST_NOT_CONFIRMED',
+      });
+      expect(mockGenerate).not.toHaveBeenCalled();
+      await client.close();
+    });
+
+    it('should return a dry run when the client does not support elicitation', async () => {
+      const { client } = await connectClient();
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: expensiveArguments,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        images: [],
+        num_images: 0,
+        dry_run: true,
+        total_cost: { credits_used: 0.8 },
+      });
+      expect(mockGenerate).not.toHaveBeenCalled();
+      await client.close();
+    });
+
+    it('should not ask the user below the threshold', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse());
+      const { client, requests } = await connectClient(false);
+
+      const result = await client.callTool({
+        name: 'ideogram_generate',
+        arguments: { prompt: 'lighthouse' },
+      });
+
+      expect(requests).toHaveLength(0);
+      expect(result.structuredContent).toMatchObject({ success: true });
+      expect(result.structuredContent).not.toHaveProperty('dry_run');
+      await client.close();
+    });
+
+    it('should ask before queueing an async generation above the threshold', async () => {
+      const { client, requests } = await connectClient(true);
+
+      const result = await client.callTool({
+        name: 'ideogram_generate_async',
+        arguments: expensiveArguments,
+      });
+
+      expect(requests).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('ideogram_generate_async') }),
+      ]);
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        status: 'queued',
+        prediction_id: expect.any(String),
+      });
+      await client.close();
+    });
+
+    it('should not queue an async generation when the user declines', async () => {
+      const { client } = await connectClient(false);
+
+      const result = await client.callTool({
+        name: 'ideogram_upscale_async',
+        arguments: { image: 'https://example.com/image.png', num_images: 8 },
+      });
+      const content = result.content as Array<{ type: string; text: string }>;
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(content[0]?.text ?? '{}')).toMatchObject({
+        error_code: 'COST_NOT_CONFIRMED',
+      });
+      await client.close();
+    });
+
+    it('should return a dry run of an async generation without elicitation', async () => {
+      const { client } = await connectClient();
+
+      const result = await client.callTool({
+        name: 'ideogram_generate_async',
+        arguments: expensiveArguments,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        images: [],
+        num_images: 0,
+        dry_run: true,
+        total_cost: { credits_used: 0.8 },
+      });
+      expect(result.structuredContent).not.toHaveProperty('prediction_id');
+      await client.close();
+    });
+
+    it('should confirm the summed cost of a batch before queueing it', async () => {
+      const { client, requests } = await connectClient(true);
+
+      const result = await client.callTool({
+        name: 'ideogram_submit_batch',
+        arguments: {
+          requests: [{ prompt: 'fox' }, { prompt: 'wolf' }, { prompt: 'bear' }],
+        },
+      });
+      const batch = await client.callTool({
+        name: 'ideogram_submit_batch',
+        arguments: {
+          matrix: { prompt: ['fox', 'wolf'], rendering_speed: ['QUALITY'], num_images: 4 },
+        },
+      });
+
+      // 3 x 0.1 credits is below the threshold; 2 x 4 x 0.2 credits is not
+      expect(result.structuredContent).toMatchObject({ success: true, num_predictions: 3 });
+      expect(requests).toEqual([
+        expect.objectContaining({
+          message: expect.stringContaining('2 predictions, 8 images: 1.60 credits'),
+        }),
+      ]);
+      expect(batch.structuredContent).toMatchObject({
+        success: true,
+        status: 'queued',
+        batch_id: expect.any(String),
+        num_predictions: 2,
+      });
+      await client.close();
+    });
+
+    it('should return a dry run of a batch without elicitation', async () => {
+      const { client } = await connectClient();
+
+      const result = await client.callTool({
+        name: 'ideogram_submit_batch',
+        arguments: {
+          matrix: { prompt: ['fox', 'wolf'], rendering_speed: ['QUALITY'], num_images: 4 },
+        },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        success: true,
+        dry_run: true,
+        num_predictions: 2,
+        estimated_cost: { credits_used: 1.6, num_images: 8, num_predictions: 2 },
+      });
+      expect(result.structuredContent).not.toHaveProperty('batch_id');
+      await client.close();
+    });
+  });
+
+  // ===========================================================================
+  // Progress Notification and Cancellation Tests
+  // ===========================================================================
+
+  describe('Progress Notifications and Cancellation', () => {
+    /**
+     * Connects a client to a new server over an in-memory transport
+     */
+    async function connectClient(): Promise<Client> {
+      const server = createServer({
+        toolOptions: { initializeStore: false, imageContentOptions: { enabled: false } },
+      });
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      return client;
+    }
+
+    it('should send progress notifications when the request has a progress token', async () => {
+      mockGenerate.mockImplementationOnce(
+        (_params: unknown, options: { onProgress?: (message: string) => void }) => {
+          options.onProgress?.('Sending generate request to the Ideogram API');
+          options.onProgress?.('Retrying generate request in 1000ms (attempt 2 of 4)');
+          return Promise.resolve(createMockGenerateResponse());
+        }
+      );
+      const client = await connectClient();
+      const onprogress = vi.fn();
+
+      const result = await client.callTool(
+        { name: 'ideogram_generate', arguments: { prompt: 'Slow render' } },
+        undefined,
+        { onprogress }
+      );
+
+      expect(result.isError).toBeFalsy();
+      expect(onprogress.mock.calls.map(([progress]) => progress as unknown)).toEqual([
+        { progress: 1, message: 'Sending generate request to the Ideogram API' },
+        { progress: 2, message: 'Retrying generate request in 1000ms (attempt 2 of 4)' },
+      ]);
+      await client.close();
+    });
+
+    it('should not report progress without a progress token', async () => {
+      mockGenerate.mockResolvedValueOnce(createMockGenerateResponse());
+      const client = await connectClient();
+
+      await client.callTool({ name: 'ideogram_generate', arguments: { prompt: 'Quick render' } });
+
+      expect(mockGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'Quick render' }),
+        expect.not.objectContaining({ onProgress: expect.anything() })
+      );
+      await client.close();
+    });
+
+    it('should abort the API call when the client cancels the request', async () => {
+      let apiSignal: AbortSignal | undefined;
+      mockGenerate.mockImplementationOnce(
+        (_params: unknown, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            apiSignal = options.signal;
+            options.signal?.addEventListener('abort', () =>
+              reject(createCancelledError('generate'))
+            );
+          })
+      );
+      const client = await connectClient();
+      const controller = new AbortController();
+
+      const call = client.callTool(
+        { name: 'ideogram_generate', arguments: { prompt: 'Cancelled render' } },
+        undefined,
+        { signal: controller.signal }
+      );
+      await vi.waitFor(() => expect(apiSignal).toBeDefined());
+      controller.abort('User cancelled');
+
+      await expect(call).rejects.toThrow('User cancelled');
+      await vi.waitFor(() => expect(apiSignal?.aborted).toBe(true));
+      await client.close();
+    });
+  });
+
+  // ===========================================================================
+  // HTTP Transport Tests
+  // ===========================================================================
+
+  describe('HTTP Transports', () => {
+    let httpServer: HttpServerStartResult | undefined;
+    const clients: Client[] = [];
+
+    /**
+     * Connects a new MCP client over the given transport
+     */
+    async function connectClient(
+      transport: StreamableHTTPClientTransport | SSEClientTransport
+    ): Promise<Client> {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(transport);
+      clients.push(client);
+      return client;
+    }
+
+    /**
+     * Parses the JSON text block of a tool result
+     */
+    function parseToolResult(result: Awaited<ReturnType<Client['callTool']>>): {
+      prediction_id: string;
+    } {
+      const content = result.content as Array<{ type: string; text: string }>;
+      return JSON.parse(content[0]?.text ?? '{}') as { prediction_id: string };
+    }
+
+    afterEach(async () => {
+      await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+      await httpServer?.shutdown();
+      httpServer = undefined;
+    });
+
+    it('should give each Streamable HTTP client its own session over a shared store', async () => {
+      httpServer = await startHttpServer({ mode: 'http', host: '127.0.0.1', port: 0 });
+      const transportA = new StreamableHTTPClientTransport(new URL(httpServer.url));
+      const transportB = new StreamableHTTPClientTransport(new URL(httpServer.url));
+      const clientA = await connectClient(transportA);
+      const clientB = await connectClient(transportB);
+
+      expect(httpServer.getSessionCount()).toBe(2);
+      expect(transportA.sessionId).toBeDefined();
+      expect(transportA.sessionId).not.toBe(transportB.sessionId);
+
+      // A job queued in one session is visible from the other
+      const queued = parseToolResult(
+        await clientA.callTool({
+          name: 'ideogram_generate_async',
+          arguments: { prompt: 'Shared across sessions' },
+        })
+      );
+      const fetched = parseToolResult(
+        await clientB.callTool({
+          name: 'ideogram_get_prediction',
+          arguments: { prediction_id: queued.prediction_id },
+        })
+      );
+      expect(fetched.prediction_id).toBe(queued.prediction_id);
+      expect(getSharedStore()?.get(queued.prediction_id)).toBeDefined();
+
+      // Terminating a session closes only that session
+      await transportA.terminateSession();
+      expect(httpServer.getSessionCount()).toBe(1);
+      await expect(clientB.listTools()).resolves.toHaveProperty('tools');
+    });
+
+    it('should reject requests without a valid session', async () => {
+      httpServer = await startHttpServer({ mode: 'http', host: '127.0.0.1', port: 0 });
+      const request = {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      };
+
+      const missing = await fetch(httpServer.url, request);
+      const unknown = await fetch(httpServer.url, {
+        ...request,
+        headers: { ...request.headers, 'Mcp-Session-Id': 'unknown-session' },
+      });
+      const otherPath = await fetch(new URL('/other', httpServer.url), request);
+
+      expect(missing.status).toBe(400);
+      expect(unknown.status).toBe(404);
+      expect(otherPath.status).toBe(404);
+    });
+
+    it('should serve legacy SSE clients with one session per stream', async () => {
+      httpServer = await startHttpServer({ mode: 'sse', host: '127.0.0.1', port: 0 });
+      const client = await connectClient(new SSEClientTransport(new URL(httpServer.url)));
+
+      const { tools } = await client.listTools();
+
+      expect(tools.length).toBe(allTools.length);
+      expect(httpServer.getSessionCount()).toBe(1);
+    });
   });
 });
@@ -426,6 +426,53 @@ describe('Config', () => {
         })
       ).toThrow();
     });
+
+    it('should default image content thumbnails to 512px and 1MB', async () => {
+      delete process.env['IMAGE_CONTENT'];
+      delete process.env['IMAGE_CONTENT_MAX_DIMENSION'];
+      delete process.env['IMAGE_CONTENT_MAX_BYTES'];
+      vi.resetModules();
+
+      const { createConfig } = await import('../../config/config.js');
+      const config = createConfig({ ideogramApiKey: 'test-key' });
+      expect(config.imageContentEnabled).toBe(true);
+      expect(config.imageContentMaxDimension).toBe(512);
+      expect(config.imageContentMaxBytes).toBe(1024 * 1024);
+    });
+
+    it('should throw error for imageContentMaxDimension out of range', async () => {
+      const { createConfig } = await import('../../config/config.js');
+      expect(() =>
+        createConfig({ ideogramApiKey: 'test-key', imageContentMaxDimension: 32 })
+      ).toThrow();
+      expect(() =>
+        createConfig({ ideogramApiKey: 'test-key', imageContentMaxDimension: 4096 })
+      ).toThrow();
+    });
+
+    it('should default to the stdio transport with a local HTTP endpoint', async () => {
+      delete process.env['MCP_TRANSPORT'];
+      delete process.env['MCP_HTTP_HOST'];
+      delete process.env['MCP_HTTP_PORT'];
+      delete process.env['MCP_HTTP_PATH'];
+      vi.resetModules();
+
+      const { createConfig } = await import('../../config/config.js');
+      const config = createConfig({ ideogramApiKey: 'test-key' });
+      expect(config.transport).toBe('stdio');
+      expect(config.httpHost).toBe('127.0.0.1');
+      expect(config.httpPort).toBe(3000);
+      expect(config.httpPath).toBe('/mcp');
+    });
+
+    it('should throw error for invalid transport settings', async () => {
+      const { createConfig } = await import('../../config/config.js');
+      expect(() =>
+        createConfig({ ideogramApiKey: 'test-key', transport: 'websocket' as 'http' })
+      ).toThrow();
+      expect(() => createConfig({ ideogramApiKey: 'test-key', httpPort: 70000 })).toThrow();
+      expect(() => createConfig({ ideogramApiKey: 'test-key', httpPath: 'mcp' })).toThrow();
+    });
   });
 
   describe('isConfigValid', () => {
@@ -537,5 +584,29 @@ describe('Config', () => {
       const { config } = await import('../../config/config.js');
       expect(config.maxConcurrentRequests).toBe(3);
     });
+
+    it('should parse the credit confirmation threshold as a decimal number', async () => {
+      process.env['IDEOGRAM_API_KEY'] = 'test-api-key';
+      process.env['CONFIRM_CREDIT_THRESHOLD'] = '0.5';
+      const { config } = await import('../../config/config.js');
+      expect(config.confirmCreditThreshold).toBe(0.5);
+    });
+
+    it('should reject a credit confirmation threshold that is not a number', async () => {
+      process.env['IDEOGRAM_API_KEY'] = 'test-api-key';
+      process.env['CONFIRM_CREDIT_THRESHOLD'] = '5 credits';
+      await expect(import('../../config/config.js')).rejects.toThrow(
+        'CONFIRM_CREDIT_THRESHOLD must be a number'
+      );
+    });
+
+    it('should parse the enabled and disabled tool lists as comma-separated names', async () => {
+      process.env['IDEOGRAM_API_KEY'] = 'test-api-key';
+      process.env['IDEOGRAM_ENABLED_TOOLS'] = ' ideogram_describe, ideogram_get_prediction ,';
+      process.env['IDEOGRAM_DISABLED_TOOLS'] = '';
+      const { config } = await import('../../config/config.js');
+      expect(config.enabledTools).toEqual(['ideogram_describe', 'ideogram_get_prediction']);
+      expect(config.disabledTools).toEqual([]);
+    });
   });
 });
@@ -25,8 +25,11 @@ import {
   createInvalidImageError,
   createInvalidMaskError,
   createImageTooLargeError,
+  createImagePathNotAllowedError,
   createNetworkError,
   createTimeoutError,
+  createPromptRefinementError,
+  createCostNotConfirmedError,
   createPredictionNotFoundError,
   createPredictionAlreadyCompletedError,
   createPredictionFailedError,
@@ -330,6 +333,18 @@ describe('Error Factory Functions', () => {
     });
   });
 
+  describe('createImagePathNotAllowedError', () => {
+    it('should create a forbidden error with the path', () => {
+      const error = createImagePathNotAllowedError('/etc/passwd');
+
+      expect(error.code).toBe(ERROR_CODES.IMAGE_PATH_NOT_ALLOWED);
+      expect(error.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(error.retryable).toBe(false);
+      expect(error.userMessage).toContain('IMAGE_INPUT_DIRS');
+      expect(error.details).toEqual({ field: 'image', path: '/etc/passwd' });
+    });
+  });
+
   describe('createNetworkError', () => {
     it('should create error with reason', () => {
       const error = createNetworkError('connection refused');
@@ -360,6 +375,29 @@ describe('Error Factory Functions', () => {
     });
   });
 
+  describe('createPromptRefinementError', () => {
+    it('should create a non-retryable error with the reason', () => {
+      const error = createPromptRefinementError('the client does not support sampling');
+
+      expect(error.code).toBe(ERROR_CODES.PROMPT_REFINEMENT_FAILED);
+      expect(error.statusCode).toBe(0);
+      expect(error.retryable).toBe(false);
+      expect(error.message).toContain('does not support sampling');
+      expect(error.userMessage).toContain('refine_prompt');
+    });
+  });
+
+  describe('createCostNotConfirmedError', () => {
+    it('should create a non-retryable error with the estimate and threshold', () => {
+      const error = createCostNotConfirmedError(0.8, 0.5);
+
+      expect(error.code).toBe(ERROR_CODES.COST_NOT_CONFIRMED);
+      expect(error.retryable).toBe(false);
+      expect(error.message).toContain('0.8 credits');
+      expect(error.details).toEqual({ credits_used: 0.8, threshold_credits: 0.5 });
+    });
+  });
+
   describe('createPredictionNotFoundError', () => {
     it('should create error with prediction ID', () => {
       const error = createPredictionNotFoundError('pred_123');
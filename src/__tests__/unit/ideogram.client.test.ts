@@ -9,14 +9,19 @@
  * - generate() method with various parameters
  * - edit() method with inpainting and outpainting modes
  * - Error handling (network errors, API errors, timeouts)
- * - Image preparation (URL, base64, Buffer)
+ * - Image preparation (URL, base64, Buffer, local file)
+ * - Style reference images and style codes
  * - Image type detection from magic bytes
  * - Aspect ratio normalization
  * - Timeout selection based on rendering speed
  * - Utility methods (getMaskedApiKey, testConnection)
+ * - Progress reporting (upload preparation, API call, retries)
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import type { AxiosError } from 'axios';
 
 // Mock config first - before any imports that depend on it
@@ -25,6 +30,7 @@ vi.mock('../../config/config.js', () => ({
     ideogramApiKey: 'test-api-key-for-testing',
     logLevel: 'error',
     localSaveDir: '/tmp/ideogram-test-images',
+    imageInputDirs: [],
     enableLocalSave: false,
     maxConcurrentRequests: 3,
     requestTimeoutMs: 10000,
@@ -53,10 +59,10 @@ vi.mock('axios', () => {
 // Mock form-data - needs to be a class that can be instantiated with 'new'
 vi.mock('form-data', () => {
   class MockFormData {
-    private data: Map<string, unknown> = new Map();
+    readonly entries: Array<[string, unknown]> = [];
 
     append(name: string, value: unknown): void {
-      this.data.set(name, value);
+      this.entries.push([name, value]);
     }
 
     getHeaders(): Record<string, string> {
@@ -102,6 +108,7 @@ import {
   isIdeogramMCPError,
   createMissingApiKeyError,
 } from '../../utils/error.handler.js';
+import { resolveImagePath } from '../../utils/image.file.js';
 
 // =============================================================================
 // Test Utilities
@@ -782,6 +789,122 @@ describe('IdeogramClient', () => {
     });
   });
 
+  // ===========================================================================
+  // Cancellation Tests
+  // ===========================================================================
+
+  describe('cancellation', () => {
+    it('should pass the abort signal to the API request and retry loop', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+      const controller = new AbortController();
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({ prompt: 'Test' }, { signal: controller.signal });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.anything(),
+        expect.objectContaining({ signal: controller.signal })
+      );
+      const { withRetry } = await import('../../utils/retry.js');
+      expect(withRetry).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
+    it('should reject with a CANCELLED error when the request is aborted', async () => {
+      const controller = new AbortController();
+      mockHttpClient.post.mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(createAxiosError('canceled', undefined, undefined, 'ERR_CANCELED'));
+      });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.generate({ prompt: 'Test' }, { signal: controller.signal })
+      ).rejects.toMatchObject({ code: ERROR_CODES.CANCELLED, retryable: false });
+    });
+
+    it('should abort image downloads with the same signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      (axios.get as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+        createAxiosError('canceled', undefined, undefined, 'ERR_CANCELED')
+      );
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.remix(
+          { prompt: 'Remix', image: 'https://example.com/photo.png' },
+          { signal: controller.signal }
+        )
+      ).rejects.toMatchObject({ code: ERROR_CODES.CANCELLED });
+      expect(axios.get).toHaveBeenCalledWith(
+        'https://example.com/photo.png',
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  // ===========================================================================
+  // Progress Reporting Tests
+  // ===========================================================================
+
+  describe('progress reporting', () => {
+    it('should report upload preparation and the API call', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockEditResponse() });
+      const onProgress = vi.fn();
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.edit(
+        { prompt: 'Edit', image: createPngBuffer(), mask: createPngBuffer() },
+        { onProgress }
+      );
+
+      expect(onProgress.mock.calls.map(([message]) => message)).toEqual([
+        'Preparing image upload',
+        'Preparing mask upload',
+        'Sending edit request to the Ideogram API',
+      ]);
+    });
+
+    it('should report each retry attempt', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+      const onProgress = vi.fn();
+      const onRetry = vi.fn();
+
+      const client = new IdeogramClient({
+        apiKey: 'test-key',
+        retryOptions: { maxAttempts: 2, onRetry },
+      });
+      await client.generate({ prompt: 'Test' }, { onProgress });
+
+      const { withRetry } = await import('../../utils/retry.js');
+      const retryOptions = vi.mocked(withRetry).mock.calls[0]?.[1];
+      const error = new Error('Service unavailable');
+      retryOptions?.onRetry?.(error, 1, 1500);
+
+      expect(onProgress).toHaveBeenLastCalledWith(
+        'Retrying generate request in 1500ms (attempt 2 of 3)'
+      );
+      expect(onRetry).toHaveBeenCalledWith(error, 1, 1500);
+    });
+
+    it('should not set a retry callback without a progress callback', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({ prompt: 'Test' });
+
+      const { withRetry } = await import('../../utils/retry.js');
+      expect(vi.mocked(withRetry).mock.calls[0]?.[1]).not.toHaveProperty('onRetry');
+    });
+  });
+
   // ===========================================================================
   // getMaskedApiKey() Tests
   // ===========================================================================
@@ -907,6 +1030,319 @@ describe('IdeogramClient', () => {
     });
   });
 
+  // ===========================================================================
+  // Local File Image Tests
+  // ===========================================================================
+
+  describe('local file images', () => {
+    let allowedDir: string;
+    let outsideDir: string;
+
+    beforeEach(() => {
+      allowedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-allowed-'));
+      outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-outside-'));
+      fs.writeFileSync(path.join(allowedDir, 'photo.jpg'), createJpegBuffer());
+      fs.writeFileSync(path.join(outsideDir, 'secret.jpg'), createJpegBuffer());
+    });
+
+    afterEach(() => {
+      fs.rmSync(allowedDir, { recursive: true, force: true });
+      fs.rmSync(outsideDir, { recursive: true, force: true });
+    });
+
+    function createFileClient(): IdeogramClient {
+      return new IdeogramClient({
+        apiKey: 'test-key',
+        imageFileOptions: { baseDir: allowedDir, allowedDirs: [allowedDir] },
+      });
+    }
+
+    it('should read an image from an absolute path inside an allowed directory', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockEditResponse() });
+
+      await createFileClient().edit({
+        prompt: 'Edit',
+        image: path.join(allowedDir, 'photo.jpg'),
+        mask: createPngBuffer(),
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalled();
+    });
+
+    it('should resolve relative paths against the base directory', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockEditResponse() });
+
+      await createFileClient().edit({
+        prompt: 'Edit',
+        image: 'photo.jpg',
+        mask: createPngBuffer(),
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalled();
+    });
+
+    it('should reject files outside the allowed directories', async () => {
+      await expect(
+        createFileClient().edit({
+          prompt: 'Edit',
+          image: path.join(outsideDir, 'secret.jpg'),
+          mask: createPngBuffer(),
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.IMAGE_PATH_NOT_ALLOWED });
+      await expect(
+        createFileClient().edit({
+          prompt: 'Edit',
+          image: `../${path.basename(outsideDir)}/secret.jpg`,
+          mask: createPngBuffer(),
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.IMAGE_PATH_NOT_ALLOWED });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject symbolic links to files outside the allowed directories', async () => {
+      fs.symlinkSync(path.join(outsideDir, 'secret.jpg'), path.join(allowedDir, 'link.jpg'));
+
+      await expect(
+        createFileClient().edit({ prompt: 'Edit', image: 'link.jpg', mask: createPngBuffer() })
+      ).rejects.toMatchObject({ code: ERROR_CODES.IMAGE_PATH_NOT_ALLOWED });
+    });
+
+    it('should reject missing files and files that are not images', async () => {
+      fs.writeFileSync(path.join(allowedDir, 'notes.png'), 'not an image');
+
+      await expect(
+        createFileClient().edit({ prompt: 'Edit', image: 'missing.png', mask: createPngBuffer() })
+      ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_IMAGE });
+      await expect(
+        createFileClient().edit({ prompt: 'Edit', image: 'notes.png', mask: createPngBuffer() })
+      ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_IMAGE });
+    });
+
+    it('should expand ~ to the home directory', () => {
+      expect(resolveImagePath('~/Pictures/cat.png', allowedDir)).toBe(
+        path.join(os.homedir(), 'Pictures', 'cat.png')
+      );
+      expect(resolveImagePath('cat.png', allowedDir)).toBe(path.join(allowedDir, 'cat.png'));
+    });
+  });
+
+  // ===========================================================================
+  // Style Reference Tests
+  // ===========================================================================
+
+  describe('style references and style codes', () => {
+    /**
+     * Returns the names of the multipart fields sent with the first request
+     */
+    function getFormFieldNames(): string[] {
+      const form = mockHttpClient.post.mock.calls[0]?.[1] as { entries: Array<[string, unknown]> };
+      return form.entries.map(([name]) => name);
+    }
+
+    it('should send style codes in the JSON body without a style type', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({ prompt: 'Test', styleCodes: ['1a2b3c4d'], styleType: 'AUTO' });
+
+      const body = mockHttpClient.post.mock.calls[0]?.[1] as Record<string, unknown>;
+      expect(body['style_codes']).toEqual(['1a2b3c4d']);
+      expect(body).not.toHaveProperty('style_type');
+    });
+
+    it('should upload style reference images as multipart fields', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({
+        prompt: 'Test',
+        styleReferenceImages: [createPngBuffer(), createJpegBuffer()],
+      });
+
+      const fields = getFormFieldNames();
+      expect(fields.filter((name) => name === 'style_reference_images')).toHaveLength(2);
+      expect(fields).toContain('style_type');
+    });
+
+    it('should append style codes to replace background requests', async () => {
+      mockHttpClient.post.mockResolvedValue({ data: createMockEditResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.replaceBackground({
+        image: createPngBuffer(),
+        prompt: 'Beach',
+        styleCodes: ['1a2b3c4d', 'DEADBEEF'],
+      });
+
+      expect(getFormFieldNames().filter((name) => name === 'style_codes')).toHaveLength(2);
+    });
+
+    it('should reject style codes combined with style references or a style type', async () => {
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.generate({
+          prompt: 'Test',
+          styleCodes: ['1a2b3c4d'],
+          styleReferenceImages: [createPngBuffer()],
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR });
+      await expect(
+        client.remix({
+          image: createPngBuffer(),
+          prompt: 'Test',
+          styleCodes: ['1a2b3c4d'],
+          styleType: 'REALISTIC',
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject style reference images above 10MB in total', async () => {
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.edit({
+          prompt: 'Test',
+          image: createPngBuffer(),
+          mask: createPngBuffer(),
+          styleReferenceImages: [
+            createPngBuffer(6 * 1024 * 1024),
+            createPngBuffer(6 * 1024 * 1024),
+          ],
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.IMAGE_TOO_LARGE });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('color palette', () => {
+    it('should send the color palette in the JSON body', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({
+        prompt: 'Test',
+        colorPalette: { members: [{ color_hex: '#FF5733', color_weight: 0.6 }] },
+      });
+
+      const body = mockHttpClient.post.mock.calls[0]?.[1] as Record<string, unknown>;
+      expect(body['color_palette']).toEqual({
+        members: [{ color_hex: '#FF5733', color_weight: 0.6 }],
+      });
+    });
+
+    it('should send the color palette as a JSON multipart field', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.remix({
+        image: createPngBuffer(),
+        prompt: 'Test',
+        colorPalette: { name: 'PASTEL' },
+      });
+
+      const form = mockHttpClient.post.mock.calls[0]?.[1] as { entries: Array<[string, unknown]> };
+      const field = form.entries.find(([name]) => name === 'color_palette');
+      expect(field?.[1]).toBe('{"name":"PASTEL"}');
+    });
+  });
+
+  describe('resolution', () => {
+    it('should send an explicit resolution instead of an aspect ratio', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({ prompt: 'Test', resolution: 'RESOLUTION_1024_576' });
+
+      const body = mockHttpClient.post.mock.calls[0]?.[1] as Record<string, unknown>;
+      expect(body['resolution']).toBe('RESOLUTION_1024_576');
+      expect(body).not.toHaveProperty('aspect_ratio');
+    });
+
+    it('should reject a resolution combined with an aspect ratio', async () => {
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.remix({
+          image: createPngBuffer(),
+          prompt: 'Test',
+          aspectRatio: '16x9',
+          resolution: 'RESOLUTION_1024_576',
+        })
+      ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('legacy models', () => {
+    it('should send legacy generate requests wrapped in image_request', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockGenerateResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.generate({
+        prompt: 'Test',
+        model: 'V_2',
+        aspectRatio: '16x9',
+        styleType: 'RENDER_3D',
+        magicPrompt: 'OFF',
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/generate',
+        {
+          image_request: {
+            prompt: 'Test',
+            model: 'V_2',
+            num_images: 1,
+            magic_prompt_option: 'OFF',
+            style_type: 'RENDER_3D',
+            aspect_ratio: 'ASPECT_16_9',
+          },
+        },
+        expect.anything()
+      );
+    });
+
+    it('should send legacy edit requests as multipart fields', async () => {
+      mockHttpClient.post.mockResolvedValueOnce({ data: createMockEditResponse() });
+
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+      await client.edit({
+        prompt: 'Test',
+        image: createPngBuffer(),
+        mask: createPngBuffer(),
+        model: 'V_2_TURBO',
+        styleType: 'ANIME',
+      });
+
+      expect(mockHttpClient.post.mock.calls[0]?.[0]).toBe('/edit');
+      const form = mockHttpClient.post.mock.calls[0]?.[1] as { entries: Array<[string, unknown]> };
+      const fields = Object.fromEntries(form.entries);
+      expect(Object.keys(fields)).toEqual(
+        expect.arrayContaining(['image_file', 'mask', 'prompt', 'magic_prompt_option'])
+      );
+      expect(fields['model']).toBe('V_2_TURBO');
+      expect(fields['style_type']).toBe('ANIME');
+      expect(fields).not.toHaveProperty('rendering_speed');
+    });
+
+    it('should reject options the target model does not support', async () => {
+      const client = new IdeogramClient({ apiKey: 'test-key' });
+
+      await expect(
+        client.generate({ prompt: 'Test', model: 'V_2', styleCodes: ['1a2b3c4d'] })
+      ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR });
+      await expect(
+        client.generate({ prompt: 'Test', model: 'V_2', aspectRatio: '4x5' })
+      ).rejects.toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR });
+      await expect(client.generate({ prompt: 'Test', styleType: 'ANIME' })).rejects.toMatchObject({
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
   // ===========================================================================
   // URL Image Download Tests
   // ===========================================================================
@@ -1182,7 +1618,7 @@ describe('IdeogramClient', () => {
       const client = new IdeogramClient({ apiKey: 'test-key' });
       const result = await client.reframe({
         image: createPngBuffer(),
-        resolution: 'RESOLUTION_1920_1080',
+        resolution: 'RESOLUTION_1024_576',
         numImages: 2,
       });
 
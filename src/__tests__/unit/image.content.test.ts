@@ -0,0 +1,327 @@
+/**
+ * Unit Tests for Image Content
+ *
+ * This file contains unit tests for:
+ * - src/utils/image.ts - Image type detection, PNG codec, and thumbnails
+ * - src/services/image.content.ts - MCP image content blocks for tool results
+ *
+ * Tests cover:
+ * - Detecting PNG, JPEG, and WebP images from magic numbers
+ * - PNG round trips and decoding of all row filters
+ * - Downscaling to the maximum dimension while keeping the aspect ratio
+ * - Reading saved images and downloading image URLs
+ * - Omitting images that exceed the size cap or cannot be read
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { deflateSync } from 'zlib';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: false,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+    imageContentEnabled: true,
+    imageContentMaxDimension: 512,
+    imageContentMaxBytes: 1024 * 1024,
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+}));
+
+// Mock axios so image URLs are never fetched
+const mockAxiosGet = vi.fn();
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn((...args: unknown[]) => mockAxiosGet(...args) as unknown),
+  },
+}));
+
+// Now import the modules that depend on the mocks
+import {
+  createPngThumbnail,
+  decodePng,
+  detectImageMimeType,
+  downscaleImage,
+  encodePng,
+  type RawImage,
+} from '../../utils/image.js';
+import { createImageContentService } from '../../services/image.content.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates an RGB test image with a horizontal gradient
+ */
+function createImage(width: number, height: number): RawImage {
+  const data = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 3;
+      data[offset] = (x * 255) / Math.max(1, width - 1);
+      data[offset + 1] = (y * 255) / Math.max(1, height - 1);
+      data[offset + 2] = 128;
+    }
+  }
+  return { width, height, channels: 3, data };
+}
+
+/**
+ * Applies a PNG row filter (0 None, 1 Sub, 2 Up, 3 Average, 4 Paeth)
+ */
+function filterRow(
+  type: number,
+  row: Buffer,
+  previous: Buffer | undefined,
+  channels: number
+): Buffer {
+  const filtered = Buffer.alloc(row.length + 1);
+  filtered[0] = type;
+  for (let x = 0; x < row.length; x++) {
+    const left = x >= channels ? (row[x - channels] ?? 0) : 0;
+    const up = previous?.[x] ?? 0;
+    const upLeft = x >= channels ? (previous?.[x - channels] ?? 0) : 0;
+    const estimate = left + up - upLeft;
+    const paeth = [left, up, upLeft].sort(
+      (a, b) => Math.abs(estimate - a) - Math.abs(estimate - b)
+    )[0];
+    const predictor = [0, left, up, (left + up) >> 1, paeth ?? 0][type] ?? 0;
+    filtered[x + 1] = ((row[x] ?? 0) - predictor) & 0xff;
+  }
+  return filtered;
+}
+
+/**
+ * Builds a PNG file from filtered scanlines (chunk CRCs are not checked)
+ */
+function createPng(image: RawImage, scanlines: Buffer): Buffer {
+  const chunk = (type: string, data: Buffer): Buffer => {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, 'ascii');
+    return Buffer.concat([header, data, Buffer.alloc(4)]);
+  };
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(image.width, 0);
+  ihdr.writeUInt32BE(image.height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 2; // RGB
+  return Buffer.concat([
+    encodePng(image).subarray(0, 8),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(scanlines)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Reads the dimensions from the IHDR chunk of a PNG
+ */
+function getPngSize(buffer: Buffer): { width: number; height: number } {
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+// =============================================================================
+// Image Utility Tests
+// =============================================================================
+
+describe('Image Utilities', () => {
+  describe('detectImageMimeType', () => {
+    it('should detect PNG, JPEG, and WebP images', () => {
+      expect(detectImageMimeType(encodePng(createImage(2, 2)))).toBe('image/png');
+      expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(detectImageMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'ascii'))).toBe('image/webp');
+    });
+
+    it('should return undefined for unknown data', () => {
+      expect(detectImageMimeType(Buffer.from('not an image'))).toBeUndefined();
+    });
+  });
+
+  describe('PNG codec', () => {
+    it('should decode an encoded image unchanged', () => {
+      const image = createImage(7, 5);
+
+      const decoded = decodePng(encodePng(image));
+
+      expect(decoded).toEqual(image);
+    });
+
+    it('should decode rows using every filter type', () => {
+      const image = createImage(6, 10);
+      const stride = image.width * image.channels;
+      const scanlines: Buffer[] = [];
+      for (let y = 0; y < image.height; y++) {
+        const row = image.data.subarray(y * stride, (y + 1) * stride);
+        const previous = y > 0 ? image.data.subarray((y - 1) * stride, y * stride) : undefined;
+        scanlines.push(filterRow(y % 5, row, previous, image.channels));
+      }
+
+      const decoded = decodePng(createPng(image, Buffer.concat(scanlines)));
+
+      expect(decoded).toEqual(image);
+    });
+
+    it('should return null for data that is not a supported PNG', () => {
+      expect(decodePng(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBeNull();
+
+      const png = encodePng(createImage(2, 2));
+      png[24] = 16; // 16-bit samples
+      expect(decodePng(png)).toBeNull();
+    });
+  });
+
+  describe('downscaleImage', () => {
+    it('should fit the longest side to the maximum dimension', () => {
+      const resized = downscaleImage(createImage(400, 200), 100);
+
+      expect(resized.width).toBe(100);
+      expect(resized.height).toBe(50);
+      expect(resized.data).toHaveLength(100 * 50 * 3);
+    });
+
+    it('should average the covered source pixels', () => {
+      const image: RawImage = {
+        width: 2,
+        height: 2,
+        channels: 1,
+        data: Buffer.from([0, 100, 200, 100]),
+      };
+
+      expect(downscaleImage(image, 1).data).toEqual(Buffer.from([100]));
+    });
+
+    it('should return images that already fit unchanged', () => {
+      const image = createImage(50, 40);
+
+      expect(downscaleImage(image, 100)).toBe(image);
+    });
+  });
+
+  describe('createPngThumbnail', () => {
+    it('should downscale large PNG images', () => {
+      const thumbnail = createPngThumbnail(encodePng(createImage(300, 150)), 64);
+
+      expect(thumbnail).not.toBeNull();
+      expect(getPngSize(thumbnail as Buffer)).toEqual({ width: 64, height: 32 });
+    });
+
+    it('should return small PNG images as-is', () => {
+      const png = encodePng(createImage(32, 32));
+
+      expect(createPngThumbnail(png, 64)).toBe(png);
+    });
+  });
+});
+
+// =============================================================================
+// ImageContentService Tests
+// =============================================================================
+
+describe('ImageContentService', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-image-content-'));
+    mockAxiosGet.mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes a PNG image into the temporary directory
+   */
+  function writeImage(name: string, image: RawImage): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, encodePng(image));
+    return filePath;
+  }
+
+  it('should create thumbnails from saved images', async () => {
+    const service = createImageContentService({ maxDimension: 64 });
+    const localPath = writeImage('saved.png', createImage(256, 128));
+
+    const blocks = await service.createImageContent([
+      {
+        url: 'https://ideogram.ai/api/images/saved.png',
+        local_path: localPath,
+        seed: 1,
+        is_image_safe: true,
+      },
+    ]);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    const thumbnail = Buffer.from(blocks[0]?.data ?? '', 'base64');
+    expect(getPngSize(thumbnail)).toEqual({ width: 64, height: 32 });
+    expect(mockAxiosGet).not.toHaveBeenCalled();
+  });
+
+  it('should download images without a readable saved file', async () => {
+    const service = createImageContentService({ maxDimension: 64 });
+    mockAxiosGet.mockResolvedValue({ data: encodePng(createImage(16, 16)) });
+
+    const blocks = await service.createImageContent([
+      {
+        url: 'https://ideogram.ai/api/images/remote.png',
+        local_path: path.join(tempDir, 'missing.png'),
+        seed: 1,
+        is_image_safe: true,
+      },
+    ]);
+
+    expect(mockAxiosGet).toHaveBeenCalledWith(
+      'https://ideogram.ai/api/images/remote.png',
+      expect.objectContaining({ responseType: 'arraybuffer' })
+    );
+    expect(blocks).toHaveLength(1);
+  });
+
+  it('should omit images that exceed the size cap or cannot be read', async () => {
+    const service = createImageContentService({ maxDimension: 512, maxBytes: 200 });
+    const large = writeImage('large.png', createImage(128, 128));
+    const small = writeImage('small.png', { ...createImage(2, 2), data: Buffer.alloc(12) });
+    mockAxiosGet.mockRejectedValue(new Error('Request failed with status code 403'));
+
+    const blocks = await service.createImageContent([
+      { url: 'https://example.com/large.png', local_path: large, seed: 1, is_image_safe: true },
+      { url: 'https://example.com/expired.png', seed: 2, is_image_safe: true },
+      { url: 'https://example.com/small.png', local_path: small, seed: 3, is_image_safe: true },
+    ]);
+
+    expect(blocks).toHaveLength(1);
+    expect(Buffer.from(blocks[0]?.data ?? '', 'base64')).toEqual(fs.readFileSync(small));
+  });
+
+  it('should create no image content when disabled', async () => {
+    const service = createImageContentService({ enabled: false });
+    const localPath = writeImage('saved.png', createImage(8, 8));
+
+    const blocks = await service.createImageContent([
+      { url: 'https://example.com/saved.png', local_path: localPath, seed: 1, is_image_safe: true },
+    ]);
+
+    expect(service.isEnabled()).toBe(false);
+    expect(blocks).toEqual([]);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Unit Tests for Prediction Persistence
+ *
+ * This file contains unit tests for:
+ * - src/services/prediction.persistence.ts - JSON-lines persistence backend
+ * - PredictionStore restore behavior with a persistence backend
+ *
+ * Tests cover:
+ * - Replaying put/delete records and skipping malformed lines
+ * - Compaction of superseded records
+ * - Storing inline request images outside the JSON-lines file
+ * - Skipping progress-only updates
+ * - Restoring predictions across store instances
+ * - Re-queueing queued and interrupted (processing) predictions
+ * - Rebuilding batches from their restored predictions
+ * - Expiring restored predictions whose deadline passed
+ * - Applying cleanupAgeMs to restored predictions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: false,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+}));
+
+// Now import the modules that depend on the mocks
+import {
+  JsonlPredictionPersistence,
+  createJsonlPredictionPersistence,
+} from '../../services/prediction.persistence.js';
+import {
+  createPredictionStore,
+  type PredictionProcessorResult,
+} from '../../services/prediction.store.js';
+import type { Prediction } from '../../types/api.types.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a mock processor result
+ */
+function createMockResult(): PredictionProcessorResult {
+  return {
+    response: {
+      created: new Date().toISOString(),
+      data: [
+        {
+          url: 'https://ideogram.ai/api/images/test-image-0.png',
+          prompt: 'test prompt',
+          resolution: '1024x1024',
+          is_image_safe: true,
+          seed: 12345,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Creates a persisted prediction record
+ */
+function createPrediction(overrides: Partial<Prediction> = {}): Prediction {
+  return {
+    id: 'pred_test',
+    status: 'queued',
+    type: 'generate',
+    request: { prompt: 'test' },
+    created_at: new Date().toISOString(),
+    ...overrides,
+  } as Prediction;
+}
+
+/**
+ * Flushes pending microtasks so worker slots can be handed over
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+// =============================================================================
+// JsonlPredictionPersistence Tests
+// =============================================================================
+
+describe('JsonlPredictionPersistence', () => {
+  let tempDir: string;
+  let filePath: string;
+  let persistence: JsonlPredictionPersistence;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-persistence-'));
+    filePath = path.join(tempDir, 'nested', 'predictions.jsonl');
+    persistence = createJsonlPredictionPersistence({ filePath });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return no predictions when the file does not exist', () => {
+    expect(persistence.load()).toEqual([]);
+  });
+
+  it('should replay the latest state of each prediction', () => {
+    persistence.save(createPrediction({ id: 'pred_a', status: 'queued' }));
+    persistence.save(createPrediction({ id: 'pred_b', status: 'queued' }));
+    persistence.save(createPrediction({ id: 'pred_a', status: 'completed' }));
+    persistence.remove('pred_b');
+
+    const loaded = createJsonlPredictionPersistence({ filePath }).load();
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0]).toMatchObject({ id: 'pred_a', status: 'completed' });
+  });
+
+  it('should skip malformed lines', () => {
+    persistence.save(createPrediction({ id: 'pred_a' }));
+    fs.appendFileSync(filePath, '{"op":"put","predic\nnot json\n');
+
+    expect(persistence.load().map((p) => p.id)).toEqual(['pred_a']);
+  });
+
+  it('should compact superseded records once the threshold is reached', () => {
+    const compacting = createJsonlPredictionPersistence({ filePath, compactThreshold: 3 });
+    compacting.save(createPrediction({ id: 'pred_a', progress: 0 }));
+    compacting.save(createPrediction({ id: 'pred_a', progress: 50 }));
+    compacting.save(createPrediction({ id: 'pred_a', progress: 90 }));
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(compacting.load()[0]?.progress).toBe(90);
+  });
+
+  it('should store inline request images outside the file', () => {
+    const image = `data:image/png;base64,${'A'.repeat(4096)}`;
+    const prediction = createPrediction({
+      id: 'pred_image',
+      type: 'edit',
+      request: { prompt: 'edit', image, mask: image, style_reference_images: [image] },
+    } as Partial<Prediction>);
+    persistence.save(prediction);
+    persistence.save({ ...prediction, status: 'processing' });
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    expect(content).not.toContain('base64');
+    expect(content).toContain('persisted-image:');
+    expect(fs.readdirSync(path.join(tempDir, 'nested', 'request-images'))).toHaveLength(1);
+
+    const loaded = createJsonlPredictionPersistence({ filePath }).load();
+    expect(loaded[0]?.request).toEqual({
+      prompt: 'edit',
+      image,
+      mask: image,
+      style_reference_images: [image],
+    });
+  });
+
+  it('should delete stored images that are no longer referenced when compacting', () => {
+    const image = `data:image/png;base64,${'B'.repeat(64)}`;
+    persistence.save(
+      createPrediction({
+        id: 'pred_image',
+        type: 'upscale',
+        request: { image },
+      } as Partial<Prediction>)
+    );
+    persistence.remove('pred_image');
+    persistence.compact([]);
+
+    expect(fs.readdirSync(path.join(tempDir, 'nested', 'request-images'))).toEqual([]);
+  });
+});
+
+// =============================================================================
+// PredictionStore Restore Tests
+// =============================================================================
+
+describe('PredictionStore with persistence', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-persistence-'));
+    filePath = path.join(tempDir, 'predictions.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Creates a store backed by the temporary persistence file
+   */
+  function createPersistentStore(cleanupAgeMs?: number) {
+    const options: Parameters<typeof createPredictionStore>[0] = {
+      enableAutoCleanup: false,
+      persistence: createJsonlPredictionPersistence({ filePath }),
+    };
+    if (cleanupAgeMs !== undefined) {
+      options.cleanupAgeMs = cleanupAgeMs;
+    }
+    return createPredictionStore(options);
+  }
+
+  it('should restore predictions created by a previous store', () => {
+    const first = createPersistentStore();
+    const prediction = first.create({ request: { prompt: 'persist me' }, type: 'generate' });
+    first.markProcessing(prediction.id);
+    first.markCompleted(prediction.id, createMockResult().response);
+    first.dispose();
+
+    const second = createPersistentStore();
+
+    expect(second.get(prediction.id)).toMatchObject({
+      status: 'completed',
+      request: { prompt: 'persist me' },
+    });
+    second.dispose();
+  });
+
+  it('should re-queue queued and interrupted predictions and process them', async () => {
+    const first = createPersistentStore();
+    const queued = first.create({ request: { prompt: 'queued' }, type: 'generate' });
+    const interrupted = first.create({ request: { prompt: 'interrupted' }, type: 'generate' });
+    first.markProcessing(interrupted.id);
+    first.dispose();
+
+    const second = createPersistentStore();
+    expect(second.get(queued.id)?.status).toBe('queued');
+    expect(second.get(interrupted.id)).toMatchObject({ status: 'queued', progress: 0 });
+    expect(second.get(interrupted.id)?.started_at).toBeUndefined();
+
+    const processor = vi.fn().mockResolvedValue(createMockResult());
+    second.setProcessor(processor);
+    await flush();
+
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(second.get(queued.id)?.status).toBe('completed');
+    expect(second.get(interrupted.id)?.status).toBe('completed');
+    second.dispose();
+  });
+
+  it('should expire restored queued predictions whose deadline passed', () => {
+    createJsonlPredictionPersistence({ filePath }).save(
+      createPrediction({
+        id: 'pred_late',
+        deadline_at: new Date(Date.now() - 1000).toISOString(),
+      })
+    );
+
+    const store = createPersistentStore();
+
+    expect(store.get('pred_late')).toMatchObject({
+      status: 'failed',
+      error: { code: 'PREDICTION_EXPIRED' },
+    });
+    store.dispose();
+  });
+
+  it('should rebuild batches from restored predictions', () => {
+    const first = createPersistentStore();
+    const batch = first.createBatch([
+      { request: { prompt: 'job 1' }, type: 'generate' },
+      { request: { prompt: 'job 2' }, type: 'generate' },
+    ]);
+    first.dispose();
+
+    const second = createPersistentStore();
+
+    expect(second.getBatch(batch.id)?.prediction_ids).toEqual(batch.prediction_ids);
+    expect(second.getBatchPredictions(batch.id).map((p) => p.request.prompt)).toEqual([
+      'job 1',
+      'job 2',
+    ]);
+    second.dispose();
+  });
+
+  it('should drop restored predictions older than cleanupAgeMs', () => {
+    const old = createPrediction({
+      id: 'pred_old',
+      status: 'completed',
+      completed_at: new Date(Date.now() - 60_000).toISOString(),
+    });
+    createJsonlPredictionPersistence({ filePath }).save(old);
+
+    const store = createPersistentStore(1000);
+
+    expect(store.has('pred_old')).toBe(false);
+    expect(createJsonlPredictionPersistence({ filePath }).load()).toEqual([]);
+    store.dispose();
+  });
+
+  it('should not persist progress-only updates', () => {
+    const persistence = createJsonlPredictionPersistence({ filePath });
+    const save = vi.spyOn(persistence, 'save');
+    const store = createPredictionStore({ enableAutoCleanup: false, persistence });
+    const prediction = store.create({ request: { prompt: 'progress' }, type: 'generate' });
+    store.markProcessing(prediction.id);
+    const saves = save.mock.calls.length;
+
+    store.update(prediction.id, { progress: 40, etaSeconds: 10 });
+    expect(save).toHaveBeenCalledTimes(saves);
+
+    store.markCompleted(prediction.id, createMockResult().response);
+    expect(save).toHaveBeenCalledTimes(saves + 1);
+    store.dispose();
+  });
+
+  it('should remove deleted predictions from the file', () => {
+    const first = createPersistentStore();
+    const prediction = first.create({ request: { prompt: 'delete me' }, type: 'generate' });
+    first.delete(prediction.id);
+    first.dispose();
+
+    const second = createPersistentStore();
+
+    expect(second.has(prediction.id)).toBe(false);
+    second.dispose();
+  });
+});
@@ -0,0 +1,838 @@
+/**
+ * Unit Tests for Prediction Store
+ *
+ * This file contains unit tests for:
+ * - src/services/prediction.store.ts - Local async job queue
+ *
+ * Tests cover:
+ * - Prediction lifecycle (create, process, complete, fail)
+ * - Concurrent worker pool limited by maxConcurrency
+ * - Priority and FIFO dispatch order of queued predictions
+ * - Deadlines that expire queued predictions instead of running them late
+ * - Automatic and manual retries with attempt history
+ * - Batches of predictions created and tracked together
+ * - Worker slot accounting in store statistics
+ * - Status change listeners
+ * - Cancellation of queued and running predictions (AbortSignal)
+ * - Filtered queries with cursor pagination
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: false,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+}));
+
+// Now import the modules that depend on the mocks
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionProcessorResult,
+} from '../../services/prediction.store.js';
+import type { Prediction } from '../../types/api.types.js';
+import { createRateLimitError } from '../../utils/error.handler.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a mock processor result
+ */
+function createMockResult(): PredictionProcessorResult {
+  return {
+    response: {
+      created: new Date().toISOString(),
+      data: [
+        {
+          url: 'https://ideogram.ai/api/images/test-image-0.png',
+          prompt: 'test prompt',
+          resolution: '1024x1024',
+          is_image_safe: true,
+          seed: 12345,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Creates a processor whose jobs stay in flight until released by the test
+ */
+function createControllableProcessor() {
+  const started: string[] = [];
+  const pending = new Map<string, () => void>();
+
+  const processor = vi.fn(
+    (prediction: Prediction) =>
+      new Promise<PredictionProcessorResult>((resolve) => {
+        started.push(prediction.request.prompt);
+        pending.set(prediction.id, () => resolve(createMockResult()));
+      })
+  );
+
+  const release = (id: string): void => {
+    pending.get(id)?.();
+    pending.delete(id);
+  };
+
+  return { processor, started, release };
+}
+
+/**
+ * Flushes pending microtasks so worker slots can be handed over
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+// =============================================================================
+// PredictionStore Tests
+// =============================================================================
+
+describe('PredictionStore', () => {
+  let store: PredictionStore;
+
+  afterEach(() => {
+    store.dispose();
+  });
+
+  // ===========================================================================
+  // Worker Pool Tests
+  // ===========================================================================
+
+  describe('worker pool', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false, maxConcurrency: 2 });
+    });
+
+    it('should process up to maxConcurrency predictions in parallel', () => {
+      const { processor, started } = createControllableProcessor();
+      store.setProcessor(processor);
+
+      store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.create({ request: { prompt: 'job 2' }, type: 'generate' });
+      store.create({ request: { prompt: 'job 3' }, type: 'generate' });
+
+      expect(started).toEqual(['job 1', 'job 2']);
+      expect(store.getProcessingCount()).toBe(2);
+      expect(store.getQueuedCount()).toBe(1);
+    });
+
+    it('should hand a freed slot to the oldest queued prediction', async () => {
+      const { processor, started, release } = createControllableProcessor();
+      const first = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.create({ request: { prompt: 'job 2' }, type: 'generate' });
+      store.create({ request: { prompt: 'job 3' }, type: 'generate' });
+      store.create({ request: { prompt: 'job 4' }, type: 'generate' });
+      store.setProcessor(processor);
+
+      release(first.id);
+      await flush();
+
+      expect(store.get(first.id)?.status).toBe('completed');
+      expect(started).toEqual(['job 1', 'job 2', 'job 3']);
+      expect(store.getQueuedCount()).toBe(1);
+    });
+
+    it('should release the slot when a prediction fails', async () => {
+      const processor = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValue(createMockResult());
+      store.setProcessor(processor);
+
+      const failed = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      const next = store.create({ request: { prompt: 'job 2' }, type: 'generate' });
+      await flush();
+
+      expect(store.get(failed.id)?.status).toBe('failed');
+      expect(store.get(next.id)?.status).toBe('completed');
+      expect(store.getStats().activeWorkers).toBe(0);
+    });
+
+    it('should default maxConcurrency to config.maxConcurrentRequests', () => {
+      const defaultStore = createPredictionStore({ enableAutoCleanup: false });
+
+      expect(defaultStore.getStats().maxConcurrency).toBe(3);
+      defaultStore.dispose();
+    });
+  });
+
+  // ===========================================================================
+  // Cancellation Tests
+  // ===========================================================================
+
+  describe('cancel', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false });
+    });
+
+    /**
+     * Creates a processor that stays in flight until its signal is aborted
+     */
+    function createAbortableProcessor() {
+      const signals: AbortSignal[] = [];
+      const processor = vi.fn(
+        (_prediction: Prediction, signal: AbortSignal) =>
+          new Promise<PredictionProcessorResult>((_resolve, reject) => {
+            signals.push(signal);
+            signal.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+      return { processor, signals };
+    }
+
+    it('should cancel a queued prediction without processing it', () => {
+      const prediction = store.create({ request: { prompt: 'queued' }, type: 'generate' });
+
+      const result = store.cancel(prediction.id);
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'cancelled',
+        previousStatus: 'queued',
+      });
+      expect(store.get(prediction.id)?.status).toBe('cancelled');
+    });
+
+    it('should abort a running prediction and end it as cancelled', async () => {
+      const { processor, signals } = createAbortableProcessor();
+      store.setProcessor(processor);
+      const prediction = store.create({ request: { prompt: 'running' }, type: 'generate' });
+      expect(store.get(prediction.id)?.status).toBe('processing');
+
+      const result = store.cancel(prediction.id);
+      await flush();
+
+      expect(result).toMatchObject({
+        success: true,
+        status: 'cancelled',
+        previousStatus: 'processing',
+      });
+      expect(signals[0]?.aborted).toBe(true);
+      expect(store.get(prediction.id)?.status).toBe('cancelled');
+      expect(store.get(prediction.id)?.error).toBeUndefined();
+      expect(store.getStats().activeWorkers).toBe(0);
+    });
+
+    it('should ignore the result of a processor that finishes after being aborted', async () => {
+      let finish: (() => void) | undefined;
+      store.setProcessor(
+        () =>
+          new Promise<PredictionProcessorResult>((resolve) => {
+            finish = () => resolve(createMockResult());
+          })
+      );
+      const prediction = store.create({ request: { prompt: 'running' }, type: 'generate' });
+
+      store.cancel(prediction.id);
+      finish?.();
+      await flush();
+
+      expect(store.get(prediction.id)?.status).toBe('cancelled');
+      expect(store.get(prediction.id)?.result).toBeUndefined();
+    });
+
+    it('should not cancel a processing prediction that is not running on a worker', () => {
+      const prediction = store.create({ request: { prompt: 'external' }, type: 'generate' });
+      store.markProcessing(prediction.id);
+
+      const result = store.cancel(prediction.id);
+
+      expect(result).toMatchObject({ success: false, status: 'processing' });
+      expect(store.get(prediction.id)?.status).toBe('processing');
+    });
+
+    it('should abort running predictions when disposed', () => {
+      const { processor, signals } = createAbortableProcessor();
+      store.setProcessor(processor);
+      store.create({ request: { prompt: 'running' }, type: 'generate' });
+
+      store.dispose();
+
+      expect(signals[0]?.aborted).toBe(true);
+    });
+  });
+
+  // ===========================================================================
+  // Scheduling Tests
+  // ===========================================================================
+
+  describe('priority scheduling', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false, maxConcurrency: 1 });
+    });
+
+    it('should start higher priority predictions first, oldest first within a priority', async () => {
+      const { processor, started, release } = createControllableProcessor();
+      store.setProcessor(processor);
+
+      const running = store.create({ request: { prompt: 'running' }, type: 'generate' });
+      const low = store.create({ request: { prompt: 'low' }, type: 'generate', priority: 'low' });
+      const normal = store.create({ request: { prompt: 'normal' }, type: 'generate' });
+      const high = store.create({
+        request: { prompt: 'high' },
+        type: 'generate',
+        priority: 'high',
+      });
+
+      for (const id of [running.id, high.id, normal.id, low.id]) {
+        release(id);
+        await flush();
+      }
+
+      expect(started).toEqual(['running', 'high', 'normal', 'low']);
+    });
+
+    it('should report 1-based queue positions in scheduling order', () => {
+      const normal = store.create({ request: { prompt: 'normal' }, type: 'generate' });
+      const high = store.create({
+        request: { prompt: 'high' },
+        type: 'generate',
+        priority: 'high',
+      });
+      const cancelled = store.create({ request: { prompt: 'cancelled' }, type: 'generate' });
+      store.cancel(cancelled.id);
+
+      expect(normal.priority).toBe('normal');
+      expect(store.getQueuePosition(high.id)).toBe(1);
+      expect(store.getQueuePosition(normal.id)).toBe(2);
+      expect(store.getQueuePosition(cancelled.id)).toBeUndefined();
+      expect(store.getNextQueued()?.id).toBe(high.id);
+    });
+  });
+
+  describe('deadlines', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      store = createPredictionStore({ enableAutoCleanup: false, maxConcurrency: 1 });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should fail a queued prediction once its deadline passes', () => {
+      const prediction = store.create({
+        request: { prompt: 'job 1' },
+        type: 'generate',
+        deadlineSeconds: 5,
+      });
+      expect(prediction.deadline_at).toBe(new Date(Date.now() + 5000).toISOString());
+
+      vi.advanceTimersByTime(4999);
+      expect(store.get(prediction.id)?.status).toBe('queued');
+
+      vi.advanceTimersByTime(1);
+      expect(store.get(prediction.id)).toMatchObject({
+        status: 'failed',
+        error: { code: 'PREDICTION_EXPIRED', retryable: false },
+      });
+    });
+
+    it('should not start a prediction whose deadline has passed', () => {
+      const processor = vi.fn().mockResolvedValue(createMockResult());
+      const expired = store.create({
+        request: { prompt: 'job 1' },
+        type: 'generate',
+        deadlineSeconds: 5,
+      });
+      const next = store.create({ request: { prompt: 'job 2' }, type: 'generate' });
+
+      // Move the clock without firing the deadline timer
+      vi.setSystemTime(Date.now() + 10_000);
+      store.setProcessor(processor);
+
+      expect(store.get(expired.id)?.error?.code).toBe('PREDICTION_EXPIRED');
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect(processor).toHaveBeenCalledWith(
+        expect.objectContaining({ id: next.id }),
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should not expire a prediction that started before its deadline', () => {
+      const { processor } = createControllableProcessor();
+      store.setProcessor(processor);
+
+      const prediction = store.create({
+        request: { prompt: 'job 1' },
+        type: 'generate',
+        deadlineSeconds: 5,
+      });
+      vi.advanceTimersByTime(10_000);
+
+      expect(store.get(prediction.id)?.status).toBe('processing');
+    });
+  });
+
+  // ===========================================================================
+  // Retry Tests
+  // ===========================================================================
+
+  describe('retry', () => {
+    beforeEach(() => {
+      store = createPredictionStore({
+        enableAutoCleanup: false,
+        maxConcurrency: 1,
+        maxAutoRetries: 2,
+        autoRetryDelayMs: 0,
+      });
+    });
+
+    it('should automatically retry retryable failures and record each attempt', async () => {
+      const processor = vi
+        .fn()
+        .mockRejectedValueOnce(createRateLimitError())
+        .mockResolvedValueOnce(createMockResult());
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1', seed: 7 }, type: 'generate' });
+      await vi.waitFor(() => {
+        expect(store.get(prediction.id)?.status).toBe('completed');
+      });
+
+      expect(processor).toHaveBeenCalledTimes(2);
+      expect(store.get(prediction.id)?.attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          status: 'failed',
+          seed: 7,
+          retry: 'automatic',
+          error: expect.objectContaining({ code: 'RATE_LIMITED', retryable: true }),
+        }),
+      ]);
+      expect(store.getStats().activeWorkers).toBe(0);
+    });
+
+    it('should back off before each automatic retry and record when it was scheduled', async () => {
+      vi.useFakeTimers();
+      // No jitter: the retries start exactly 1s and 2s after the failures
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      try {
+        store.dispose();
+        store = createPredictionStore({
+          enableAutoCleanup: false,
+          maxConcurrency: 1,
+          maxAutoRetries: 2,
+          autoRetryDelayMs: 1000,
+        });
+        const processor = vi.fn().mockRejectedValue(createRateLimitError());
+        store.setProcessor(processor);
+
+        const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(processor).toHaveBeenCalledTimes(1);
+        const retryAt = store.get(prediction.id)?.retry_at;
+        expect(store.get(prediction.id)).toMatchObject({ status: 'queued' });
+        expect(store.get(prediction.id)?.attempts?.[0]?.retry_at).toBe(retryAt);
+        expect(store.getNextQueued()).toBeUndefined();
+        await vi.advanceTimersByTimeAsync(999);
+        expect(processor).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(processor).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(processor).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(processor).toHaveBeenCalledTimes(3);
+        expect(store.get(prediction.id)?.status).toBe('failed');
+      } finally {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+      }
+    });
+
+    it('should mark the prediction failed once the automatic retries are used up', async () => {
+      const processor = vi.fn().mockRejectedValue(createRateLimitError());
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      await vi.waitFor(() => {
+        expect(store.get(prediction.id)?.status).toBe('failed');
+      });
+
+      expect(processor).toHaveBeenCalledTimes(3);
+      expect(store.get(prediction.id)?.attempts).toHaveLength(2);
+      expect(store.get(prediction.id)?.error?.code).toBe('RATE_LIMITED');
+    });
+
+    it('should not automatically retry non-retryable failures', async () => {
+      const processor = vi.fn().mockRejectedValue(new Error('boom'));
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      await flush();
+
+      expect(processor).toHaveBeenCalledTimes(1);
+      expect(store.get(prediction.id)?.status).toBe('failed');
+      expect(store.get(prediction.id)?.attempts).toBeUndefined();
+    });
+
+    it('should re-queue a failed prediction with a new seed', async () => {
+      const processor = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(createMockResult());
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1', seed: 7 }, type: 'generate' });
+      await flush();
+
+      const result = store.retry(prediction.id, { seed: 42 });
+      expect(result).toMatchObject({
+        success: true,
+        status: 'queued',
+        previousStatus: 'failed',
+        attempt: 2,
+      });
+      await flush();
+
+      const retried = store.get(prediction.id);
+      expect(retried?.status).toBe('completed');
+      expect(retried?.request.seed).toBe(42);
+      expect(retried?.error).toBeUndefined();
+      expect(retried?.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, status: 'failed', seed: 7, retry: 'manual' }),
+      ]);
+    });
+
+    it('should restart the automatic retry budget after a manual retry', async () => {
+      const processor = vi.fn().mockRejectedValue(createRateLimitError());
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      await vi.waitFor(() => {
+        expect(store.get(prediction.id)?.status).toBe('failed');
+      });
+
+      store.retry(prediction.id);
+      await vi.waitFor(() => {
+        expect(store.get(prediction.id)?.status).toBe('failed');
+      });
+
+      expect(processor).toHaveBeenCalledTimes(6);
+      expect(store.get(prediction.id)?.attempts?.map((a) => a.retry)).toEqual([
+        'automatic',
+        'automatic',
+        'manual',
+        'automatic',
+        'automatic',
+      ]);
+    });
+
+    it('should wait for an aborted run to finish before running the retry', async () => {
+      const { processor, started, release } = createControllableProcessor();
+      store.dispose();
+      store = createPredictionStore({ enableAutoCleanup: false, maxConcurrency: 2 });
+      store.setProcessor(processor);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.cancel(prediction.id);
+      store.retry(prediction.id);
+
+      expect(started).toEqual(['job 1']);
+      expect(store.get(prediction.id)?.status).toBe('queued');
+
+      release(prediction.id);
+      await flush();
+
+      expect(started).toEqual(['job 1', 'job 1']);
+      expect(store.get(prediction.id)?.status).toBe('processing');
+    });
+
+    it('should refuse to retry predictions that are pending or completed', () => {
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+
+      expect(store.retry(prediction.id)).toMatchObject({
+        success: false,
+        status: 'queued',
+        attempt: 1,
+      });
+
+      store.markCompleted(prediction.id, createMockResult().response);
+      expect(store.retry(prediction.id)).toMatchObject({
+        success: false,
+        status: 'completed',
+        message: 'Prediction has already completed',
+      });
+    });
+  });
+
+  // ===========================================================================
+  // Batch Tests
+  // ===========================================================================
+
+  describe('batches', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false, maxQueueSize: 3 });
+    });
+
+    it('should queue every prediction of a batch in submission order', () => {
+      const batch = store.createBatch([
+        { request: { prompt: 'job 1' }, type: 'generate', priority: 'high' },
+        { request: { prompt: 'job 2' }, type: 'generate', priority: 'high' },
+      ]);
+
+      expect(batch.id).toMatch(/^batch_/);
+      expect(store.getBatch(batch.id)).toBe(batch);
+
+      const predictions = store.getBatchPredictions(batch.id);
+      expect(predictions.map((p) => p.request.prompt)).toEqual(['job 1', 'job 2']);
+      expect(predictions.map((p) => p.id)).toEqual(batch.prediction_ids);
+      for (const prediction of predictions) {
+        expect(prediction).toMatchObject({
+          status: 'queued',
+          batch_id: batch.id,
+          priority: 'high',
+        });
+      }
+    });
+
+    it('should reject a batch the queue cannot hold without queueing any of it', () => {
+      store.create({ request: { prompt: 'existing' }, type: 'generate' });
+
+      expect(() =>
+        store.createBatch([
+          { request: { prompt: 'job 1' }, type: 'generate' },
+          { request: { prompt: 'job 2' }, type: 'generate' },
+          { request: { prompt: 'job 3' }, type: 'generate' },
+        ])
+      ).toThrow(/Queue cannot hold 3 more predictions/);
+      expect(store.getAll()).toHaveLength(1);
+    });
+
+    it('should reject an empty batch', () => {
+      expect(() => store.createBatch([])).toThrow(/at least one prediction/);
+    });
+
+    it('should drop deleted predictions and remove the batch once it is empty', () => {
+      const batch = store.createBatch([
+        { request: { prompt: 'job 1' }, type: 'generate' },
+        { request: { prompt: 'job 2' }, type: 'generate' },
+      ]);
+      const [first, second] = batch.prediction_ids;
+
+      store.delete(first!);
+      expect(store.getBatchPredictions(batch.id).map((p) => p.id)).toEqual([second]);
+
+      store.delete(second!);
+      expect(store.getBatch(batch.id)).toBeUndefined();
+      expect(() => store.getBatchOrThrow(batch.id)).toThrow(
+        expect.objectContaining({ code: 'BATCH_NOT_FOUND' })
+      );
+    });
+  });
+
+  // ===========================================================================
+  // Status Listener Tests
+  // ===========================================================================
+
+  describe('onStatusChange', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false });
+    });
+
+    it('should notify listeners with the previous status', () => {
+      const transitions: string[][] = [];
+      store.onStatusChange((prediction, previousStatus) => {
+        transitions.push([previousStatus, prediction.status]);
+      });
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.markProcessing(prediction.id);
+      store.markCompleted(prediction.id, createMockResult().response);
+
+      expect(transitions).toEqual([
+        ['queued', 'processing'],
+        ['processing', 'completed'],
+      ]);
+    });
+
+    it('should notify listeners when a prediction is cancelled', () => {
+      const listener = vi.fn();
+      store.onStatusChange(listener);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.cancel(prediction.id);
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ id: prediction.id, status: 'cancelled' }),
+        'queued'
+      );
+    });
+
+    it('should not notify updates that keep the same status', () => {
+      const listener = vi.fn();
+      store.onStatusChange(listener);
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+      store.update(prediction.id, { progress: 50 });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying after unsubscribing and survive listener errors', () => {
+      const removed = vi.fn();
+      const unsubscribe = store.onStatusChange(removed);
+      store.onStatusChange(() => {
+        throw new Error('listener failure');
+      });
+      unsubscribe();
+
+      const prediction = store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+
+      expect(() => store.markProcessing(prediction.id)).not.toThrow();
+      expect(removed).not.toHaveBeenCalled();
+      expect(store.get(prediction.id)?.status).toBe('processing');
+    });
+  });
+
+  // ===========================================================================
+  // Query Tests
+  // ===========================================================================
+
+  describe('query', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      store = createPredictionStore({ enableAutoCleanup: false });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /**
+     * Creates predictions one second apart, oldest first
+     */
+    function seed(): Prediction[] {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      const created: Prediction[] = [];
+      created.push(store.create({ request: { prompt: 'Red sunset' }, type: 'generate' }));
+      vi.advanceTimersByTime(1000);
+      created.push(
+        store.create({ request: { image: 'https://example.com/a.png' }, type: 'upscale' })
+      );
+      vi.advanceTimersByTime(1000);
+      created.push(store.create({ request: { prompt: 'Blue SUNSET sky' }, type: 'generate' }));
+      vi.advanceTimersByTime(1000);
+      created.push(
+        store.create({
+          request: { prompt: 'Green forest', image: 'https://example.com/b.png' },
+          type: 'remix',
+        })
+      );
+      return created;
+    }
+
+    it('should return predictions newest first', () => {
+      const created = seed();
+
+      const result = store.query();
+
+      expect(result.total).toBe(4);
+      expect(result.predictions.map((p) => p.id)).toEqual(created.map((p) => p.id).reverse());
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('should filter by status, type, time range, and prompt text', () => {
+      const [red, upscale, blue] = seed();
+      store.cancel(red!.id);
+
+      expect(store.query({ status: ['cancelled'] }).predictions).toEqual([red]);
+      expect(store.query({ type: ['upscale'] }).predictions).toEqual([upscale]);
+      expect(
+        store.query({
+          createdAfter: '2024-01-15T10:00:01.000Z',
+          createdBefore: '2024-01-15T10:00:02.000Z',
+        }).predictions
+      ).toEqual([blue, upscale]);
+      expect(store.query({ promptContains: 'sunset' }).predictions).toEqual([blue, red]);
+    });
+
+    it('should paginate with cursors', () => {
+      const created = seed();
+
+      const first = store.query({ limit: 3 });
+      expect(first.predictions).toHaveLength(3);
+      expect(first.nextCursor).toBeDefined();
+
+      const second = store.query({ limit: 3, cursor: first.nextCursor! });
+      expect(second.predictions.map((p) => p.id)).toEqual([created[0]!.id]);
+      expect(second.total).toBe(4);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should keep paging stable when earlier predictions are deleted', () => {
+      const created = seed();
+
+      const first = store.query({ limit: 2 });
+      store.delete(first.predictions[1]!.id);
+      const second = store.query({ limit: 2, cursor: first.nextCursor! });
+
+      expect(second.predictions.map((p) => p.id)).toEqual([created[1]!.id, created[0]!.id]);
+    });
+
+    it('should reject invalid cursors', () => {
+      seed();
+
+      expect(() => store.query({ cursor: 'not-a-cursor' })).toThrow(/cursor/i);
+    });
+  });
+
+  // ===========================================================================
+  // Statistics Tests
+  // ===========================================================================
+
+  describe('getStats', () => {
+    beforeEach(() => {
+      store = createPredictionStore({ enableAutoCleanup: false, maxConcurrency: 2 });
+    });
+
+    it('should report worker slot usage', () => {
+      const { processor } = createControllableProcessor();
+      store.setProcessor(processor);
+
+      store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+
+      expect(store.getStats()).toMatchObject({
+        total: 1,
+        processing: 1,
+        maxConcurrency: 2,
+        activeWorkers: 1,
+        idleWorkers: 1,
+      });
+    });
+
+    it('should report all workers idle without a processor', () => {
+      store.create({ request: { prompt: 'job 1' }, type: 'generate' });
+
+      expect(store.getStats()).toMatchObject({
+        queued: 1,
+        activeWorkers: 0,
+        idleWorkers: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Unit Tests for MCP Prompts
+ *
+ * This file contains unit tests for:
+ * - src/prompts/logo-design.ts, product-shot.ts, social-banner.ts,
+ *   character-sheet.ts - built-in prompt templates
+ * - src/prompts/custom.ts - custom prompt definitions from a directory
+ * - src/prompts/index.ts - registerPrompts()
+ *
+ * The prompts are exercised through a real MCP client connected over an
+ * in-memory transport. Tests cover:
+ * - Listing the built-in prompts and their arguments
+ * - Expanding prompts into ideogram_generate guidance
+ * - Platform-specific aspect ratios of social banners
+ * - Loading, validating, and expanding custom prompt definitions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: true,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+  logToolInvocation: vi.fn(),
+  logToolResult: vi.fn(),
+  logError: vi.fn(),
+}));
+
+// Now import the modules that depend on the mocks
+import type { Logger } from 'pino';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { registerPrompts, loadCustomPrompts, BUILT_IN_PROMPT_NAMES } from '../../prompts/index.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a logger whose calls can be inspected
+ */
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } as unknown as Logger;
+}
+
+/**
+ * Gets the text of the first message of a prompts/get result
+ */
+function getText(result: Awaited<ReturnType<Client['getPrompt']>>): string {
+  const content = result.messages[0]?.content;
+  return content?.type === 'text' ? content.text : '';
+}
+
+// =============================================================================
+// Prompt Tests
+// =============================================================================
+
+describe('MCP Prompts', () => {
+  let tempDir: string;
+  let server: McpServer;
+  let client: Client;
+
+  /**
+   * Registers the prompts and connects a client
+   */
+  async function connect(options: Parameters<typeof registerPrompts>[1] = {}): Promise<string[]> {
+    const registered = registerPrompts(server, options);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return registered;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-prompts-'));
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('built-in prompts', () => {
+    it('should list the built-in prompts with typed arguments', async () => {
+      await connect();
+
+      const { prompts } = await client.listPrompts();
+
+      expect(prompts.map((p) => p.name)).toEqual([...BUILT_IN_PROMPT_NAMES]);
+      expect(prompts.find((p) => p.name === 'logo_design')?.arguments).toEqual([
+        expect.objectContaining({ name: 'brand_name', required: true }),
+        expect.objectContaining({ name: 'palette', required: false }),
+        expect.objectContaining({ name: 'industry', required: false }),
+        expect.objectContaining({ name: 'style', required: false }),
+      ]);
+    });
+
+    it('should expand logo_design into ideogram_generate guidance', async () => {
+      await connect();
+
+      const result = await client.getPrompt({
+        name: 'logo_design',
+        arguments: { brand_name: 'Northwind', palette: 'navy and gold' },
+      });
+      const text = getText(result);
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]?.role).toBe('user');
+      expect(text).toContain('"Northwind"');
+      expect(text).toContain('Palette: navy and gold');
+      expect(text).not.toContain('Industry:');
+      expect(text).toContain('- aspect_ratio: "1x1"');
+      expect(text).toContain('- style_type: "DESIGN"');
+      expect(text).toContain('- rendering_speed: "QUALITY"');
+      expect(text).toContain('FLASH, TURBO, DEFAULT, QUALITY');
+    });
+
+    it.each([
+      ['instagram_story', '9x16'],
+      ['linkedin_banner', '3x1'],
+      ['youtube_thumbnail', '16x9'],
+    ])('should size social_banner for %s as %s', async (platform, aspectRatio) => {
+      await connect();
+
+      const result = await client.getPrompt({
+        name: 'social_banner',
+        arguments: { platform, headline: 'Now hiring' },
+      });
+
+      expect(getText(result)).toContain(`- aspect_ratio: "${aspectRatio}"`);
+    });
+
+    it('should reject unknown platforms and missing required arguments', async () => {
+      await connect();
+
+      await expect(
+        client.getPrompt({
+          name: 'social_banner',
+          arguments: { platform: 'myspace', headline: 'Hello' },
+        })
+      ).rejects.toThrow(/Invalid arguments/);
+      await expect(client.getPrompt({ name: 'product_shot', arguments: {} })).rejects.toThrow(
+        /Invalid arguments/
+      );
+    });
+
+    it('should recommend different styles for product shots and character sheets', async () => {
+      await connect();
+
+      const product = getText(
+        await client.getPrompt({ name: 'product_shot', arguments: { subject: 'a mug' } })
+      );
+      const character = getText(
+        await client.getPrompt({ name: 'character_sheet', arguments: { subject: 'a fox knight' } })
+      );
+
+      expect(product).toContain('Setting: clean studio backdrop');
+      expect(product).toContain('- style_type: "REALISTIC"');
+      expect(character).toContain('- aspect_ratio: "16x9"');
+      expect(character).toContain('- style_type: "FICTION"');
+    });
+  });
+
+  describe('custom prompts', () => {
+    it('should register and expand prompts from the prompts directory', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'poster.json'),
+        JSON.stringify({
+          name: 'event_poster',
+          description: 'Poster for a company event',
+          arguments: [
+            { name: 'event', description: 'Name of the event', required: true },
+            { name: 'date' },
+          ],
+          template: 'Design a poster for {{event}} on {{ date }}.',
+          generate: { aspect_ratio: '2x3', style_type: 'DESIGN', rendering_speed: 'TURBO' },
+        })
+      );
+      const registered = await connect({ promptsDir: tempDir });
+
+      const { prompts } = await client.listPrompts();
+      const result = await client.getPrompt({
+        name: 'event_poster',
+        arguments: { event: 'Launch party' },
+      });
+
+      expect(registered).toContain('event_poster');
+      expect(prompts.find((p) => p.name === 'event_poster')).toMatchObject({
+        description: 'Poster for a company event',
+        arguments: [
+          { name: 'event', description: 'Name of the event', required: true },
+          { name: 'date', required: false },
+        ],
+      });
+      expect(result.description).toBe('Poster for a company event');
+      expect(getText(result)).toContain('Design a poster for Launch party on .');
+      expect(getText(result)).toContain('- aspect_ratio: "2x3"');
+      expect(getText(result)).toContain('- rendering_speed: "TURBO"');
+    });
+
+    it('should load arrays of definitions and skip invalid files', () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'a.json'),
+        JSON.stringify([
+          { name: 'first', template: 'First' },
+          { name: 'second', template: 'Second' },
+        ])
+      );
+      fs.writeFileSync(path.join(tempDir, 'b.json'), '{ not json');
+      fs.writeFileSync(
+        path.join(tempDir, 'c.json'),
+        JSON.stringify({ name: 'bad placeholder', template: 'Uses {{missing}}' })
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'd.json'),
+        JSON.stringify({
+          name: 'bad_generate',
+          template: 'Text',
+          generate: { aspect_ratio: '7x3', style_type: 'DESIGN', rendering_speed: 'TURBO' },
+        })
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'e.json'),
+        JSON.stringify({ name: 'first', template: 'Dup' })
+      );
+      fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'ignored');
+      const logger = createMockLogger();
+
+      const definitions = loadCustomPrompts(tempDir, logger);
+
+      expect(definitions.map((d) => d.name)).toEqual(['first', 'second']);
+      expect(logger.warn).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not let custom prompts replace built-in prompts', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'logo.json'),
+        JSON.stringify({ name: 'logo_design', template: 'Replaced' })
+      );
+      const logger = createMockLogger();
+
+      const registered = await connect({ promptsDir: tempDir, logger });
+      const result = await client.getPrompt({
+        name: 'logo_design',
+        arguments: { brand_name: 'Acme' },
+      });
+
+      expect(registered).toEqual([...BUILT_IN_PROMPT_NAMES]);
+      expect(getText(result)).not.toBe('Replaced');
+      expect(logger.warn).toHaveBeenCalledWith(
+        { name: 'logo_design' },
+        expect.stringContaining('built-in')
+      );
+    });
+
+    it('should return no definitions for a missing directory', () => {
+      const logger = createMockLogger();
+
+      expect(loadCustomPrompts(path.join(tempDir, 'missing'), logger)).toEqual([]);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Unit Tests for MCP Resources
+ *
+ * This file contains unit tests for:
+ * - src/resources/images.ts - ideogram://images/{filename}
+ * - src/resources/predictions.ts - ideogram://predictions/{id}
+ * - src/resources/index.ts - registerResources()
+ *
+ * The resources are exercised through a real MCP client connected over an
+ * in-memory transport. Tests cover:
+ * - Listing resource templates
+ * - resources/list pagination across predictions and saved images
+ * - Reading saved images as blobs and predictions as JSON
+ * - Rejecting unknown resources and filenames outside the storage directory
+ * - notifications/resources/updated for subscribed predictions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: true,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+  logToolInvocation: vi.fn(),
+  logToolResult: vi.fn(),
+  logError: vi.fn(),
+}));
+
+// Now import the modules that depend on the mocks
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { registerResources, getPredictionResourceUri } from '../../resources/index.js';
+import { createPredictionStore, type PredictionStore } from '../../services/prediction.store.js';
+import { createStorageServiceWithDir } from '../../services/storage.service.js';
+import { encodePng } from '../../utils/image.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+/**
+ * Creates a small PNG image
+ */
+function createPng(): Buffer {
+  return encodePng({ width: 2, height: 2, channels: 3, data: Buffer.alloc(12, 200) });
+}
+
+/**
+ * Flushes pending microtasks and I/O callbacks
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+// =============================================================================
+// Resource Tests
+// =============================================================================
+
+describe('MCP Resources', () => {
+  let tempDir: string;
+  let store: PredictionStore;
+  let server: McpServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ideogram-resources-'));
+    store = createPredictionStore({ enableAutoCleanup: false });
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerResources(server, {
+      store,
+      storage: createStorageServiceWithDir(tempDir),
+      pageSize: 2,
+    });
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    store.dispose();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list the image and prediction resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      'ideogram://images/{filename}',
+      'ideogram://predictions/{id}',
+    ]);
+  });
+
+  it('should paginate predictions and saved images', async () => {
+    const first = store.create({ request: { prompt: 'first' }, type: 'generate' });
+    fs.writeFileSync(path.join(tempDir, 'generated_a.png'), createPng());
+    fs.writeFileSync(path.join(tempDir, 'generated_b.png'), createPng());
+    fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'not an image');
+
+    const page1 = await client.listResources();
+    const page2 = await client.listResources({ cursor: page1.nextCursor as string });
+
+    expect(page1.resources.map((r) => r.uri)).toEqual([
+      getPredictionResourceUri(first.id),
+      'ideogram://images/generated_b.png',
+    ]);
+    expect(page1.resources[0]).toMatchObject({
+      mimeType: 'application/json',
+      description: 'generate (queued): first',
+    });
+    expect(page2.resources.map((r) => r.uri)).toEqual(['ideogram://images/generated_a.png']);
+    expect(page2.resources[0]?.mimeType).toBe('image/png');
+    expect(page2.nextCursor).toBeUndefined();
+  });
+
+  it('should reject invalid cursors', async () => {
+    await expect(client.listResources({ cursor: 'bm90LWEtbnVtYmVy' })).rejects.toThrow(
+      /Invalid cursor/
+    );
+  });
+
+  it('should read saved images as base64 blobs', async () => {
+    const png = createPng();
+    fs.writeFileSync(path.join(tempDir, 'generated_a.png'), png);
+
+    const result = await client.readResource({ uri: 'ideogram://images/generated_a.png' });
+
+    expect(result.contents).toEqual([
+      {
+        uri: 'ideogram://images/generated_a.png',
+        mimeType: 'image/png',
+        blob: png.toString('base64'),
+      },
+    ]);
+  });
+
+  it('should not read missing images or files outside the storage directory', async () => {
+    const outside = path.join(path.dirname(tempDir), 'outside.png');
+    fs.writeFileSync(outside, createPng());
+
+    await expect(client.readResource({ uri: 'ideogram://images/missing.png' })).rejects.toThrow(
+      /not found/
+    );
+    await expect(
+      client.readResource({ uri: 'ideogram://images/..%2Foutside.png' })
+    ).rejects.toThrow(/not found/);
+    fs.rmSync(outside, { force: true });
+  });
+
+  it('should read predictions as the JSON of ideogram_get_prediction', async () => {
+    const prediction = store.create({ request: { prompt: 'read me' }, type: 'generate' });
+
+    const result = await client.readResource({ uri: getPredictionResourceUri(prediction.id) });
+
+    expect(result.contents[0]?.mimeType).toBe('application/json');
+    expect(JSON.parse(result.contents[0]?.text as string)).toMatchObject({
+      success: true,
+      prediction_id: prediction.id,
+      status: 'queued',
+      queue_position: 1,
+    });
+    await expect(
+      client.readResource({ uri: getPredictionResourceUri('pred_missing') })
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('should notify subscribers when a prediction changes status', async () => {
+    const updated = vi.fn();
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated(notification.params.uri);
+    });
+    const watched = store.create({ request: { prompt: 'watched' }, type: 'generate' });
+    const other = store.create({ request: { prompt: 'other' }, type: 'generate' });
+
+    await client.subscribeResource({ uri: getPredictionResourceUri(watched.id) });
+    store.markProcessing(watched.id);
+    store.markProcessing(other.id);
+    await flush();
+
+    expect(updated).toHaveBeenCalledTimes(1);
+    expect(updated).toHaveBeenCalledWith(getPredictionResourceUri(watched.id));
+
+    await client.unsubscribeResource({ uri: getPredictionResourceUri(watched.id) });
+    store.cancel(watched.id);
+    await flush();
+
+    expect(updated).toHaveBeenCalledTimes(1);
+  });
+});
@@ -144,6 +144,19 @@ vi.mock('../../services/cost.calculator.js', () => ({
     pricing_tier: cost.pricingTier ?? cost.pricing_tier ?? 'DEFAULT',
     num_images: cost.numImages ?? cost.num_images ?? 1,
   })),
+  createCostCalculator: vi.fn(() => {
+    const totals = { credits: 0, usd: 0, operations: 0 };
+    return {
+      addCost: vi.fn((cost: Record<string, number>) => {
+        totals.credits += cost.creditsUsed ?? cost.credits_used ?? 0;
+        totals.usd += cost.estimatedUsd ?? cost.estimated_usd ?? 0;
+        totals.operations++;
+      }),
+      getTotalCredits: vi.fn(() => totals.credits),
+      getTotalUsd: vi.fn(() => totals.usd),
+      getOperationCount: vi.fn(() => totals.operations),
+    };
+  }),
 }));
 
 // Mock prediction store
@@ -182,6 +195,9 @@ vi.mock('../../services/prediction.store.js', () => ({
     };
     return labels[status] || status;
   }),
+  isPredictionTerminal: vi.fn((prediction: { status: string }) =>
+    ['completed', 'failed', 'cancelled'].includes(prediction.status)
+  ),
 }));
 
 // Mock error handler
@@ -236,6 +252,9 @@ vi.mock('../../utils/error.handler.js', () => ({
     });
     return err;
   }),
+  createValidationError: vi.fn(
+    (field: string, reason: string) => new Error(`Validation failed for '${field}': ${reason}`)
+  ),
   createPredictionNotFoundError: vi.fn((id) => {
     const error = new Error(`Prediction not found: ${id}`);
     (error as unknown as Record<string, unknown>).code = 'PREDICTION_NOT_FOUND';
@@ -305,6 +324,36 @@ import {
   ideogramCancelPredictionTool,
 } from '../../tools/cancel-prediction.js';
 
+import {
+  createListPredictionsHandler,
+  TOOL_NAME as LIST_PREDICTIONS_TOOL_NAME,
+  TOOL_SCHEMA as LIST_PREDICTIONS_TOOL_SCHEMA,
+  ideogramListPredictionsTool,
+} from '../../tools/list-predictions.js';
+
+import {
+  createRetryPredictionHandler,
+  TOOL_NAME as RETRY_PREDICTION_TOOL_NAME,
+  TOOL_SCHEMA as RETRY_PREDICTION_TOOL_SCHEMA,
+  ideogramRetryPredictionTool,
+} from '../../tools/retry-prediction.js';
+
+import {
+  createSubmitBatchHandler,
+  expandBatchMatrix,
+  getBatchMatrixSize,
+  TOOL_NAME as SUBMIT_BATCH_TOOL_NAME,
+  TOOL_SCHEMA as SUBMIT_BATCH_TOOL_SCHEMA,
+  ideogramSubmitBatchTool,
+} from '../../tools/submit-batch.js';
+
+import {
+  createGetBatchHandler,
+  TOOL_NAME as GET_BATCH_TOOL_NAME,
+  TOOL_SCHEMA as GET_BATCH_TOOL_SCHEMA,
+  ideogramGetBatchTool,
+} from '../../tools/get-batch.js';
+
 import {
   createDescribeHandler,
   ideogramDescribe,
@@ -355,9 +404,17 @@ import {
   ideogramReplaceBackgroundTool,
 } from '../../tools/replace-background.js';
 
+import { createEditAsyncHandler } from '../../tools/edit-async.js';
+import { createRemixAsyncHandler } from '../../tools/remix-async.js';
+import { createUpscaleAsyncHandler } from '../../tools/upscale-async.js';
+import { createReframeAsyncHandler } from '../../tools/reframe-async.js';
+import { createReplaceBackgroundAsyncHandler } from '../../tools/replace-background-async.js';
+
 import { createIdeogramClient } from '../../services/ideogram.client.js';
+import { calculateCost } from '../../services/cost.calculator.js';
 import { createStorageService } from '../../services/storage.service.js';
 import { createPredictionStore } from '../../services/prediction.store.js';
+import { IdeogramMCPError } from '../../utils/error.handler.js';
 
 // =============================================================================
 // Test Utilities
@@ -603,7 +660,32 @@ describe('ideogram_generate Tool', () => {
           renderingSpeed: 'QUALITY',
           magicPrompt: 'ON',
           styleType: 'REALISTIC',
-        })
+        }),
+        {}
+      );
+    });
+
+    it('should pass legacy models to the client and price them per model', async () => {
+      const mockClient = {
+        generate: vi.fn().mockResolvedValue(createMockGenerateResponse(1)),
+      };
+
+      const handler = createGenerateHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: createMockStorageWithBehavior(false) as unknown as ReturnType<
+          typeof createStorageService
+        >,
+        logger: createMockLogger(),
+      });
+
+      await handler({ prompt: 'A cat', model: 'V_2_TURBO', style_type: 'ANIME' });
+
+      expect(mockClient.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'V_2_TURBO', styleType: 'ANIME' }),
+        {}
+      );
+      expect(vi.mocked(calculateCost)).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'V_2_TURBO' })
       );
     });
 
@@ -655,6 +737,109 @@ describe('ideogram_generate Tool', () => {
       }
     });
 
+    it('should pass the progress callback to the client and image downloads', async () => {
+      const mockClient = {
+        generate: vi.fn().mockResolvedValue(createMockGenerateResponse(1)),
+      };
+      const mockStorage = createMockStorageWithBehavior(true);
+      const onProgress = vi.fn();
+
+      const handler = createGenerateHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      await handler({ prompt: 'A sunset', save_locally: true }, { onProgress });
+
+      expect(mockClient.generate).toHaveBeenCalledWith(expect.any(Object), { onProgress });
+      expect(mockStorage.downloadImages).toHaveBeenCalledWith(expect.any(Array), {
+        prefix: 'generated',
+        onProgress,
+      });
+    });
+
+    it('should generate with the refined prompt when refine_prompt is set', async () => {
+      const mockClient = {
+        generate: vi.fn().mockResolvedValue(createMockGenerateResponse(1)),
+      };
+      const mockStorage = createMockStorageWithBehavior(false);
+      const refinePrompt = vi.fn().mockResolvedValue('A red fox in fresh snow, golden hour');
+
+      const handler = createGenerateHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ prompt: 'a fox', refine_prompt: true }, { refinePrompt });
+
+      expect(refinePrompt).toHaveBeenCalledWith('a fox');
+      expect(mockClient.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'A red fox in fresh snow, golden hour' }),
+        {}
+      );
+      expect(result).toMatchObject({
+        success: true,
+        original_prompt: 'a fox',
+        refined_prompt: 'A red fox in fresh snow, golden hour',
+      });
+    });
+
+    it('should reject conflicting style options before refining the prompt', async () => {
+      const mockClient = {
+        generate: vi.fn(),
+      };
+      const mockStorage = createMockStorageWithBehavior(false);
+      const refinePrompt = vi.fn();
+
+      const handler = createGenerateHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        { prompt: 'a fox', refine_prompt: true, style_type: 'DESIGN', style_codes: ['AAAAAAAA'] },
+        { refinePrompt }
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'style_codes': style_codes cannot be combined with style_type DESIGN",
+      });
+      expect(refinePrompt).not.toHaveBeenCalled();
+      expect(mockClient.generate).not.toHaveBeenCalled();
+    });
+
+    it('should reject resolution with aspect_ratio before refining the prompt', async () => {
+      const mockClient = {
+        generate: vi.fn(),
+      };
+      const mockStorage = createMockStorageWithBehavior(false);
+      const refinePrompt = vi.fn();
+
+      const handler = createGenerateHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        { prompt: 'a fox', refine_prompt: true, aspect_ratio: '16x9', resolution: '1024x1024' },
+        { refinePrompt }
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'resolution': resolution cannot be combined with aspect_ratio",
+      });
+      expect(refinePrompt).not.toHaveBeenCalled();
+      expect(mockClient.generate).not.toHaveBeenCalled();
+    });
+
     it('should handle client errors gracefully', async () => {
       const mockClient = {
         generate: vi.fn().mockRejectedValue(new Error('API Error')),
@@ -796,7 +981,8 @@ describe('ideogram_edit Tool', () => {
       expect(mockClient.edit).toHaveBeenCalledWith(
         expect.objectContaining({
           mask: 'https://example.com/mask.png',
-        })
+        }),
+        {}
       );
     });
 
@@ -823,7 +1009,8 @@ describe('ideogram_edit Tool', () => {
       expect(mockClient.edit).toHaveBeenCalledWith(
         expect.objectContaining({
           renderingSpeed: 'QUALITY',
-        })
+        }),
+        {}
       );
     });
 
@@ -859,7 +1046,8 @@ describe('ideogram_edit Tool', () => {
           renderingSpeed: 'TURBO',
           magicPrompt: 'OFF',
           styleType: 'DESIGN',
-        })
+        }),
+        {}
       );
     });
 
@@ -887,6 +1075,51 @@ describe('ideogram_edit Tool', () => {
       }
     });
 
+    it('should stop and return a cancelled result when the call is cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const mockClient = {
+        edit: vi
+          .fn()
+          .mockRejectedValue(
+            new IdeogramMCPError(
+              'CANCELLED',
+              'edit was cancelled',
+              'The request was cancelled before it completed.',
+              0,
+              false
+            )
+          ),
+      };
+      const mockStorage = createMockStorageWithBehavior(true);
+
+      const handler = createEditHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        {
+          prompt: 'Edit this',
+          image: 'https://example.com/image.png',
+          mask: 'https://example.com/mask.png',
+          save_locally: true,
+        },
+        { signal: controller.signal }
+      );
+
+      expect(mockClient.edit).toHaveBeenCalledWith(expect.any(Object), {
+        signal: controller.signal,
+      });
+      expect(mockStorage.downloadImages).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        success: false,
+        error_code: 'CANCELLED',
+        retryable: false,
+      });
+    });
+
     it('should use default rendering_speed when not specified', async () => {
       const mockClient = {
         edit: vi.fn().mockResolvedValue(createMockEditResponse(1)),
@@ -1016,6 +1249,8 @@ describe('ideogram_generate_async Tool', () => {
         magic_prompt: 'ON',
         style_type: 'REALISTIC',
         webhook_url: 'https://example.com/webhook',
+        priority: 'high',
+        deadline_seconds: 60,
       });
 
       expect(mockStore.create).toHaveBeenCalledWith(
@@ -1031,6 +1266,8 @@ describe('ideogram_generate_async Tool', () => {
             style_type: 'REALISTIC',
           }),
           webhookUrl: 'https://example.com/webhook',
+          priority: 'high',
+          deadlineSeconds: 60,
         })
       );
     });
@@ -1055,6 +1292,56 @@ describe('ideogram_generate_async Tool', () => {
         expect(result.error_code).toBeDefined();
       }
     });
+
+    it('should reject a resolution combined with an aspect ratio before queueing', async () => {
+      const mockStore = {
+        create: vi.fn(),
+        dispose: vi.fn(),
+      };
+
+      const handler = createGenerateAsyncHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({
+        prompt: 'A sunset',
+        aspect_ratio: '16x9',
+        resolution: 'RESOLUTION_1024_1024',
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'resolution': resolution cannot be combined with aspect_ratio",
+      });
+      expect(mockStore.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject style codes combined with a style type before queueing', async () => {
+      const mockStore = {
+        create: vi.fn(),
+        dispose: vi.fn(),
+      };
+
+      const handler = createGenerateAsyncHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({
+        prompt: 'A sunset',
+        style_type: 'REALISTIC',
+        style_codes: ['AAAAAAAA'],
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'style_codes': style_codes cannot be combined with style_type REALISTIC",
+      });
+      expect(mockStore.create).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -1113,10 +1400,11 @@ describe('ideogram_get_prediction Tool', () => {
   });
 
   describe('Get Prediction Handler Execution', () => {
-    it('should return queued status for queued prediction', async () => {
+    it('should return queued status with queue position for queued prediction', async () => {
       const mockPrediction = createMockPrediction({ status: 'queued', progress: 0 });
       const mockStore = {
         getOrThrow: vi.fn().mockReturnValue(mockPrediction),
+        getQueuePosition: vi.fn().mockReturnValue(3),
         dispose: vi.fn(),
       };
 
@@ -1132,6 +1420,8 @@ describe('ideogram_get_prediction Tool', () => {
         expect(result.status).toBe('queued');
         expect(result.prediction_id).toBe(mockPrediction.id);
       }
+      expect(result).toHaveProperty('queue_position', 3);
+      expect(mockStore.getQueuePosition).toHaveBeenCalledWith(mockPrediction.id);
     });
 
     it('should return processing status with progress', async () => {
@@ -1343,6 +1633,32 @@ describe('ideogram_cancel_prediction Tool', () => {
       expect(mockStore.cancel).toHaveBeenCalledWith('pred_test123');
     });
 
+    it('should warn about credits when a running prediction is aborted', async () => {
+      const mockStore = {
+        cancel: vi.fn().mockReturnValue({
+          success: true,
+          status: 'cancelled',
+          previousStatus: 'processing',
+          message: 'Running prediction aborted',
+        }),
+        dispose: vi.fn(),
+      };
+
+      const handler = createCancelPredictionHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ prediction_id: 'pred_test123' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.status).toBe('cancelled');
+        expect(result.message).toContain('aborted');
+        expect(result.message).toContain('Credits may still be charged');
+      }
+    });
+
     it('should return failure when prediction is already processing', async () => {
       const mockStore = {
         cancel: vi.fn().mockReturnValue({
@@ -1437,77 +1753,307 @@ describe('ideogram_cancel_prediction Tool', () => {
       }
     });
   });
-});
-
-// =============================================================================
-// Schema Validation Tests
-// =============================================================================
 
-describe('Tool Input Schema Validation', () => {
-  describe('Generate Input Schema', () => {
-    it('should validate minimal valid input', () => {
-      const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'A sunset' });
-      expect(result.success).toBe(true);
+  describe('List Predictions Tool Exports', () => {
+    it('should export correct tool definition', () => {
+      expect(LIST_PREDICTIONS_TOOL_NAME).toBe('ideogram_list_predictions');
+      expect(ideogramListPredictionsTool.name).toBe(LIST_PREDICTIONS_TOOL_NAME);
+      expect(ideogramListPredictionsTool.schema).toBe(LIST_PREDICTIONS_TOOL_SCHEMA);
     });
+  });
 
-    it('should reject empty prompt', () => {
-      const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: '' });
-      expect(result.success).toBe(false);
-    });
+  describe('List Predictions Handler Execution', () => {
+    const mockStats = {
+      total: 3,
+      queued: 1,
+      processing: 0,
+      completed: 1,
+      failed: 1,
+      cancelled: 0,
+      maxConcurrency: 3,
+      activeWorkers: 0,
+      idleWorkers: 3,
+    };
 
-    it('should validate all aspect ratios', () => {
-      const aspectRatios = [
-        '1x1',
-        '16x9',
-        '9x16',
-        '4x3',
-        '3x4',
-        '3x2',
-        '2x3',
-        '4x5',
-        '5x4',
-        '1x2',
-        '2x1',
-        '1x3',
-        '3x1',
-        '10x16',
-        '16x10',
-      ];
-      for (const ratio of aspectRatios) {
-        const result = GENERATE_TOOL_SCHEMA.safeParse({
-          prompt: 'test',
-          aspect_ratio: ratio,
-        });
-        expect(result.success).toBe(true);
-      }
-    });
+    it('should map filters to the store query and summarize predictions', async () => {
+      const mockStore = {
+        query: vi.fn().mockReturnValue({
+          predictions: [
+            {
+              id: 'pred_done',
+              status: 'completed',
+              type: 'generate',
+              request: { prompt: 'A sunset' },
+              created_at: '2024-01-15T10:30:00.000Z',
+              completed_at: '2024-01-15T10:31:00.000Z',
+              progress: 100,
+              result: { created: '2024-01-15T10:31:00.000Z', data: [{}, {}] },
+            },
+            {
+              id: 'pred_failed',
+              status: 'failed',
+              type: 'upscale',
+              request: { image: 'https://example.com/a.png' },
+              created_at: '2024-01-15T10:29:00.000Z',
+              error: { code: 'RATE_LIMITED', message: 'Slow down', retryable: true },
+            },
+          ],
+          total: 5,
+          nextCursor: 'cursor_next',
+        }),
+        getStats: vi.fn().mockReturnValue(mockStats),
+        dispose: vi.fn(),
+      };
 
-    it('should reject invalid aspect ratio', () => {
-      const result = GENERATE_TOOL_SCHEMA.safeParse({
-        prompt: 'test',
-        aspect_ratio: '16:9', // Should be 16x9
+      const handler = createListPredictionsHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
       });
-      expect(result.success).toBe(false);
-    });
 
-    it('should validate num_images range', () => {
-      // Valid range
-      for (let n = 1; n <= 8; n++) {
-        const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: n });
-        expect(result.success).toBe(true);
-      }
-
-      // Invalid: 0 images
-      const result0 = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: 0 });
-      expect(result0.success).toBe(false);
+      const result = await handler({
+        status: ['completed', 'failed'],
+        prompt_contains: 'sun',
+        created_after: '2024-01-01T00:00:00Z',
+        limit: 2,
+      });
 
-      // Invalid: 9 images
-      const result9 = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: 9 });
-      expect(result9.success).toBe(false);
+      expect(mockStore.query).toHaveBeenCalledWith({
+        status: ['completed', 'failed'],
+        promptContains: 'sun',
+        createdAfter: '2024-01-01T00:00:00Z',
+        limit: 2,
+      });
+      expect(result).toEqual({
+        success: true,
+        predictions: [
+          {
+            prediction_id: 'pred_done',
+            type: 'generate',
+            status: 'completed',
+            created: '2024-01-15T10:30:00.000Z',
+            completed_at: '2024-01-15T10:31:00.000Z',
+            prompt: 'A sunset',
+            progress: 100,
+            num_images: 2,
+          },
+          {
+            prediction_id: 'pred_failed',
+            type: 'upscale',
+            status: 'failed',
+            created: '2024-01-15T10:29:00.000Z',
+            error_code: 'RATE_LIMITED',
+          },
+        ],
+        total: 5,
+        next_cursor: 'cursor_next',
+        stats: { total: 3, queued: 1, processing: 0, completed: 1, failed: 1, cancelled: 0 },
+      });
     });
 
-    it('should validate rendering_speed options', () => {
-      const speeds = ['FLASH', 'TURBO', 'DEFAULT', 'QUALITY'];
+    it('should omit next_cursor on the last page', async () => {
+      const mockStore = {
+        query: vi.fn().mockReturnValue({ predictions: [], total: 0 }),
+        getStats: vi.fn().mockReturnValue(mockStats),
+        dispose: vi.fn(),
+      };
+
+      const handler = createListPredictionsHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ limit: 20 });
+
+      expect(result.success).toBe(true);
+      expect(result).not.toHaveProperty('next_cursor');
+    });
+
+    it('should return an error for an invalid cursor', async () => {
+      const mockStore = {
+        query: vi.fn().mockImplementation(() => {
+          throw new Error('Invalid pagination cursor');
+        }),
+        getStats: vi.fn().mockReturnValue(mockStats),
+        dispose: vi.fn(),
+      };
+
+      const handler = createListPredictionsHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ limit: 20, cursor: 'garbage' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Retry Prediction Tool Exports', () => {
+    it('should export correct tool definition', () => {
+      expect(RETRY_PREDICTION_TOOL_NAME).toBe('ideogram_retry_prediction');
+      expect(ideogramRetryPredictionTool.name).toBe(RETRY_PREDICTION_TOOL_NAME);
+      expect(ideogramRetryPredictionTool.schema).toBe(RETRY_PREDICTION_TOOL_SCHEMA);
+    });
+  });
+
+  describe('Retry Prediction Handler Execution', () => {
+    it('should re-queue a failed prediction with a new seed', async () => {
+      const mockPrediction = createMockPrediction({
+        status: 'queued',
+        eta_seconds: 20,
+        request: { prompt: 'test prompt', seed: 42 },
+      });
+      const mockStore = {
+        retry: vi.fn().mockReturnValue({
+          success: true,
+          status: 'queued',
+          previousStatus: 'failed',
+          attempt: 2,
+          message: 'Prediction queued for retry',
+        }),
+        getOrThrow: vi.fn().mockReturnValue(mockPrediction),
+        dispose: vi.fn(),
+      };
+
+      const handler = createRetryPredictionHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ prediction_id: mockPrediction.id, seed: 42 });
+
+      expect(result).toMatchObject({
+        success: true,
+        prediction_id: mockPrediction.id,
+        status: 'queued',
+        previous_status: 'failed',
+        attempt: 2,
+        seed: 42,
+        eta_seconds: 20,
+      });
+      expect(mockStore.retry).toHaveBeenCalledWith(mockPrediction.id, { seed: 42 });
+    });
+
+    it('should return failure when prediction has already completed', async () => {
+      const mockStore = {
+        retry: vi.fn().mockReturnValue({
+          success: false,
+          status: 'completed',
+          previousStatus: 'completed',
+          attempt: 1,
+          message: 'Prediction has already completed',
+        }),
+        dispose: vi.fn(),
+      };
+
+      const handler = createRetryPredictionHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ prediction_id: 'pred_test123' });
+
+      expect(result).toMatchObject({
+        success: false,
+        status: 'completed',
+        reason: 'Prediction has already completed',
+      });
+      expect(mockStore.retry).toHaveBeenCalledWith('pred_test123', {});
+    });
+
+    it('should return an error when the prediction does not exist', async () => {
+      const mockStore = {
+        retry: vi.fn().mockImplementation(() => {
+          throw new Error('Prediction not found: pred_missing');
+        }),
+        dispose: vi.fn(),
+      };
+
+      const handler = createRetryPredictionHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ prediction_id: 'pred_missing' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result).toHaveProperty('error_code');
+        expect(result).toHaveProperty('user_message');
+      }
+    });
+  });
+});
+
+// =============================================================================
+// Schema Validation Tests
+// =============================================================================
+
+describe('Tool Input Schema Validation', () => {
+  describe('Generate Input Schema', () => {
+    it('should validate minimal valid input', () => {
+      const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'A sunset' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty prompt', () => {
+      const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: '' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should validate all aspect ratios', () => {
+      const aspectRatios = [
+        '1x1',
+        '16x9',
+        '9x16',
+        '4x3',
+        '3x4',
+        '3x2',
+        '2x3',
+        '4x5',
+        '5x4',
+        '1x2',
+        '2x1',
+        '1x3',
+        '3x1',
+        '10x16',
+        '16x10',
+      ];
+      for (const ratio of aspectRatios) {
+        const result = GENERATE_TOOL_SCHEMA.safeParse({
+          prompt: 'test',
+          aspect_ratio: ratio,
+        });
+        expect(result.success).toBe(true);
+      }
+    });
+
+    it('should reject invalid aspect ratio', () => {
+      const result = GENERATE_TOOL_SCHEMA.safeParse({
+        prompt: 'test',
+        aspect_ratio: '16:9', // Should be 16x9
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should validate num_images range', () => {
+      // Valid range
+      for (let n = 1; n <= 8; n++) {
+        const result = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: n });
+        expect(result.success).toBe(true);
+      }
+
+      // Invalid: 0 images
+      const result0 = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: 0 });
+      expect(result0.success).toBe(false);
+
+      // Invalid: 9 images
+      const result9 = GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', num_images: 9 });
+      expect(result9.success).toBe(false);
+    });
+
+    it('should validate rendering_speed options', () => {
+      const speeds = ['FLASH', 'TURBO', 'DEFAULT', 'QUALITY'];
       for (const speed of speeds) {
         const result = GENERATE_TOOL_SCHEMA.safeParse({
           prompt: 'test',
@@ -1516,6 +2062,30 @@ describe('Tool Input Schema Validation', () => {
         expect(result.success).toBe(true);
       }
     });
+
+    it('should validate resolution against the supported resolutions', () => {
+      expect(
+        GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', resolution: 'RESOLUTION_1024_576' })
+          .success
+      ).toBe(true);
+      expect(
+        GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', resolution: '1920x1080' }).success
+      ).toBe(false);
+    });
+
+    it('should validate color_palette presets and members', () => {
+      const parse = (color_palette: unknown): boolean =>
+        GENERATE_TOOL_SCHEMA.safeParse({ prompt: 'test', color_palette }).success;
+
+      expect(parse({ name: 'PASTEL' })).toBe(true);
+      expect(
+        parse({ members: [{ color_hex: '#FF5733', color_weight: 0.6 }, { color_hex: '#1a2b3c' }] })
+      ).toBe(true);
+      expect(parse({ name: 'NEON' })).toBe(false);
+      expect(parse({ members: [{ color_hex: 'FF5733' }] })).toBe(false);
+      expect(parse({ members: [{ color_hex: '#FF5733', color_weight: 0.01 }] })).toBe(false);
+      expect(parse({ members: [] })).toBe(false);
+    });
   });
 
   describe('Edit Input Schema', () => {
@@ -1556,6 +2126,26 @@ describe('Tool Input Schema Validation', () => {
       });
       expect(result.success).toBe(true);
     });
+
+    it('should validate style_reference_images and style_codes', () => {
+      const base = {
+        prompt: 'Edit this',
+        image: 'https://example.com/image.png',
+        mask: 'https://example.com/mask.png',
+      };
+
+      expect(
+        EDIT_TOOL_SCHEMA.safeParse({
+          ...base,
+          style_reference_images: ['https://example.com/style.png'],
+        }).success
+      ).toBe(true);
+      expect(EDIT_TOOL_SCHEMA.safeParse({ ...base, style_codes: ['1A2B3C4D'] }).success).toBe(true);
+      expect(EDIT_TOOL_SCHEMA.safeParse({ ...base, style_codes: ['not-hex!'] }).success).toBe(
+        false
+      );
+      expect(EDIT_TOOL_SCHEMA.safeParse({ ...base, style_codes: [] }).success).toBe(false);
+    });
   });
 
   describe('Get Prediction Input Schema', () => {
@@ -1590,6 +2180,391 @@ describe('Tool Input Schema Validation', () => {
     });
   });
 
+  describe('List Predictions Input Schema', () => {
+    it('should apply the default limit', () => {
+      const result = LIST_PREDICTIONS_TOOL_SCHEMA.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.limit).toBe(20);
+      }
+    });
+
+    it('should validate all filters', () => {
+      const result = LIST_PREDICTIONS_TOOL_SCHEMA.safeParse({
+        status: ['queued', 'processing'],
+        type: ['generate', 'replace_background'],
+        created_after: '2024-01-01T00:00:00Z',
+        created_before: '2024-12-31T23:59:59Z',
+        prompt_contains: 'sunset',
+        limit: 100,
+        cursor: 'abc',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown statuses, bad timestamps, and out-of-range limits', () => {
+      expect(LIST_PREDICTIONS_TOOL_SCHEMA.safeParse({ status: ['running'] }).success).toBe(false);
+      expect(LIST_PREDICTIONS_TOOL_SCHEMA.safeParse({ created_after: 'yesterday' }).success).toBe(
+        false
+      );
+      expect(LIST_PREDICTIONS_TOOL_SCHEMA.safeParse({ limit: 101 }).success).toBe(false);
+    });
+  });
+
+  describe('Retry Prediction Input Schema', () => {
+    it('should validate prediction_id with an optional seed', () => {
+      expect(RETRY_PREDICTION_TOOL_SCHEMA.safeParse({ prediction_id: 'pred_test' }).success).toBe(
+        true
+      );
+      expect(
+        RETRY_PREDICTION_TOOL_SCHEMA.safeParse({ prediction_id: 'pred_test', seed: 42 }).success
+      ).toBe(true);
+    });
+
+    it('should reject empty prediction_id and invalid seeds', () => {
+      expect(RETRY_PREDICTION_TOOL_SCHEMA.safeParse({ prediction_id: '' }).success).toBe(false);
+      expect(
+        RETRY_PREDICTION_TOOL_SCHEMA.safeParse({ prediction_id: 'pred_test', seed: -1 }).success
+      ).toBe(false);
+      expect(
+        RETRY_PREDICTION_TOOL_SCHEMA.safeParse({ prediction_id: 'pred_test', seed: 1.5 }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('Submit Batch Tool Exports', () => {
+    it('should export correct tool definitions', () => {
+      expect(SUBMIT_BATCH_TOOL_NAME).toBe('ideogram_submit_batch');
+      expect(ideogramSubmitBatchTool.name).toBe(SUBMIT_BATCH_TOOL_NAME);
+      expect(ideogramSubmitBatchTool.schema).toBe(SUBMIT_BATCH_TOOL_SCHEMA);
+      expect(GET_BATCH_TOOL_NAME).toBe('ideogram_get_batch');
+      expect(ideogramGetBatchTool.name).toBe(GET_BATCH_TOOL_NAME);
+      expect(ideogramGetBatchTool.schema).toBe(GET_BATCH_TOOL_SCHEMA);
+    });
+  });
+
+  describe('Batch Matrix Expansion', () => {
+    it('should expand every combination with prompts varying slowest', () => {
+      const matrix = {
+        prompt: ['A fox', 'A wolf'],
+        aspect_ratio: ['1x1' as const, '16x9' as const],
+        seed: [1, 2],
+        negative_prompt: 'blurry',
+        num_images: 2,
+      };
+
+      const requests = expandBatchMatrix(matrix);
+
+      expect(getBatchMatrixSize(matrix)).toBe(8);
+      expect(requests).toHaveLength(8);
+      expect(requests[0]).toEqual({
+        prompt: 'A fox',
+        negative_prompt: 'blurry',
+        num_images: 2,
+        aspect_ratio: '1x1',
+        seed: 1,
+      });
+      expect(requests.map((r) => `${r.prompt} ${r.aspect_ratio} ${r.seed}`)).toEqual([
+        'A fox 1x1 1',
+        'A fox 1x1 2',
+        'A fox 16x9 1',
+        'A fox 16x9 2',
+        'A wolf 1x1 1',
+        'A wolf 1x1 2',
+        'A wolf 16x9 1',
+        'A wolf 16x9 2',
+      ]);
+    });
+  });
+
+  describe('Submit Batch Handler Execution', () => {
+    function createMockBatchStore(predictionIds = ['pred_a', 'pred_b']) {
+      return {
+        createBatch: vi.fn().mockReturnValue({
+          id: 'batch_test123',
+          created_at: new Date().toISOString(),
+          prediction_ids: predictionIds,
+        }),
+        getBatchPredictions: vi
+          .fn()
+          .mockReturnValue(predictionIds.map((id) => createMockPrediction({ id }))),
+        dispose: vi.fn(),
+      };
+    }
+
+    it('should queue a list of requests as one batch', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          requests: [{ prompt: 'A red fox' }, { prompt: 'A blue fox', num_images: 2 }],
+          priority: 'high',
+          deadline_seconds: 600,
+        })
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        batch_id: 'batch_test123',
+        status: 'queued',
+        prediction_ids: ['pred_a', 'pred_b'],
+        num_predictions: 2,
+        estimated_cost: { num_predictions: 2 },
+      });
+      expect(mockStore.createBatch).toHaveBeenCalledWith([
+        expect.objectContaining({
+          type: 'generate',
+          request: expect.objectContaining({ prompt: 'A red fox', num_images: 1 }),
+          saveLocally: true,
+          priority: 'high',
+          deadlineSeconds: 600,
+        }),
+        expect.objectContaining({
+          request: expect.objectContaining({ prompt: 'A blue fox', num_images: 2 }),
+        }),
+      ]);
+    });
+
+    it('should queue every combination of a matrix', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          matrix: { prompt: ['A fox', 'A wolf'], rendering_speed: ['TURBO', 'QUALITY'] },
+        })
+      );
+
+      const items = mockStore.createBatch.mock.calls[0]![0] as Array<{
+        request: { prompt: string; rendering_speed: string };
+      }>;
+      expect(items.map((item) => `${item.request.prompt} ${item.request.rendering_speed}`)).toEqual(
+        ['A fox TURBO', 'A fox QUALITY', 'A wolf TURBO', 'A wolf QUALITY']
+      );
+    });
+
+    it('should require exactly one of requests and matrix', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const neither = await handler(SUBMIT_BATCH_TOOL_SCHEMA.parse({}));
+      const both = await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          requests: [{ prompt: 'A fox' }],
+          matrix: { prompt: ['A wolf'] },
+        })
+      );
+
+      expect(neither).toMatchObject({
+        success: false,
+        error: "Validation failed for 'requests': Provide either requests or matrix",
+      });
+      expect(both).toMatchObject({
+        success: false,
+        error: "Validation failed for 'requests': Provide either requests or matrix, not both",
+      });
+      expect(mockStore.createBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a matrix that expands beyond the batch limit', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          matrix: {
+            prompt: ['A fox', 'A wolf', 'A bear', 'A lynx'],
+            seed: Array.from({ length: 13 }, (_, i) => i),
+          },
+        })
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error: expect.stringContaining('Matrix expands into 52 generations'),
+      });
+      expect(mockStore.createBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a resolution combined with an aspect ratio before queueing', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          requests: [{ prompt: 'A fox', aspect_ratio: '16x9', resolution: 'RESOLUTION_1024_1024' }],
+        })
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'resolution': resolution cannot be combined with aspect_ratio",
+      });
+      expect(mockStore.createBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject style codes combined with a style type before queueing', async () => {
+      const mockStore = createMockBatchStore();
+      const handler = createSubmitBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(
+        SUBMIT_BATCH_TOOL_SCHEMA.parse({
+          requests: [
+            { prompt: 'A fox' },
+            { prompt: 'A wolf', style_type: 'FICTION', style_codes: ['AAAAAAAA'] },
+          ],
+        })
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'style_codes': style_codes cannot be combined with style_type FICTION",
+      });
+      expect(mockStore.createBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Get Batch Handler Execution', () => {
+    it('should aggregate status, counts, cost and completed images', async () => {
+      const batch = {
+        id: 'batch_test123',
+        created_at: new Date().toISOString(),
+        prediction_ids: ['pred_done', 'pred_failed'],
+      };
+      const mockStore = {
+        getBatchOrThrow: vi.fn().mockReturnValue(batch),
+        getBatchPredictions: vi.fn().mockReturnValue([
+          createMockPrediction({
+            id: 'pred_done',
+            status: 'completed',
+            result: createMockGenerateResponse(2),
+          }),
+          createMockPrediction({
+            id: 'pred_failed',
+            status: 'failed',
+            error: { code: 'API_ERROR', message: 'boom', retryable: false },
+          }),
+        ]),
+        dispose: vi.fn(),
+      };
+
+      const handler = createGetBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ batch_id: batch.id, include_images: true });
+
+      expect(result).toMatchObject({
+        success: true,
+        batch_id: batch.id,
+        status: 'partial',
+        progress: 100,
+        counts: { total: 2, completed: 1, failed: 1, queued: 0 },
+        total_cost: { num_predictions: 1, num_images: 2 },
+        estimated_cost: { num_predictions: 2 },
+      });
+      if (result.success) {
+        expect(result.images?.map((image) => image.prediction_id)).toEqual([
+          'pred_done',
+          'pred_done',
+        ]);
+        expect(result.predictions.map((p) => p.error_code)).toEqual([undefined, 'API_ERROR']);
+      }
+    });
+
+    it('should omit images when include_images is false', async () => {
+      const mockStore = {
+        getBatchOrThrow: vi.fn().mockReturnValue({
+          id: 'batch_test123',
+          created_at: new Date().toISOString(),
+          prediction_ids: ['pred_a'],
+        }),
+        getBatchPredictions: vi
+          .fn()
+          .mockReturnValue([createMockPrediction({ id: 'pred_a', status: 'processing' })]),
+        dispose: vi.fn(),
+      };
+
+      const handler = createGetBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ batch_id: 'batch_test123', include_images: false });
+
+      expect(result).toMatchObject({ success: true, status: 'processing', progress: 0 });
+      expect(result).not.toHaveProperty('images');
+    });
+
+    it('should return an error when the batch does not exist', async () => {
+      const mockStore = {
+        getBatchOrThrow: vi.fn().mockImplementation(() => {
+          throw new Error('Batch not found: batch_missing');
+        }),
+        dispose: vi.fn(),
+      };
+
+      const handler = createGetBatchHandler({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({ batch_id: 'batch_missing', include_images: true });
+
+      expect(result.success).toBe(false);
+      expect(result).toHaveProperty('error_code');
+    });
+  });
+
+  describe('Batch Input Schemas', () => {
+    it('should apply batch-wide defaults', () => {
+      const result = SUBMIT_BATCH_TOOL_SCHEMA.safeParse({ matrix: { prompt: ['A fox'] } });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.save_locally).toBe(true);
+        expect(result.data.priority).toBe('normal');
+        expect(result.data.matrix?.num_images).toBe(1);
+      }
+      expect(GET_BATCH_TOOL_SCHEMA.parse({ batch_id: 'batch_test' }).include_images).toBe(true);
+    });
+
+    it('should reject invalid batches', () => {
+      expect(SUBMIT_BATCH_TOOL_SCHEMA.safeParse({ requests: [] }).success).toBe(false);
+      expect(
+        SUBMIT_BATCH_TOOL_SCHEMA.safeParse({
+          requests: Array.from({ length: 51 }, () => ({ prompt: 'A fox' })),
+        }).success
+      ).toBe(false);
+      expect(SUBMIT_BATCH_TOOL_SCHEMA.safeParse({ matrix: { prompt: [] } }).success).toBe(false);
+      expect(
+        SUBMIT_BATCH_TOOL_SCHEMA.safeParse({ matrix: { prompt: ['A fox'], seed: [-1] } }).success
+      ).toBe(false);
+      expect(GET_BATCH_TOOL_SCHEMA.safeParse({ batch_id: '' }).success).toBe(false);
+    });
+  });
+
   describe('Generate Async Input Schema', () => {
     it('should validate minimal input', () => {
       const result = GENERATE_ASYNC_TOOL_SCHEMA.safeParse({
@@ -1613,6 +2588,35 @@ describe('Tool Input Schema Validation', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it('should default priority to normal', () => {
+      const result = GENERATE_ASYNC_TOOL_SCHEMA.safeParse({ prompt: 'A sunset' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.priority).toBe('normal');
+        expect(result.data.deadline_seconds).toBeUndefined();
+      }
+    });
+
+    it('should validate priority and deadline_seconds', () => {
+      expect(
+        GENERATE_ASYNC_TOOL_SCHEMA.safeParse({
+          prompt: 'A sunset',
+          priority: 'high',
+          deadline_seconds: 300,
+        }).success
+      ).toBe(true);
+      expect(
+        GENERATE_ASYNC_TOOL_SCHEMA.safeParse({ prompt: 'A sunset', priority: 'urgent' }).success
+      ).toBe(false);
+      expect(
+        GENERATE_ASYNC_TOOL_SCHEMA.safeParse({ prompt: 'A sunset', deadline_seconds: 0 }).success
+      ).toBe(false);
+      expect(
+        GENERATE_ASYNC_TOOL_SCHEMA.safeParse({ prompt: 'A sunset', deadline_seconds: 86401 })
+          .success
+      ).toBe(false);
+    });
   });
 });
 
@@ -1702,7 +2706,8 @@ describe('ideogram_describe Tool', () => {
       expect(mockClient.describe).toHaveBeenCalledWith(
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
-        })
+        }),
+        {}
       );
     });
 
@@ -1725,7 +2730,8 @@ describe('ideogram_describe Tool', () => {
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
           describeModelVersion: 'V_2',
-        })
+        }),
+        {}
       );
     });
 
@@ -1814,7 +2820,8 @@ describe('ideogram_upscale Tool', () => {
       expect(mockClient.upscale).toHaveBeenCalledWith(
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
-        })
+        }),
+        {}
       );
     });
 
@@ -1850,7 +2857,8 @@ describe('ideogram_upscale Tool', () => {
           magicPrompt: 'ON',
           numImages: 2,
           seed: 12345,
-        })
+        }),
+        {}
       );
     });
 
@@ -1938,6 +2946,33 @@ describe('ideogram_remix Tool', () => {
   });
 
   describe('Remix Handler Execution', () => {
+    it('should reject conflicting style options before calling the API', async () => {
+      const mockClient = {
+        remix: vi.fn(),
+      };
+      const mockStorage = createMockStorageWithBehavior(false);
+
+      const handler = createRemixHandler({
+        client: mockClient as unknown as ReturnType<typeof createIdeogramClient>,
+        storage: mockStorage as unknown as ReturnType<typeof createStorageService>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({
+        image: 'https://example.com/photo.jpg',
+        prompt: 'Transform into watercolor',
+        style_codes: ['AAAAAAAA'],
+        style_reference_images: ['https://example.com/style.png'],
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'style_codes': style_codes cannot be combined with style_reference_images",
+      });
+      expect(mockClient.remix).not.toHaveBeenCalled();
+    });
+
     it('should successfully remix image with minimal input', async () => {
       const mockClient = {
         remix: vi.fn().mockResolvedValue(createMockGenerateResponse(1)),
@@ -1965,7 +3000,8 @@ describe('ideogram_remix Tool', () => {
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
           prompt: 'Transform into watercolor',
-        })
+        }),
+        {}
       );
     });
 
@@ -2007,7 +3043,8 @@ describe('ideogram_remix Tool', () => {
           renderingSpeed: 'QUALITY',
           magicPrompt: 'ON',
           styleType: 'FICTION',
-        })
+        }),
+        {}
       );
     });
 
@@ -2124,7 +3161,8 @@ describe('ideogram_reframe Tool', () => {
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
           resolution: 'RESOLUTION_1024_768',
-        })
+        }),
+        {}
       );
     });
 
@@ -2142,7 +3180,7 @@ describe('ideogram_reframe Tool', () => {
 
       await handler({
         image: 'https://example.com/photo.jpg',
-        resolution: 'RESOLUTION_1920_1080',
+        resolution: 'RESOLUTION_1024_576',
         num_images: 3,
         seed: 99999,
         rendering_speed: 'QUALITY',
@@ -2152,11 +3190,12 @@ describe('ideogram_reframe Tool', () => {
       expect(mockClient.reframe).toHaveBeenCalledWith(
         expect.objectContaining({
           image: 'https://example.com/photo.jpg',
-          resolution: 'RESOLUTION_1920_1080',
+          resolution: 'RESOLUTION_1024_576',
           numImages: 3,
           seed: 99999,
           renderingSpeed: 'QUALITY',
-        })
+        }),
+        {}
       );
     });
 
@@ -2273,7 +3312,8 @@ describe('ideogram_replace_background Tool', () => {
         expect.objectContaining({
           image: 'https://example.com/portrait.jpg',
           prompt: 'A tropical beach at sunset',
-        })
+        }),
+        {}
       );
     });
 
@@ -2307,7 +3347,8 @@ describe('ideogram_replace_background Tool', () => {
           numImages: 4,
           seed: 77777,
           renderingSpeed: 'QUALITY',
-        })
+        }),
+        {}
       );
     });
 
@@ -2360,6 +3401,136 @@ describe('ideogram_replace_background Tool', () => {
   });
 });
 
+// =============================================================================
+// Async Image Operation Tools Tests
+// =============================================================================
+
+describe('Async Image Operation Tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const cases = [
+    {
+      tool: 'ideogram_edit_async',
+      createHandler: createEditAsyncHandler,
+      type: 'edit',
+      input: {
+        prompt: 'Add a hat',
+        image: 'https://example.com/image.png',
+        mask: 'https://example.com/mask.png',
+      },
+    },
+    {
+      tool: 'ideogram_remix_async',
+      createHandler: createRemixAsyncHandler,
+      type: 'remix',
+      input: { prompt: 'Watercolor', image: 'https://example.com/image.png', image_weight: 40 },
+    },
+    {
+      tool: 'ideogram_upscale_async',
+      createHandler: createUpscaleAsyncHandler,
+      type: 'upscale',
+      input: { image: 'https://example.com/image.png', resemblance: 70 },
+    },
+    {
+      tool: 'ideogram_reframe_async',
+      createHandler: createReframeAsyncHandler,
+      type: 'reframe',
+      input: { image: 'https://example.com/image.png', resolution: 'RESOLUTION_1024_640' },
+    },
+    {
+      tool: 'ideogram_replace_background_async',
+      createHandler: createReplaceBackgroundAsyncHandler,
+      type: 'replace_background',
+      input: { image: 'https://example.com/image.png', prompt: 'A sunny beach' },
+    },
+  ] as const;
+
+  it.each(cases)(
+    '$tool should queue a $type prediction',
+    async ({ createHandler, type, input }) => {
+      const mockPrediction = createMockPrediction({ type });
+      const mockStore = {
+        create: vi.fn().mockReturnValue(mockPrediction),
+        dispose: vi.fn(),
+      };
+
+      const handler = (createHandler as typeof createUpscaleAsyncHandler)({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({
+        ...(input as unknown as Parameters<typeof handler>[0]),
+        webhook_url: 'https://example.com/webhook',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.prediction_id).toBe(mockPrediction.id);
+        expect(result.status).toBe('queued');
+      }
+      expect(mockStore.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type,
+          request: expect.objectContaining(input),
+          webhookUrl: 'https://example.com/webhook',
+        })
+      );
+    }
+  );
+
+  it.each(cases)(
+    '$tool should return a tool error when queueing fails',
+    async ({ createHandler, input }) => {
+      const mockStore = {
+        create: vi.fn().mockImplementation(() => {
+          throw new Error('Queue is full');
+        }),
+        dispose: vi.fn(),
+      };
+
+      const handler = (createHandler as typeof createUpscaleAsyncHandler)({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler(input as unknown as Parameters<typeof handler>[0]);
+
+      expect(result.success).toBe(false);
+    }
+  );
+
+  it.each(cases.filter(({ type }) => type !== 'upscale' && type !== 'reframe'))(
+    '$tool should reject style codes combined with style reference images',
+    async ({ createHandler, input }) => {
+      const mockStore = {
+        create: vi.fn(),
+        dispose: vi.fn(),
+      };
+
+      const handler = (createHandler as typeof createRemixAsyncHandler)({
+        store: mockStore as unknown as ReturnType<typeof createPredictionStore>,
+        logger: createMockLogger(),
+      });
+
+      const result = await handler({
+        ...(input as unknown as Parameters<typeof handler>[0]),
+        style_codes: ['AAAAAAAA'],
+        style_reference_images: ['https://example.com/style.png'],
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "Validation failed for 'style_codes': style_codes cannot be combined with style_reference_images",
+      });
+      expect(mockStore.create).not.toHaveBeenCalled();
+    }
+  );
+});
+
 // =============================================================================
 // Schema Validation Tests
 // =============================================================================
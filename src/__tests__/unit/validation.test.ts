@@ -8,7 +8,9 @@
  * - Safe Zod schema validation
  * - Image input validation
  * - Aspect ratio validation
+ * - Resolution helpers
  * - Enum validation helpers
+ * - Option compatibility
  * - Prompt validation
  * - Numeric validation (num_images, seed, expand_pixels)
  * - Prediction ID validation
@@ -33,9 +35,14 @@ import {
   validateImageSize,
   validateAspectRatio,
   isValidAspectRatio,
+  isValidResolution,
+  parseResolution,
+  findNearestResolution,
   isValidRenderingSpeed,
   isValidMagicPrompt,
   isValidStyleType,
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
   validatePrompt,
   validateNumImages,
   validateSeed,
@@ -470,6 +477,42 @@ describe('Aspect Ratio Validation', () => {
   });
 });
 
+// =============================================================================
+// Resolution Helper Tests
+// =============================================================================
+
+describe('Resolution Helpers', () => {
+  it('should check supported resolutions', () => {
+    expect(isValidResolution('RESOLUTION_1024_1024')).toBe(true);
+    expect(isValidResolution('RESOLUTION_1000_1000')).toBe(false);
+    expect(isValidResolution('1024x1024')).toBe(false);
+  });
+
+  it('should parse the width and height of a resolution', () => {
+    expect(parseResolution('RESOLUTION_1024_768')).toEqual({ width: 1024, height: 768 });
+  });
+
+  it('should find the resolution with the nearest aspect ratio', () => {
+    expect(findNearestResolution(1920, 1080)).toBe('RESOLUTION_1024_576');
+    expect(findNearestResolution(1080, 1920)).toBe('RESOLUTION_720_1280');
+    expect(findNearestResolution(1000, 1000)).toBe('RESOLUTION_1024_1024');
+  });
+
+  it('should prefer the closest pixel count among resolutions of the same shape', () => {
+    expect(findNearestResolution(600, 900)).toBe('RESOLUTION_768_1152');
+    expect(findNearestResolution(900, 1350)).toBe('RESOLUTION_832_1248');
+  });
+
+  it('should reject sizes that are not positive finite numbers', () => {
+    expect(() => findNearestResolution(0, 1024)).toThrow('width must be a positive number');
+    expect(() => findNearestResolution(-1024, 768)).toThrow('width must be a positive number');
+    expect(() => findNearestResolution(1024, Number.NaN)).toThrow(
+      'height must be a positive number'
+    );
+    expect(() => findNearestResolution(1024, Infinity)).toThrow('height must be a positive number');
+  });
+});
+
 // =============================================================================
 // Enum Validation Helpers Tests
 // =============================================================================
@@ -522,6 +565,60 @@ describe('Enum Validation Helpers', () => {
   // as part of the V3 API migration (outpainting is now handled by reframe tool)
 });
 
+// =============================================================================
+// Option Compatibility Tests
+// =============================================================================
+
+describe('Option Compatibility', () => {
+  describe('assertCompatibleResolutionOptions', () => {
+    it('should accept either a resolution or an aspect ratio', () => {
+      expect(() =>
+        assertCompatibleResolutionOptions({ resolution: 'RESOLUTION_1024_1024' })
+      ).not.toThrow();
+      expect(() => assertCompatibleResolutionOptions({ aspect_ratio: '16x9' })).not.toThrow();
+    });
+
+    it('should reject a resolution combined with an aspect ratio', () => {
+      expect(() =>
+        assertCompatibleResolutionOptions({
+          resolution: 'RESOLUTION_1024_1024',
+          aspect_ratio: '16x9',
+        })
+      ).toThrow('resolution cannot be combined with aspect_ratio');
+    });
+  });
+
+  describe('assertCompatibleStyleOptions', () => {
+    it('should accept style codes on their own or with the AUTO style type', () => {
+      expect(() => assertCompatibleStyleOptions({ style_codes: ['AAAAAAAA'] })).not.toThrow();
+      expect(() =>
+        assertCompatibleStyleOptions({ style_codes: ['AAAAAAAA'], style_type: 'AUTO' })
+      ).not.toThrow();
+      expect(() =>
+        assertCompatibleStyleOptions({
+          style_type: 'REALISTIC',
+          style_reference_images: ['https://example.com/style.png'],
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject style codes combined with style reference images', () => {
+      expect(() =>
+        assertCompatibleStyleOptions({
+          style_codes: ['AAAAAAAA'],
+          style_reference_images: ['https://example.com/style.png'],
+        })
+      ).toThrow('style_codes cannot be combined with style_reference_images');
+    });
+
+    it('should reject style codes combined with a style type other than AUTO', () => {
+      expect(() =>
+        assertCompatibleStyleOptions({ style_codes: ['AAAAAAAA'], style_type: 'DESIGN' })
+      ).toThrow('style_codes cannot be combined with style_type DESIGN');
+    });
+  });
+});
+
 // =============================================================================
 // Prompt Validation Tests
 // =============================================================================
@@ -1178,7 +1275,7 @@ describe('ReframeInputSchema', () => {
   it('should accept all optional parameters', () => {
     const result = ReframeInputSchema.safeParse({
       image: 'https://example.com/photo.jpg',
-      resolution: 'RESOLUTION_1920_1080',
+      resolution: 'RESOLUTION_1024_576',
       num_images: 3,
       seed: 99999,
       rendering_speed: 'QUALITY',
@@ -1202,6 +1299,16 @@ describe('ReframeInputSchema', () => {
     expect(result.success).toBe(false);
   });
 
+  it('should reject unsupported resolutions', () => {
+    for (const resolution of ['1280x768', 'RESOLUTION_1000_1000']) {
+      const result = ReframeInputSchema.safeParse({
+        image: 'https://example.com/photo.jpg',
+        resolution,
+      });
+      expect(result.success).toBe(false);
+    }
+  });
+
   it('should reject num_images below 1', () => {
     const result = ReframeInputSchema.safeParse({
       image: 'https://example.com/photo.jpg',
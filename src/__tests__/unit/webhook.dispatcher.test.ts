@@ -0,0 +1,278 @@
+/**
+ * Unit Tests for Webhook Dispatcher
+ *
+ * This file contains unit tests for:
+ * - src/services/webhook.dispatcher.ts - Webhook notifications for predictions
+ *
+ * Tests cover:
+ * - Delivery on terminal status changes (completed, failed, cancelled)
+ * - Payload shape (GetPredictionOutput) and event headers
+ * - HMAC-SHA256 signing with the configured secret
+ * - Retry of transient failures and delivery state recording
+ */
+
+import { createHmac } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock config first - before any imports that depend on it
+vi.mock('../../config/config.js', () => ({
+  config: {
+    ideogramApiKey: 'test-api-key-for-testing',
+    logLevel: 'error',
+    localSaveDir: '/tmp/ideogram-test-images',
+    enableLocalSave: false,
+    maxConcurrentRequests: 3,
+    requestTimeoutMs: 10000,
+    webhookSecret: 'config-secret',
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  createChildLogger: vi.fn(() => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  })),
+}));
+
+// Mock axios
+const mockPost = vi.fn();
+vi.mock('axios', () => ({
+  default: {
+    post: vi.fn((...args: unknown[]) => mockPost(...args) as unknown),
+    isAxiosError: vi.fn(
+      (error: unknown) => typeof error === 'object' && error !== null && 'isAxiosError' in error
+    ),
+  },
+}));
+
+// Now import the modules that depend on the mocks
+import {
+  WebhookDispatcher,
+  createWebhookDispatcher,
+  signWebhookPayload,
+} from '../../services/webhook.dispatcher.js';
+import { PredictionStore, createPredictionStore } from '../../services/prediction.store.js';
+import type { GenerateResponse } from '../../types/api.types.js';
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+const WEBHOOK_URL = 'https://example.com/webhook';
+
+/**
+ * Creates a mock API response
+ */
+function createMockResponse(): GenerateResponse {
+  return {
+    created: new Date().toISOString(),
+    data: [
+      {
+        url: 'https://ideogram.ai/api/images/test-image-0.png',
+        prompt: 'test prompt',
+        resolution: '1024x1024',
+        is_image_safe: true,
+        seed: 12345,
+      },
+    ],
+  };
+}
+
+/**
+ * Creates an axios-like HTTP error
+ */
+function createHttpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status },
+  });
+}
+
+/**
+ * Flushes pending microtasks so async deliveries can settle
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+// =============================================================================
+// WebhookDispatcher Tests
+// =============================================================================
+
+describe('WebhookDispatcher', () => {
+  let store: PredictionStore;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = createPredictionStore({ enableAutoCleanup: false });
+    dispatcher = createWebhookDispatcher({
+      retryOptions: { maxAttempts: 2, initialDelayMs: 1, maxDelayMs: 1, jitter: false },
+    });
+    dispatcher.attach(store);
+  });
+
+  afterEach(() => {
+    store.dispose();
+  });
+
+  // ===========================================================================
+  // Delivery Trigger Tests
+  // ===========================================================================
+
+  describe('attach', () => {
+    it('should deliver the prediction output when a prediction completes', async () => {
+      mockPost.mockResolvedValueOnce({ status: 200 });
+      const prediction = store.create({
+        request: { prompt: 'test' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      store.markCompleted(prediction.id, createMockResponse());
+      await flush();
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      const [url, body, requestConfig] = mockPost.mock.calls[0] as [
+        string,
+        string,
+        { headers: Record<string, string> },
+      ];
+      expect(url).toBe(WEBHOOK_URL);
+      expect(JSON.parse(body)).toMatchObject({
+        success: true,
+        prediction_id: prediction.id,
+        status: 'completed',
+        num_images: 1,
+      });
+      expect(requestConfig.headers['X-Ideogram-Event']).toBe('prediction.completed');
+      expect(store.get(prediction.id)?.webhook_delivery).toMatchObject({
+        status: 'delivered',
+        attempts: 1,
+        response_status: 200,
+      });
+    });
+
+    it('should deliver failed and cancelled predictions', async () => {
+      mockPost.mockResolvedValue({ status: 204 });
+      const failed = store.create({
+        request: { prompt: 'fails' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+      const cancelled = store.create({
+        request: { prompt: 'cancelled' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      store.markFailed(failed.id, { code: 'API_ERROR', message: 'boom', retryable: false });
+      store.cancel(cancelled.id);
+      await flush();
+
+      const events = mockPost.mock.calls.map(
+        (call) => (call[2] as { headers: Record<string, string> }).headers['X-Ideogram-Event']
+      );
+      expect(events).toEqual(['prediction.failed', 'prediction.cancelled']);
+    });
+
+    it('should not deliver predictions without a webhook URL', async () => {
+      const prediction = store.create({ request: { prompt: 'test' }, type: 'generate' });
+
+      store.markCompleted(prediction.id, createMockResponse());
+      await flush();
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(store.get(prediction.id)?.webhook_delivery).toBeUndefined();
+    });
+
+    it('should not deliver non-terminal status changes', async () => {
+      const prediction = store.create({
+        request: { prompt: 'test' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      store.markProcessing(prediction.id);
+      await flush();
+
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  // ===========================================================================
+  // Signing Tests
+  // ===========================================================================
+
+  describe('signing', () => {
+    it('should sign the payload with the configured secret', async () => {
+      mockPost.mockResolvedValueOnce({ status: 200 });
+      const prediction = store.create({
+        request: { prompt: 'test' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      store.markCompleted(prediction.id, createMockResponse());
+      await flush();
+
+      const [, body, requestConfig] = mockPost.mock.calls[0] as [
+        string,
+        string,
+        { headers: Record<string, string> },
+      ];
+      const timestamp = requestConfig.headers['X-Ideogram-Timestamp']!;
+      const expected = createHmac('sha256', 'config-secret')
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      expect(requestConfig.headers['X-Ideogram-Signature']).toBe(`sha256=${expected}`);
+    });
+
+    it('should format signatures as sha256=<hex>', () => {
+      expect(signWebhookPayload('{}', 'secret', '1700000000')).toMatch(/^sha256=[0-9a-f]{64}$/);
+    });
+  });
+
+  // ===========================================================================
+  // Retry Tests
+  // ===========================================================================
+
+  describe('retry', () => {
+    it('should retry transient failures and record the attempts', async () => {
+      mockPost.mockRejectedValueOnce(createHttpError(503)).mockResolvedValueOnce({ status: 200 });
+      const prediction = store.create({
+        request: { prompt: 'test' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      const delivery = await dispatcher.dispatch(store, {
+        ...prediction,
+        status: 'completed',
+        result: createMockResponse(),
+      });
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(delivery).toMatchObject({ status: 'delivered', attempts: 2, response_status: 200 });
+    });
+
+    it('should record a failed delivery without retrying client errors', async () => {
+      mockPost.mockRejectedValueOnce(createHttpError(400));
+      const prediction = store.create({
+        request: { prompt: 'test' },
+        type: 'generate',
+        webhookUrl: WEBHOOK_URL,
+      });
+
+      const delivery = await dispatcher.dispatch(store, prediction);
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 1, response_status: 400 });
+      expect(store.get(prediction.id)?.webhook_delivery?.status).toBe('failed');
+    });
+  });
+});
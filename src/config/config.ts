@@ -8,7 +8,7 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
-import { TIMEOUTS, DEFAULTS } from './constants.js';
+import { TIMEOUTS, DEFAULTS, IMAGE_CONTENT, TRANSPORT_MODES, HTTP_TRANSPORT } from './constants.js';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -59,6 +59,12 @@ const ConfigSchema = z.object({
    */
   localSaveDir: z.string().default('./ideogram_images'),
 
+  /**
+   * Directories the image tools may read local image files from, in addition
+   * to localSaveDir
+   */
+  imageInputDirs: z.array(z.string().min(1)).default([]),
+
   /**
    * Enable automatic local saving of images
    */
@@ -85,6 +91,109 @@ const ConfigSchema = z.object({
     .min(1000, { message: 'REQUEST_TIMEOUT_MS must be at least 1000ms' })
     .max(300000, { message: 'REQUEST_TIMEOUT_MS cannot exceed 300000ms (5 minutes)' })
     .default(TIMEOUTS.DEFAULT_REQUEST_MS),
+
+  /**
+   * Secret used to sign webhook payloads (HMAC-SHA256).
+   * Webhooks are sent unsigned when not set.
+   */
+  webhookSecret: z.string().min(1).optional(),
+
+  /**
+   * Persist async predictions under localSaveDir so they survive restarts
+   */
+  persistPredictions: z.boolean().default(true),
+
+  /**
+   * Return thumbnails of generated images as MCP image content blocks
+   */
+  imageContentEnabled: z.boolean().default(true),
+
+  /**
+   * Maximum width/height of image content thumbnails in pixels
+   */
+  imageContentMaxDimension: z
+    .number()
+    .int()
+    .min(IMAGE_CONTENT.MIN_DIMENSION, {
+      message: `IMAGE_CONTENT_MAX_DIMENSION must be at least ${IMAGE_CONTENT.MIN_DIMENSION}`,
+    })
+    .max(IMAGE_CONTENT.MAX_DIMENSION_LIMIT, {
+      message: `IMAGE_CONTENT_MAX_DIMENSION cannot exceed ${IMAGE_CONTENT.MAX_DIMENSION_LIMIT}`,
+    })
+    .default(IMAGE_CONTENT.MAX_DIMENSION),
+
+  /**
+   * Maximum size of an image content thumbnail in bytes; larger images are omitted
+   */
+  imageContentMaxBytes: z
+    .number()
+    .int()
+    .min(1, { message: 'IMAGE_CONTENT_MAX_BYTES must be at least 1' })
+    .max(IMAGE_CONTENT.MAX_BYTES_LIMIT, {
+      message: `IMAGE_CONTENT_MAX_BYTES cannot exceed ${IMAGE_CONTENT.MAX_BYTES_LIMIT} (5MB)`,
+    })
+    .default(IMAGE_CONTENT.MAX_BYTES),
+
+  /**
+   * Directory with custom MCP prompt definitions (*.json).
+   * Only the built-in prompts are registered when not set.
+   */
+  promptsDir: z.string().min(1).optional(),
+
+  /**
+   * Text file with the team's style guide for prompts refined through MCP
+   * sampling (refine_prompt). Prompts are refined without one when not set.
+   */
+  promptStyleGuideFile: z.string().min(1).optional(),
+
+  /**
+   * Estimated credits above which the image tools ask the user to confirm
+   * the operation (MCP elicitation) before calling the API. Clients without
+   * elicitation support get a dry-run response instead. No confirmation is
+   * asked when not set.
+   */
+  confirmCreditThreshold: z
+    .number({ invalid_type_error: 'CONFIRM_CREDIT_THRESHOLD must be a number' })
+    .positive({ message: 'CONFIRM_CREDIT_THRESHOLD must be greater than 0' })
+    .optional(),
+
+  /**
+   * Names of the tools to register. All tools are registered when not set.
+   */
+  enabledTools: z.array(z.string().min(1)).min(1).optional(),
+
+  /**
+   * Names of the tools not to register, applied after enabledTools
+   */
+  disabledTools: z.array(z.string().min(1)).default([]),
+
+  /**
+   * MCP transport: stdio (default), Streamable HTTP, or legacy HTTP+SSE
+   */
+  transport: z.enum(TRANSPORT_MODES).default('stdio'),
+
+  /**
+   * Interface the HTTP transports listen on
+   */
+  httpHost: z.string().min(1).default(HTTP_TRANSPORT.DEFAULT_HOST),
+
+  /**
+   * Port the HTTP transports listen on
+   */
+  httpPort: z
+    .number()
+    .int()
+    .min(1, { message: 'MCP_HTTP_PORT must be at least 1' })
+    .max(65535, { message: 'MCP_HTTP_PORT cannot exceed 65535' })
+    .default(HTTP_TRANSPORT.DEFAULT_PORT),
+
+  /**
+   * MCP endpoint path of the HTTP transports
+   */
+  httpPath: z
+    .string()
+    .regex(/^\/[^?#]*$/, { message: 'MCP_HTTP_PATH must start with / and contain no query' })
+    .default(HTTP_TRANSPORT.DEFAULT_PATH),
 });
 
 /**
@@ -143,6 +252,38 @@ function parseInteger(value: string | undefined, defaultValue: number): number {
   return parsed;
 }
 
+/**
+ * Parse a number from an environment variable string.
+ * Values that are not numbers become NaN, which the config schema rejects,
+ * instead of silently falling back to unset.
+ *
+ * @param value - The string value to parse
+ * @returns The parsed number (NaN if invalid), or undefined if the value is empty
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Parse a comma-separated list from an environment variable string.
+ * Whitespace around entries is trimmed and empty entries are dropped.
+ *
+ * @param value - The string value to parse
+ * @returns The list entries, or undefined if the value has none
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+
+  return entries.length > 0 ? entries : undefined;
+}
+
 // =============================================================================
 // Configuration Loading
 // =============================================================================
@@ -154,9 +295,30 @@ const rawConfig = {
   ideogramApiKey: process.env['IDEOGRAM_API_KEY'],
   logLevel: process.env['LOG_LEVEL'],
   localSaveDir: process.env['LOCAL_SAVE_DIR'],
+  imageInputDirs: parseList(process.env['IMAGE_INPUT_DIRS']),
   enableLocalSave: parseBoolean(process.env['ENABLE_LOCAL_SAVE'], DEFAULTS.SAVE_LOCALLY),
   maxConcurrentRequests: parseInteger(process.env['MAX_CONCURRENT_REQUESTS'], 3),
   requestTimeoutMs: parseInteger(process.env['REQUEST_TIMEOUT_MS'], TIMEOUTS.DEFAULT_REQUEST_MS),
+  webhookSecret: process.env['WEBHOOK_SECRET'] || undefined,
+  persistPredictions: parseBoolean(process.env['PERSIST_PREDICTIONS'], true),
+  imageContentEnabled: parseBoolean(process.env['IMAGE_CONTENT'], true),
+  imageContentMaxDimension: parseInteger(
+    process.env['IMAGE_CONTENT_MAX_DIMENSION'],
+    IMAGE_CONTENT.MAX_DIMENSION
+  ),
+  imageContentMaxBytes: parseInteger(
+    process.env['IMAGE_CONTENT_MAX_BYTES'],
+    IMAGE_CONTENT.MAX_BYTES
+  ),
+  promptsDir: process.env['PROMPTS_DIR'] || undefined,
+  promptStyleGuideFile: process.env['PROMPT_STYLE_GUIDE_FILE'] || undefined,
+  confirmCreditThreshold: parseNumber(process.env['CONFIRM_CREDIT_THRESHOLD']),
+  enabledTools: parseList(process.env['IDEOGRAM_ENABLED_TOOLS']),
+  disabledTools: parseList(process.env['IDEOGRAM_DISABLED_TOOLS']),
+  transport: process.env['MCP_TRANSPORT'],
+  httpHost: process.env['MCP_HTTP_HOST'] || undefined,
+  httpPort: parseInteger(process.env['MCP_HTTP_PORT'], HTTP_TRANSPORT.DEFAULT_PORT),
+  httpPath: process.env['MCP_HTTP_PATH'] || undefined,
 };
 
 /**
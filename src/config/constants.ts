@@ -11,10 +11,12 @@
 
 import type {
   AspectRatio,
+  Resolution,
   RenderingSpeed,
   MagicPrompt,
   StyleType,
   Model,
+  LegacyAspectRatio,
   PredictionStatus,
 } from '../types/api.types.js';
 
@@ -82,6 +84,60 @@ export const ASPECT_RATIOS: readonly AspectRatio[] = [
   '16x10',
 ] as const;
 
+/**
+ * Supported output resolutions (RESOLUTION_<width>_<height>), an alternative
+ * to aspect ratios for exact output sizes.
+ */
+export const RESOLUTIONS: readonly Resolution[] = [
+  'RESOLUTION_512_1536',
+  'RESOLUTION_576_1408',
+  'RESOLUTION_576_1472',
+  'RESOLUTION_576_1536',
+  'RESOLUTION_640_1024',
+  'RESOLUTION_640_1344',
+  'RESOLUTION_640_1408',
+  'RESOLUTION_640_1472',
+  'RESOLUTION_640_1536',
+  'RESOLUTION_704_1152',
+  'RESOLUTION_704_1216',
+  'RESOLUTION_704_1280',
+  'RESOLUTION_704_1344',
+  'RESOLUTION_704_1408',
+  'RESOLUTION_704_1472',
+  'RESOLUTION_720_1280',
+  'RESOLUTION_736_1312',
+  'RESOLUTION_768_1024',
+  'RESOLUTION_768_1088',
+  'RESOLUTION_768_1152',
+  'RESOLUTION_768_1216',
+  'RESOLUTION_768_1232',
+  'RESOLUTION_768_1280',
+  'RESOLUTION_768_1344',
+  'RESOLUTION_832_960',
+  'RESOLUTION_832_1024',
+  'RESOLUTION_832_1088',
+  'RESOLUTION_832_1152',
+  'RESOLUTION_832_1216',
+  'RESOLUTION_832_1248',
+  'RESOLUTION_864_1152',
+  'RESOLUTION_896_960',
+  'RESOLUTION_896_1024',
+  'RESOLUTION_896_1088',
+  'RESOLUTION_896_1120',
+  'RESOLUTION_896_1152',
+  'RESOLUTION_960_832',
+  'RESOLUTION_960_896',
+  'RESOLUTION_960_1024',
+  'RESOLUTION_960_1088',
+  'RESOLUTION_1024_576',
+  'RESOLUTION_1024_640',
+  'RESOLUTION_1024_768',
+  'RESOLUTION_1024_832',
+  'RESOLUTION_1024_896',
+  'RESOLUTION_1024_960',
+  'RESOLUTION_1024_1024',
+] as const;
+
 /**
  * Rendering speed options for Ideogram V3.
  * Ordered from fastest (lowest quality) to slowest (highest quality).
@@ -114,6 +170,24 @@ export const STYLE_TYPES: readonly StyleType[] = [
  */
 export const MODELS: readonly Model[] = ['V_2', 'V_2_TURBO'] as const;
 
+/**
+ * Legacy V2 names of the aspect ratios supported by the legacy endpoints.
+ * 4x5, 5x4, 1x2 and 2x1 are V3 only.
+ */
+export const LEGACY_ASPECT_RATIOS: Readonly<Partial<Record<AspectRatio, LegacyAspectRatio>>> = {
+  '1x1': 'ASPECT_1_1',
+  '16x9': 'ASPECT_16_9',
+  '9x16': 'ASPECT_9_16',
+  '4x3': 'ASPECT_4_3',
+  '3x4': 'ASPECT_3_4',
+  '3x2': 'ASPECT_3_2',
+  '2x3': 'ASPECT_2_3',
+  '10x16': 'ASPECT_10_16',
+  '16x10': 'ASPECT_16_10',
+  '1x3': 'ASPECT_1_3',
+  '3x1': 'ASPECT_3_1',
+} as const;
+
 /**
  * Prediction status values for async operations (local implementation).
  */
@@ -175,6 +249,11 @@ export const VALIDATION = {
     MIN: 1,
     MAX: 1024,
   },
+  /** Color weight constraints for custom color palettes */
+  COLOR_WEIGHT: {
+    MIN: 0.05,
+    MAX: 1,
+  },
   /** Image file constraints */
   IMAGE: {
     /** Maximum file size in bytes (10MB) */
@@ -192,6 +271,7 @@ export const VALIDATION = {
  * Credit costs per image by rendering speed.
  * Note: These are estimates based on known Ideogram pricing.
  * Actual costs may vary - Ideogram API does not return cost info.
+ * Style references and style codes do not change the price.
  */
 export const CREDITS_PER_IMAGE: Record<RenderingSpeed, number> = {
   FLASH: 0.04,
@@ -247,6 +327,33 @@ export const REPLACE_BG_CREDITS_PER_IMAGE: Record<RenderingSpeed, number> = {
   QUALITY: 0.24,
 } as const;
 
+/**
+ * Credit costs per image for legacy V2 generate operations by model.
+ * Legacy models are priced per model; rendering speed does not apply.
+ *
+ * These prices are estimates rather than values from a published Ideogram
+ * price list, so cost estimates of legacy calls carry LEGACY_PRICING_NOTE.
+ */
+export const LEGACY_CREDITS_PER_IMAGE: Record<Model, number> = {
+  V_2: 0.13,
+  V_2_TURBO: 0.08,
+} as const;
+
+/**
+ * Credit costs per image for legacy V2 edit operations by model.
+ * Estimates, like LEGACY_CREDITS_PER_IMAGE.
+ */
+export const LEGACY_EDIT_CREDITS_PER_IMAGE: Record<Model, number> = {
+  V_2: 0.16,
+  V_2_TURBO: 0.1,
+} as const;
+
+/**
+ * Note attached to the cost estimates of legacy V2 calls.
+ */
+export const LEGACY_PRICING_NOTE =
+  'Legacy V2 prices are unverified estimates; check your Ideogram billing for the actual cost.';
+
 /**
  * Estimated USD per credit.
  * Based on Ideogram's pricing tiers.
@@ -313,6 +420,8 @@ export const TIMEOUTS = {
   LONG_REQUEST_MS: 120000,
   /** Image download timeout */
   IMAGE_DOWNLOAD_MS: 60000,
+  /** Webhook delivery request timeout */
+  WEBHOOK_REQUEST_MS: 10000,
 } as const;
 
 // =============================================================================
@@ -342,6 +451,135 @@ export const PREDICTION_QUEUE = {
   PREDICTION_TIMEOUT_MS: 300000,
   /** Time before prediction records are cleaned up (24 hours) */
   CLEANUP_AGE_MS: 24 * 60 * 60 * 1000,
+  /** Directory (inside LOCAL_SAVE_DIR) holding persisted predictions */
+  PERSISTENCE_DIR: '.predictions',
+  /** JSON-lines file holding persisted predictions */
+  PERSISTENCE_FILE: 'predictions.jsonl',
+  /** Directory (next to the persistence file) holding inline images of persisted requests */
+  PERSISTENCE_IMAGES_DIR: 'request-images',
+  /** Number of appended records after which the persistence file is compacted */
+  PERSISTENCE_COMPACT_THRESHOLD: 500,
+  /** Priority of predictions created without one */
+  DEFAULT_PRIORITY: 'normal',
+  /** Maximum deadline_seconds accepted by the async tools (24 hours) */
+  MAX_DEADLINE_SECONDS: 24 * 60 * 60,
+  /** Automatic retries of a prediction that failed with a retryable error */
+  MAX_AUTO_RETRIES: 2,
+  /** Delay before the first automatic retry; doubled for each further retry */
+  AUTO_RETRY_INITIAL_DELAY_MS: 30_000,
+  /** Maximum delay before an automatic retry (5 minutes) */
+  AUTO_RETRY_MAX_DELAY_MS: 5 * 60 * 1000,
+  /** Maximum number of predictions in one batch (list entries or matrix combinations) */
+  MAX_BATCH_SIZE: 50,
+} as const;
+
+// =============================================================================
+// Webhook Configuration
+// =============================================================================
+
+/**
+ * HTTP headers sent with webhook notifications
+ */
+export const WEBHOOK_HEADERS = {
+  /** Event name, e.g. `prediction.completed` */
+  EVENT: 'X-Ideogram-Event',
+  /** Unix timestamp (seconds) included in the signature */
+  TIMESTAMP: 'X-Ideogram-Timestamp',
+  /** HMAC-SHA256 signature of `${timestamp}.${body}`, formatted as `sha256=<hex>` */
+  SIGNATURE: 'X-Ideogram-Signature',
+} as const;
+
+// =============================================================================
+// Image Content Configuration
+// =============================================================================
+
+/**
+ * Thumbnails returned as MCP image content blocks alongside tool results
+ */
+export const IMAGE_CONTENT = {
+  /** Default maximum width/height of a thumbnail in pixels */
+  MAX_DIMENSION: 512,
+  /** Smallest accepted IMAGE_CONTENT_MAX_DIMENSION */
+  MIN_DIMENSION: 64,
+  /** Largest accepted IMAGE_CONTENT_MAX_DIMENSION */
+  MAX_DIMENSION_LIMIT: 2048,
+  /** Default maximum size of a thumbnail in bytes (before base64 encoding) */
+  MAX_BYTES: 1024 * 1024,
+  /** Largest accepted IMAGE_CONTENT_MAX_BYTES (5MB) */
+  MAX_BYTES_LIMIT: 5 * 1024 * 1024,
+} as const;
+
+// =============================================================================
+// Resource Configuration
+// =============================================================================
+
+/**
+ * MCP resources exposing saved images and predictions
+ */
+export const RESOURCES = {
+  /** Number of resources returned per resources/list page */
+  PAGE_SIZE: 50,
+  /** Maximum number of suggestions returned when completing a URI variable */
+  MAX_COMPLETIONS: 20,
+} as const;
+
+// =============================================================================
+// Transport Configuration
+// =============================================================================
+
+/**
+ * Supported MCP transports: stdio, Streamable HTTP, and legacy HTTP+SSE
+ */
+export const TRANSPORT_MODES = ['stdio', 'http', 'sse'] as const;
+
+/**
+ * HTTP transport settings (Streamable HTTP and legacy SSE)
+ */
+export const HTTP_TRANSPORT = {
+  /** Default interface to listen on (loopback only) */
+  DEFAULT_HOST: '127.0.0.1',
+  /** Default port */
+  DEFAULT_PORT: 3000,
+  /** Default MCP endpoint path */
+  DEFAULT_PATH: '/mcp',
+  /** Path appended to the endpoint path for legacy SSE client messages */
+  SSE_MESSAGES_SUFFIX: '/messages',
+  /** Maximum size of a JSON-RPC request body (base64 images can be large) */
+  MAX_BODY_BYTES: 20 * 1024 * 1024,
+  /** Header carrying the Streamable HTTP session ID */
+  SESSION_HEADER: 'mcp-session-id',
+} as const;
+
+// =============================================================================
+// Prompt Refinement Configuration
+// =============================================================================
+
+/**
+ * Settings of the prompt refinement through MCP sampling (refine_prompt)
+ */
+export const PROMPT_REFINEMENT = {
+  /** Maximum number of tokens the client's model may generate */
+  MAX_TOKENS: 1024,
+  /** Timeout of a sampling request; clients may ask the user to approve it */
+  TIMEOUT_MS: 5 * 60 * 1000,
+  /** Instructions sent as the system prompt of the sampling request */
+  SYSTEM_PROMPT:
+    'You rewrite prompts for the Ideogram text-to-image model. Turn the user prompt into ' +
+    'a single detailed image prompt that keeps its subject and intent and describes ' +
+    'composition, lighting, style, and any text to render in quotes. Reply with the ' +
+    'rewritten prompt only, without quotes, headings, or commentary.',
+} as const;
+
+// =============================================================================
+// Cost Confirmation Configuration
+// =============================================================================
+
+/**
+ * Settings of the confirmation of expensive operations (CONFIRM_CREDIT_THRESHOLD)
+ */
+export const COST_CONFIRMATION = {
+  /** Timeout of an elicitation request; the user has to answer it */
+  TIMEOUT_MS: 5 * 60 * 1000,
 } as const;
 
 // =============================================================================
@@ -363,6 +601,7 @@ export const ERROR_CODES = {
   INVALID_IMAGE: 'INVALID_IMAGE',
   INVALID_MASK: 'INVALID_MASK',
   IMAGE_TOO_LARGE: 'IMAGE_TOO_LARGE',
+  IMAGE_PATH_NOT_ALLOWED: 'IMAGE_PATH_NOT_ALLOWED',
 
   // API errors
   API_ERROR: 'API_ERROR',
@@ -372,11 +611,18 @@ export const ERROR_CODES = {
   // Network errors
   NETWORK_ERROR: 'NETWORK_ERROR',
   TIMEOUT: 'TIMEOUT',
+  CANCELLED: 'CANCELLED',
+
+  // Client errors
+  PROMPT_REFINEMENT_FAILED: 'PROMPT_REFINEMENT_FAILED',
+  COST_NOT_CONFIRMED: 'COST_NOT_CONFIRMED',
 
   // Prediction errors
   PREDICTION_NOT_FOUND: 'PREDICTION_NOT_FOUND',
   PREDICTION_ALREADY_COMPLETED: 'PREDICTION_ALREADY_COMPLETED',
   PREDICTION_FAILED: 'PREDICTION_FAILED',
+  PREDICTION_EXPIRED: 'PREDICTION_EXPIRED',
+  BATCH_NOT_FOUND: 'BATCH_NOT_FOUND',
 
   // Storage errors
   STORAGE_ERROR: 'STORAGE_ERROR',
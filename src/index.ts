@@ -4,20 +4,38 @@
  *
  * This is the main entry point for the Ideogram MCP (Model Context Protocol) server.
  * It initializes the server with a StdioServerTransport for communication with
- * MCP clients like Claude Desktop, Cursor, and other LLM applications.
+ * MCP clients like Claude Desktop, Cursor, and other LLM applications, or -
+ * with MCP_TRANSPORT=http or sse - serves it over HTTP so a whole team can
+ * share one server.
  *
  * The server provides tools for:
  * - ideogram_generate: Generate images from text prompts
  * - ideogram_generate_async: Queue image generation for background processing
+ * - ideogram_*_async: Queue edit, remix, upscale, reframe, and background
+ *   replacement jobs for background processing
  * - ideogram_edit: Edit images using inpainting or outpainting
  * - ideogram_get_prediction: Poll for async job status and results
  * - ideogram_cancel_prediction: Cancel queued async jobs
+ * - ideogram_retry_prediction: Re-queue failed or cancelled async jobs
+ * - ideogram_submit_batch: Queue many generations as one tracked batch
+ * - ideogram_get_batch: Poll a batch for aggregate status, cost, and images
+ *
+ * And resources for:
+ * - ideogram://images/{filename}: Images saved under LOCAL_SAVE_DIR
+ * - ideogram://predictions/{id}: Predictions of the local job queue
+ *
+ * And prompts for:
+ * - logo_design, product_shot, social_banner, character_sheet: Guidance for
+ *   common image workflows, plus custom prompts from PROMPTS_DIR
  *
  * @example
  * ```bash
  * # Run directly
  * node dist/index.js
  *
+ * # Serve a team over Streamable HTTP at http://0.0.0.0:3000/mcp
+ * MCP_TRANSPORT=http MCP_HTTP_HOST=0.0.0.0 node dist/index.js
+ *
  * # Run with inspector for debugging
  * npx @modelcontextprotocol/inspector node dist/index.js
  *
@@ -38,6 +56,7 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { startServer, SERVER_INFO } from './server.js';
+import { startHttpServer } from './transports/http.js';
 import { createChildLogger } from './utils/logger.js';
 import { config, isConfigValid, getConfigErrors } from './config/config.js';
 
@@ -74,7 +93,9 @@ function validateConfiguration(): void {
         '  LOCAL_SAVE_DIR - Directory for saving images. Default: ./ideogram_images\n' +
         '  ENABLE_LOCAL_SAVE - Enable local image saving. Default: true\n' +
         '  MAX_CONCURRENT_REQUESTS - Rate limiting. Default: 3\n' +
-        '  REQUEST_TIMEOUT_MS - API timeout in milliseconds. Default: 30000\n'
+        '  REQUEST_TIMEOUT_MS - API timeout in milliseconds. Default: 30000\n' +
+        '  MCP_TRANSPORT - Transport (stdio, http, sse). Default: stdio\n' +
+        '  MCP_HTTP_HOST / MCP_HTTP_PORT / MCP_HTTP_PATH - HTTP endpoint. Default: 127.0.0.1:3000/mcp\n'
     );
     process.exit(1);
   }
@@ -141,14 +162,43 @@ function setupSignalHandlers(shutdown: () => Promise<void>): void {
 // Main Entry Point
 // =============================================================================
 
+/**
+ * Starts the server on the transport selected by MCP_TRANSPORT.
+ *
+ * - `stdio` (default): a single client over stdin/stdout, as used by
+ *   Claude Desktop and similar clients
+ * - `http` / `sse`: an HTTP server (Streamable HTTP or legacy SSE) on
+ *   MCP_HTTP_HOST:MCP_HTTP_PORT at MCP_HTTP_PATH, with one session per client
+ *
+ * @returns Function to gracefully shut down the server
+ */
+async function startTransport(): Promise<() => Promise<void>> {
+  if (config.transport === 'stdio') {
+    // Create stdio transport for MCP communication
+    // This is the standard transport for Claude Desktop and similar clients
+    const transport = new StdioServerTransport();
+
+    entryLogger.debug('Created StdioServerTransport');
+
+    // StdioServerTransport keeps the process alive by reading from stdin
+    const { shutdown } = await startServer(transport);
+    return shutdown;
+  }
+
+  // The HTTP server keeps the process alive until it is closed
+  const { url, shutdown } = await startHttpServer({ mode: config.transport });
+  entryLogger.info({ transport: config.transport, url }, 'Listening for MCP clients over HTTP');
+  return shutdown;
+}
+
 /**
  * Main function that starts the Ideogram MCP server.
  *
  * This function:
  * 1. Validates configuration (including API key)
- * 2. Creates a StdioServerTransport for MCP communication
- * 3. Starts the server with the transport
- * 4. Sets up signal handlers for graceful shutdown
+ * 2. Starts the server on the configured transport (stdio, Streamable HTTP,
+ *    or legacy SSE)
+ * 3. Sets up signal handlers for graceful shutdown
  */
 async function main(): Promise<void> {
   entryLogger.info(
@@ -159,15 +209,9 @@ async function main(): Promise<void> {
   // Validate configuration
   validateConfiguration();
 
-  // Create stdio transport for MCP communication
-  // This is the standard transport for Claude Desktop and similar clients
-  const transport = new StdioServerTransport();
-
-  entryLogger.debug('Created StdioServerTransport');
-
   try {
-    // Start the server with the transport
-    const { shutdown } = await startServer(transport);
+    // Start the server on the configured transport
+    const shutdown = await startTransport();
 
     // Set up signal handlers for graceful shutdown
     setupSignalHandlers(shutdown);
@@ -176,15 +220,13 @@ async function main(): Promise<void> {
       {
         name: SERVER_INFO.NAME,
         version: SERVER_INFO.VERSION,
+        transport: config.transport,
         logLevel: config.logLevel,
         localSaveEnabled: config.enableLocalSave,
         localSaveDir: config.localSaveDir,
       },
       'Ideogram MCP Server started and ready to accept connections'
     );
-
-    // The server runs until a signal is received
-    // StdioServerTransport keeps the process alive by reading from stdin
   } catch (error) {
     entryLogger.error({ err: error }, 'Failed to start server');
     process.exit(1);
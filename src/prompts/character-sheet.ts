@@ -0,0 +1,103 @@
+/**
+ * character_sheet Prompt
+ *
+ * Expands into instructions for a character reference sheet with
+ * ideogram_generate.
+ *
+ * Features:
+ * - Recommends a wide 16x9 FICTION image at QUALITY speed
+ * - Asks for front, side, and back views plus expressions on one sheet
+ * - Optional art style and palette
+ *
+ * @example
+ * ```typescript
+ * const result = buildCharacterSheetPrompt({
+ *   subject: 'a young fox knight in silver armor',
+ *   art_style: 'Studio Ghibli inspired',
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  createPromptResult,
+  formatDetails,
+  formatGenerateGuidance,
+  type GenerateGuidance,
+} from './guidance.js';
+
+// =============================================================================
+// Prompt Constants
+// =============================================================================
+
+/**
+ * Prompt name for MCP registration
+ */
+export const PROMPT_NAME = 'character_sheet';
+
+/**
+ * Prompt description for MCP registration
+ */
+export const PROMPT_DESCRIPTION =
+  'Create a character reference sheet (turnaround and expressions) with ideogram_generate.';
+
+/**
+ * Prompt arguments for MCP registration
+ */
+export const PROMPT_ARGS = {
+  subject: z.string().min(1).describe('Description of the character'),
+  art_style: z
+    .string()
+    .optional()
+    .describe('Art style, e.g. "cel-shaded anime" or "watercolor storybook"'),
+  palette: z.string().optional().describe('Main colors of the character'),
+};
+
+/**
+ * Recommended ideogram_generate parameters
+ */
+export const GENERATE_GUIDANCE: GenerateGuidance = {
+  aspect_ratio: '16x9',
+  style_type: 'FICTION',
+  rendering_speed: 'QUALITY',
+  negative_prompt: 'inconsistent outfit, extra limbs, cropped figures, busy background',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Arguments of the character_sheet prompt
+ */
+export interface CharacterSheetArgs {
+  subject: string;
+  art_style?: string | undefined;
+  palette?: string | undefined;
+}
+
+// =============================================================================
+// Prompt Builder
+// =============================================================================
+
+/**
+ * Expands the character_sheet prompt.
+ *
+ * @param args - The prompt arguments
+ * @returns The prompts/get result
+ */
+export function buildCharacterSheetPrompt(args: CharacterSheetArgs): GetPromptResult {
+  return createPromptResult(`Character sheet of ${args.subject}`, [
+    `Create a character reference sheet of ${args.subject} using ideogram_generate.`,
+    formatDetails([
+      ['Art style', args.art_style],
+      ['Palette', args.palette],
+    ]),
+    'Write the prompt as a model sheet on a plain light background: the same character in ' +
+      'full-body front, side, and back views, plus three or four facial expressions, with ' +
+      'an identical outfit, proportions, and colors in every view.',
+    formatGenerateGuidance(GENERATE_GUIDANCE),
+  ]);
+}
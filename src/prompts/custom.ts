@@ -0,0 +1,248 @@
+/**
+ * Custom Prompt Definitions
+ *
+ * Loads team-defined MCP prompts from JSON files in a config directory
+ * (PROMPTS_DIR). Each file holds one prompt definition or an array of them:
+ *
+ * ```json
+ * {
+ *   "name": "event_poster",
+ *   "description": "Poster for a company event",
+ *   "arguments": [
+ *     { "name": "event", "description": "Name of the event", "required": true },
+ *     { "name": "date", "description": "Date shown on the poster" }
+ *   ],
+ *   "template": "Design a poster for {{event}} on {{date}} in our brand colors.",
+ *   "generate": { "aspect_ratio": "2x3", "style_type": "DESIGN", "rendering_speed": "QUALITY" }
+ * }
+ * ```
+ *
+ * `{{argument}}` placeholders in the template are replaced with the argument
+ * values (missing optional arguments become empty). When `generate` is set,
+ * the recommended ideogram_generate parameters are appended the same way as
+ * for the built-in prompts.
+ *
+ * Files that are not valid JSON or do not match the schema are logged and
+ * skipped, so one broken definition does not keep the server from starting.
+ *
+ * @example
+ * ```typescript
+ * const definitions = loadCustomPrompts('./prompts');
+ * const result = buildCustomPrompt(definitions[0], { event: 'Launch party' });
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { Logger } from 'pino';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  AspectRatioSchema,
+  MagicPromptSchema,
+  RenderingSpeedSchema,
+  StyleTypeV3Schema,
+} from '../types/tool.types.js';
+import { VALIDATION } from '../config/constants.js';
+import { createChildLogger } from '../utils/logger.js';
+import { createPromptResult, formatGenerateGuidance } from './guidance.js';
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/**
+ * Matches `{{argument}}` placeholders in a template
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+/**
+ * Prompt and argument names: letters, digits, underscores, and hyphens
+ */
+const NameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Must contain only letters, digits, underscores, and hyphens');
+
+/**
+ * Schema of a custom prompt definition
+ */
+export const CustomPromptDefinitionSchema = z
+  .object({
+    name: NameSchema,
+    description: z.string().optional(),
+    arguments: z
+      .array(
+        z.object({
+          name: NameSchema,
+          description: z.string().optional(),
+          required: z.boolean().default(false),
+        })
+      )
+      .default([]),
+    template: z.string().min(1, 'Template cannot be empty'),
+    generate: z
+      .object({
+        aspect_ratio: AspectRatioSchema,
+        style_type: StyleTypeV3Schema,
+        rendering_speed: RenderingSpeedSchema,
+        magic_prompt: MagicPromptSchema.optional(),
+        negative_prompt: z.string().optional(),
+        num_images: z
+          .number()
+          .int()
+          .min(VALIDATION.NUM_IMAGES.MIN)
+          .max(VALIDATION.NUM_IMAGES.MAX)
+          .optional(),
+      })
+      .optional(),
+  })
+  .superRefine((definition, ctx) => {
+    const names = new Set(definition.arguments.map((argument) => argument.name));
+    if (names.size !== definition.arguments.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['arguments'],
+        message: 'Argument names must be unique',
+      });
+    }
+    for (const match of definition.template.matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1] ?? '';
+      if (!names.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['template'],
+          message: `Placeholder {{${name}}} does not match any argument`,
+        });
+      }
+    }
+  });
+
+/**
+ * A validated custom prompt definition
+ */
+export type CustomPromptDefinition = z.infer<typeof CustomPromptDefinitionSchema>;
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Loads the custom prompt definitions from the JSON files in a directory.
+ *
+ * Files are read in alphabetical order. Invalid files and definitions whose
+ * name is already taken by an earlier file are logged and skipped. A missing
+ * directory yields no definitions.
+ *
+ * @param dir - Directory containing the `*.json` prompt definitions
+ * @param logger - Custom logger instance
+ * @returns The valid prompt definitions
+ *
+ * @example
+ * ```typescript
+ * const definitions = loadCustomPrompts(config.promptsDir);
+ * ```
+ */
+export function loadCustomPrompts(
+  dir: string,
+  logger: Logger = createChildLogger('prompts')
+): CustomPromptDefinition[] {
+  let filenames: string[];
+  try {
+    filenames = fs
+      .readdirSync(dir)
+      .filter((filename) => path.extname(filename).toLowerCase() === '.json')
+      .sort();
+  } catch (error) {
+    logger.warn({ dir, err: error }, 'Failed to read custom prompts directory');
+    return [];
+  }
+
+  const definitions: CustomPromptDefinition[] = [];
+  const names = new Set<string>();
+
+  for (const filename of filenames) {
+    const filePath = path.join(dir, filename);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      logger.warn({ filePath, err: error }, 'Skipping custom prompt file that is not valid JSON');
+      continue;
+    }
+
+    const result = z
+      .union([CustomPromptDefinitionSchema, z.array(CustomPromptDefinitionSchema)])
+      .safeParse(data);
+    if (!result.success) {
+      logger.warn(
+        {
+          filePath,
+          issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        'Skipping invalid custom prompt file'
+      );
+      continue;
+    }
+
+    for (const definition of Array.isArray(result.data) ? result.data : [result.data]) {
+      if (names.has(definition.name)) {
+        logger.warn(
+          { filePath, name: definition.name },
+          'Skipping custom prompt with duplicate name'
+        );
+        continue;
+      }
+      names.add(definition.name);
+      definitions.push(definition);
+    }
+  }
+
+  logger.debug({ dir, count: definitions.length }, 'Custom prompts loaded');
+  return definitions;
+}
+
+// =============================================================================
+// Prompt Builder
+// =============================================================================
+
+/**
+ * Builds the zod argument shape of a custom prompt for MCP registration.
+ *
+ * @param definition - The prompt definition
+ * @returns Argument shape for `server.prompt()`
+ */
+export function getCustomPromptArgs(
+  definition: CustomPromptDefinition
+): Record<string, z.ZodType<string | undefined>> {
+  const shape: Record<string, z.ZodType<string | undefined>> = {};
+  for (const argument of definition.arguments) {
+    const schema = argument.required ? z.string().min(1) : z.string().optional();
+    shape[argument.name] =
+      argument.description !== undefined ? schema.describe(argument.description) : schema;
+  }
+  return shape;
+}
+
+/**
+ * Expands a custom prompt.
+ *
+ * @param definition - The prompt definition
+ * @param args - The prompt arguments
+ * @returns The prompts/get result
+ */
+export function buildCustomPrompt(
+  definition: CustomPromptDefinition,
+  args: Record<string, string | undefined>
+): GetPromptResult {
+  const text = definition.template.replace(
+    PLACEHOLDER_PATTERN,
+    (_placeholder, name: string) => args[name] ?? ''
+  );
+
+  return createPromptResult(definition.description ?? definition.name, [
+    text.trim(),
+    definition.generate !== undefined ? formatGenerateGuidance(definition.generate) : '',
+  ]);
+}
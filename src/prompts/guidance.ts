@@ -0,0 +1,136 @@
+/**
+ * Prompt Guidance Helpers
+ *
+ * Shared helpers for the MCP prompt templates. Every prompt expands into a
+ * single user message that describes the image to create and recommends the
+ * `ideogram_generate` parameters to use for it, so the model picks a suitable
+ * aspect ratio, style type, and rendering speed instead of the defaults.
+ *
+ * @example
+ * ```typescript
+ * const text = formatGenerateGuidance({
+ *   aspect_ratio: '1x1',
+ *   style_type: 'DESIGN',
+ *   rendering_speed: 'QUALITY',
+ * });
+ * ```
+ */
+
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AspectRatio, MagicPrompt, RenderingSpeed, StyleTypeV3 } from '../types/api.types.js';
+import { ASPECT_RATIOS, RENDERING_SPEEDS, STYLE_TYPES } from '../config/constants.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Recommended `ideogram_generate` parameters for a prompt
+ */
+export interface GenerateGuidance {
+  /** Aspect ratio of the image */
+  aspect_ratio: AspectRatio;
+  /** Style type of the image */
+  style_type: StyleTypeV3;
+  /** Rendering speed (quality tier) */
+  rendering_speed: RenderingSpeed;
+  /** Magic prompt setting */
+  magic_prompt?: MagicPrompt | undefined;
+  /** Negative prompt */
+  negative_prompt?: string | undefined;
+  /** Number of variations to generate */
+  num_images?: number | undefined;
+}
+
+// =============================================================================
+// Formatting Helpers
+// =============================================================================
+
+/**
+ * Formats recommended `ideogram_generate` parameters as prompt guidance.
+ *
+ * Lists the recommended values followed by all supported aspect ratios,
+ * style types, and rendering speeds, so the model can deviate deliberately
+ * when the user asks for something else.
+ *
+ * @param guidance - The recommended parameters
+ * @returns Guidance text to append to a prompt message
+ *
+ * @example
+ * ```typescript
+ * formatGenerateGuidance({ aspect_ratio: '16x9', style_type: 'FICTION', rendering_speed: 'QUALITY' });
+ * ```
+ */
+export function formatGenerateGuidance(guidance: GenerateGuidance): string {
+  const lines = [
+    'Call ideogram_generate with these parameters:',
+    `- aspect_ratio: "${guidance.aspect_ratio}"`,
+    `- style_type: "${guidance.style_type}"`,
+    `- rendering_speed: "${guidance.rendering_speed}"`,
+  ];
+  if (guidance.magic_prompt !== undefined) {
+    lines.push(`- magic_prompt: "${guidance.magic_prompt}"`);
+  }
+  if (guidance.negative_prompt !== undefined) {
+    lines.push(`- negative_prompt: "${guidance.negative_prompt}"`);
+  }
+  if (guidance.num_images !== undefined) {
+    lines.push(`- num_images: ${guidance.num_images}`);
+  }
+
+  lines.push(
+    '',
+    'Only change these if the user asks for something different. Supported values:',
+    `- aspect_ratio: ${ASPECT_RATIOS.join(', ')}`,
+    `- style_type: ${STYLE_TYPES.join(', ')}`,
+    `- rendering_speed: ${RENDERING_SPEEDS.join(', ')} (fastest to highest quality)`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds a prompt result with a single user message.
+ *
+ * @param description - Description of the expanded prompt
+ * @param sections - Paragraphs of the message; empty sections are skipped
+ * @returns The prompts/get result
+ */
+export function createPromptResult(description: string, sections: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: sections.filter((section) => section !== '').join('\n\n'),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Formats optional details as "Label: value" lines, skipping arguments that
+ * were not given.
+ *
+ * @param details - Pairs of label and argument value
+ * @returns The detail lines, or '' if no argument was given
+ *
+ * @example
+ * ```typescript
+ * formatDetails([['Palette', 'navy and gold'], ['Industry', undefined]]); // 'Palette: navy and gold'
+ * ```
+ */
+export function formatDetails(details: Array<[string, string | undefined]>): string {
+  const lines: string[] = [];
+  for (const [label, value] of details) {
+    const trimmed = value?.trim() ?? '';
+    if (trimmed !== '') {
+      lines.push(`${label}: ${trimmed}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,223 @@
+/**
+ * Prompts Index
+ *
+ * Central export point for the MCP prompts of the Ideogram MCP server.
+ * This module provides:
+ * - Re-exports of the built-in prompt modules and the custom prompt loader
+ * - The registerPrompts() helper that adds all prompts to a server
+ *
+ * Built-in prompts:
+ * - `logo_design` - logo for a brand (brand_name, palette, industry, style)
+ * - `product_shot` - photorealistic product shot (subject, setting, palette, mood)
+ * - `social_banner` - social-media banner sized for a platform (platform, headline, ...)
+ * - `character_sheet` - character reference sheet (subject, art_style, palette)
+ *
+ * Each prompt expands into a user message that recommends the aspect ratio,
+ * style type, and rendering speed to pass to ideogram_generate. Teams can add
+ * their own prompts as JSON files in PROMPTS_DIR (see custom.ts).
+ *
+ * @example
+ * ```typescript
+ * import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+ * import { registerPrompts } from './prompts/index.js';
+ *
+ * const server = new McpServer({ name: 'ideogram', version: '1.0.0' });
+ * registerPrompts(server, { promptsDir: './prompts' });
+ * ```
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Logger } from 'pino';
+
+import { config } from '../config/config.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  PROMPT_NAME as CHARACTER_SHEET_PROMPT_NAME,
+  PROMPT_DESCRIPTION as CHARACTER_SHEET_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as CHARACTER_SHEET_PROMPT_ARGS,
+  buildCharacterSheetPrompt,
+} from './character-sheet.js';
+import { buildCustomPrompt, getCustomPromptArgs, loadCustomPrompts } from './custom.js';
+import {
+  PROMPT_NAME as LOGO_DESIGN_PROMPT_NAME,
+  PROMPT_DESCRIPTION as LOGO_DESIGN_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as LOGO_DESIGN_PROMPT_ARGS,
+  buildLogoDesignPrompt,
+} from './logo-design.js';
+import {
+  PROMPT_NAME as PRODUCT_SHOT_PROMPT_NAME,
+  PROMPT_DESCRIPTION as PRODUCT_SHOT_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as PRODUCT_SHOT_PROMPT_ARGS,
+  buildProductShotPrompt,
+} from './product-shot.js';
+import {
+  PROMPT_NAME as SOCIAL_BANNER_PROMPT_NAME,
+  PROMPT_DESCRIPTION as SOCIAL_BANNER_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as SOCIAL_BANNER_PROMPT_ARGS,
+  buildSocialBannerPrompt,
+} from './social-banner.js';
+
+// =============================================================================
+// Re-export Prompt Modules
+// =============================================================================
+
+// Logo Design Prompt
+export {
+  PROMPT_NAME as LOGO_DESIGN_PROMPT_NAME,
+  PROMPT_DESCRIPTION as LOGO_DESIGN_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as LOGO_DESIGN_PROMPT_ARGS,
+  GENERATE_GUIDANCE as LOGO_DESIGN_GENERATE_GUIDANCE,
+  buildLogoDesignPrompt,
+  type LogoDesignArgs,
+} from './logo-design.js';
+
+// Product Shot Prompt
+export {
+  PROMPT_NAME as PRODUCT_SHOT_PROMPT_NAME,
+  PROMPT_DESCRIPTION as PRODUCT_SHOT_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as PRODUCT_SHOT_PROMPT_ARGS,
+  GENERATE_GUIDANCE as PRODUCT_SHOT_GENERATE_GUIDANCE,
+  buildProductShotPrompt,
+  type ProductShotArgs,
+} from './product-shot.js';
+
+// Social Banner Prompt
+export {
+  PROMPT_NAME as SOCIAL_BANNER_PROMPT_NAME,
+  PROMPT_DESCRIPTION as SOCIAL_BANNER_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as SOCIAL_BANNER_PROMPT_ARGS,
+  SOCIAL_PLATFORMS,
+  getGenerateGuidance as getSocialBannerGenerateGuidance,
+  buildSocialBannerPrompt,
+  type SocialPlatform,
+  type SocialBannerArgs,
+} from './social-banner.js';
+
+// Character Sheet Prompt
+export {
+  PROMPT_NAME as CHARACTER_SHEET_PROMPT_NAME,
+  PROMPT_DESCRIPTION as CHARACTER_SHEET_PROMPT_DESCRIPTION,
+  PROMPT_ARGS as CHARACTER_SHEET_PROMPT_ARGS,
+  GENERATE_GUIDANCE as CHARACTER_SHEET_GENERATE_GUIDANCE,
+  buildCharacterSheetPrompt,
+  type CharacterSheetArgs,
+} from './character-sheet.js';
+
+// Custom Prompts
+export {
+  CustomPromptDefinitionSchema,
+  loadCustomPrompts,
+  getCustomPromptArgs,
+  buildCustomPrompt,
+  type CustomPromptDefinition,
+} from './custom.js';
+
+// Guidance Helpers
+export { formatGenerateGuidance, type GenerateGuidance } from './guidance.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for prompt registration.
+ */
+export interface RegisterPromptsOptions {
+  /**
+   * Directory with custom prompt definitions (`*.json`).
+   * Default: PROMPTS_DIR (no custom prompts when unset)
+   */
+  promptsDir?: string;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// Prompt Registration Helper
+// =============================================================================
+
+/**
+ * Names of the built-in prompts
+ */
+export const BUILT_IN_PROMPT_NAMES = [
+  LOGO_DESIGN_PROMPT_NAME,
+  PRODUCT_SHOT_PROMPT_NAME,
+  SOCIAL_BANNER_PROMPT_NAME,
+  CHARACTER_SHEET_PROMPT_NAME,
+] as const;
+
+/**
+ * Registers the built-in prompts and the custom prompts from the prompts
+ * directory with an MCP server.
+ *
+ * Custom prompts cannot replace built-in prompts; definitions that reuse a
+ * built-in name are logged and skipped.
+ *
+ * @param server - The MCP server instance
+ * @param options - Optional configuration
+ * @returns Names of all registered prompts
+ *
+ * @example
+ * ```typescript
+ * const server = new McpServer({ name: 'ideogram-mcp-server', version: '1.0.0' });
+ * registerTools(server);
+ * registerPrompts(server, { promptsDir: '/etc/ideogram/prompts' });
+ * ```
+ */
+export function registerPrompts(server: McpServer, options: RegisterPromptsOptions = {}): string[] {
+  const log = options.logger ?? createChildLogger('prompts');
+  const promptsDir = options.promptsDir ?? config.promptsDir;
+
+  server.prompt(
+    LOGO_DESIGN_PROMPT_NAME,
+    LOGO_DESIGN_PROMPT_DESCRIPTION,
+    LOGO_DESIGN_PROMPT_ARGS,
+    (args) => buildLogoDesignPrompt(args)
+  );
+  server.prompt(
+    PRODUCT_SHOT_PROMPT_NAME,
+    PRODUCT_SHOT_PROMPT_DESCRIPTION,
+    PRODUCT_SHOT_PROMPT_ARGS,
+    (args) => buildProductShotPrompt(args)
+  );
+  server.prompt(
+    SOCIAL_BANNER_PROMPT_NAME,
+    SOCIAL_BANNER_PROMPT_DESCRIPTION,
+    SOCIAL_BANNER_PROMPT_ARGS,
+    (args) => buildSocialBannerPrompt(args)
+  );
+  server.prompt(
+    CHARACTER_SHEET_PROMPT_NAME,
+    CHARACTER_SHEET_PROMPT_DESCRIPTION,
+    CHARACTER_SHEET_PROMPT_ARGS,
+    (args) => buildCharacterSheetPrompt(args)
+  );
+
+  const registered: string[] = [...BUILT_IN_PROMPT_NAMES];
+
+  if (promptsDir !== undefined) {
+    for (const definition of loadCustomPrompts(promptsDir, log)) {
+      if (registered.includes(definition.name)) {
+        log.warn(
+          { name: definition.name },
+          'Skipping custom prompt that shadows a built-in prompt'
+        );
+        continue;
+      }
+
+      server.prompt(
+        definition.name,
+        definition.description ?? `Custom prompt ${definition.name}`,
+        getCustomPromptArgs(definition),
+        (args) => buildCustomPrompt(definition, args)
+      );
+      registered.push(definition.name);
+    }
+  }
+
+  log.debug({ prompts: registered }, 'Registered prompts');
+  return registered;
+}
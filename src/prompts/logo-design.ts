@@ -0,0 +1,105 @@
+/**
+ * logo_design Prompt
+ *
+ * Expands into instructions for designing a logo with ideogram_generate.
+ *
+ * Features:
+ * - Puts the brand name in quotes so Ideogram renders it as text
+ * - Recommends a square DESIGN image at QUALITY speed with several variations
+ * - Optional palette, industry, and style direction
+ *
+ * @example
+ * ```typescript
+ * const result = buildLogoDesignPrompt({
+ *   brand_name: 'Northwind',
+ *   palette: 'navy and gold',
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  createPromptResult,
+  formatDetails,
+  formatGenerateGuidance,
+  type GenerateGuidance,
+} from './guidance.js';
+
+// =============================================================================
+// Prompt Constants
+// =============================================================================
+
+/**
+ * Prompt name for MCP registration
+ */
+export const PROMPT_NAME = 'logo_design';
+
+/**
+ * Prompt description for MCP registration
+ */
+export const PROMPT_DESCRIPTION =
+  'Design a logo for a brand with ideogram_generate (square, DESIGN style, several variations).';
+
+/**
+ * Prompt arguments for MCP registration
+ */
+export const PROMPT_ARGS = {
+  brand_name: z.string().min(1).describe('Brand name to render in the logo'),
+  palette: z.string().optional().describe('Brand colors, e.g. "navy and gold"'),
+  industry: z.string().optional().describe('Industry or product category of the brand'),
+  style: z.string().optional().describe('Style direction, e.g. "minimal line art"'),
+};
+
+/**
+ * Recommended ideogram_generate parameters
+ */
+export const GENERATE_GUIDANCE: GenerateGuidance = {
+  aspect_ratio: '1x1',
+  style_type: 'DESIGN',
+  rendering_speed: 'QUALITY',
+  magic_prompt: 'OFF',
+  negative_prompt: 'photograph, busy background, gradients, drop shadows',
+  num_images: 4,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Arguments of the logo_design prompt
+ */
+export interface LogoDesignArgs {
+  brand_name: string;
+  palette?: string | undefined;
+  industry?: string | undefined;
+  style?: string | undefined;
+}
+
+// =============================================================================
+// Prompt Builder
+// =============================================================================
+
+/**
+ * Expands the logo_design prompt.
+ *
+ * @param args - The prompt arguments
+ * @returns The prompts/get result
+ */
+export function buildLogoDesignPrompt(args: LogoDesignArgs): GetPromptResult {
+  return createPromptResult(`Logo design for ${args.brand_name}`, [
+    `Design a logo for the brand "${args.brand_name}" using ideogram_generate.`,
+    formatDetails([
+      ['Palette', args.palette],
+      ['Industry', args.industry],
+      ['Style', args.style],
+    ]),
+    'Write the prompt as a flat vector logo on a plain white background. Include the brand ' +
+      `name in quotes ("${args.brand_name}") so it is rendered as text, describe a simple, ` +
+      'memorable symbol, and name the colors explicitly. Magic prompt is turned off so the ' +
+      'exact wording is kept.',
+    formatGenerateGuidance(GENERATE_GUIDANCE),
+  ]);
+}
@@ -0,0 +1,107 @@
+/**
+ * product_shot Prompt
+ *
+ * Expands into instructions for a photorealistic product shot with
+ * ideogram_generate.
+ *
+ * Features:
+ * - Recommends a 4x5 REALISTIC image at QUALITY speed
+ * - Optional setting, palette, and mood
+ * - Steers away from text and watermarks in the image
+ *
+ * @example
+ * ```typescript
+ * const result = buildProductShotPrompt({
+ *   subject: 'a ceramic coffee mug',
+ *   setting: 'on a marble countertop',
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  createPromptResult,
+  formatDetails,
+  formatGenerateGuidance,
+  type GenerateGuidance,
+} from './guidance.js';
+
+// =============================================================================
+// Prompt Constants
+// =============================================================================
+
+/**
+ * Prompt name for MCP registration
+ */
+export const PROMPT_NAME = 'product_shot';
+
+/**
+ * Prompt description for MCP registration
+ */
+export const PROMPT_DESCRIPTION =
+  'Create a photorealistic product shot with ideogram_generate (4x5, REALISTIC style).';
+
+/**
+ * Prompt arguments for MCP registration
+ */
+export const PROMPT_ARGS = {
+  subject: z.string().min(1).describe('The product to photograph'),
+  setting: z
+    .string()
+    .optional()
+    .describe('Scene or surface, e.g. "on a marble countertop" (default: clean studio backdrop)'),
+  palette: z.string().optional().describe('Colors of the backdrop and props'),
+  mood: z.string().optional().describe('Lighting and mood, e.g. "soft morning light"'),
+};
+
+/**
+ * Recommended ideogram_generate parameters
+ */
+export const GENERATE_GUIDANCE: GenerateGuidance = {
+  aspect_ratio: '4x5',
+  style_type: 'REALISTIC',
+  rendering_speed: 'QUALITY',
+  negative_prompt: 'text, watermark, logo, blurry, distorted product',
+  num_images: 2,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Arguments of the product_shot prompt
+ */
+export interface ProductShotArgs {
+  subject: string;
+  setting?: string | undefined;
+  palette?: string | undefined;
+  mood?: string | undefined;
+}
+
+// =============================================================================
+// Prompt Builder
+// =============================================================================
+
+/**
+ * Expands the product_shot prompt.
+ *
+ * @param args - The prompt arguments
+ * @returns The prompts/get result
+ */
+export function buildProductShotPrompt(args: ProductShotArgs): GetPromptResult {
+  return createPromptResult(`Product shot of ${args.subject}`, [
+    `Create a professional product photograph of ${args.subject} using ideogram_generate.`,
+    formatDetails([
+      ['Setting', args.setting ?? 'clean studio backdrop'],
+      ['Palette', args.palette],
+      ['Mood', args.mood],
+    ]),
+    'Write the prompt like a photography brief: the product centered and in sharp focus, ' +
+      'the surface and background, the lighting (e.g. softbox key light with gentle ' +
+      'shadows), and the camera (e.g. 85mm lens, shallow depth of field).',
+    formatGenerateGuidance(GENERATE_GUIDANCE),
+  ]);
+}
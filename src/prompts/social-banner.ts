@@ -0,0 +1,134 @@
+/**
+ * social_banner Prompt
+ *
+ * Expands into instructions for a social-media banner or post image with
+ * ideogram_generate.
+ *
+ * Features:
+ * - Picks the supported aspect ratio closest to the platform's format
+ * - Renders the headline as text with the DESIGN style
+ * - Optional brand name and palette
+ *
+ * @example
+ * ```typescript
+ * const result = buildSocialBannerPrompt({
+ *   platform: 'linkedin_banner',
+ *   headline: 'Now hiring engineers',
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+import type { AspectRatio } from '../types/api.types.js';
+import {
+  createPromptResult,
+  formatDetails,
+  formatGenerateGuidance,
+  type GenerateGuidance,
+} from './guidance.js';
+
+// =============================================================================
+// Prompt Constants
+// =============================================================================
+
+/**
+ * Prompt name for MCP registration
+ */
+export const PROMPT_NAME = 'social_banner';
+
+/**
+ * Prompt description for MCP registration
+ */
+export const PROMPT_DESCRIPTION =
+  'Create a social-media banner or post image with ideogram_generate, sized for the platform.';
+
+/**
+ * Supported platforms and the closest supported aspect ratio of their format
+ */
+export const SOCIAL_PLATFORMS = {
+  instagram_post: '1x1',
+  instagram_portrait: '4x5',
+  instagram_story: '9x16',
+  tiktok: '9x16',
+  facebook_cover: '3x1',
+  twitter_header: '3x1',
+  twitter_post: '16x9',
+  linkedin_banner: '3x1',
+  youtube_thumbnail: '16x9',
+  pinterest_pin: '2x3',
+} as const satisfies Record<string, AspectRatio>;
+
+/**
+ * Platform names accepted by the prompt
+ */
+export type SocialPlatform = keyof typeof SOCIAL_PLATFORMS;
+
+/**
+ * Prompt arguments for MCP registration
+ */
+export const PROMPT_ARGS = {
+  platform: z
+    .enum(Object.keys(SOCIAL_PLATFORMS) as [SocialPlatform, ...SocialPlatform[]])
+    .describe(`Target platform: ${Object.keys(SOCIAL_PLATFORMS).join(', ')}`),
+  headline: z.string().min(1).describe('Headline text to render on the banner'),
+  brand_name: z.string().optional().describe('Brand name to include'),
+  palette: z.string().optional().describe('Brand colors, e.g. "teal and white"'),
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Arguments of the social_banner prompt
+ */
+export interface SocialBannerArgs {
+  platform: SocialPlatform;
+  headline: string;
+  brand_name?: string | undefined;
+  palette?: string | undefined;
+}
+
+// =============================================================================
+// Prompt Builder
+// =============================================================================
+
+/**
+ * Gets the recommended ideogram_generate parameters for a platform.
+ *
+ * @param platform - The target platform
+ * @returns The recommended parameters
+ */
+export function getGenerateGuidance(platform: SocialPlatform): GenerateGuidance {
+  return {
+    aspect_ratio: SOCIAL_PLATFORMS[platform],
+    style_type: 'DESIGN',
+    rendering_speed: 'DEFAULT',
+    negative_prompt: 'misspelled text, cluttered layout, small unreadable text',
+    num_images: 2,
+  };
+}
+
+/**
+ * Expands the social_banner prompt.
+ *
+ * @param args - The prompt arguments
+ * @returns The prompts/get result
+ */
+export function buildSocialBannerPrompt(args: SocialBannerArgs): GetPromptResult {
+  return createPromptResult(`Social banner for ${args.platform}`, [
+    `Create a ${args.platform.replace(/_/g, ' ')} image using ideogram_generate with the ` +
+      `headline "${args.headline}".`,
+    formatDetails([
+      ['Brand', args.brand_name],
+      ['Palette', args.palette],
+    ]),
+    'Write the prompt as a graphic design layout: include the headline in quotes so it is ' +
+      'rendered as text, keep it large and legible, leave breathing room around the edges ' +
+      'where the platform may crop or overlay its UI, and describe a background that ' +
+      'supports the message without competing with it.',
+    formatGenerateGuidance(getGenerateGuidance(args.platform)),
+  ]);
+}
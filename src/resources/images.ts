@@ -0,0 +1,204 @@
+/**
+ * ideogram://images/{filename} Resource
+ *
+ * Exposes the images saved under LOCAL_SAVE_DIR (by the image tools and the
+ * async job queue) as MCP resources, so clients can attach past outputs to a
+ * conversation without downloading them again.
+ *
+ * Features:
+ * - Lists every saved image, newest first
+ * - Returns image contents as base64 blobs with the detected MIME type
+ * - Completes filenames for the `filename` template variable
+ *
+ * @example
+ * ```typescript
+ * const images = createImageResourceHandlers();
+ *
+ * const resources = await images.list();
+ * const result = await images.read(new URL(resources[0].uri), resources[0].name);
+ * ```
+ */
+
+import * as path from 'path';
+import type { Logger } from 'pino';
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { RESOURCES } from '../config/constants.js';
+import { StorageService, createStorageService } from '../services/storage.service.js';
+import { detectImageMimeType } from '../utils/image.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Resource Constants
+// =============================================================================
+
+/**
+ * Resource template name for MCP registration
+ */
+export const RESOURCE_NAME = 'ideogram_images';
+
+/**
+ * URI template of saved image resources
+ */
+export const URI_TEMPLATE = 'ideogram://images/{filename}';
+
+/**
+ * Resource description for MCP registration
+ */
+export const RESOURCE_DESCRIPTION =
+  'Images saved locally by the Ideogram tools (LOCAL_SAVE_DIR), returned as base64 blobs.';
+
+/**
+ * MIME types of the image files listed as resources, by extension
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the image resource handlers
+ */
+export interface ImageResourceOptions {
+  /**
+   * Custom StorageService instance
+   */
+  storage?: StorageService;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Handlers backing the image resource template
+ */
+export interface ImageResourceHandlers {
+  /** Lists all saved images, newest first */
+  list: () => Promise<Resource[]>;
+  /** Reads a saved image */
+  read: (uri: URL, filename: string) => Promise<ReadResourceResult>;
+  /** Completes a partial filename */
+  complete: (value: string) => Promise<string[]>;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Builds the resource URI of a saved image.
+ *
+ * @param filename - The saved image filename
+ * @returns The `ideogram://images/{filename}` URI
+ */
+export function getImageResourceUri(filename: string): string {
+  return `ideogram://images/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Gets the MIME type of an image file from its extension.
+ */
+function getMimeTypeForFilename(filename: string): string | undefined {
+  return IMAGE_MIME_TYPES[path.extname(filename).toLowerCase()];
+}
+
+// =============================================================================
+// Resource Handler Factory
+// =============================================================================
+
+/**
+ * Creates the list, read, and complete handlers for saved image resources.
+ *
+ * @param options - Configuration options for the handlers
+ * @returns The resource handlers
+ *
+ * @example
+ * ```typescript
+ * const images = createImageResourceHandlers({
+ *   storage: createStorageServiceWithDir('./my_images'),
+ * });
+ * ```
+ */
+export function createImageResourceHandlers(
+  options: ImageResourceOptions = {}
+): ImageResourceHandlers {
+  const log = options.logger ?? createChildLogger('resource:images');
+  const storage = options.storage ?? createStorageService();
+
+  /**
+   * Lists the saved image filenames, newest first. Generated filenames embed
+   * an ISO timestamp, so sorting them in reverse puts the newest first.
+   */
+  async function listImageFilenames(): Promise<string[]> {
+    const filenames = await storage.listFiles();
+    return filenames
+      .filter((filename) => getMimeTypeForFilename(filename) !== undefined)
+      .sort()
+      .reverse();
+  }
+
+  return {
+    async list(): Promise<Resource[]> {
+      const filenames = await listImageFilenames();
+
+      return filenames.map((filename) => {
+        const resource: Resource = {
+          uri: getImageResourceUri(filename),
+          name: filename,
+        };
+        const mimeType = getMimeTypeForFilename(filename);
+        if (mimeType !== undefined) {
+          resource.mimeType = mimeType;
+        }
+        return resource;
+      });
+    },
+
+    async read(uri: URL, filename: string): Promise<ReadResourceResult> {
+      // Only plain filenames inside the storage directory can be read
+      if (
+        filename === '' ||
+        path.basename(filename) !== filename ||
+        getMimeTypeForFilename(filename) === undefined ||
+        !(await storage.fileExists(filename))
+      ) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+      }
+
+      const data = await storage.readFile(filename);
+      const mimeType = detectImageMimeType(data) ?? getMimeTypeForFilename(filename);
+
+      log.debug({ filename, sizeBytes: data.length, mimeType }, 'Image resource read');
+
+      const contents: ReadResourceResult['contents'][number] = {
+        uri: uri.href,
+        blob: data.toString('base64'),
+      };
+      if (mimeType !== undefined) {
+        contents.mimeType = mimeType;
+      }
+      return { contents: [contents] };
+    },
+
+    async complete(value: string): Promise<string[]> {
+      const filenames = await listImageFilenames();
+      return filenames
+        .filter((filename) => filename.startsWith(value))
+        .slice(0, RESOURCES.MAX_COMPLETIONS);
+    },
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Resources Index
+ *
+ * Central export point for the MCP resources of the Ideogram MCP server.
+ * This module provides:
+ * - Re-exports of the image and prediction resource modules
+ * - The registerResources() helper that adds both resource templates to a server
+ *
+ * Registered resources:
+ * - `ideogram://images/{filename}` - images saved under LOCAL_SAVE_DIR (base64 blobs)
+ * - `ideogram://predictions/{id}` - predictions of the local job queue (JSON)
+ *
+ * `resources/list` is paginated, and clients can subscribe to a prediction to
+ * receive `notifications/resources/updated` when its status changes.
+ *
+ * @example
+ * ```typescript
+ * import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+ * import { registerTools, getSharedStore } from './tools/index.js';
+ * import { registerResources } from './resources/index.js';
+ *
+ * const server = new McpServer({ name: 'ideogram', version: '1.0.0' });
+ * registerTools(server);
+ * registerResources(server);
+ * ```
+ */
+
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ListResourcesResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+
+import { RESOURCES } from '../config/constants.js';
+import type { PredictionStore } from '../services/prediction.store.js';
+import type { StorageService } from '../services/storage.service.js';
+import { getSharedStore } from '../tools/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  RESOURCE_NAME as IMAGES_RESOURCE_NAME,
+  RESOURCE_DESCRIPTION as IMAGES_RESOURCE_DESCRIPTION,
+  URI_TEMPLATE as IMAGES_URI_TEMPLATE,
+  createImageResourceHandlers,
+} from './images.js';
+import {
+  RESOURCE_NAME as PREDICTIONS_RESOURCE_NAME,
+  RESOURCE_DESCRIPTION as PREDICTIONS_RESOURCE_DESCRIPTION,
+  URI_TEMPLATE as PREDICTIONS_URI_TEMPLATE,
+  createPredictionResourceHandlers,
+  getPredictionResourceUri,
+} from './predictions.js';
+
+// =============================================================================
+// Re-export Resource Modules
+// =============================================================================
+
+// Images Resource
+export {
+  RESOURCE_NAME as IMAGES_RESOURCE_NAME,
+  RESOURCE_DESCRIPTION as IMAGES_RESOURCE_DESCRIPTION,
+  URI_TEMPLATE as IMAGES_URI_TEMPLATE,
+  createImageResourceHandlers,
+  getImageResourceUri,
+  type ImageResourceOptions,
+  type ImageResourceHandlers,
+} from './images.js';
+
+// Predictions Resource
+export {
+  RESOURCE_NAME as PREDICTIONS_RESOURCE_NAME,
+  RESOURCE_DESCRIPTION as PREDICTIONS_RESOURCE_DESCRIPTION,
+  URI_TEMPLATE as PREDICTIONS_URI_TEMPLATE,
+  createPredictionResourceHandlers,
+  getPredictionResourceUri,
+  type PredictionResourceOptions,
+  type PredictionResourceHandlers,
+} from './predictions.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for resource registration.
+ */
+export interface RegisterResourcesOptions {
+  /**
+   * StorageService whose saved images are exposed.
+   * Default: a StorageService for LOCAL_SAVE_DIR
+   */
+  storage?: StorageService;
+
+  /**
+   * PredictionStore whose predictions are exposed.
+   * Default: the shared store of the async tools. Prediction resources are
+   * not registered when neither is available.
+   */
+  store?: PredictionStore;
+
+  /**
+   * Number of resources per resources/list page.
+   * Default: RESOURCES.PAGE_SIZE (50)
+   */
+  pageSize?: number;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+/**
+ * Encodes the offset of the next resources/list page as an opaque cursor.
+ */
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a resources/list cursor into an offset.
+ *
+ * @throws {McpError} InvalidParams if the cursor was not issued by this server
+ */
+function decodeCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString('utf8'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
+
+/**
+ * Gets the single value of a URI template variable.
+ */
+function getVariable(value: string | string[] | undefined): string {
+  const raw = (Array.isArray(value) ? value[0] : value) ?? '';
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// =============================================================================
+// Resource Registration Helper
+// =============================================================================
+
+/**
+ * Registers the image and prediction resources with an MCP server.
+ *
+ * This:
+ * - Registers the `ideogram://images/{filename}` and `ideogram://predictions/{id}`
+ *   resource templates (with completion of their variables)
+ * - Replaces the resources/list handler with one that lists all images and
+ *   predictions in pages of `pageSize`
+ * - Handles resources/subscribe and resources/unsubscribe, and sends
+ *   `notifications/resources/updated` when a subscribed prediction changes
+ *   status, plus `notifications/resources/list_changed` when a prediction
+ *   completes (its images are saved)
+ *
+ * Must be called before the server is connected to a transport.
+ *
+ * @param server - The MCP server instance
+ * @param options - Optional configuration
+ * @returns Function that stops watching the prediction store
+ *
+ * @example
+ * ```typescript
+ * const server = new McpServer({ name: 'ideogram-mcp-server', version: '1.0.0' });
+ * registerTools(server);
+ * const detach = registerResources(server, { pageSize: 20 });
+ *
+ * // Later, when the server shuts down
+ * detach();
+ * ```
+ */
+export function registerResources(
+  server: McpServer,
+  options: RegisterResourcesOptions = {}
+): () => void {
+  const log = options.logger ?? createChildLogger('resources');
+  const pageSize = options.pageSize ?? RESOURCES.PAGE_SIZE;
+  const store = options.store ?? getSharedStore();
+
+  const imageOptions: Parameters<typeof createImageResourceHandlers>[0] = {};
+  if (options.storage !== undefined) {
+    imageOptions.storage = options.storage;
+  }
+  const images = createImageResourceHandlers(imageOptions);
+  const predictions = store !== null ? createPredictionResourceHandlers({ store }) : null;
+
+  // Resource templates; listing is done by the paginated handler below
+  server.registerResource(
+    IMAGES_RESOURCE_NAME,
+    new ResourceTemplate(IMAGES_URI_TEMPLATE, {
+      list: undefined,
+      complete: { filename: (value) => images.complete(value) },
+    }),
+    { description: IMAGES_RESOURCE_DESCRIPTION },
+    (uri, variables) => images.read(uri, getVariable(variables['filename']))
+  );
+
+  if (predictions !== null) {
+    server.registerResource(
+      PREDICTIONS_RESOURCE_NAME,
+      new ResourceTemplate(PREDICTIONS_URI_TEMPLATE, {
+        list: undefined,
+        complete: { id: (value) => predictions.complete(value) },
+      }),
+      { description: PREDICTIONS_RESOURCE_DESCRIPTION, mimeType: 'application/json' },
+      (uri, variables) => predictions.read(uri, getVariable(variables['id']))
+    );
+  }
+
+  // Paginated resources/list: predictions first, then saved images
+  server.server.setRequestHandler(
+    ListResourcesRequestSchema,
+    async (request): Promise<ListResourcesResult> => {
+      const cursor = request.params?.cursor;
+      const offset = cursor !== undefined ? decodeCursor(cursor) : 0;
+
+      const resources: Resource[] = [...(predictions?.list() ?? []), ...(await images.list())];
+      const page = resources.slice(offset, offset + pageSize);
+
+      const result: ListResourcesResult = { resources: page };
+      if (offset + pageSize < resources.length) {
+        result.nextCursor = encodeCursor(offset + pageSize);
+      }
+      return result;
+    }
+  );
+
+  // Subscriptions to resource updates
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    log.debug({ uri: request.params.uri }, 'Resource subscribed');
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    log.debug({ uri: request.params.uri }, 'Resource unsubscribed');
+    return {};
+  });
+
+  if (store === null) {
+    return () => {};
+  }
+
+  return store.onStatusChange((prediction) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    const uri = getPredictionResourceUri(prediction.id);
+    if (subscriptions.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        log.warn({ uri, err: error }, 'Failed to send resource updated notification');
+      });
+    }
+
+    // Completed predictions add saved images to the resource list
+    if (prediction.status === 'completed') {
+      server.sendResourceListChanged();
+    }
+  });
+}
@@ -0,0 +1,185 @@
+/**
+ * ideogram://predictions/{id} Resource
+ *
+ * Exposes the predictions of the local job queue (created by the *_async
+ * tools and ideogram_submit_batch) as MCP resources. Reading a prediction
+ * returns the same JSON as ideogram_get_prediction.
+ *
+ * Features:
+ * - Lists every prediction in the store, newest first
+ * - Returns the prediction status and results as JSON
+ * - Completes prediction IDs for the `id` template variable
+ *
+ * Clients subscribed to a prediction resource are notified with
+ * `notifications/resources/updated` whenever the prediction changes status
+ * (see registerResources).
+ *
+ * @example
+ * ```typescript
+ * const predictions = createPredictionResourceHandlers({ store });
+ *
+ * const result = predictions.read(new URL('ideogram://predictions/pred_abc123'), 'pred_abc123');
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import type { Prediction } from '../types/api.types.js';
+import { RESOURCES } from '../config/constants.js';
+import type { PredictionStore } from '../services/prediction.store.js';
+import { toPredictionOutput } from '../services/prediction.output.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Resource Constants
+// =============================================================================
+
+/**
+ * Resource template name for MCP registration
+ */
+export const RESOURCE_NAME = 'ideogram_predictions';
+
+/**
+ * URI template of prediction resources
+ */
+export const URI_TEMPLATE = 'ideogram://predictions/{id}';
+
+/**
+ * Resource description for MCP registration
+ */
+export const RESOURCE_DESCRIPTION =
+  'Async predictions in the local job queue, returned as the JSON of ideogram_get_prediction. Subscribe to be notified of status changes.';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the prediction resource handlers
+ */
+export interface PredictionResourceOptions {
+  /**
+   * PredictionStore holding the predictions (the store shared by the async tools)
+   */
+  store: PredictionStore;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Handlers backing the prediction resource template
+ */
+export interface PredictionResourceHandlers {
+  /** Lists all predictions, newest first */
+  list: () => Resource[];
+  /** Reads a prediction */
+  read: (uri: URL, id: string) => ReadResourceResult;
+  /** Completes a partial prediction ID */
+  complete: (value: string) => string[];
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Builds the resource URI of a prediction.
+ *
+ * @param id - The prediction ID
+ * @returns The `ideogram://predictions/{id}` URI
+ */
+export function getPredictionResourceUri(id: string): string {
+  return `ideogram://predictions/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Describes a prediction in the resource list.
+ */
+function describePrediction(prediction: Prediction): string {
+  const label = `${prediction.type} (${prediction.status})`;
+  if ('prompt' in prediction.request) {
+    return `${label}: ${prediction.request.prompt}`;
+  }
+  return label;
+}
+
+// =============================================================================
+// Resource Handler Factory
+// =============================================================================
+
+/**
+ * Creates the list, read, and complete handlers for prediction resources.
+ *
+ * @param options - Configuration options for the handlers
+ * @returns The resource handlers
+ *
+ * @example
+ * ```typescript
+ * const predictions = createPredictionResourceHandlers({
+ *   store: getSharedStore(),
+ * });
+ * ```
+ */
+export function createPredictionResourceHandlers(
+  options: PredictionResourceOptions
+): PredictionResourceHandlers {
+  const log = options.logger ?? createChildLogger('resource:predictions');
+  const { store } = options;
+
+  /**
+   * Gets all predictions, newest first.
+   */
+  function getNewestFirst(): Prediction[] {
+    return store.getAll().sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  return {
+    list(): Resource[] {
+      return getNewestFirst().map((prediction) => ({
+        uri: getPredictionResourceUri(prediction.id),
+        name: prediction.id,
+        description: describePrediction(prediction),
+        mimeType: 'application/json',
+      }));
+    },
+
+    read(uri: URL, id: string): ReadResourceResult {
+      const prediction = store.get(id);
+      if (prediction === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+      }
+
+      const queuePosition =
+        prediction.status === 'queued' ? store.getQueuePosition(prediction.id) : undefined;
+      const output = toPredictionOutput(prediction, queuePosition);
+
+      log.debug({ predictionId: id, status: prediction.status }, 'Prediction resource read');
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(output, null, 2),
+          },
+        ],
+      };
+    },
+
+    complete(value: string): string[] {
+      return getNewestFirst()
+        .map((prediction) => prediction.id)
+        .filter((id) => id.startsWith(value))
+        .slice(0, RESOURCES.MAX_COMPLETIONS);
+    },
+  };
+}
@@ -6,6 +6,12 @@
  * - McpServer initialization with proper naming and versioning
  * - Tool registration for all 5 MVP tools
  * - Shared prediction store initialization for async tools
+ * - Background prediction processor registration
+ * - Webhook notifications for finished async predictions
+ * - Thumbnails of generated images as MCP image content blocks
+ * - Saved images and predictions as MCP resources
+ * - Prompt templates for common image workflows (built-in and from PROMPTS_DIR)
+ * - Persistence of async predictions across restarts
  * - Structured logging for server events
  *
  * @example
@@ -22,16 +28,28 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SERVER_INFO } from './config/constants.js';
+import { createImageContentService } from './services/image.content.js';
+import type { PredictionStore } from './services/prediction.store.js';
+import type { PredictionProcessorOptions } from './services/prediction.processor.js';
+import type { WebhookDispatcherOptions } from './services/webhook.dispatcher.js';
 import {
   registerTools,
   initializeSharedStore,
+  initializeToolStore,
   disposeSharedStore,
   getSharedStore,
   allTools,
+  getEnabledTools,
   getToolByName,
   getToolNames,
+  formatToolResult,
+  createToolHandlerContext,
   type RegisterToolsOptions,
+  type ToolRequestExtra,
 } from './tools/index.js';
+import { registerResources, type RegisterResourcesOptions } from './resources/index.js';
+import { registerPrompts, type RegisterPromptsOptions } from './prompts/index.js';
+import type { ToolHandlerContext } from './types/tool.types.js';
 import { createChildLogger } from './utils/logger.js';
 
 // =============================================================================
@@ -67,19 +85,87 @@ export interface ServerOptions {
    * Options for tool registration.
    */
   toolOptions?: RegisterToolsOptions;
+
+  /**
+   * Options for the background prediction processor registered on the
+   * shared prediction store (client, storage, logger).
+   */
+  processorOptions?: PredictionProcessorOptions;
+
+  /**
+   * Options for the webhook dispatcher attached to the shared prediction
+   * store (signing secret, timeout, retry behavior).
+   */
+  webhookOptions?: WebhookDispatcherOptions;
+
+  /**
+   * Options for the image and prediction resources (storage, page size).
+   */
+  resourceOptions?: RegisterResourcesOptions;
+
+  /**
+   * Options for the prompt templates (custom prompts directory).
+   */
+  promptOptions?: RegisterPromptsOptions;
 }
 
 // =============================================================================
 // Server Creation
 // =============================================================================
 
+/**
+ * Initializes the shared prediction store used by the async tools of every
+ * server instance, and attaches the background processor and webhook
+ * dispatcher to it (see initializeToolStore()).
+ *
+ * The store is persisted under LOCAL_SAVE_DIR unless PERSIST_PREDICTIONS is
+ * false. Calling this again keeps the existing store and replaces its
+ * processor and webhook dispatcher.
+ *
+ * createServer() calls this unless `toolOptions.initializeStore` is false.
+ * The HTTP transports call it once and then create one server per session
+ * with `initializeStore: false`, so all sessions share one job queue.
+ *
+ * @param options - Server options (store, processor, and webhook options are used)
+ * @returns The shared prediction store
+ *
+ * @example
+ * ```typescript
+ * const store = initializeServerStore({ toolOptions: { storeOptions: { maxQueueSize: 50 } } });
+ * ```
+ */
+export function initializeServerStore(options: ServerOptions = {}): PredictionStore {
+  const { toolOptions = {}, processorOptions, webhookOptions } = options;
+
+  // The top-level processor and webhook options take precedence over the
+  // ones in toolOptions
+  const storeSetup: RegisterToolsOptions = { ...toolOptions };
+  if (processorOptions !== undefined) {
+    storeSetup.processorOptions = processorOptions;
+  }
+  if (webhookOptions !== undefined) {
+    storeSetup.webhookOptions = webhookOptions;
+  }
+  return initializeToolStore(storeSetup);
+}
+
 /**
  * Creates and configures a new MCP server instance.
  *
  * This function:
  * 1. Creates a new McpServer with the specified name and version
- * 2. Initializes the shared prediction store for async tools
- * 3. Registers all 5 MVP tools with the server
+ * 2. Initializes the shared prediction store for async tools (persisted
+ *    under LOCAL_SAVE_DIR unless PERSIST_PREDICTIONS is false), registers
+ *    a background processor so queued predictions are executed, and attaches
+ *    a webhook dispatcher that notifies `webhook_url`s of finished predictions
+ * 3. Registers the enabled tools (all tools unless IDEOGRAM_ENABLED_TOOLS or
+ *    IDEOGRAM_DISABLED_TOOLS restrict them) with their annotations; results
+ *    of the image tools also carry thumbnails of the generated images as
+ *    image content blocks
+ * 4. Registers the `ideogram://images/{filename}` and `ideogram://predictions/{id}`
+ *    resources
+ * 5. Registers the built-in prompt templates and the custom prompts from
+ *    PROMPTS_DIR
  *
  * @param options - Optional server configuration
  * @returns Configured McpServer instance ready for connection
@@ -103,7 +189,13 @@ export interface ServerOptions {
  * ```
  */
 export function createServer(options: ServerOptions = {}): McpServer {
-  const { name = SERVER_INFO.NAME, version = SERVER_INFO.VERSION, toolOptions = {} } = options;
+  const {
+    name = SERVER_INFO.NAME,
+    version = SERVER_INFO.VERSION,
+    toolOptions = {},
+    resourceOptions,
+    promptOptions,
+  } = options;
 
   serverLogger.info({ name, version }, 'Creating MCP server');
 
@@ -114,48 +206,66 @@ export function createServer(options: ServerOptions = {}): McpServer {
   });
 
   // Initialize shared prediction store for async tools
-  const { initializeStore = true, storeOptions } = toolOptions;
+  const { initializeStore = true } = toolOptions;
   if (initializeStore) {
-    initializeSharedStore(storeOptions);
+    initializeServerStore(options);
   }
 
-  // Register all tools with the server using server.tool(name, description, schema, handler)
-  // This is the MCP SDK pattern for tool registration
-  serverLogger.debug('Registering tools with server.tool()');
+  // Register the enabled tools with the server using server.registerTool(name, config, handler)
+  // The config declares the input schema, the output schema of the structured result,
+  // and the behavior hints (annotations) of the tool
+  serverLogger.debug('Registering tools with server.registerTool()');
 
-  for (const tool of allTools) {
-    // Register each tool using the 4-parameter pattern:
-    // server.tool(name, description, schema, handler)
-    server.tool(
+  // Thumbnails of generated images are returned as image content blocks
+  const imageContent = createImageContentService(toolOptions.imageContentOptions);
+
+  const tools = getEnabledTools(toolOptions);
+  for (const tool of tools) {
+    server.registerTool(
       tool.name,
-      tool.description,
-      // Schema is passed as the Zod schema object
-      tool.schema as unknown as Record<string, unknown>,
+      {
+        description: tool.description,
+        // Schemas are passed as raw Zod shapes so the SDK validates arguments
+        // and structured results
+        inputSchema: tool.schema.shape,
+        outputSchema: tool.outputSchema.shape,
+        annotations: tool.annotations,
+      },
       // Handler wrapper to format response for MCP
-      async (input: unknown) => {
+      async (input: unknown, extra: ToolRequestExtra) => {
         // Cast handler to accept unknown input since MCP SDK already validates against schema
-        const handler = tool.handler as (input: unknown) => Promise<unknown>;
-        const result = await handler(input);
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        const handler = tool.handler as (
+          input: unknown,
+          context: ToolHandlerContext
+        ) => Promise<unknown>;
+        // The context cancels the call with the request, reports its progress,
+        // and refines prompts through sampling when the client supports it
+        const result = await handler(
+          input,
+          createToolHandlerContext(extra, server.server.getClientCapabilities())
+        );
+        return formatToolResult(tool.name, result, imageContent);
       }
     );
 
     serverLogger.debug({ toolName: tool.name }, 'Registered tool');
   }
 
+  // Expose saved images and predictions as resources; stop watching the
+  // prediction store once the connection closes
+  const detachResources = registerResources(server, resourceOptions);
+  server.server.onclose = detachResources;
+
+  // Prompt templates for common image workflows
+  const prompts = registerPrompts(server, promptOptions);
+
   serverLogger.info(
     {
       name,
       version,
-      toolCount: allTools.length,
-      tools: allTools.map((t) => t.name),
+      toolCount: tools.length,
+      tools: tools.map((t) => t.name),
+      prompts,
     },
     'MCP server created with tools registered'
   );
@@ -307,9 +417,14 @@ export { SERVER_INFO } from './config/constants.js';
 export {
   registerTools,
   initializeSharedStore,
+  initializeToolStore,
   disposeSharedStore,
   getSharedStore,
   allTools,
+  getEnabledTools,
   getToolByName,
   getToolNames,
+  formatToolResult,
+  registerResources,
+  registerPrompts,
 };
@@ -12,10 +12,13 @@
  * - TURBO: Fast, moderate cost
  * - DEFAULT: Balanced speed/cost
  * - QUALITY: Slowest, highest cost
+ *
+ * Legacy V2 models (V_2, V_2_TURBO) are priced per model instead. Their prices
+ * are unverified estimates, which their cost estimates note in `pricing_note`.
  */
 
-import type { RenderingSpeed, CostEstimate } from '../types/api.types.js';
-import type { CostEstimateOutput } from '../types/tool.types.js';
+import type { RenderingSpeed, Model, CostEstimate } from '../types/api.types.js';
+import type { BatchCostOutput, CostEstimateOutput } from '../types/tool.types.js';
 import {
   CREDITS_PER_IMAGE,
   EDIT_CREDITS_PER_IMAGE,
@@ -23,6 +26,9 @@ import {
   REMIX_CREDITS_PER_IMAGE,
   REFRAME_CREDITS_PER_IMAGE,
   REPLACE_BG_CREDITS_PER_IMAGE,
+  LEGACY_CREDITS_PER_IMAGE,
+  LEGACY_EDIT_CREDITS_PER_IMAGE,
+  LEGACY_PRICING_NOTE,
   USD_PER_CREDIT,
   DEFAULTS,
 } from '../config/constants.js';
@@ -46,6 +52,12 @@ export interface GenerateCostParams {
    * @default 'DEFAULT'
    */
   renderingSpeed?: RenderingSpeed;
+
+  /**
+   * Legacy V2 model. When set, the model's price is used instead of the
+   * rendering speed.
+   */
+  model?: Model;
 }
 
 /**
@@ -63,6 +75,12 @@ export interface EditCostParams {
    * @default 'DEFAULT'
    */
   renderingSpeed?: RenderingSpeed;
+
+  /**
+   * Legacy V2 model. When set, the model's price is used instead of the
+   * rendering speed.
+   */
+  model?: Model;
 }
 
 /**
@@ -104,10 +122,18 @@ export interface CostFormatOptions {
  *   renderingSpeed: 'QUALITY',
  * });
  * // { credits_used: 0.8, estimated_usd: 0.04, pricing_tier: 'QUALITY', num_images: 4 }
+ *
+ * // Legacy V2 model (priced per model)
+ * const cost = calculateCost({ numImages: 2, model: 'V_2_TURBO' });
+ * // { credits_used: 0.16, estimated_usd: 0.008, pricing_tier: 'V_2_TURBO', num_images: 2,
+ * //   pricing_note: 'Legacy V2 prices are unverified estimates; ...' }
  * ```
  */
 export function calculateCost(params: GenerateCostParams = {}): CostEstimate {
   const numImages = params.numImages ?? DEFAULTS.NUM_IMAGES;
+  if (params.model !== undefined) {
+    return calculateModelCost(LEGACY_CREDITS_PER_IMAGE, params.model, numImages);
+  }
   const renderingSpeed = params.renderingSpeed ?? DEFAULTS.RENDERING_SPEED;
 
   // Get credits per image for the rendering speed
@@ -150,6 +176,9 @@ export function calculateCost(params: GenerateCostParams = {}): CostEstimate {
  */
 export function calculateEditCost(params: EditCostParams = {}): CostEstimate {
   const numImages = params.numImages ?? DEFAULTS.NUM_IMAGES;
+  if (params.model !== undefined) {
+    return calculateModelCost(LEGACY_EDIT_CREDITS_PER_IMAGE, params.model, numImages);
+  }
   const renderingSpeed = params.renderingSpeed ?? DEFAULTS.RENDERING_SPEED;
 
   // Get credits per image for edit operations
@@ -367,6 +396,24 @@ export function formatCost(cost: CostEstimate | CostEstimateOutput): string {
   return `${cost.num_images} image${cost.num_images === 1 ? '' : 's'} × ${cost.pricing_tier}: ${creditsStr} credits (~$${usdStr} USD)`;
 }
 
+/**
+ * Formats the aggregate cost of a batch as a human-readable string.
+ *
+ * @param cost - The batch cost to format
+ * @returns Human-readable cost string
+ *
+ * @example
+ * ```typescript
+ * formatBatchCost({ credits_used: 1.2, estimated_usd: 0.06, num_images: 12, num_predictions: 6 });
+ * // "6 predictions, 12 images: 1.20 credits (~$0.0600 USD)"
+ * ```
+ */
+export function formatBatchCost(cost: BatchCostOutput): string {
+  const creditsStr = cost.credits_used.toFixed(2);
+  const usdStr = cost.estimated_usd.toFixed(4);
+  return `${cost.num_predictions} prediction${cost.num_predictions === 1 ? '' : 's'}, ${cost.num_images} image${cost.num_images === 1 ? '' : 's'}: ${creditsStr} credits (~$${usdStr} USD)`;
+}
+
 /**
  * Formats a cost estimate as a short summary string.
  *
@@ -394,12 +441,16 @@ export function formatCostShort(cost: CostEstimate | CostEstimateOutput): string
  * @returns Cost estimate in tool output format
  */
 export function toCostEstimateOutput(cost: CostEstimate): CostEstimateOutput {
-  return {
+  const output: CostEstimateOutput = {
     credits_used: cost.credits_used,
     estimated_usd: cost.estimated_usd,
     pricing_tier: cost.pricing_tier,
     num_images: cost.num_images,
   };
+  if (cost.pricing_note !== undefined) {
+    output.pricing_note = cost.pricing_note;
+  }
+  return output;
 }
 
 // =============================================================================
@@ -521,6 +572,26 @@ export function getDefaultRenderingSpeed(): RenderingSpeed {
 // Private Helper Functions
 // =============================================================================
 
+/**
+ * Calculates the cost of a legacy V2 operation from its per-model prices.
+ */
+function calculateModelCost(
+  creditsPerImage: Record<Model, number>,
+  model: Model,
+  numImages: number
+): CostEstimate {
+  const creditsUsed = creditsPerImage[model] * numImages;
+  const estimatedUsd = creditsUsed * USD_PER_CREDIT;
+
+  return {
+    credits_used: roundCredits(creditsUsed),
+    estimated_usd: roundUsd(estimatedUsd),
+    pricing_tier: model,
+    num_images: numImages,
+    pricing_note: LEGACY_PRICING_NOTE,
+  };
+}
+
 /**
  * Rounds credits to 2 decimal places to avoid floating point issues.
  */
@@ -654,6 +725,17 @@ export class CostCalculator {
     return cost;
   }
 
+  /**
+   * Adds an already calculated cost estimate to the running totals.
+   *
+   * @param cost - Cost estimate of one operation
+   */
+  addCost(cost: CostEstimate): void {
+    this.totalCredits += cost.credits_used;
+    this.totalUsd += cost.estimated_usd;
+    this.operationCount++;
+  }
+
   /**
    * Gets the total credits used across all tracked operations.
    */
@@ -700,15 +782,6 @@ export class CostCalculator {
       formattedTotal: `${this.operationCount} operations: ${this.getTotalCredits()} credits (~$${this.getTotalUsd().toFixed(4)} USD)`,
     };
   }
-
-  /**
-   * Adds a cost estimate to the running totals.
-   */
-  private addCost(cost: CostEstimate): void {
-    this.totalCredits += cost.credits_used;
-    this.totalUsd += cost.estimated_usd;
-    this.operationCount++;
-  }
 }
 
 /**
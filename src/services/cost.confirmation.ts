@@ -0,0 +1,178 @@
+/**
+ * Cost Confirmation
+ *
+ * Guards the image tools against unexpectedly expensive calls. When the
+ * estimated cost of an operation exceeds the credit threshold
+ * (CONFIRM_CREDIT_THRESHOLD), the handler asks before calling the Ideogram API
+ * or queueing predictions:
+ * - Clients that support elicitation ask the user to confirm the estimate
+ * - Other clients get a dry-run response with the estimate; nothing is run
+ *
+ * Operations at or below the threshold, and all operations when no threshold
+ * is configured, run without confirmation.
+ *
+ * @example
+ * ```typescript
+ * const estimate = calculateCost({ numImages: 8, renderingSpeed: 'QUALITY' });
+ * if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+ *   return createDryRunOutput(TOOL_NAME, estimate);
+ * }
+ * ```
+ */
+
+import type { Logger } from 'pino';
+
+import { config } from '../config/config.js';
+import type { CostEstimate } from '../types/api.types.js';
+import type {
+  BatchCostOutput,
+  DryRunOutput,
+  SubmitBatchDryRunOutput,
+  ToolHandlerContext,
+} from '../types/tool.types.js';
+import { createCostNotConfirmedError } from '../utils/error.handler.js';
+import { createChildLogger } from '../utils/logger.js';
+import { formatBatchCost, formatCost, toCostEstimateOutput } from './cost.calculator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Outcome of a cost confirmation:
+ * - `proceed`: run the operation
+ * - `dry_run`: return a dry-run response instead (no elicitation support)
+ */
+export type CostConfirmationResult = 'proceed' | 'dry_run';
+
+/**
+ * Configuration options for cost confirmation.
+ */
+export interface ConfirmCostOptions {
+  /**
+   * Credit threshold above which operations need confirmation.
+   * Default: CONFIRM_CREDIT_THRESHOLD (no confirmation when unset)
+   */
+  thresholdCredits?: number;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// Confirmation
+// =============================================================================
+
+/**
+ * Asks the user to confirm an operation whose estimated cost exceeds the
+ * credit threshold.
+ *
+ * @param toolName - Name of the tool running the operation
+ * @param estimate - Estimated cost of the operation, or of a whole batch
+ * @param context - Per-call context of the tool handler (cost confirmer)
+ * @param options - Optional configuration
+ * @returns Whether to run the operation or return a dry-run response
+ * @throws {IdeogramMCPError} COST_NOT_CONFIRMED if the user did not confirm
+ *
+ * @example
+ * ```typescript
+ * const result = await confirmCost('ideogram_upscale', estimate, context, {
+ *   thresholdCredits: 1,
+ * });
+ * ```
+ */
+export async function confirmCost(
+  toolName: string,
+  estimate: CostEstimate | BatchCostOutput,
+  context: ToolHandlerContext,
+  options: ConfirmCostOptions = {}
+): Promise<CostConfirmationResult> {
+  const thresholdCredits = options.thresholdCredits ?? config.confirmCreditThreshold;
+  if (thresholdCredits === undefined || estimate.credits_used <= thresholdCredits) {
+    return 'proceed';
+  }
+
+  const log = options.logger ?? createChildLogger('cost-confirmation');
+
+  if (context.confirmCost === undefined) {
+    log.info(
+      { tool: toolName, creditsUsed: estimate.credits_used, thresholdCredits },
+      'Client cannot confirm costs; returning a dry run'
+    );
+    return 'dry_run';
+  }
+
+  const confirmed = await context.confirmCost(
+    `Estimated cost of ${toolName}: ${formatEstimate(estimate)}. This is above the ` +
+      `confirmation threshold of ${thresholdCredits} credits. Do you want to proceed?`
+  );
+  log.info(
+    { tool: toolName, creditsUsed: estimate.credits_used, thresholdCredits, confirmed },
+    'Cost confirmation answered'
+  );
+
+  if (!confirmed) {
+    throw createCostNotConfirmedError(estimate.credits_used, thresholdCredits);
+  }
+  return 'proceed';
+}
+
+/**
+ * Creates the dry-run response of an image tool: no images, the estimated
+ * cost, and a message explaining why nothing was run.
+ *
+ * @param toolName - Name of the tool
+ * @param estimate - Estimated cost of the operation
+ * @returns The dry-run output
+ */
+export function createDryRunOutput(toolName: string, estimate: CostEstimate): DryRunOutput {
+  return {
+    success: true,
+    created: new Date().toISOString(),
+    images: [],
+    total_cost: toCostEstimateOutput(estimate),
+    num_images: 0,
+    dry_run: true,
+    message:
+      `Dry run. Estimated cost of ${toolName}: ${formatCost(estimate)}. This is above the ` +
+      'confirmation threshold, and this client cannot ask the user to confirm it. ' +
+      'Nothing was run. Use fewer images or a faster rendering speed to stay below the threshold.',
+  };
+}
+
+/**
+ * Creates the dry-run response of ideogram_submit_batch: the estimated cost of
+ * the whole batch, and a message explaining why nothing was queued.
+ *
+ * @param toolName - Name of the tool
+ * @param estimate - Estimated cost of the batch
+ * @returns The dry-run output
+ */
+export function createBatchDryRunOutput(
+  toolName: string,
+  estimate: BatchCostOutput
+): SubmitBatchDryRunOutput {
+  return {
+    success: true,
+    num_predictions: estimate.num_predictions,
+    estimated_cost: estimate,
+    dry_run: true,
+    message:
+      `Dry run. Estimated cost of ${toolName}: ${formatBatchCost(estimate)}. This is above ` +
+      'the confirmation threshold, and this client cannot ask the user to confirm it. ' +
+      'Nothing was queued. Submit fewer or cheaper generations to stay below the threshold.',
+  };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Formats the estimate of a single operation or of a whole batch.
+ */
+function formatEstimate(estimate: CostEstimate | BatchCostOutput): string {
+  return 'num_predictions' in estimate ? formatBatchCost(estimate) : formatCost(estimate);
+}
@@ -8,9 +8,10 @@
  * - Comprehensive error handling
  * - Structured logging
  * - Configurable timeouts
+ * - Request cancellation via AbortSignal
  */
 
-import axios, { type AxiosInstance, type AxiosError } from 'axios';
+import axios, { type AxiosInstance, type AxiosError, type AxiosRequestConfig } from 'axios';
 import FormData from 'form-data';
 import type { Logger } from 'pino';
 import { Readable } from 'stream';
@@ -21,6 +22,9 @@ import {
   API_KEY_HEADER,
   TIMEOUTS,
   DEFAULTS,
+  LEGACY_ASPECT_RATIOS,
+  RETRY_CONFIG,
+  VALIDATION,
 } from '../config/constants.js';
 import { config } from '../config/config.js';
 import type {
@@ -31,6 +35,11 @@ import type {
   RenderingSpeed,
   AspectRatio,
   ApiErrorResponse,
+  ColorPalette,
+  LegacyAspectRatio,
+  LegacyGenerateRequest,
+  Model,
+  Resolution,
   StyleType,
 } from '../types/api.types.js';
 import {
@@ -39,9 +48,18 @@ import {
   createInvalidImageError,
   createImageTooLargeError,
   createNetworkError,
+  createCancelledError,
+  createValidationError,
+  isSignalAborted,
   wrapError,
 } from '../utils/error.handler.js';
+import { readImageFile, type ReadImageFileOptions } from '../utils/image.file.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
 import { withRetry, type RetryOptions } from '../utils/retry.js';
+import type { ProgressCallback } from '../utils/progress.js';
 import {
   createChildLogger,
   logApiRequest,
@@ -87,12 +105,35 @@ export interface IdeogramClientOptions {
    */
   retryOptions?: RetryOptions;
 
+  /**
+   * Options for reading image inputs given as local file paths.
+   * Default: relative to LOCAL_SAVE_DIR, readable from LOCAL_SAVE_DIR and IMAGE_INPUT_DIRS
+   */
+  imageFileOptions?: ReadImageFileOptions;
+
   /**
    * Custom logger instance.
    */
   logger?: Logger;
 }
 
+/**
+ * Per-request options accepted by every API operation.
+ */
+export interface RequestOptions {
+  /**
+   * Signal that aborts the request, including image downloads and pending retries.
+   * An aborted request rejects with a CANCELLED error.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called at each step of the request: image upload preparation, the API
+   * call, and every retry attempt.
+   */
+  onProgress?: ProgressCallback;
+}
+
 /**
  * Parameters for image generation.
  */
@@ -113,6 +154,11 @@ export interface GenerateParams {
    */
   aspectRatio?: string;
 
+  /**
+   * Explicit output resolution. Cannot be combined with aspectRatio.
+   */
+  resolution?: Resolution;
+
   /**
    * Number of images to generate (1-8).
    * @default 1
@@ -138,7 +184,7 @@ export interface GenerateParams {
 
   /**
    * Style type for the image.
-   * Note: V3 API only supports subset of styles (no RENDER_3D or ANIME)
+   * Note: RENDER_3D and ANIME are only supported by the legacy V2 models
    * @default 'AUTO'
    */
   styleType?: StyleType;
@@ -148,6 +194,30 @@ export interface GenerateParams {
    * Can be URLs, base64 data URLs, or Buffers.
    */
   characterReferenceImages?: (string | Buffer)[];
+
+  /**
+   * Style reference images for matching an art style.
+   * Can be URLs, base64 data URLs, file paths, or Buffers (10MB in total).
+   */
+  styleReferenceImages?: (string | Buffer)[];
+
+  /**
+   * Style codes (8 hexadecimal characters) of previously used styles.
+   * Cannot be combined with styleReferenceImages or a styleType other than AUTO.
+   */
+  styleCodes?: string[];
+
+  /**
+   * Color palette: a named preset or a list of hex colors with optional weights.
+   */
+  colorPalette?: ColorPalette;
+
+  /**
+   * Legacy V2 model. When set, the request is sent to the legacy generate
+   * endpoint; renderingSpeed does not apply, and reference images and style
+   * codes are not supported.
+   */
+  model?: Model;
 }
 
 /**
@@ -196,16 +266,36 @@ export interface EditParams {
   magicPrompt?: 'AUTO' | 'ON' | 'OFF';
 
   /**
-   * Style type for the image (V3 subset).
+   * Style type for the image.
+   * Note: RENDER_3D and ANIME are only supported by the legacy V2 models
    * @default 'AUTO'
    */
-  styleType?: 'AUTO' | 'GENERAL' | 'REALISTIC' | 'DESIGN' | 'FICTION';
+  styleType?: StyleType;
 
   /**
    * Character reference images for maintaining character consistency.
    * Can be URLs, base64 data URLs, or Buffers.
    */
   characterReferenceImages?: (string | Buffer)[];
+
+  /**
+   * Style reference images for matching an art style.
+   * Can be URLs, base64 data URLs, file paths, or Buffers (10MB in total).
+   */
+  styleReferenceImages?: (string | Buffer)[];
+
+  /**
+   * Style codes (8 hexadecimal characters) of previously used styles.
+   * Cannot be combined with styleReferenceImages or a styleType other than AUTO.
+   */
+  styleCodes?: string[];
+
+  /**
+   * Legacy V2 model. When set, the request is sent to the legacy edit
+   * endpoint; renderingSpeed does not apply, and reference images and style
+   * codes are not supported.
+   */
+  model?: Model;
 }
 
 /**
@@ -283,6 +373,8 @@ export interface RemixParams {
   negativePrompt?: string;
   /** Aspect ratio */
   aspectRatio?: string;
+  /** Output resolution (cannot be combined with aspectRatio) */
+  resolution?: Resolution;
   /** Number of images (1-8) */
   numImages?: number;
   /** Random seed */
@@ -295,6 +387,12 @@ export interface RemixParams {
   styleType?: StyleType;
   /** Character reference images for maintaining character consistency */
   characterReferenceImages?: (string | Buffer)[];
+  /** Style reference images for matching an art style (10MB in total) */
+  styleReferenceImages?: (string | Buffer)[];
+  /** Style codes of previously used styles (not combined with style references or type) */
+  styleCodes?: string[];
+  /** Color palette: a named preset or weighted hex colors */
+  colorPalette?: ColorPalette;
 }
 
 /**
@@ -303,8 +401,8 @@ export interface RemixParams {
 export interface ReframeParams {
   /** The source image to reframe */
   image: string | Buffer;
-  /** Target resolution (e.g. "1024x768") */
-  resolution: string;
+  /** Target resolution (e.g. "RESOLUTION_1024_768") */
+  resolution: Resolution;
   /** Number of images (1-8) */
   numImages?: number;
   /** Random seed */
@@ -329,6 +427,28 @@ export interface ReplaceBackgroundParams {
   seed?: number;
   /** Rendering speed */
   renderingSpeed?: RenderingSpeed;
+  /** Style reference images for matching an art style (10MB in total) */
+  styleReferenceImages?: (string | Buffer)[];
+  /** Style codes of previously used styles (not combined with style references) */
+  styleCodes?: string[];
+}
+
+/**
+ * Style options shared by the generate, edit, remix, and replace background
+ * parameters.
+ */
+interface StyleOptions {
+  styleType?: string;
+  styleReferenceImages?: (string | Buffer)[];
+  styleCodes?: string[];
+}
+
+/**
+ * Options of the generate and edit parameters that depend on the model.
+ */
+interface ModelOptions extends StyleOptions {
+  model?: Model;
+  characterReferenceImages?: (string | Buffer)[];
 }
 
 /**
@@ -389,6 +509,7 @@ export class IdeogramClient {
   private readonly timeoutMs: number;
   private readonly longTimeoutMs: number;
   private readonly retryOptions: RetryOptions;
+  private readonly imageFileOptions: ReadImageFileOptions;
   private readonly log: Logger;
   private readonly httpClient: AxiosInstance;
 
@@ -410,6 +531,7 @@ export class IdeogramClient {
     this.timeoutMs = options.timeoutMs ?? config.requestTimeoutMs ?? TIMEOUTS.DEFAULT_REQUEST_MS;
     this.longTimeoutMs = options.longTimeoutMs ?? TIMEOUTS.LONG_REQUEST_MS;
     this.retryOptions = options.retryOptions ?? {};
+    this.imageFileOptions = options.imageFileOptions ?? {};
     this.log = options.logger ?? createChildLogger('ideogram-client');
 
     // Create Axios instance with base configuration
@@ -433,6 +555,7 @@ export class IdeogramClient {
    * Generates images from a text prompt using Ideogram V3.
    *
    * @param params - Generation parameters
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the generation response with image URLs
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -448,56 +571,72 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Temporary URL to generated image
    * ```
    */
-  async generate(params: GenerateParams): Promise<GenerateResponse> {
+  async generate(params: GenerateParams, options: RequestOptions = {}): Promise<GenerateResponse> {
     const endpoint = API_ENDPOINTS.GENERATE_V3;
     const startTime = Date.now();
 
-    // Determine if we need FormData (when character reference images are provided)
-    const hasCharacterRefs =
-      params.characterReferenceImages !== undefined && params.characterReferenceImages.length > 0;
+    this.validateResolutionOptions(params);
+    this.validateStyleOptions(params);
+    this.validateModelOptions(params);
+
+    // Legacy V2 models use the legacy endpoint and request shape
+    if (params.model !== undefined) {
+      return this.generateLegacy(params, params.model, options);
+    }
+
+    // Determine if we need FormData (when character or style reference images are provided)
+    const hasReferenceImages =
+      (params.characterReferenceImages !== undefined &&
+        params.characterReferenceImages.length > 0) ||
+      (params.styleReferenceImages !== undefined && params.styleReferenceImages.length > 0);
 
     let requestBody: FormData | GenerateRequest;
 
-    if (hasCharacterRefs) {
-      // Build FormData for multipart request with character reference images
+    if (hasReferenceImages) {
+      // Build FormData for multipart request with reference images
       const formData = new FormData();
       formData.append('prompt', params.prompt);
       formData.append('num_images', String(params.numImages ?? DEFAULTS.NUM_IMAGES));
       formData.append('rendering_speed', params.renderingSpeed ?? DEFAULTS.RENDERING_SPEED);
       formData.append('magic_prompt', params.magicPrompt ?? DEFAULTS.MAGIC_PROMPT);
-      formData.append('style_type', params.styleType ?? DEFAULTS.STYLE_TYPE);
+      if (params.styleCodes === undefined) {
+        formData.append('style_type', params.styleType ?? DEFAULTS.STYLE_TYPE);
+      }
 
       const normalizedAspectRatio = this.normalizeAspectRatio(params.aspectRatio);
       if (normalizedAspectRatio !== undefined) {
         formData.append('aspect_ratio', normalizedAspectRatio);
       }
+      if (params.resolution !== undefined) {
+        formData.append('resolution', params.resolution);
+      }
       if (params.negativePrompt !== undefined) {
         formData.append('negative_prompt', params.negativePrompt);
       }
       if (params.seed !== undefined) {
         formData.append('seed', String(params.seed));
       }
-
-      // Append character reference images (guarded by hasCharacterRefs above)
-      if (params.characterReferenceImages !== undefined) {
-        for (const charRef of params.characterReferenceImages) {
-          const prepared = await this.prepareImage(charRef, 'character_reference_images');
-          formData.append('character_reference_images', prepared.data, {
-            contentType: prepared.contentType,
-            filename: prepared.filename,
-          });
-        }
+      if (params.colorPalette !== undefined) {
+        formData.append('color_palette', JSON.stringify(params.colorPalette));
       }
 
+      // Append reference images and style codes
+      await this.appendReferenceImages(
+        formData,
+        'character_reference_images',
+        params.characterReferenceImages,
+        options
+      );
+      await this.appendStyleOptions(formData, params, options);
+
       requestBody = formData;
     } else {
-      // Build JSON request body (no character reference images)
+      // Build JSON request body (no reference images)
       const imageRequest: GenerateRequest = {
         prompt: params.prompt,
         num_images: params.numImages ?? DEFAULTS.NUM_IMAGES,
         rendering_speed: params.renderingSpeed ?? DEFAULTS.RENDERING_SPEED,
         magic_prompt: params.magicPrompt ?? DEFAULTS.MAGIC_PROMPT,
-        style_type: params.styleType ?? DEFAULTS.STYLE_TYPE,
       };
 
       // Add optional fields only if defined (exactOptionalPropertyTypes compliance)
@@ -505,12 +644,23 @@ export class IdeogramClient {
       if (normalizedAspectRatio !== undefined) {
         imageRequest.aspect_ratio = normalizedAspectRatio;
       }
+      if (params.resolution !== undefined) {
+        imageRequest.resolution = params.resolution;
+      }
       if (params.negativePrompt !== undefined) {
         imageRequest.negative_prompt = params.negativePrompt;
       }
       if (params.seed !== undefined) {
         imageRequest.seed = params.seed;
       }
+      if (params.styleCodes !== undefined) {
+        imageRequest.style_codes = params.styleCodes;
+      } else {
+        imageRequest.style_type = params.styleType ?? DEFAULTS.STYLE_TYPE;
+      }
+      if (params.colorPalette !== undefined) {
+        imageRequest.color_palette = params.colorPalette;
+      }
 
       requestBody = imageRequest;
     }
@@ -519,7 +669,7 @@ export class IdeogramClient {
     const requestContext: ApiRequestLogContext = {
       endpoint,
       method: 'POST',
-      hasImage: hasCharacterRefs,
+      hasImage: hasReferenceImages,
       hasMask: false,
     };
     logApiRequest(this.log, requestContext);
@@ -532,7 +682,8 @@ export class IdeogramClient {
       endpoint,
       requestBody,
       timeout,
-      'generate'
+      'generate',
+      options
     );
 
     // Log response
@@ -555,6 +706,7 @@ export class IdeogramClient {
    * - White pixels in mask = areas to preserve
    *
    * @param params - Edit parameters including image, mask, and prompt
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the edit response with image URLs
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -571,15 +723,23 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Edited image URL
    * ```
    */
-  async edit(params: EditParams): Promise<EditResponse> {
+  async edit(params: EditParams, options: RequestOptions = {}): Promise<EditResponse> {
     const endpoint = API_ENDPOINTS.EDIT_V3;
     const startTime = Date.now();
 
+    this.validateStyleOptions(params);
+    this.validateModelOptions(params);
+
+    // Legacy V2 models use the legacy endpoint and request shape
+    if (params.model !== undefined) {
+      return this.editLegacy(params, params.model, options);
+    }
+
     // Prepare image for upload
-    const preparedImage = await this.prepareImage(params.image, 'image');
+    const preparedImage = await this.prepareImage(params.image, 'image', options);
 
     // Prepare mask (always required for V3 edit)
-    const preparedMask = await this.prepareImage(params.mask, 'mask');
+    const preparedMask = await this.prepareImage(params.mask, 'mask', options);
 
     // Create multipart form data with V3 flat fields
     const formData = new FormData();
@@ -600,23 +760,18 @@ export class IdeogramClient {
     if (params.seed !== undefined) {
       formData.append('seed', String(params.seed));
     }
-    if (params.styleType !== undefined) {
+    if (params.styleType !== undefined && params.styleCodes === undefined) {
       formData.append('style_type', params.styleType);
     }
 
-    // Append character reference images if provided
-    if (
-      params.characterReferenceImages !== undefined &&
-      params.characterReferenceImages.length > 0
-    ) {
-      for (const charRef of params.characterReferenceImages) {
-        const prepared = await this.prepareImage(charRef, 'character_reference_images');
-        formData.append('character_reference_images', prepared.data, {
-          contentType: prepared.contentType,
-          filename: prepared.filename,
-        });
-      }
-    }
+    // Append reference images and style codes if provided
+    await this.appendReferenceImages(
+      formData,
+      'character_reference_images',
+      params.characterReferenceImages,
+      options
+    );
+    await this.appendStyleOptions(formData, params, options);
 
     // Log request
     const requestContext: ApiRequestLogContext = {
@@ -631,7 +786,13 @@ export class IdeogramClient {
     const timeout = this.getTimeoutForRenderingSpeed(params.renderingSpeed);
 
     // Execute with retry
-    const response = await this.executeWithRetry<EditResponse>(endpoint, formData, timeout, 'edit');
+    const response = await this.executeWithRetry<EditResponse>(
+      endpoint,
+      formData,
+      timeout,
+      'edit',
+      options
+    );
 
     // Log response
     const responseContext: ApiResponseLogContext = {
@@ -649,6 +810,7 @@ export class IdeogramClient {
    * Describes an image, generating text descriptions.
    *
    * @param params - Describe parameters including the image
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to text descriptions
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -662,12 +824,12 @@ export class IdeogramClient {
    * console.log(result.descriptions[0].text); // "A sunset over the ocean..."
    * ```
    */
-  async describe(params: DescribeParams): Promise<DescribeResponse> {
+  async describe(params: DescribeParams, options: RequestOptions = {}): Promise<DescribeResponse> {
     const endpoint = API_ENDPOINTS.DESCRIBE;
     const startTime = Date.now();
 
     // Prepare image for upload
-    const preparedImage = await this.prepareImage(params.image, 'image_file');
+    const preparedImage = await this.prepareImage(params.image, 'image_file', options);
 
     // Create multipart form data
     const formData = new FormData();
@@ -694,7 +856,8 @@ export class IdeogramClient {
       endpoint,
       formData,
       this.timeoutMs,
-      'describe'
+      'describe',
+      options
     );
 
     // Log response
@@ -713,6 +876,7 @@ export class IdeogramClient {
    * Upscales an image with optional prompt guidance.
    *
    * @param params - Upscale parameters
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the upscaled image response
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -728,12 +892,12 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Upscaled image URL
    * ```
    */
-  async upscale(params: UpscaleParams): Promise<GenerateResponse> {
+  async upscale(params: UpscaleParams, options: RequestOptions = {}): Promise<GenerateResponse> {
     const endpoint = API_ENDPOINTS.UPSCALE;
     const startTime = Date.now();
 
     // Prepare image for upload
-    const preparedImage = await this.prepareImage(params.image, 'image_file');
+    const preparedImage = await this.prepareImage(params.image, 'image_file', options);
 
     // Build image_request JSON (legacy endpoint uses JSON wrapper)
     const imageRequest: Record<string, unknown> = {};
@@ -774,7 +938,8 @@ export class IdeogramClient {
       endpoint,
       formData,
       TIMEOUTS.LONG_REQUEST_MS,
-      'upscale'
+      'upscale',
+      options
     );
 
     // Log response
@@ -793,6 +958,7 @@ export class IdeogramClient {
    * Remixes an existing image based on a new prompt.
    *
    * @param params - Remix parameters including image and prompt
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the remixed image response
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -807,12 +973,15 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Remixed image URL
    * ```
    */
-  async remix(params: RemixParams): Promise<GenerateResponse> {
+  async remix(params: RemixParams, options: RequestOptions = {}): Promise<GenerateResponse> {
     const endpoint = API_ENDPOINTS.REMIX_V3;
     const startTime = Date.now();
 
+    this.validateResolutionOptions(params);
+    this.validateStyleOptions(params);
+
     // Prepare image for upload
-    const preparedImage = await this.prepareImage(params.image, 'image');
+    const preparedImage = await this.prepareImage(params.image, 'image', options);
 
     // Create multipart form data (V3 uses flat fields)
     const formData = new FormData();
@@ -833,27 +1002,28 @@ export class IdeogramClient {
     if (normalizedAspectRatio !== undefined) {
       formData.append('aspect_ratio', normalizedAspectRatio);
     }
+    if (params.resolution !== undefined) {
+      formData.append('resolution', params.resolution);
+    }
     if (params.seed !== undefined) {
       formData.append('seed', String(params.seed));
     }
-    if (params.styleType !== undefined) {
+    if (params.styleType !== undefined && params.styleCodes === undefined) {
       formData.append('style_type', params.styleType);
     }
-
-    // Append character reference images if provided
-    if (
-      params.characterReferenceImages !== undefined &&
-      params.characterReferenceImages.length > 0
-    ) {
-      for (const charRef of params.characterReferenceImages) {
-        const prepared = await this.prepareImage(charRef, 'character_reference_images');
-        formData.append('character_reference_images', prepared.data, {
-          contentType: prepared.contentType,
-          filename: prepared.filename,
-        });
-      }
+    if (params.colorPalette !== undefined) {
+      formData.append('color_palette', JSON.stringify(params.colorPalette));
     }
 
+    // Append reference images and style codes if provided
+    await this.appendReferenceImages(
+      formData,
+      'character_reference_images',
+      params.characterReferenceImages,
+      options
+    );
+    await this.appendStyleOptions(formData, params, options);
+
     const requestContext: ApiRequestLogContext = {
       endpoint,
       method: 'POST',
@@ -867,7 +1037,8 @@ export class IdeogramClient {
       endpoint,
       formData,
       timeout,
-      'remix'
+      'remix',
+      options
     );
 
     const responseContext: ApiResponseLogContext = {
@@ -885,6 +1056,7 @@ export class IdeogramClient {
    * Reframes an image to a new resolution via intelligent outpainting.
    *
    * @param params - Reframe parameters including image and target resolution
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the reframed image response
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -898,11 +1070,11 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Reframed image URL
    * ```
    */
-  async reframe(params: ReframeParams): Promise<GenerateResponse> {
+  async reframe(params: ReframeParams, options: RequestOptions = {}): Promise<GenerateResponse> {
     const endpoint = API_ENDPOINTS.REFRAME_V3;
     const startTime = Date.now();
 
-    const preparedImage = await this.prepareImage(params.image, 'image');
+    const preparedImage = await this.prepareImage(params.image, 'image', options);
 
     const formData = new FormData();
     formData.append('image', preparedImage.data, {
@@ -930,7 +1102,8 @@ export class IdeogramClient {
       endpoint,
       formData,
       timeout,
-      'reframe'
+      'reframe',
+      options
     );
 
     const responseContext: ApiResponseLogContext = {
@@ -948,6 +1121,7 @@ export class IdeogramClient {
    * Replaces the background of an image while preserving the foreground subject.
    *
    * @param params - Replace background parameters including image and prompt
+   * @param options - Request options (e.g. an AbortSignal)
    * @returns Promise resolving to the modified image response
    * @throws {IdeogramMCPError} On validation errors, API errors, or network failures
    *
@@ -961,11 +1135,16 @@ export class IdeogramClient {
    * console.log(result.data[0].url); // Image with replaced background
    * ```
    */
-  async replaceBackground(params: ReplaceBackgroundParams): Promise<GenerateResponse> {
+  async replaceBackground(
+    params: ReplaceBackgroundParams,
+    options: RequestOptions = {}
+  ): Promise<GenerateResponse> {
     const endpoint = API_ENDPOINTS.REPLACE_BACKGROUND_V3;
     const startTime = Date.now();
 
-    const preparedImage = await this.prepareImage(params.image, 'image');
+    this.validateStyleOptions(params);
+
+    const preparedImage = await this.prepareImage(params.image, 'image', options);
 
     const formData = new FormData();
     formData.append('image', preparedImage.data, {
@@ -981,6 +1160,9 @@ export class IdeogramClient {
       formData.append('seed', String(params.seed));
     }
 
+    // Append style reference images and style codes if provided
+    await this.appendStyleOptions(formData, params, options);
+
     const requestContext: ApiRequestLogContext = {
       endpoint,
       method: 'POST',
@@ -994,7 +1176,8 @@ export class IdeogramClient {
       endpoint,
       formData,
       timeout,
-      'replaceBackground'
+      'replaceBackground',
+      options
     );
 
     const responseContext: ApiResponseLogContext = {
@@ -1048,48 +1231,74 @@ export class IdeogramClient {
   /**
    * Executes an API request with automatic retry on transient failures.
    * Supports both JSON payloads (for generate) and FormData (for edit with images).
+   * Aborting the signal cancels the in-flight request and any pending retries.
+   * The API call and each retry attempt are reported through `onProgress`.
    */
   private async executeWithRetry<T>(
     endpoint: string,
     data: FormData | GenerateRequest | Record<string, unknown>,
     timeout: number,
-    operationName: string
+    operationName: string,
+    options: RequestOptions = {}
   ): Promise<T> {
-    return withRetry(
-      async () => {
-        try {
-          // Prepare headers based on data type
-          const headers: Record<string, string> = {
-            [API_KEY_HEADER]: this.apiKey,
-          };
-
-          // For FormData, include its headers (multipart/form-data with boundary)
-          // For JSON objects, set Content-Type to application/json
-          if (data instanceof FormData) {
-            Object.assign(headers, data.getHeaders());
-          } else {
-            headers['Content-Type'] = 'application/json';
-          }
-
-          const response = await this.httpClient.post<T>(endpoint, data, {
-            headers,
-            timeout,
-          });
-          return response.data;
-        } catch (error) {
-          // Convert Axios error to IdeogramMCPError
-          if (axios.isAxiosError(error)) {
-            throw fromAxiosError(this.createAxiosErrorInfo(error));
-          }
-          throw wrapError(error);
+    const { signal, onProgress } = options;
+    const retryOptions: RetryOptions = {
+      ...this.retryOptions,
+      operationName,
+      logger: this.log,
+    };
+    if (signal !== undefined) {
+      retryOptions.signal = signal;
+    }
+    if (onProgress !== undefined) {
+      const totalAttempts = (this.retryOptions.maxAttempts ?? RETRY_CONFIG.MAX_ATTEMPTS) + 1;
+      const { onRetry } = this.retryOptions;
+      retryOptions.onRetry = (error, attempt, delayMs): void => {
+        onRetry?.(error, attempt, delayMs);
+        onProgress(
+          `Retrying ${operationName} request in ${delayMs}ms ` +
+            `(attempt ${attempt + 1} of ${totalAttempts})`
+        );
+      };
+    }
+
+    onProgress?.(`Sending ${operationName} request to the Ideogram API`);
+
+    return withRetry(async () => {
+      try {
+        // Prepare headers based on data type
+        const headers: Record<string, string> = {
+          [API_KEY_HEADER]: this.apiKey,
+        };
+
+        // For FormData, include its headers (multipart/form-data with boundary)
+        // For JSON objects, set Content-Type to application/json
+        if (data instanceof FormData) {
+          Object.assign(headers, data.getHeaders());
+        } else {
+          headers['Content-Type'] = 'application/json';
         }
-      },
-      {
-        ...this.retryOptions,
-        operationName,
-        logger: this.log,
+
+        const requestConfig: AxiosRequestConfig = { headers, timeout };
+        if (signal !== undefined) {
+          requestConfig.signal = signal;
+        }
+
+        const response = await this.httpClient.post<T>(endpoint, data, requestConfig);
+        return response.data;
+      } catch (error) {
+        // An aborted request is a cancellation, not a network error
+        if (isSignalAborted(signal)) {
+          throw createCancelledError(operationName);
+        }
+
+        // Convert Axios error to IdeogramMCPError
+        if (axios.isAxiosError(error)) {
+          throw fromAxiosError(this.createAxiosErrorInfo(error));
+        }
+        throw wrapError(error);
       }
-    );
+    }, retryOptions);
   }
 
   /**
@@ -1137,11 +1346,266 @@ export class IdeogramClient {
     return result;
   }
 
+  /**
+   * Checks that style codes are not combined with style reference images or a
+   * style type, which the API rejects.
+   */
+  private validateStyleOptions(params: StyleOptions): void {
+    assertCompatibleStyleOptions({
+      style_type: params.styleType,
+      style_codes: params.styleCodes,
+      style_reference_images: params.styleReferenceImages,
+    });
+  }
+
+  /**
+   * Generates images with a legacy V2 model through the legacy endpoint, which
+   * takes a JSON body with an `image_request` wrapper.
+   */
+  private async generateLegacy(
+    params: GenerateParams,
+    model: Model,
+    options: RequestOptions
+  ): Promise<GenerateResponse> {
+    const endpoint = API_ENDPOINTS.GENERATE_LEGACY;
+    const startTime = Date.now();
+
+    const imageRequest: LegacyGenerateRequest = {
+      prompt: params.prompt,
+      model,
+      num_images: params.numImages ?? DEFAULTS.NUM_IMAGES,
+      magic_prompt_option: params.magicPrompt ?? DEFAULTS.MAGIC_PROMPT,
+      style_type: params.styleType ?? DEFAULTS.STYLE_TYPE,
+    };
+
+    // Add optional fields only if defined (exactOptionalPropertyTypes compliance)
+    const legacyAspectRatio = this.toLegacyAspectRatio(params.aspectRatio);
+    if (legacyAspectRatio !== undefined) {
+      imageRequest.aspect_ratio = legacyAspectRatio;
+    }
+    if (params.resolution !== undefined) {
+      imageRequest.resolution = params.resolution;
+    }
+    if (params.negativePrompt !== undefined) {
+      imageRequest.negative_prompt = params.negativePrompt;
+    }
+    if (params.seed !== undefined) {
+      imageRequest.seed = params.seed;
+    }
+    if (params.colorPalette !== undefined) {
+      imageRequest.color_palette = params.colorPalette;
+    }
+
+    const requestContext: ApiRequestLogContext = {
+      endpoint,
+      method: 'POST',
+      hasImage: false,
+      hasMask: false,
+    };
+    logApiRequest(this.log, requestContext);
+
+    const response = await this.executeWithRetry<GenerateResponse>(
+      endpoint,
+      { image_request: imageRequest },
+      this.timeoutMs,
+      'generate',
+      options
+    );
+
+    const responseContext: ApiResponseLogContext = {
+      endpoint,
+      statusCode: 200,
+      durationMs: Date.now() - startTime,
+      imageCount: response.data.length,
+    };
+    logApiResponse(this.log, responseContext);
+
+    return response;
+  }
+
+  /**
+   * Edits an image with a legacy V2 model through the legacy endpoint, which
+   * takes flat multipart fields with the image in `image_file`.
+   */
+  private async editLegacy(
+    params: EditParams,
+    model: Model,
+    options: RequestOptions
+  ): Promise<EditResponse> {
+    const endpoint = API_ENDPOINTS.EDIT_LEGACY;
+    const startTime = Date.now();
+
+    const preparedImage = await this.prepareImage(params.image, 'image_file', options);
+    const preparedMask = await this.prepareImage(params.mask, 'mask', options);
+
+    const formData = new FormData();
+    formData.append('image_file', preparedImage.data, {
+      contentType: preparedImage.contentType,
+      filename: preparedImage.filename,
+    });
+    formData.append('mask', preparedMask.data, {
+      contentType: preparedMask.contentType,
+      filename: preparedMask.filename,
+    });
+    formData.append('prompt', params.prompt);
+    formData.append('model', model);
+    formData.append('num_images', String(params.numImages ?? DEFAULTS.NUM_IMAGES));
+    formData.append('magic_prompt_option', params.magicPrompt ?? DEFAULTS.MAGIC_PROMPT);
+    if (params.seed !== undefined) {
+      formData.append('seed', String(params.seed));
+    }
+    if (params.styleType !== undefined) {
+      formData.append('style_type', params.styleType);
+    }
+
+    const requestContext: ApiRequestLogContext = {
+      endpoint,
+      method: 'POST',
+      hasImage: true,
+      hasMask: true,
+    };
+    logApiRequest(this.log, requestContext);
+
+    const response = await this.executeWithRetry<EditResponse>(
+      endpoint,
+      formData,
+      this.timeoutMs,
+      'edit',
+      options
+    );
+
+    const responseContext: ApiResponseLogContext = {
+      endpoint,
+      statusCode: 200,
+      durationMs: Date.now() - startTime,
+      imageCount: response.data.length,
+    };
+    logApiResponse(this.log, responseContext);
+
+    return response;
+  }
+
+  /**
+   * Checks that V3-only options are not sent to the legacy V2 endpoints, and
+   * that the legacy-only style types are not sent to the V3 endpoints.
+   */
+  private validateModelOptions(params: ModelOptions): void {
+    if (params.model === undefined) {
+      if (params.styleType === 'RENDER_3D' || params.styleType === 'ANIME') {
+        throw createValidationError(
+          'style_type',
+          `style_type ${params.styleType} requires a legacy model (V_2 or V_2_TURBO)`
+        );
+      }
+      return;
+    }
+
+    const v3Options: Array<[string, unknown[] | undefined]> = [
+      ['character_reference_images', params.characterReferenceImages],
+      ['style_reference_images', params.styleReferenceImages],
+      ['style_codes', params.styleCodes],
+    ];
+    for (const [field, value] of v3Options) {
+      if (value !== undefined && value.length > 0) {
+        throw createValidationError(field, `${field} is not supported by model ${params.model}`);
+      }
+    }
+  }
+
+  /**
+   * Converts an aspect ratio to its legacy V2 name (e.g. "16x9" to "ASPECT_16_9").
+   *
+   * @throws {IdeogramMCPError} If the legacy models do not support the aspect ratio
+   */
+  private toLegacyAspectRatio(ratio?: string): LegacyAspectRatio | undefined {
+    const normalized = this.normalizeAspectRatio(ratio);
+    if (normalized === undefined) {
+      return undefined;
+    }
+    const legacyRatio = LEGACY_ASPECT_RATIOS[normalized];
+    if (legacyRatio === undefined) {
+      throw createValidationError(
+        'aspect_ratio',
+        `aspect_ratio ${normalized} is not supported by the legacy V2 models`
+      );
+    }
+    return legacyRatio;
+  }
+
+  /**
+   * Checks that an explicit resolution is not combined with an aspect ratio,
+   * which the API rejects.
+   */
+  private validateResolutionOptions(params: {
+    aspectRatio?: string;
+    resolution?: Resolution;
+  }): void {
+    assertCompatibleResolutionOptions({
+      aspect_ratio: params.aspectRatio,
+      resolution: params.resolution,
+    });
+  }
+
+  /**
+   * Prepares reference images and appends them to a multipart form.
+   *
+   * @returns Total size of the appended images in bytes
+   */
+  private async appendReferenceImages(
+    formData: FormData,
+    fieldName: string,
+    images: (string | Buffer)[] | undefined,
+    options: RequestOptions
+  ): Promise<number> {
+    let totalBytes = 0;
+    for (const image of images ?? []) {
+      const prepared = await this.prepareImage(image, fieldName, options);
+      if (Buffer.isBuffer(prepared.data)) {
+        totalBytes += prepared.data.length;
+      }
+      formData.append(fieldName, prepared.data, {
+        contentType: prepared.contentType,
+        filename: prepared.filename,
+      });
+    }
+    return totalBytes;
+  }
+
+  /**
+   * Appends style reference images (10MB in total) and style codes to a
+   * multipart form.
+   */
+  private async appendStyleOptions(
+    formData: FormData,
+    params: StyleOptions,
+    options: RequestOptions
+  ): Promise<void> {
+    const styleBytes = await this.appendReferenceImages(
+      formData,
+      'style_reference_images',
+      params.styleReferenceImages,
+      options
+    );
+    if (styleBytes > VALIDATION.IMAGE.MAX_SIZE_BYTES) {
+      throw createImageTooLargeError(styleBytes, VALIDATION.IMAGE.MAX_SIZE_BYTES);
+    }
+    for (const styleCode of params.styleCodes ?? []) {
+      formData.append('style_codes', styleCode);
+    }
+  }
+
   /**
    * Prepares an image input for form upload.
-   * Handles URLs, base64 data URLs, and Buffers.
+   * Handles URLs, base64 data URLs, Buffers, and local file paths.
    */
-  private async prepareImage(input: string | Buffer, fieldName: string): Promise<PreparedImage> {
+  private async prepareImage(
+    input: string | Buffer,
+    fieldName: string,
+    options: RequestOptions = {}
+  ): Promise<PreparedImage> {
+    const { signal, onProgress } = options;
+    onProgress?.(`Preparing ${fieldName} upload`);
+
     // Handle Buffer input
     if (Buffer.isBuffer(input)) {
       return this.prepareBufferImage(input, fieldName);
@@ -1154,15 +1618,25 @@ export class IdeogramClient {
 
     // Handle URL (http/https)
     if (input.startsWith('http://') || input.startsWith('https://')) {
-      return this.prepareUrlImage(input, fieldName);
+      return this.prepareUrlImage(input, fieldName, signal);
     }
 
-    // Assume it's a file path - try to read it
-    // Note: In production, you'd want to validate the path first
-    throw createInvalidImageError(
-      `Unsupported image input format for ${fieldName}. ` +
-        'Provide a URL, base64 data URL, or Buffer.'
-    );
+    // Anything else is a local file path
+    return this.prepareFileImage(input, fieldName);
+  }
+
+  /**
+   * Prepares a local image file for upload.
+   * The file must be inside the allowed directories (see readImageFile).
+   */
+  private async prepareFileImage(filePath: string, fieldName: string): Promise<PreparedImage> {
+    const { data, contentType } = await readImageFile(filePath, this.imageFileOptions);
+
+    return {
+      data,
+      contentType,
+      filename: `${fieldName}.${this.getExtensionForContentType(contentType)}`,
+    };
   }
 
   /**
@@ -1212,12 +1686,21 @@ export class IdeogramClient {
   /**
    * Prepares a URL image for upload by downloading it.
    */
-  private async prepareUrlImage(url: string, fieldName: string): Promise<PreparedImage> {
+  private async prepareUrlImage(
+    url: string,
+    fieldName: string,
+    signal?: AbortSignal
+  ): Promise<PreparedImage> {
     try {
-      const response = await axios.get<Buffer>(url, {
+      const requestConfig: AxiosRequestConfig = {
         responseType: 'arraybuffer',
         timeout: TIMEOUTS.IMAGE_DOWNLOAD_MS,
-      });
+      };
+      if (signal !== undefined) {
+        requestConfig.signal = signal;
+      }
+
+      const response = await axios.get<Buffer>(url, requestConfig);
 
       const buffer = Buffer.from(response.data);
 
@@ -1238,6 +1721,9 @@ export class IdeogramClient {
         filename: `${fieldName}.${extension}`,
       };
     } catch (error) {
+      if (isSignalAborted(signal)) {
+        throw createCancelledError('Image download');
+      }
       if (axios.isAxiosError(error)) {
         throw createNetworkError(`Failed to download image from URL: ${error.message}`, error);
       }
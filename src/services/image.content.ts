@@ -0,0 +1,209 @@
+/**
+ * Image Content Service
+ *
+ * Turns the images returned by the image tools (generate, edit, remix,
+ * reframe, upscale, replace background) into MCP image content blocks, so the
+ * client can see the images next to the JSON metadata. For each image it:
+ *
+ * - Reads the locally saved file, or downloads the (temporary) Ideogram URL
+ * - Downscales PNG images to a thumbnail of at most `maxDimension` pixels
+ * - Omits images whose thumbnail is still larger than `maxBytes`
+ *
+ * Building image content never fails a tool call: images that cannot be read
+ * or are too large are logged and left out.
+ */
+
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import type { Logger } from 'pino';
+import type { ImageContent } from '@modelcontextprotocol/sdk/types.js';
+
+import type { GeneratedImageOutput } from '../types/tool.types.js';
+import { config } from '../config/config.js';
+import { TIMEOUTS, VALIDATION } from '../config/constants.js';
+import { createPngThumbnail, detectImageMimeType } from '../utils/image.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the ImageContentService.
+ */
+export interface ImageContentServiceOptions {
+  /**
+   * Whether image content blocks are created at all.
+   * @default config.imageContentEnabled
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum width/height of a thumbnail in pixels.
+   * @default config.imageContentMaxDimension
+   */
+  maxDimension?: number;
+
+  /**
+   * Maximum size of a thumbnail in bytes; larger images are omitted.
+   * @default config.imageContentMaxBytes
+   */
+  maxBytes?: number;
+
+  /**
+   * Timeout for downloading an image URL in milliseconds.
+   * @default TIMEOUTS.IMAGE_DOWNLOAD_MS (60000)
+   */
+  downloadTimeoutMs?: number;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// ImageContentService Class
+// =============================================================================
+
+/**
+ * Creates MCP image content blocks for generated images.
+ *
+ * @example
+ * ```typescript
+ * const imageContent = createImageContentService({ maxDimension: 256 });
+ *
+ * const result = await ideogramGenerate({ prompt: 'A cat' });
+ * if (result.success) {
+ *   const blocks = await imageContent.createImageContent(result.images);
+ *   // [{ type: 'image', data: '<base64>', mimeType: 'image/png' }]
+ * }
+ * ```
+ */
+export class ImageContentService {
+  private readonly enabled: boolean;
+  private readonly maxDimension: number;
+  private readonly maxBytes: number;
+  private readonly downloadTimeoutMs: number;
+  private readonly log: Logger;
+
+  /**
+   * Creates a new ImageContentService instance.
+   *
+   * @param options - Service configuration options
+   */
+  constructor(options: ImageContentServiceOptions = {}) {
+    this.enabled = options.enabled ?? config.imageContentEnabled;
+    this.maxDimension = options.maxDimension ?? config.imageContentMaxDimension;
+    this.maxBytes = options.maxBytes ?? config.imageContentMaxBytes;
+    this.downloadTimeoutMs = options.downloadTimeoutMs ?? TIMEOUTS.IMAGE_DOWNLOAD_MS;
+    this.log = options.logger ?? createChildLogger('image-content');
+  }
+
+  // ===========================================================================
+  // Public Methods
+  // ===========================================================================
+
+  /**
+   * Creates one image content block per image that can be read and fits the
+   * size cap. Never throws.
+   *
+   * @param images - Images from a tool result
+   * @returns Image content blocks, in the order of the images
+   */
+  async createImageContent(images: readonly GeneratedImageOutput[]): Promise<ImageContent[]> {
+    if (!this.enabled || images.length === 0) {
+      return [];
+    }
+
+    const blocks = await Promise.all(images.map((image) => this.toImageContent(image)));
+    return blocks.filter((block): block is ImageContent => block !== null);
+  }
+
+  /**
+   * Checks whether image content blocks are enabled.
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Creates the image content block for a single image, or null if it is
+   * omitted.
+   */
+  private async toImageContent(image: GeneratedImageOutput): Promise<ImageContent | null> {
+    const source = image.local_path ?? image.url;
+
+    try {
+      const buffer = await this.readImage(image);
+      const mimeType = detectImageMimeType(buffer);
+      if (mimeType === undefined) {
+        this.log.warn({ source }, 'Skipping image content for unrecognized image format');
+        return null;
+      }
+
+      // Only PNG can be downscaled; other formats are sent as-is if they fit
+      const data =
+        mimeType === 'image/png'
+          ? (createPngThumbnail(buffer, this.maxDimension) ?? buffer)
+          : buffer;
+
+      if (data.length > this.maxBytes) {
+        this.log.debug(
+          { source, sizeBytes: data.length, maxBytes: this.maxBytes },
+          'Skipping image content that exceeds the size cap'
+        );
+        return null;
+      }
+
+      return { type: 'image', data: data.toString('base64'), mimeType };
+    } catch (error) {
+      this.log.warn({ source, err: error }, 'Failed to create image content');
+      return null;
+    }
+  }
+
+  /**
+   * Reads the saved file if there is one, otherwise downloads the URL.
+   */
+  private async readImage(image: GeneratedImageOutput): Promise<Buffer> {
+    if (image.local_path !== undefined) {
+      try {
+        return await fs.readFile(image.local_path);
+      } catch (error) {
+        this.log.debug(
+          { localPath: image.local_path, err: error },
+          'Saved image not readable, downloading URL instead'
+        );
+      }
+    }
+
+    const response = await axios.get<ArrayBuffer>(image.url, {
+      responseType: 'arraybuffer',
+      timeout: this.downloadTimeoutMs,
+      maxContentLength: VALIDATION.IMAGE.MAX_SIZE_BYTES,
+      validateStatus: (status) => status >= 200 && status < 300,
+    });
+    return Buffer.from(response.data);
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Creates a new ImageContentService with default configuration.
+ *
+ * @param options - Optional service configuration
+ * @returns A new ImageContentService instance
+ */
+export function createImageContentService(
+  options?: ImageContentServiceOptions
+): ImageContentService {
+  return new ImageContentService(options);
+}
@@ -0,0 +1,435 @@
+/**
+ * Prediction Output Builder
+ *
+ * Converts a stored Prediction into the public `GetPredictionOutput` shape.
+ * Shared by the ideogram_get_prediction tool and the webhook dispatcher so
+ * that polling clients and webhook receivers see exactly the same payload.
+ *
+ * Also builds the prediction summaries shown by ideogram_list_predictions and
+ * the aggregate batch output returned by ideogram_get_batch.
+ */
+
+import type {
+  GetPredictionOutput,
+  GetPredictionProcessingOutput,
+  GetPredictionCompletedOutput,
+  GetPredictionFailedOutput,
+  GeneratedImageOutput,
+  PredictionSummaryOutput,
+  BatchCostOutput,
+  BatchImageOutput,
+  BatchStatusOutput,
+  GetBatchOutput,
+} from '../types/tool.types.js';
+import type {
+  CostEstimate,
+  GenerateResponse,
+  Prediction,
+  PredictionBatch,
+  PredictionFields,
+  PredictionRequestMap,
+  PredictionType,
+  RenderingSpeed,
+} from '../types/api.types.js';
+import { formatPredictionStatus, isPredictionTerminal } from './prediction.store.js';
+import {
+  calculateCost,
+  calculateEditCost,
+  calculateRemixCost,
+  calculateUpscaleCost,
+  calculateReframeCost,
+  calculateReplaceBgCost,
+  createCostCalculator,
+  toCostEstimateOutput,
+} from './cost.calculator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The operation type and request of a prediction, which determine its cost.
+ * Satisfied by stored predictions and by predictions about to be queued.
+ */
+export type PredictionCostInput = {
+  [K in PredictionType]: { type: K; request: PredictionRequestMap[K] };
+}[PredictionType];
+
+/**
+ * A prediction whose cost is counted, with its result once completed.
+ */
+type BilledPrediction = PredictionCostInput & Pick<PredictionFields, 'result'>;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Calculates the cost estimate for a prediction using the pricing of its
+ * operation type.
+ */
+function calculatePredictionCost(prediction: PredictionCostInput, numImages: number): CostEstimate {
+  if (prediction.type === 'upscale') {
+    return calculateUpscaleCost({ numImages });
+  }
+
+  const renderingSpeed = (prediction.request.rendering_speed ?? 'DEFAULT') as RenderingSpeed;
+
+  switch (prediction.type) {
+    case 'edit':
+      if (prediction.request.model !== undefined) {
+        return calculateEditCost({ numImages, model: prediction.request.model });
+      }
+      return calculateEditCost({ numImages, renderingSpeed });
+    case 'remix':
+      return calculateRemixCost({ numImages, renderingSpeed });
+    case 'reframe':
+      return calculateReframeCost({ numImages, renderingSpeed });
+    case 'replace_background':
+      return calculateReplaceBgCost({ numImages, renderingSpeed });
+    case 'generate':
+      if (prediction.request.model !== undefined) {
+        return calculateCost({ numImages, model: prediction.request.model });
+      }
+      return calculateCost({ numImages, renderingSpeed });
+  }
+}
+
+/**
+ * Extracts the images of a completed prediction.
+ */
+function toImageOutputs(prediction: Prediction): GeneratedImageOutput[] {
+  const images: GeneratedImageOutput[] = [];
+  const apiResult = prediction.result as GenerateResponse | undefined;
+
+  if (apiResult?.data) {
+    for (const apiImage of apiResult.data) {
+      const outputImage: GeneratedImageOutput = {
+        url: apiImage.url,
+        seed: apiImage.seed,
+        is_image_safe: apiImage.is_image_safe,
+      };
+
+      // Add optional fields only if defined
+      const savedImage = prediction.saved_images?.find((s) => s.url === apiImage.url);
+      if (savedImage) {
+        outputImage.local_path = savedImage.local_path;
+      }
+      if (apiImage.prompt !== undefined) {
+        outputImage.prompt = apiImage.prompt;
+      }
+      if (apiImage.resolution !== undefined) {
+        outputImage.resolution = apiImage.resolution;
+      }
+
+      images.push(outputImage);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Gets the number of images a prediction is billed for: the images it
+ * produced once completed, or the requested number otherwise.
+ */
+function getBilledImageCount(
+  prediction: BilledPrediction,
+  images?: GeneratedImageOutput[]
+): number {
+  const produced = images?.length ?? prediction.result?.data.length ?? 0;
+  return produced > 0 ? produced : (prediction.request.num_images ?? 1);
+}
+
+// =============================================================================
+// Output Builder
+// =============================================================================
+
+/**
+ * Builds the status/result output for a prediction.
+ *
+ * @param prediction - The prediction to describe
+ * @param queuePosition - Position in the local queue, reported for queued predictions
+ * @returns The output returned by ideogram_get_prediction and sent to webhooks
+ *
+ * @example
+ * ```typescript
+ * const output = toPredictionOutput(store.getOrThrow(predictionId));
+ * if (output.success && output.status === 'completed') {
+ *   console.log(output.images);
+ * }
+ * ```
+ */
+export function toPredictionOutput(
+  prediction: Prediction,
+  queuePosition?: number
+): GetPredictionOutput {
+  switch (prediction.status) {
+    case 'queued':
+    case 'processing': {
+      const processingResult: GetPredictionProcessingOutput = {
+        success: true,
+        prediction_id: prediction.id,
+        status: prediction.status,
+        message: `Prediction is ${formatPredictionStatus(prediction.status).toLowerCase()}. Please poll again in a few seconds.`,
+      };
+
+      // Add optional fields only if defined
+      if (prediction.eta_seconds !== undefined) {
+        processingResult.eta_seconds = prediction.eta_seconds;
+      }
+      if (prediction.progress !== undefined) {
+        processingResult.progress = prediction.progress;
+      }
+      if (prediction.status === 'queued' && queuePosition !== undefined) {
+        processingResult.queue_position = queuePosition;
+      }
+
+      return processingResult;
+    }
+
+    case 'completed': {
+      // Extract images from the result
+      const images = toImageOutputs(prediction);
+
+      // Calculate cost estimate based on request parameters
+      const cost = calculatePredictionCost(prediction, getBilledImageCount(prediction, images));
+
+      const completedResult: GetPredictionCompletedOutput = {
+        success: true,
+        prediction_id: prediction.id,
+        status: 'completed',
+        created: prediction.created_at,
+        images,
+        total_cost: toCostEstimateOutput(cost),
+        num_images: images.length,
+      };
+
+      return completedResult;
+    }
+
+    case 'failed':
+    case 'cancelled': {
+      const failedResult: GetPredictionFailedOutput = {
+        success: false,
+        prediction_id: prediction.id,
+        status: prediction.status,
+        error: prediction.error ?? {
+          code: prediction.status === 'cancelled' ? 'CANCELLED' : 'UNKNOWN_ERROR',
+          message:
+            prediction.status === 'cancelled'
+              ? 'Prediction was cancelled by user'
+              : 'Prediction failed with an unknown error',
+          retryable: false,
+        },
+        message:
+          prediction.status === 'cancelled'
+            ? 'This prediction was cancelled. Create a new async generation request to try again.'
+            : `Prediction failed: ${prediction.error?.message ?? 'Unknown error'}. ${prediction.error?.retryable ? 'This error may be retryable.' : 'Please check your input and try again.'}`,
+      };
+
+      return failedResult;
+    }
+
+    default: {
+      // This should never happen, but handle it gracefully
+      const unknownResult: GetPredictionFailedOutput = {
+        success: false,
+        prediction_id: prediction.id,
+        status: 'failed',
+        error: {
+          code: 'UNKNOWN_STATUS',
+          message: `Unknown prediction status: ${String(prediction.status)}`,
+          retryable: false,
+        },
+        message: 'Prediction has an unknown status. Please contact support.',
+      };
+      return unknownResult;
+    }
+  }
+}
+
+// =============================================================================
+// Summary Builder
+// =============================================================================
+
+/**
+ * Builds the short summary of a prediction used in listings.
+ *
+ * @param prediction - The prediction to summarize
+ * @returns The summary shown by ideogram_list_predictions and ideogram_get_batch
+ */
+export function toPredictionSummary(prediction: Prediction): PredictionSummaryOutput {
+  const summary: PredictionSummaryOutput = {
+    prediction_id: prediction.id,
+    type: prediction.type,
+    status: prediction.status,
+    created: prediction.created_at,
+  };
+
+  // Add optional fields only if defined
+  if (prediction.completed_at !== undefined) {
+    summary.completed_at = prediction.completed_at;
+  }
+  if ('prompt' in prediction.request) {
+    summary.prompt = prediction.request.prompt;
+  }
+  if (prediction.progress !== undefined) {
+    summary.progress = prediction.progress;
+  }
+  if (prediction.result !== undefined) {
+    summary.num_images = prediction.result.data.length;
+  }
+  if (prediction.error !== undefined) {
+    summary.error_code = prediction.error.code;
+  }
+
+  return summary;
+}
+
+// =============================================================================
+// Cost Estimates
+// =============================================================================
+
+/**
+ * Estimates the cost of a prediction from the number of images it requests,
+ * e.g. before it is queued.
+ *
+ * @param prediction - The operation type and request of the prediction
+ * @returns The cost estimate
+ *
+ * @example
+ * ```typescript
+ * const estimate = estimatePredictionCost({ type: 'upscale', request: { image } });
+ * ```
+ */
+export function estimatePredictionCost(prediction: PredictionCostInput): CostEstimate {
+  return calculatePredictionCost(prediction, getBilledImageCount(prediction));
+}
+
+// =============================================================================
+// Batch Output Builder
+// =============================================================================
+
+/**
+ * Sums the cost of a set of predictions with a CostCalculator.
+ * Completed predictions are counted by the images they produced, all others
+ * (including predictions that are not queued yet) by the number of images
+ * requested.
+ *
+ * @param predictions - The predictions to sum
+ * @returns The aggregate cost
+ *
+ * @example
+ * ```typescript
+ * const cost = calculateBatchCost(store.getBatchPredictions(batchId));
+ * console.log(`${cost.credits_used} credits for ${cost.num_predictions} predictions`);
+ * ```
+ */
+export function calculateBatchCost(predictions: readonly BilledPrediction[]): BatchCostOutput {
+  const calculator = createCostCalculator();
+  let numImages = 0;
+
+  for (const prediction of predictions) {
+    const count = getBilledImageCount(prediction);
+    calculator.addCost(calculatePredictionCost(prediction, count));
+    numImages += count;
+  }
+
+  return {
+    credits_used: calculator.getTotalCredits(),
+    estimated_usd: calculator.getTotalUsd(),
+    num_images: numImages,
+    num_predictions: calculator.getOperationCount(),
+  };
+}
+
+/**
+ * Derives the aggregate status of a batch from its predictions.
+ *
+ * - 'queued' while nothing has started, 'processing' while any prediction is
+ *   still pending and some have started or finished
+ * - Once all finished: 'completed' if all completed, 'partial' if some did,
+ *   'cancelled' if all were cancelled, and 'failed' otherwise
+ *
+ * @param predictions - The predictions of the batch
+ * @returns The aggregate status
+ */
+export function getBatchStatus(predictions: Prediction[]): BatchStatusOutput {
+  const count = (status: Prediction['status']): number =>
+    predictions.filter((p) => p.status === status).length;
+
+  const queued = count('queued');
+  const pending = queued + count('processing');
+  if (pending > 0) {
+    return queued === predictions.length ? 'queued' : 'processing';
+  }
+
+  const completed = count('completed');
+  if (completed === predictions.length) {
+    return 'completed';
+  }
+  if (completed > 0) {
+    return 'partial';
+  }
+  return count('cancelled') === predictions.length ? 'cancelled' : 'failed';
+}
+
+/**
+ * Builds the aggregate output of a batch.
+ *
+ * @param batch - The batch to describe
+ * @param predictions - Its predictions, in submission order
+ * @param includeImages - Whether to include the images of completed predictions
+ * @returns The output returned by ideogram_get_batch
+ *
+ * @example
+ * ```typescript
+ * const output = toBatchOutput(batch, store.getBatchPredictions(batch.id));
+ * console.log(`${output.status}: ${output.counts.completed}/${output.counts.total}`);
+ * ```
+ */
+export function toBatchOutput(
+  batch: PredictionBatch,
+  predictions: Prediction[],
+  includeImages = true
+): GetBatchOutput {
+  const completed = predictions.filter((p) => p.status === 'completed');
+  const finished = predictions.filter(isPredictionTerminal).length;
+  const status = getBatchStatus(predictions);
+
+  const counts = {
+    total: predictions.length,
+    queued: predictions.filter((p) => p.status === 'queued').length,
+    processing: predictions.filter((p) => p.status === 'processing').length,
+    completed: completed.length,
+    failed: predictions.filter((p) => p.status === 'failed').length,
+    cancelled: predictions.filter((p) => p.status === 'cancelled').length,
+  };
+
+  const output: GetBatchOutput = {
+    success: true,
+    batch_id: batch.id,
+    status,
+    created: batch.created_at,
+    progress: predictions.length > 0 ? Math.round((finished / predictions.length) * 100) : 100,
+    counts,
+    predictions: predictions.map(toPredictionSummary),
+    total_cost: calculateBatchCost(completed),
+    estimated_cost: calculateBatchCost(predictions),
+    message:
+      status === 'queued' || status === 'processing'
+        ? `Batch is ${status}: ${finished} of ${predictions.length} predictions finished. Please poll again in a few seconds.`
+        : `Batch finished: ${counts.completed} completed, ${counts.failed} failed, ${counts.cancelled} cancelled.`,
+  };
+
+  if (includeImages) {
+    output.images = completed.flatMap((prediction) =>
+      toImageOutputs(prediction).map(
+        (image): BatchImageOutput => ({ ...image, prediction_id: prediction.id })
+      )
+    );
+  }
+
+  return output;
+}
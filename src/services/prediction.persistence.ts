@@ -0,0 +1,460 @@
+/**
+ * Prediction Persistence for the Local Async Job Queue
+ *
+ * Provides the pluggable persistence backend used by the PredictionStore so
+ * that predictions survive a restart of the MCP server process (e.g. when
+ * Claude Desktop restarts the stdio server).
+ *
+ * The default backend is an append-only JSON-lines file under LOCAL_SAVE_DIR:
+ *
+ * - Every create/update appends a `put` record with the full prediction
+ * - Every delete appends a `delete` record
+ * - Replaying the file yields the latest state of each prediction
+ * - The file is compacted (rewritten with one record per prediction) on
+ *   load and whenever enough superseded records have accumulated
+ * - Inline (base64 data URL) images of requests are stored once in separate
+ *   files and referenced from the records, so records stay small
+ *
+ * Writes are synchronous and best effort: a failed write is logged and never
+ * breaks the in-memory store.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Logger } from 'pino';
+
+import type { Prediction } from '../types/api.types.js';
+import { config } from '../config/config.js';
+import { PREDICTION_QUEUE } from '../config/constants.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Persistence backend for the PredictionStore.
+ * Implementations must be synchronous, matching the store API.
+ */
+export interface PredictionPersistence {
+  /**
+   * Loads all persisted predictions.
+   */
+  load(): Prediction[];
+
+  /**
+   * Persists the current state of a prediction.
+   */
+  save(prediction: Prediction): void;
+
+  /**
+   * Removes a prediction from persistent storage.
+   */
+  remove(id: string): void;
+
+  /**
+   * Replaces the persisted contents with exactly the given predictions.
+   */
+  compact(predictions: Prediction[]): void;
+}
+
+/**
+ * Configuration options for the JSON-lines persistence backend.
+ */
+export interface JsonlPredictionPersistenceOptions {
+  /**
+   * Path of the JSON-lines file.
+   * @default `${config.localSaveDir}/.predictions/predictions.jsonl`
+   */
+  filePath?: string;
+
+  /**
+   * Directory holding the inline images of persisted requests.
+   * @default `request-images` next to the JSON-lines file
+   */
+  imagesDir?: string;
+
+  /**
+   * Number of appended records after which the file is compacted.
+   * @default PREDICTION_QUEUE.PERSISTENCE_COMPACT_THRESHOLD (500)
+   */
+  compactThreshold?: number;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+/**
+ * A single line of the JSON-lines file.
+ */
+type PersistenceRecord = { op: 'put'; prediction: Prediction } | { op: 'delete'; id: string };
+
+/**
+ * Prefix of the references that replace inline images in persisted requests.
+ * The rest of the reference is the name of the file holding the image.
+ */
+const IMAGE_REFERENCE_PREFIX = 'persisted-image:';
+
+// =============================================================================
+// JsonlPredictionPersistence Class
+// =============================================================================
+
+/**
+ * Append-only JSON-lines persistence backend.
+ *
+ * @example
+ * ```typescript
+ * const persistence = createJsonlPredictionPersistence();
+ * const store = createPredictionStore({ persistence });
+ * ```
+ */
+export class JsonlPredictionPersistence implements PredictionPersistence {
+  private readonly filePath: string;
+  private readonly imagesDir: string;
+  private readonly compactThreshold: number;
+  private readonly log: Logger;
+  private readonly latest: Map<string, Prediction> = new Map();
+  private readonly storedImages: Set<string> = new Set();
+  private appendedRecords = 0;
+
+  /**
+   * Creates a new JsonlPredictionPersistence instance.
+   *
+   * @param options - Persistence configuration options
+   */
+  constructor(options: JsonlPredictionPersistenceOptions = {}) {
+    this.filePath = path.resolve(
+      options.filePath ??
+        path.join(
+          config.localSaveDir,
+          PREDICTION_QUEUE.PERSISTENCE_DIR,
+          PREDICTION_QUEUE.PERSISTENCE_FILE
+        )
+    );
+    this.imagesDir = path.resolve(
+      options.imagesDir ??
+        path.join(path.dirname(this.filePath), PREDICTION_QUEUE.PERSISTENCE_IMAGES_DIR)
+    );
+    this.compactThreshold =
+      options.compactThreshold ?? PREDICTION_QUEUE.PERSISTENCE_COMPACT_THRESHOLD;
+    this.log = options.logger ?? createChildLogger('prediction-persistence');
+
+    this.log.debug({ filePath: this.filePath }, 'JsonlPredictionPersistence initialized');
+  }
+
+  /**
+   * Gets the path of the JSON-lines file.
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Replays the file and returns the latest state of every prediction.
+   * Malformed lines (e.g. a partial write before a crash) are skipped.
+   */
+  load(): Prediction[] {
+    this.latest.clear();
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.warn(
+          { filePath: this.filePath, error: (error as Error).message },
+          'Failed to read persisted predictions'
+        );
+      }
+      return [];
+    }
+
+    let skipped = 0;
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      const record = parseRecord(line);
+      if (!record) {
+        skipped++;
+        continue;
+      }
+
+      if (record.op === 'put') {
+        this.latest.set(record.prediction.id, this.restoreImages(record.prediction));
+      } else {
+        this.latest.delete(record.id);
+      }
+    }
+
+    if (skipped > 0) {
+      this.log.warn({ filePath: this.filePath, skipped }, 'Skipped malformed prediction records');
+    }
+
+    this.log.info(
+      { filePath: this.filePath, count: this.latest.size },
+      'Loaded persisted predictions'
+    );
+
+    return Array.from(this.latest.values());
+  }
+
+  /**
+   * Appends the current state of a prediction.
+   */
+  save(prediction: Prediction): void {
+    this.latest.set(prediction.id, prediction);
+    this.append({ op: 'put', prediction });
+  }
+
+  /**
+   * Appends a delete record for a prediction.
+   */
+  remove(id: string): void {
+    if (!this.latest.delete(id)) {
+      return;
+    }
+    this.append({ op: 'delete', id });
+  }
+
+  /**
+   * Rewrites the file with one record per prediction.
+   */
+  compact(predictions: Prediction[]): void {
+    this.latest.clear();
+    for (const prediction of predictions) {
+      this.latest.set(prediction.id, prediction);
+    }
+
+    try {
+      this.ensureDirectory();
+
+      const referencedImages = new Set<string>();
+      const content = predictions
+        .map((prediction) => this.serialize({ op: 'put', prediction }, referencedImages))
+        .join('');
+
+      // Write to a temporary file first so a crash never leaves a truncated file
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, content, 'utf8');
+      fs.renameSync(tempPath, this.filePath);
+      this.appendedRecords = 0;
+
+      this.removeUnreferencedImages(referencedImages);
+
+      this.log.debug(
+        { filePath: this.filePath, count: predictions.length },
+        'Compacted persisted predictions'
+      );
+    } catch (error) {
+      this.log.warn(
+        { filePath: this.filePath, error: (error as Error).message },
+        'Failed to compact persisted predictions'
+      );
+    }
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Appends a record, compacting once enough records have accumulated.
+   */
+  private append(record: PersistenceRecord): void {
+    try {
+      this.ensureDirectory();
+      fs.appendFileSync(this.filePath, this.serialize(record), 'utf8');
+      this.appendedRecords++;
+    } catch (error) {
+      this.log.warn(
+        { filePath: this.filePath, error: (error as Error).message },
+        'Failed to persist prediction record'
+      );
+      return;
+    }
+
+    if (this.appendedRecords >= this.compactThreshold) {
+      this.compact(Array.from(this.latest.values()));
+    }
+  }
+
+  /**
+   * Ensures the directory containing the file exists.
+   */
+  private ensureDirectory(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  /**
+   * Serializes a record as a JSON line, storing the inline images of the
+   * request in separate files and adding their names to `referencedImages`.
+   */
+  private serialize(record: PersistenceRecord, referencedImages?: Set<string>): string {
+    if (record.op === 'delete') {
+      return `${JSON.stringify(record)}\n`;
+    }
+
+    const request = mapStrings(record.prediction.request, (value) => {
+      if (!value.startsWith('data:')) {
+        return value;
+      }
+      const name = this.storeImage(value);
+      referencedImages?.add(name);
+      return `${IMAGE_REFERENCE_PREFIX}${name}`;
+    }) as Prediction['request'];
+
+    return `${JSON.stringify({ op: 'put', prediction: { ...record.prediction, request } })}\n`;
+  }
+
+  /**
+   * Stores an inline image in a file named after its content hash, once.
+   * Returns the file name.
+   */
+  private storeImage(dataUrl: string): string {
+    const name = createHash('sha256').update(dataUrl).digest('hex');
+    if (!this.storedImages.has(name)) {
+      fs.mkdirSync(this.imagesDir, { recursive: true });
+      fs.writeFileSync(path.join(this.imagesDir, name), dataUrl, 'utf8');
+      this.storedImages.add(name);
+    }
+    return name;
+  }
+
+  /**
+   * Replaces the image references of a persisted request with the stored images.
+   * References whose file is missing are kept, so the prediction fails with an
+   * invalid image error if it runs.
+   */
+  private restoreImages(prediction: Prediction): Prediction {
+    const request = mapStrings(prediction.request, (value) => {
+      if (!value.startsWith(IMAGE_REFERENCE_PREFIX)) {
+        return value;
+      }
+      const name = value.slice(IMAGE_REFERENCE_PREFIX.length);
+      try {
+        const dataUrl = fs.readFileSync(path.join(this.imagesDir, name), 'utf8');
+        this.storedImages.add(name);
+        return dataUrl;
+      } catch (error) {
+        this.log.warn(
+          { predictionId: prediction.id, image: name, error: (error as Error).message },
+          'Failed to read persisted request image'
+        );
+        return value;
+      }
+    }) as Prediction['request'];
+
+    return { ...prediction, request } as Prediction;
+  }
+
+  /**
+   * Deletes stored images that are no longer referenced by any prediction.
+   */
+  private removeUnreferencedImages(referencedImages: Set<string>): void {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.imagesDir);
+    } catch {
+      return;
+    }
+
+    for (const name of names) {
+      if (!referencedImages.has(name)) {
+        fs.rmSync(path.join(this.imagesDir, name), { force: true });
+        this.storedImages.delete(name);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Creates a new JSON-lines persistence backend with default configuration.
+ *
+ * @param options - Optional persistence configuration
+ * @returns A new JsonlPredictionPersistence instance
+ *
+ * @example
+ * ```typescript
+ * // Stored under LOCAL_SAVE_DIR
+ * const persistence = createJsonlPredictionPersistence();
+ *
+ * // Custom location
+ * const persistence = createJsonlPredictionPersistence({
+ *   filePath: '/var/lib/ideogram/predictions.jsonl',
+ * });
+ * ```
+ */
+export function createJsonlPredictionPersistence(
+  options?: JsonlPredictionPersistenceOptions
+): JsonlPredictionPersistence {
+  return new JsonlPredictionPersistence(options);
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Applies `fn` to every string in a JSON value, returning a copy.
+ */
+function mapStrings(value: unknown, fn: (value: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Parses a single JSON-lines record, returning undefined if it is malformed.
+ */
+function parseRecord(line: string): PersistenceRecord | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+
+  if (record['op'] === 'put') {
+    const prediction = record['prediction'] as Record<string, unknown> | null | undefined;
+    if (
+      typeof prediction === 'object' &&
+      prediction !== null &&
+      typeof prediction['id'] === 'string' &&
+      typeof prediction['status'] === 'string' &&
+      typeof prediction['type'] === 'string'
+    ) {
+      return { op: 'put', prediction: prediction as unknown as Prediction };
+    }
+    return undefined;
+  }
+
+  if (record['op'] === 'delete' && typeof record['id'] === 'string') {
+    return { op: 'delete', id: record['id'] };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,431 @@
+/**
+ * Prediction Processor for the Local Async Job Queue
+ *
+ * Provides the background worker that the PredictionStore invokes for each
+ * queued prediction. The processor:
+ *
+ * - Converts the stored request into IdeogramClient parameters
+ * - Calls the matching Ideogram API operation (generate, edit, remix,
+ *   upscale, reframe, replace background) in the background
+ * - Optionally downloads the resulting images via the StorageService
+ * - Threads the store's AbortSignal through the API call, its retries, and
+ *   the downloads so that cancelling a running prediction stops all work
+ *
+ * The MCP server registers this processor on the shared prediction store so
+ * that jobs queued by the `*_async` tools actually run to completion.
+ */
+
+import type { Logger } from 'pino';
+
+import type {
+  Prediction,
+  PredictionSavedImage,
+  PredictionType,
+  GenerateRequest,
+  EditRequest,
+  RemixRequest,
+  UpscaleRequest,
+  ReframeRequest,
+  ReplaceBackgroundRequest,
+  GenerateResponse,
+  EditResponse,
+} from '../types/api.types.js';
+import {
+  IdeogramClient,
+  createIdeogramClient,
+  type IdeogramClientOptions,
+  type GenerateParams,
+  type EditParams,
+  type RemixParams,
+  type UpscaleParams,
+  type ReframeParams,
+  type ReplaceBackgroundParams,
+  type RequestOptions,
+} from './ideogram.client.js';
+import {
+  StorageService,
+  createStorageService,
+  type StorageServiceOptions,
+} from './storage.service.js';
+import type { PredictionProcessor, PredictionProcessorResult } from './prediction.store.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Filename prefixes for locally saved images, matching the synchronous tools.
+ */
+const SAVE_PREFIXES: Record<PredictionType, string> = {
+  generate: 'generated',
+  edit: 'edited',
+  remix: 'remixed',
+  upscale: 'upscaled',
+  reframe: 'reframed',
+  replace_background: 'replace-bg',
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the prediction processor.
+ */
+export interface PredictionProcessorOptions {
+  /**
+   * Custom IdeogramClient instance
+   */
+  client?: IdeogramClient;
+
+  /**
+   * Options for creating a new client (if client not provided)
+   */
+  clientOptions?: IdeogramClientOptions;
+
+  /**
+   * Custom StorageService instance
+   */
+  storage?: StorageService;
+
+  /**
+   * Options for creating a new storage service (if storage not provided)
+   */
+  storageOptions?: StorageServiceOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// Processor Factory
+// =============================================================================
+
+/**
+ * Creates a prediction processor backed by the Ideogram API and local storage.
+ *
+ * @param options - Configuration options for the processor
+ * @returns A processor function suitable for `PredictionStore.setProcessor()`
+ *
+ * @example
+ * ```typescript
+ * const store = createPredictionStore();
+ * store.setProcessor(createPredictionProcessor());
+ *
+ * // Queued predictions are now processed in the background
+ * store.create({ request: { prompt: 'A red fox' }, type: 'generate' });
+ * store.create({ request: { image: 'https://example.com/fox.png' }, type: 'upscale' });
+ * ```
+ */
+export function createPredictionProcessor(
+  options: PredictionProcessorOptions = {}
+): PredictionProcessor {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('prediction-processor');
+  const client = options.client ?? createIdeogramClient(options.clientOptions);
+  const storage = options.storage ?? createStorageService(options.storageOptions);
+
+  /**
+   * Processor implementation
+   */
+  return async function processPrediction(
+    prediction: Prediction,
+    signal?: AbortSignal
+  ): Promise<PredictionProcessorResult> {
+    log.debug({ predictionId: prediction.id, type: prediction.type }, 'Processing prediction');
+
+    const requestOptions: RequestOptions = {};
+    if (signal !== undefined) {
+      requestOptions.signal = signal;
+    }
+
+    const response = await executePrediction(client, prediction, requestOptions);
+    const result: PredictionProcessorResult = { response };
+
+    // Save images locally if requested and storage is enabled
+    if (prediction.save_locally === true && storage.isEnabled()) {
+      const urls = response.data.map((img) => img.url);
+      const saveResult = await storage.downloadImages(urls, {
+        prefix: SAVE_PREFIXES[prediction.type],
+        ...requestOptions,
+      });
+
+      const savedImages: PredictionSavedImage[] = saveResult.saved.map((saved) => ({
+        url: saved.originalUrl,
+        local_path: saved.filePath,
+      }));
+      result.savedImages = savedImages;
+
+      // Log if any saves failed
+      if (saveResult.failureCount > 0) {
+        log.warn(
+          { predictionId: prediction.id, failedCount: saveResult.failureCount },
+          'Some images failed to save locally'
+        );
+      }
+    }
+
+    log.debug(
+      { predictionId: prediction.id, imageCount: response.data.length },
+      'Prediction processed'
+    );
+
+    return result;
+  };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Calls the IdeogramClient operation matching the prediction type.
+ */
+async function executePrediction(
+  client: IdeogramClient,
+  prediction: Prediction,
+  options: RequestOptions
+): Promise<GenerateResponse | EditResponse> {
+  switch (prediction.type) {
+    case 'generate':
+      return client.generate(toGenerateParams(prediction.request), options);
+    case 'edit':
+      return client.edit(toEditParams(prediction.request), options);
+    case 'remix':
+      return client.remix(toRemixParams(prediction.request), options);
+    case 'upscale':
+      return client.upscale(toUpscaleParams(prediction.request), options);
+    case 'reframe':
+      return client.reframe(toReframeParams(prediction.request), options);
+    case 'replace_background':
+      return client.replaceBackground(toReplaceBackgroundParams(prediction.request), options);
+  }
+}
+
+/**
+ * Converts a stored generate request into IdeogramClient generate parameters.
+ * Only defined optional fields are included (exactOptionalPropertyTypes compliance).
+ */
+function toGenerateParams(request: GenerateRequest): GenerateParams {
+  const params: GenerateParams = {
+    prompt: request.prompt,
+  };
+
+  if (request.negative_prompt !== undefined) {
+    params.negativePrompt = request.negative_prompt;
+  }
+  if (request.aspect_ratio !== undefined) {
+    params.aspectRatio = request.aspect_ratio;
+  }
+  if (request.resolution !== undefined) {
+    params.resolution = request.resolution;
+  }
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+  if (request.rendering_speed !== undefined) {
+    params.renderingSpeed = request.rendering_speed;
+  }
+  if (request.magic_prompt !== undefined) {
+    params.magicPrompt = request.magic_prompt;
+  }
+  if (request.style_type !== undefined) {
+    params.styleType = request.style_type;
+  }
+  if (request.style_reference_images !== undefined) {
+    params.styleReferenceImages = request.style_reference_images;
+  }
+  if (request.style_codes !== undefined) {
+    params.styleCodes = request.style_codes;
+  }
+  if (request.color_palette !== undefined) {
+    params.colorPalette = request.color_palette;
+  }
+  if (request.model !== undefined) {
+    params.model = request.model;
+  }
+
+  return params;
+}
+
+/**
+ * Converts a stored edit request into IdeogramClient edit parameters.
+ */
+function toEditParams(request: EditRequest): EditParams {
+  const params: EditParams = {
+    prompt: request.prompt,
+    image: request.image,
+    mask: request.mask,
+  };
+
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+  if (request.rendering_speed !== undefined) {
+    params.renderingSpeed = request.rendering_speed;
+  }
+  if (request.magic_prompt !== undefined) {
+    params.magicPrompt = request.magic_prompt;
+  }
+  if (request.style_type !== undefined) {
+    params.styleType = request.style_type;
+  }
+  if (request.character_reference_images !== undefined) {
+    params.characterReferenceImages = request.character_reference_images;
+  }
+  if (request.style_reference_images !== undefined) {
+    params.styleReferenceImages = request.style_reference_images;
+  }
+  if (request.style_codes !== undefined) {
+    params.styleCodes = request.style_codes;
+  }
+  if (request.model !== undefined) {
+    params.model = request.model;
+  }
+
+  return params;
+}
+
+/**
+ * Converts a stored remix request into IdeogramClient remix parameters.
+ */
+function toRemixParams(request: RemixRequest): RemixParams {
+  const params: RemixParams = {
+    image: request.image,
+    prompt: request.prompt,
+  };
+
+  if (request.image_weight !== undefined) {
+    params.imageWeight = request.image_weight;
+  }
+  if (request.negative_prompt !== undefined) {
+    params.negativePrompt = request.negative_prompt;
+  }
+  if (request.aspect_ratio !== undefined) {
+    params.aspectRatio = request.aspect_ratio;
+  }
+  if (request.resolution !== undefined) {
+    params.resolution = request.resolution;
+  }
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+  if (request.rendering_speed !== undefined) {
+    params.renderingSpeed = request.rendering_speed;
+  }
+  if (request.magic_prompt !== undefined) {
+    params.magicPrompt = request.magic_prompt;
+  }
+  if (request.style_type !== undefined) {
+    params.styleType = request.style_type;
+  }
+  if (request.character_reference_images !== undefined) {
+    params.characterReferenceImages = request.character_reference_images;
+  }
+  if (request.style_reference_images !== undefined) {
+    params.styleReferenceImages = request.style_reference_images;
+  }
+  if (request.style_codes !== undefined) {
+    params.styleCodes = request.style_codes;
+  }
+  if (request.color_palette !== undefined) {
+    params.colorPalette = request.color_palette;
+  }
+
+  return params;
+}
+
+/**
+ * Converts a stored upscale request into IdeogramClient upscale parameters.
+ */
+function toUpscaleParams(request: UpscaleRequest): UpscaleParams {
+  const params: UpscaleParams = {
+    image: request.image,
+  };
+
+  if (request.prompt !== undefined) {
+    params.prompt = request.prompt;
+  }
+  if (request.resemblance !== undefined) {
+    params.resemblance = request.resemblance;
+  }
+  if (request.detail !== undefined) {
+    params.detail = request.detail;
+  }
+  if (request.magic_prompt !== undefined) {
+    params.magicPrompt = request.magic_prompt;
+  }
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+
+  return params;
+}
+
+/**
+ * Converts a stored reframe request into IdeogramClient reframe parameters.
+ */
+function toReframeParams(request: ReframeRequest): ReframeParams {
+  const params: ReframeParams = {
+    image: request.image,
+    resolution: request.resolution,
+  };
+
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+  if (request.rendering_speed !== undefined) {
+    params.renderingSpeed = request.rendering_speed;
+  }
+
+  return params;
+}
+
+/**
+ * Converts a stored replace background request into IdeogramClient parameters.
+ */
+function toReplaceBackgroundParams(request: ReplaceBackgroundRequest): ReplaceBackgroundParams {
+  const params: ReplaceBackgroundParams = {
+    image: request.image,
+    prompt: request.prompt,
+  };
+
+  if (request.magic_prompt !== undefined) {
+    params.magicPrompt = request.magic_prompt;
+  }
+  if (request.num_images !== undefined) {
+    params.numImages = request.num_images;
+  }
+  if (request.seed !== undefined) {
+    params.seed = request.seed;
+  }
+  if (request.rendering_speed !== undefined) {
+    params.renderingSpeed = request.rendering_speed;
+  }
+  if (request.style_reference_images !== undefined) {
+    params.styleReferenceImages = request.style_reference_images;
+  }
+  if (request.style_codes !== undefined) {
+    params.styleCodes = request.style_codes;
+  }
+
+  return params;
+}
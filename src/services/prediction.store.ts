@@ -6,11 +6,21 @@
  *
  * - Queue jobs internally for background processing
  * - Track job state locally (queued, processing, completed, failed, cancelled)
+ * - Schedule queued jobs by priority and expire jobs that miss their deadline
  * - Execute Ideogram API calls synchronously in background workers
  * - Manage prediction lifecycle and cleanup
+ * - Abort running jobs when they are cancelled
+ * - Retry jobs that fail with a retryable error, recording each attempt
+ * - Group predictions submitted together into batches
  *
- * The `ideogram_generate_async`, `ideogram_get_prediction`, and
- * `ideogram_cancel_prediction` tools use this store for their functionality.
+ * The `*_async` tools (generate, edit, remix, upscale, reframe, replace
+ * background), `ideogram_get_prediction`, `ideogram_cancel_prediction`,
+ * `ideogram_retry_prediction`, and the batch tools use this store for their
+ * functionality.
+ *
+ * With a persistence backend (see prediction.persistence.ts) the store
+ * survives restarts: predictions are reloaded on startup, and jobs that were
+ * queued or interrupted while processing are queued again.
  */
 
 import { randomUUID } from 'crypto';
@@ -19,17 +29,31 @@ import type { Logger } from 'pino';
 import type {
   Prediction,
   PredictionStatus,
-  GenerateRequest,
+  PredictionPriority,
+  PredictionAttempt,
+  PredictionBatch,
+  PredictionRetryTrigger,
+  PredictionSavedImage,
+  PredictionWebhookDelivery,
+  PredictionType,
+  PredictionRequest,
+  PredictionRequestMap,
   GenerateResponse,
   EditResponse,
 } from '../types/api.types.js';
+import { config } from '../config/config.js';
 import { PREDICTION_QUEUE } from '../config/constants.js';
 import {
   createPredictionNotFoundError,
+  createBatchNotFoundError,
+  createPredictionExpiredError,
   createInternalError,
+  createValidationError,
   IdeogramMCPError,
 } from '../utils/error.handler.js';
 import { createChildLogger } from '../utils/logger.js';
+import { exponentialBackoff } from '../utils/retry.js';
+import type { PredictionPersistence } from './prediction.persistence.js';
 
 // =============================================================================
 // Types
@@ -69,6 +93,34 @@ export interface PredictionStoreOptions {
    */
   cleanupIntervalMs?: number;
 
+  /**
+   * Maximum number of predictions processed in parallel.
+   * @default config.maxConcurrentRequests
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Number of times a prediction that failed with a retryable error is
+   * queued again automatically before it is marked as failed.
+   * @default PREDICTION_QUEUE.MAX_AUTO_RETRIES (2)
+   */
+  maxAutoRetries?: number;
+
+  /**
+   * Delay in milliseconds before the first automatic retry. Each further
+   * retry waits twice as long (with jitter), up to
+   * PREDICTION_QUEUE.AUTO_RETRY_MAX_DELAY_MS.
+   * @default PREDICTION_QUEUE.AUTO_RETRY_INITIAL_DELAY_MS (30 seconds)
+   */
+  autoRetryDelayMs?: number;
+
+  /**
+   * Persistence backend. When provided, predictions are restored from it on
+   * construction and every change is written back to it.
+   * @default undefined (in-memory only)
+   */
+  persistence?: PredictionPersistence;
+
   /**
    * Custom logger instance.
    */
@@ -77,22 +129,49 @@ export interface PredictionStoreOptions {
 
 /**
  * Options for creating a new prediction.
+ * The `type` determines the shape of `request`.
  */
-export interface CreatePredictionOptions {
+export type CreatePredictionOptions = {
+  [K in PredictionType]: CreatePredictionSettings & {
+    /**
+     * Type of image operation.
+     */
+    type: K;
+
+    /**
+     * Request parameters for the prediction.
+     */
+    request: PredictionRequestMap[K];
+  };
+}[PredictionType];
+
+/**
+ * Settings shared by all prediction types when creating a prediction.
+ */
+export interface CreatePredictionSettings {
   /**
-   * Request parameters for the prediction.
+   * Optional webhook URL notified when the prediction reaches a terminal
+   * status (completed, failed, or cancelled).
    */
-  request: GenerateRequest;
+  webhookUrl?: string;
 
   /**
-   * Type of prediction (generate or edit).
+   * Whether the processor should save result images locally.
    */
-  type: 'generate' | 'edit';
+  saveLocally?: boolean;
 
   /**
-   * Optional webhook URL for notifications (future use).
+   * Scheduling priority. Higher priorities start first; predictions of the
+   * same priority start in creation order.
+   * @default 'normal'
    */
-  webhookUrl?: string;
+  priority?: PredictionPriority;
+
+  /**
+   * Seconds the prediction may wait in the queue. If it has not started
+   * processing by then, it fails with PREDICTION_EXPIRED instead of running late.
+   */
+  deadlineSeconds?: number;
 }
 
 /**
@@ -119,6 +198,16 @@ export interface UpdatePredictionOptions {
    */
   result?: GenerateResponse | EditResponse;
 
+  /**
+   * Images saved locally while processing.
+   */
+  savedImages?: PredictionSavedImage[];
+
+  /**
+   * Webhook delivery state.
+   */
+  webhookDelivery?: PredictionWebhookDelivery;
+
   /**
    * Error information if failed.
    */
@@ -129,6 +218,47 @@ export interface UpdatePredictionOptions {
   };
 }
 
+/**
+ * Filters and pagination options for querying predictions.
+ */
+export interface PredictionQueryOptions {
+  /**
+   * Only include predictions with one of these statuses.
+   */
+  status?: PredictionStatus[];
+
+  /**
+   * Only include predictions of one of these types.
+   */
+  type?: PredictionType[];
+
+  /**
+   * Only include predictions created at or after this ISO timestamp.
+   */
+  createdAfter?: string;
+
+  /**
+   * Only include predictions created at or before this ISO timestamp.
+   */
+  createdBefore?: string;
+
+  /**
+   * Only include predictions whose prompt contains this text (case-insensitive).
+   */
+  promptContains?: string;
+
+  /**
+   * Cursor returned as `nextCursor` by the previous page.
+   */
+  cursor?: string;
+
+  /**
+   * Maximum number of predictions to return.
+   * @default 20
+   */
+  limit?: number;
+}
+
 /**
  * Result of querying predictions.
  */
@@ -142,6 +272,11 @@ export interface PredictionQueryResult {
    * Total count of matching predictions.
    */
   total: number;
+
+  /**
+   * Cursor for the next page, if more predictions match.
+   */
+  nextCursor?: string;
 }
 
 /**
@@ -177,14 +312,134 @@ export interface PredictionStoreStats {
    * Number of cancelled predictions.
    */
   cancelled: number;
+
+  /**
+   * Maximum number of worker slots (predictions processed in parallel).
+   */
+  maxConcurrency: number;
+
+  /**
+   * Number of worker slots currently running a prediction.
+   */
+  activeWorkers: number;
+
+  /**
+   * Number of worker slots available for queued predictions.
+   */
+  idleWorkers: number;
+}
+
+/**
+ * Result returned by a prediction processor.
+ */
+export interface PredictionProcessorResult {
+  /**
+   * The API response for the prediction.
+   */
+  response: GenerateResponse | EditResponse;
+
+  /**
+   * Images saved locally while processing (if any).
+   */
+  savedImages?: PredictionSavedImage[];
 }
 
 /**
  * Callback type for prediction processing.
+ * The signal is aborted when the prediction is cancelled while it runs;
+ * processors should stop their work and reject once it fires.
  */
 export type PredictionProcessor = (
-  prediction: Prediction
-) => Promise<GenerateResponse | EditResponse>;
+  prediction: Prediction,
+  signal: AbortSignal
+) => Promise<PredictionProcessorResult>;
+
+/**
+ * Result of cancelling a prediction.
+ */
+export interface PredictionCancelResult {
+  /**
+   * Whether the prediction was cancelled.
+   */
+  success: boolean;
+
+  /**
+   * Status after the cancellation attempt.
+   */
+  status: PredictionStatus;
+
+  /**
+   * Status before the cancellation attempt ('processing' if a running job was aborted).
+   */
+  previousStatus: PredictionStatus;
+
+  /**
+   * Human-readable outcome.
+   */
+  message: string;
+}
+
+/**
+ * Options for retrying a failed or cancelled prediction.
+ */
+export interface PredictionRetryOptions {
+  /**
+   * Seed to use for the new attempt instead of the original one.
+   */
+  seed?: number;
+}
+
+/**
+ * Result of retrying a prediction.
+ */
+export interface PredictionRetryResult {
+  /**
+   * Whether the prediction was queued again.
+   */
+  success: boolean;
+
+  /**
+   * Status after the retry attempt.
+   */
+  status: PredictionStatus;
+
+  /**
+   * Status before the retry attempt.
+   */
+  previousStatus: PredictionStatus;
+
+  /**
+   * Number of the attempt that is now queued (1-based), or the current
+   * attempt if the retry was refused.
+   */
+  attempt: number;
+
+  /**
+   * Human-readable outcome.
+   */
+  message: string;
+}
+
+/**
+ * Callback invoked whenever a prediction changes status.
+ */
+export type PredictionStatusListener = (
+  prediction: Prediction,
+  previousStatus: PredictionStatus
+) => void;
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Scheduling rank of each priority. Higher ranks are started first.
+ */
+const PRIORITY_RANK: Record<PredictionPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
 
 // =============================================================================
 // PredictionStore Class
@@ -195,6 +450,9 @@ export type PredictionProcessor = (
  *
  * This class provides a complete job queue implementation for the local
  * async functionality, since the Ideogram API is synchronous only.
+ * Queued predictions are dispatched to a pool of worker slots, so up to
+ * `maxConcurrency` predictions run in parallel. Higher priorities are
+ * dispatched first, and predictions of the same priority in FIFO order.
  *
  * @example
  * ```typescript
@@ -216,15 +474,24 @@ export type PredictionProcessor = (
  */
 export class PredictionStore {
   private readonly predictions: Map<string, Prediction> = new Map();
+  private readonly batches: Map<string, PredictionBatch> = new Map();
   private readonly maxQueueSize: number;
   private readonly predictionTimeoutMs: number;
   private readonly cleanupAgeMs: number;
   private readonly enableAutoCleanup: boolean;
   private readonly cleanupIntervalMs: number;
+  private readonly maxConcurrency: number;
+  private readonly maxAutoRetries: number;
+  private readonly autoRetryDelayMs: number;
+  private readonly persistence: PredictionPersistence | null;
   private readonly log: Logger;
+  private readonly activeJobs: Set<string> = new Set();
+  private readonly abortControllers: Map<string, AbortController> = new Map();
+  private readonly deadlineTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private readonly retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private readonly statusListeners: Set<PredictionStatusListener> = new Set();
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
   private processor: PredictionProcessor | null = null;
-  private processingQueue: boolean = false;
 
   /**
    * Creates a new PredictionStore instance.
@@ -238,8 +505,19 @@ export class PredictionStore {
     this.cleanupAgeMs = options.cleanupAgeMs ?? PREDICTION_QUEUE.CLEANUP_AGE_MS;
     this.enableAutoCleanup = options.enableAutoCleanup ?? true;
     this.cleanupIntervalMs = options.cleanupIntervalMs ?? 60 * 60 * 1000; // 1 hour default
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? config.maxConcurrentRequests);
+    this.maxAutoRetries = Math.max(0, options.maxAutoRetries ?? PREDICTION_QUEUE.MAX_AUTO_RETRIES);
+    this.autoRetryDelayMs = Math.max(
+      0,
+      options.autoRetryDelayMs ?? PREDICTION_QUEUE.AUTO_RETRY_INITIAL_DELAY_MS
+    );
+    this.persistence = options.persistence ?? null;
     this.log = options.logger ?? createChildLogger('prediction-store');
 
+    if (this.persistence) {
+      this.restore(this.persistence);
+    }
+
     if (this.enableAutoCleanup) {
       this.startAutoCleanup();
     }
@@ -249,6 +527,10 @@ export class PredictionStore {
         maxQueueSize: this.maxQueueSize,
         predictionTimeoutMs: this.predictionTimeoutMs,
         cleanupAgeMs: this.cleanupAgeMs,
+        maxConcurrency: this.maxConcurrency,
+        maxAutoRetries: this.maxAutoRetries,
+        autoRetryDelayMs: this.autoRetryDelayMs,
+        persistent: this.persistence !== null,
       },
       'PredictionStore initialized'
     );
@@ -286,22 +568,7 @@ export class PredictionStore {
       );
     }
 
-    const now = new Date().toISOString();
-    const id = this.generatePredictionId();
-
-    const prediction: Prediction = {
-      id,
-      status: 'queued',
-      request: options.request,
-      type: options.type,
-      created_at: now,
-      progress: 0,
-      eta_seconds: this.estimateEta(options.request),
-    };
-
-    this.predictions.set(id, prediction);
-
-    this.log.info({ predictionId: id, type: options.type }, 'Prediction created and queued');
+    const prediction = this.enqueue(options);
 
     // Trigger processing if a processor is registered
     this.processNextIfIdle();
@@ -361,6 +628,7 @@ export class PredictionStore {
    */
   update(id: string, updates: UpdatePredictionOptions): Prediction {
     const prediction = this.getOrThrow(id);
+    const previousStatus = prediction.status;
 
     // Update status and related timestamps
     if (updates.status !== undefined) {
@@ -398,6 +666,16 @@ export class PredictionStore {
       prediction.completed_at = new Date().toISOString();
     }
 
+    // Update locally saved images
+    if (updates.savedImages !== undefined) {
+      prediction.saved_images = updates.savedImages;
+    }
+
+    // Update webhook delivery state
+    if (updates.webhookDelivery !== undefined) {
+      prediction.webhook_delivery = updates.webhookDelivery;
+    }
+
     // Update error (for failed predictions)
     if (updates.error !== undefined) {
       prediction.error = updates.error;
@@ -407,11 +685,22 @@ export class PredictionStore {
 
     this.predictions.set(id, prediction);
 
+    // Progress is reset when an interrupted prediction is restored, so
+    // progress-only updates (sent every few seconds while a job runs) are not
+    // persisted
+    if (!isProgressOnlyUpdate(updates)) {
+      this.persistence?.save(prediction);
+    }
+
     this.log.debug(
       { predictionId: id, status: prediction.status, progress: prediction.progress },
       'Prediction updated'
     );
 
+    if (prediction.status !== previousStatus) {
+      this.notifyStatusChange(prediction, previousStatus);
+    }
+
     return prediction;
   }
 
@@ -430,10 +719,19 @@ export class PredictionStore {
    *
    * @param id - The prediction ID
    * @param result - The generation/edit result
+   * @param savedImages - Images saved locally while processing
    * @returns The updated prediction
    */
-  markCompleted(id: string, result: GenerateResponse | EditResponse): Prediction {
-    const prediction = this.update(id, { result });
+  markCompleted(
+    id: string,
+    result: GenerateResponse | EditResponse,
+    savedImages?: PredictionSavedImage[]
+  ): Prediction {
+    const updates: UpdatePredictionOptions = { result };
+    if (savedImages !== undefined) {
+      updates.savedImages = savedImages;
+    }
+    const prediction = this.update(id, updates);
 
     this.log.info(
       { predictionId: id, imageCount: result.data.length },
@@ -468,8 +766,10 @@ export class PredictionStore {
   }
 
   /**
-   * Cancels a prediction if it's still queued.
-   * Predictions already processing or completed cannot be cancelled.
+   * Cancels a queued prediction, or aborts a prediction that is being
+   * processed by this store's worker pool. Aborting signals the processor,
+   * which stops the in-flight API request, pending retries, and downloads.
+   * Finished predictions cannot be cancelled.
    *
    * @param id - The prediction ID
    * @returns Object indicating success and current status
@@ -485,14 +785,16 @@ export class PredictionStore {
    * }
    * ```
    */
-  cancel(id: string): { success: boolean; status: PredictionStatus; message: string } {
+  cancel(id: string): PredictionCancelResult {
     const prediction = this.getOrThrow(id);
+    const previousStatus = prediction.status;
+    const controller = this.abortControllers.get(id);
 
-    // Can only cancel queued predictions
-    if (prediction.status !== 'queued') {
+    // Can only cancel queued predictions and predictions running on a worker
+    if (previousStatus !== 'queued' && !(previousStatus === 'processing' && controller)) {
       const statusMessages: Record<PredictionStatus, string> = {
         queued: 'Prediction is queued',
-        processing: 'Prediction is already being processed by the Ideogram API',
+        processing: 'Prediction is being processed outside this store and cannot be aborted',
         completed: 'Prediction has already completed',
         failed: 'Prediction has already failed',
         cancelled: 'Prediction was already cancelled',
@@ -501,6 +803,7 @@ export class PredictionStore {
       return {
         success: false,
         status: prediction.status,
+        previousStatus,
         message: statusMessages[prediction.status],
       };
     }
@@ -509,13 +812,82 @@ export class PredictionStore {
     prediction.status = 'cancelled';
     prediction.completed_at = new Date().toISOString();
     this.predictions.set(id, prediction);
+    this.persistence?.save(prediction);
+
+    // Abort the running job after the status change so its outcome is ignored
+    controller?.abort();
 
-    this.log.info({ predictionId: id }, 'Prediction cancelled');
+    this.log.info({ predictionId: id, previousStatus }, 'Prediction cancelled');
+
+    this.notifyStatusChange(prediction, previousStatus);
 
     return {
       success: true,
       status: 'cancelled',
-      message: 'Prediction successfully cancelled',
+      previousStatus,
+      message:
+        previousStatus === 'processing'
+          ? 'Running prediction aborted'
+          : 'Prediction successfully cancelled',
+    };
+  }
+
+  /**
+   * Queues a failed or cancelled prediction again with the same request.
+   * The unsuccessful attempt is recorded in `attempts`, the automatic retry
+   * budget starts over, and any deadline is dropped.
+   *
+   * @param id - The prediction ID
+   * @param options - Retry options (e.g. a new seed)
+   * @returns Object indicating success, current status, and attempt number
+   * @throws {IdeogramMCPError} If the prediction is not found
+   *
+   * @example
+   * ```typescript
+   * const result = store.retry('pred_abc123', { seed: 42 });
+   * if (result.success) {
+   *   console.log(`Attempt ${result.attempt} queued`);
+   * }
+   * ```
+   */
+  retry(id: string, options: PredictionRetryOptions = {}): PredictionRetryResult {
+    const prediction = this.getOrThrow(id);
+    const previousStatus = prediction.status;
+
+    // Only finished predictions that did not succeed can be retried
+    if (previousStatus !== 'failed' && previousStatus !== 'cancelled') {
+      const statusMessages: Record<'queued' | 'processing' | 'completed', string> = {
+        queued: 'Prediction is still queued',
+        processing: 'Prediction is still being processed',
+        completed: 'Prediction has already completed',
+      };
+
+      return {
+        success: false,
+        status: previousStatus,
+        previousStatus,
+        attempt: getAttemptNumber(prediction),
+        message: statusMessages[previousStatus],
+      };
+    }
+
+    delete prediction.deadline_at;
+    this.requeue(prediction, previousStatus, 'manual', undefined, options);
+
+    this.log.info(
+      { predictionId: id, previousStatus, attempt: getAttemptNumber(prediction) },
+      'Prediction queued for retry'
+    );
+
+    // Process next queued prediction
+    this.processNextIfIdle();
+
+    return {
+      success: true,
+      status: 'queued',
+      previousStatus,
+      attempt: getAttemptNumber(prediction),
+      message: 'Prediction queued for retry',
     };
   }
 
@@ -526,10 +898,15 @@ export class PredictionStore {
    * @returns True if deleted, false if not found
    */
   delete(id: string): boolean {
-    const existed = this.predictions.has(id);
+    const prediction = this.predictions.get(id);
+    const existed = prediction !== undefined;
     this.predictions.delete(id);
+    this.abortControllers.get(id)?.abort();
+    this.clearDeadline(id);
 
     if (existed) {
+      this.detachFromBatch(prediction);
+      this.persistence?.remove(id);
       this.log.debug({ predictionId: id }, 'Prediction deleted');
     }
 
@@ -560,20 +937,26 @@ export class PredictionStore {
   }
 
   /**
-   * Gets the next queued prediction (FIFO).
+   * Gets the next queued prediction to start: the highest priority first,
+   * and the oldest first within the same priority. Predictions waiting for
+   * their automatic retry delay are skipped.
    *
-   * @returns The oldest queued prediction or undefined
+   * @returns The next queued prediction or undefined
    */
   getNextQueued(): Prediction | undefined {
-    const queued = this.getByStatus('queued');
-    if (queued.length === 0) {
-      return undefined;
-    }
+    return this.getQueuedInScheduleOrder().find((p) => !isWaitingForRetry(p));
+  }
 
-    // Sort by created_at ascending (oldest first)
-    return queued.sort(
-      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-    )[0];
+  /**
+   * Gets the 1-based position of a queued prediction in the schedule order.
+   * Position 1 is the next prediction to start once a worker is free.
+   *
+   * @param id - The prediction ID
+   * @returns The queue position, or undefined if the prediction is not queued
+   */
+  getQueuePosition(id: string): number | undefined {
+    const index = this.getQueuedInScheduleOrder().findIndex((p) => p.id === id);
+    return index === -1 ? undefined : index + 1;
   }
 
   /**
@@ -585,10 +968,12 @@ export class PredictionStore {
    * ```typescript
    * const stats = store.getStats();
    * console.log(`Queued: ${stats.queued}, Processing: ${stats.processing}`);
+   * console.log(`Workers: ${stats.activeWorkers}/${stats.maxConcurrency}`);
    * ```
    */
   getStats(): PredictionStoreStats {
     const all = this.getAll();
+    const activeWorkers = this.activeJobs.size;
 
     return {
       total: all.length,
@@ -597,6 +982,9 @@ export class PredictionStore {
       completed: all.filter((p) => p.status === 'completed').length,
       failed: all.filter((p) => p.status === 'failed').length,
       cancelled: all.filter((p) => p.status === 'cancelled').length,
+      maxConcurrency: this.maxConcurrency,
+      activeWorkers,
+      idleWorkers: Math.max(0, this.maxConcurrency - activeWorkers),
     };
   }
 
@@ -624,6 +1012,172 @@ export class PredictionStore {
     return this.getByStatus('processing').length;
   }
 
+  /**
+   * Queries predictions with filters and cursor pagination.
+   * Results are ordered newest first.
+   *
+   * @param options - Filters and pagination options
+   * @returns The matching page of predictions, the total match count, and
+   *   the cursor for the next page (if any)
+   * @throws {IdeogramMCPError} If the cursor is invalid
+   *
+   * @example
+   * ```typescript
+   * let page = store.query({ status: ['completed'], limit: 10 });
+   * while (page.nextCursor) {
+   *   page = store.query({ status: ['completed'], limit: 10, cursor: page.nextCursor });
+   * }
+   * ```
+   */
+  query(options: PredictionQueryOptions = {}): PredictionQueryResult {
+    const limit = Math.max(1, options.limit ?? 20);
+    const createdAfter =
+      options.createdAfter !== undefined ? new Date(options.createdAfter).getTime() : undefined;
+    const createdBefore =
+      options.createdBefore !== undefined ? new Date(options.createdBefore).getTime() : undefined;
+    const promptContains = options.promptContains?.toLowerCase();
+
+    const matches = this.getAll()
+      .filter((prediction) => {
+        const createdAt = new Date(prediction.created_at).getTime();
+
+        if (options.status && !options.status.includes(prediction.status)) {
+          return false;
+        }
+        if (options.type && !options.type.includes(prediction.type)) {
+          return false;
+        }
+        if (createdAfter !== undefined && createdAt < createdAfter) {
+          return false;
+        }
+        if (createdBefore !== undefined && createdAt > createdBefore) {
+          return false;
+        }
+        if (promptContains !== undefined) {
+          const prompt = 'prompt' in prediction.request ? prediction.request.prompt : undefined;
+          if (prompt === undefined || !prompt.toLowerCase().includes(promptContains)) {
+            return false;
+          }
+        }
+        return true;
+      })
+      .sort(comparePredictionsNewestFirst);
+
+    // Resume strictly after the last prediction of the previous page
+    let start = 0;
+    if (options.cursor !== undefined) {
+      const after = decodeQueryCursor(options.cursor);
+      start = matches.findIndex(
+        (prediction) => comparePredictionsNewestFirst(prediction, after) > 0
+      );
+      if (start === -1) {
+        start = matches.length;
+      }
+    }
+
+    const predictions = matches.slice(start, start + limit);
+    const result: PredictionQueryResult = { predictions, total: matches.length };
+
+    const last = predictions[predictions.length - 1];
+    if (last && start + limit < matches.length) {
+      result.nextCursor = encodeQueryCursor(last);
+    }
+
+    return result;
+  }
+
+  // ===========================================================================
+  // Public Methods - Batch Operations
+  // ===========================================================================
+
+  /**
+   * Creates a batch of predictions and adds all of them to the queue.
+   * The batch is only created if the queue has room for every prediction.
+   *
+   * @param items - Creation options of each child prediction, in order
+   * @returns The created batch
+   * @throws {IdeogramMCPError} If the batch is empty or the queue cannot hold it
+   *
+   * @example
+   * ```typescript
+   * const batch = store.createBatch([
+   *   { request: { prompt: 'A red fox' }, type: 'generate' },
+   *   { request: { prompt: 'A blue fox' }, type: 'generate' },
+   * ]);
+   * console.log(`Batch ${batch.id}: ${batch.prediction_ids.length} predictions`);
+   * ```
+   */
+  createBatch(items: CreatePredictionOptions[]): PredictionBatch {
+    if (items.length === 0) {
+      throw createValidationError('requests', 'A batch needs at least one prediction');
+    }
+
+    // Check queue capacity for the whole batch
+    const queuedCount = this.getQueuedCount();
+    if (queuedCount + items.length > this.maxQueueSize) {
+      throw createInternalError(
+        `Queue cannot hold ${items.length} more predictions (max ${this.maxQueueSize}, ${queuedCount} queued). Try again later or submit a smaller batch.`
+      );
+    }
+
+    const batch: PredictionBatch = {
+      id: this.generateBatchId(),
+      created_at: new Date().toISOString(),
+      prediction_ids: [],
+    };
+    this.batches.set(batch.id, batch);
+
+    for (const item of items) {
+      batch.prediction_ids.push(this.enqueue(item, batch.id).id);
+    }
+
+    this.log.info({ batchId: batch.id, size: items.length }, 'Batch created and queued');
+
+    // Trigger processing if a processor is registered
+    this.processNextIfIdle();
+
+    return batch;
+  }
+
+  /**
+   * Gets a batch by ID.
+   *
+   * @param id - The batch ID
+   * @returns The batch or undefined if not found
+   */
+  getBatch(id: string): PredictionBatch | undefined {
+    return this.batches.get(id);
+  }
+
+  /**
+   * Gets a batch by ID, throwing an error if not found.
+   *
+   * @param id - The batch ID
+   * @returns The batch
+   * @throws {IdeogramMCPError} If the batch is not found
+   */
+  getBatchOrThrow(id: string): PredictionBatch {
+    const batch = this.getBatch(id);
+    if (!batch) {
+      throw createBatchNotFoundError(id);
+    }
+    return batch;
+  }
+
+  /**
+   * Gets the child predictions of a batch, in submission order.
+   * Children that were deleted or cleaned up are not included.
+   *
+   * @param id - The batch ID
+   * @returns The child predictions
+   * @throws {IdeogramMCPError} If the batch is not found
+   */
+  getBatchPredictions(id: string): Prediction[] {
+    return this.getBatchOrThrow(id)
+      .prediction_ids.map((predictionId) => this.predictions.get(predictionId))
+      .filter((prediction): prediction is Prediction => prediction !== undefined);
+  }
+
   // ===========================================================================
   // Public Methods - Processing
   // ===========================================================================
@@ -638,7 +1192,8 @@ export class PredictionStore {
    * ```typescript
    * store.setProcessor(async (prediction) => {
    *   // Call Ideogram API here
-   *   return await client.generate(prediction.request);
+   *   const response = await client.generate({ prompt: prediction.request.prompt });
+   *   return { response };
    * });
    * ```
    */
@@ -651,35 +1206,59 @@ export class PredictionStore {
   }
 
   /**
-   * Processes the next queued prediction if one is available and not already processing.
+   * Starts queued predictions (highest priority first, then oldest first) on
+   * any idle worker slots. Predictions past their deadline are expired instead.
    * This is called automatically when predictions are created or completed.
    */
-  async processNextIfIdle(): Promise<void> {
-    // Skip if no processor or already processing
-    if (!this.processor || this.processingQueue) {
-      return;
-    }
-
-    const next = this.getNextQueued();
-    if (!next) {
+  processNextIfIdle(): void {
+    // Skip if no processor is registered
+    if (!this.processor) {
       return;
     }
 
-    this.processingQueue = true;
-
-    try {
-      await this.processOne(next);
-    } finally {
-      this.processingQueue = false;
+    while (this.activeJobs.size < this.maxConcurrency) {
+      // A retried prediction waits until its previous run has released its
+      // slot, and an automatic retry until its backoff delay has passed
+      const next = this.getQueuedInScheduleOrder().find(
+        (p) => !this.activeJobs.has(p.id) && !isWaitingForRetry(p)
+      );
+      if (!next) {
+        return;
+      }
 
-      // Check for more queued predictions
-      if (this.getQueuedCount() > 0) {
-        // Use setImmediate to avoid stack overflow with many queued items
-        setImmediate(() => this.processNextIfIdle());
+      // Never start a prediction after its deadline
+      if (this.isPastDeadline(next)) {
+        this.expire(next.id);
+        continue;
       }
+
+      // Claim the slot before processing starts so the loop sees it as taken
+      this.activeJobs.add(next.id);
+      void this.runWorker(next);
     }
   }
 
+  /**
+   * Registers a listener that is called whenever a prediction changes status.
+   * Listeners run synchronously; errors they throw are logged and ignored.
+   *
+   * @param listener - Callback receiving the prediction and its previous status
+   * @returns Function that unregisters the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = store.onStatusChange((prediction, previousStatus) => {
+   *   console.log(`${prediction.id}: ${previousStatus} -> ${prediction.status}`);
+   * });
+   * ```
+   */
+  onStatusChange(listener: PredictionStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
   // ===========================================================================
   // Public Methods - Cleanup
   // ===========================================================================
@@ -708,6 +1287,8 @@ export class PredictionStore {
 
       if (completedAt < cutoff) {
         this.predictions.delete(id);
+        this.detachFromBatch(prediction);
+        this.persistence?.remove(id);
         removed++;
       }
     }
@@ -725,6 +1306,11 @@ export class PredictionStore {
   clear(): void {
     const count = this.predictions.size;
     this.predictions.clear();
+    this.batches.clear();
+    this.abortAll();
+    this.clearAllDeadlines();
+    this.clearAllRetryTimers();
+    this.persistence?.compact([]);
     this.log.info({ count }, 'All predictions cleared');
   }
 
@@ -741,11 +1327,17 @@ export class PredictionStore {
 
   /**
    * Disposes the store, stopping timers and clearing data.
+   * Persisted predictions are kept so they can be restored on the next start.
    */
   dispose(): void {
     this.stopAutoCleanup();
-    this.clear();
+    this.predictions.clear();
+    this.batches.clear();
+    this.abortAll();
+    this.clearAllDeadlines();
+    this.clearAllRetryTimers();
     this.processor = null;
+    this.statusListeners.clear();
     this.log.debug('PredictionStore disposed');
   }
 
@@ -760,10 +1352,134 @@ export class PredictionStore {
     return `pred_${randomUUID().replace(/-/g, '').slice(0, 16)}`;
   }
 
+  /**
+   * Generates a unique batch ID.
+   */
+  private generateBatchId(): string {
+    return `batch_${randomUUID().replace(/-/g, '').slice(0, 16)}`;
+  }
+
+  /**
+   * Adds a new queued prediction without checking capacity or starting it.
+   */
+  private enqueue(options: CreatePredictionOptions, batchId?: string): Prediction {
+    const now = new Date().toISOString();
+    const id = this.generatePredictionId();
+
+    // The cast is safe: `type` and `request` come from the same union member
+    const prediction = {
+      id,
+      status: 'queued',
+      request: options.request,
+      type: options.type,
+      created_at: now,
+      progress: 0,
+      eta_seconds: this.estimateEta(options.request),
+      priority: options.priority ?? PREDICTION_QUEUE.DEFAULT_PRIORITY,
+    } as Prediction;
+
+    if (options.saveLocally !== undefined) {
+      prediction.save_locally = options.saveLocally;
+    }
+    if (options.webhookUrl !== undefined) {
+      prediction.webhook_url = options.webhookUrl;
+    }
+    if (options.deadlineSeconds !== undefined) {
+      prediction.deadline_at = new Date(Date.now() + options.deadlineSeconds * 1000).toISOString();
+    }
+    if (batchId !== undefined) {
+      prediction.batch_id = batchId;
+    }
+
+    this.predictions.set(id, prediction);
+    this.persistence?.save(prediction);
+    this.scheduleDeadline(prediction);
+
+    this.log.info(
+      { predictionId: id, type: options.type, priority: prediction.priority, batchId },
+      'Prediction created and queued'
+    );
+
+    return prediction;
+  }
+
+  /**
+   * Adds a restored prediction to its batch, recreating the batch if needed.
+   */
+  private restoreBatchMembership(prediction: Prediction): void {
+    if (prediction.batch_id === undefined) {
+      return;
+    }
+
+    let batch = this.batches.get(prediction.batch_id);
+    if (!batch) {
+      batch = { id: prediction.batch_id, created_at: prediction.created_at, prediction_ids: [] };
+      this.batches.set(batch.id, batch);
+    }
+    batch.prediction_ids.push(prediction.id);
+  }
+
+  /**
+   * Removes a prediction from its batch, dropping the batch once it is empty.
+   */
+  private detachFromBatch(prediction: Prediction): void {
+    if (prediction.batch_id === undefined) {
+      return;
+    }
+
+    const batch = this.batches.get(prediction.batch_id);
+    if (!batch) {
+      return;
+    }
+
+    batch.prediction_ids = batch.prediction_ids.filter((id) => id !== prediction.id);
+    if (batch.prediction_ids.length === 0) {
+      this.batches.delete(batch.id);
+    }
+  }
+
+  /**
+   * Restores predictions from the persistence backend.
+   * Interrupted (processing) predictions are queued again, finished
+   * predictions older than cleanupAgeMs are dropped, and queued predictions
+   * whose deadline passed while the server was down are expired. Pending
+   * automatic retries keep their scheduled time.
+   */
+  private restore(persistence: PredictionPersistence): void {
+    let requeued = 0;
+
+    for (const prediction of persistence.load()) {
+      if (prediction.status === 'processing') {
+        prediction.status = 'queued';
+        prediction.progress = 0;
+        prediction.eta_seconds = this.estimateEta(prediction.request);
+        delete prediction.started_at;
+      }
+      this.predictions.set(prediction.id, prediction);
+      this.restoreBatchMembership(prediction);
+
+      if (prediction.status === 'queued') {
+        if (this.isPastDeadline(prediction)) {
+          this.expire(prediction.id);
+        } else {
+          requeued++;
+          this.scheduleDeadline(prediction);
+          this.scheduleRetry(prediction);
+        }
+      }
+    }
+
+    // Apply cleanupAgeMs to predictions that finished while the server was down
+    this.cleanup();
+    persistence.compact(this.getAll());
+
+    this.log.info({ restored: this.predictions.size, requeued }, 'Restored persisted predictions');
+  }
+
   /**
    * Estimates the ETA for a prediction based on request parameters.
    */
-  private estimateEta(request: GenerateRequest): number {
+  private estimateEta(request: PredictionRequest): number {
     // Base estimate in seconds
     let eta = 30; // 30 seconds base
 
@@ -772,7 +1488,8 @@ export class PredictionStore {
     eta += (numImages - 1) * 10; // +10 seconds per additional image
 
     // Adjust based on rendering speed
-    const renderingSpeed = request.rendering_speed ?? 'DEFAULT';
+    const renderingSpeed =
+      ('rendering_speed' in request ? request.rendering_speed : undefined) ?? 'DEFAULT';
     const speedMultipliers: Record<string, number> = {
       FLASH: 0.5,
       TURBO: 0.75,
@@ -784,18 +1501,35 @@ export class PredictionStore {
     return Math.round(eta);
   }
 
+  /**
+   * Runs a prediction on a claimed worker slot and releases the slot afterwards.
+   */
+  private async runWorker(prediction: Prediction): Promise<void> {
+    try {
+      await this.processOne(prediction);
+    } finally {
+      this.activeJobs.delete(prediction.id);
+
+      // Hand the freed slot to the next queued prediction
+      this.processNextIfIdle();
+    }
+  }
+
   /**
    * Processes a single prediction.
    */
   private async processOne(prediction: Prediction): Promise<void> {
-    if (!this.processor) {
+    const processor = this.processor;
+    if (!processor) {
       return;
     }
 
     const { id } = prediction;
+    const controller = new AbortController();
+    this.abortControllers.set(id, controller);
 
     try {
-      // Mark as processing
+      // Mark as processing (synchronously, before the first await)
       this.markProcessing(id);
 
       // Update progress periodically (simulated)
@@ -808,17 +1542,271 @@ export class PredictionStore {
 
       try {
         // Execute the processor
-        const result = await this.processor(prediction);
+        const { response, savedImages } = await processor(prediction, controller.signal);
+
+        // Skip if the prediction was cancelled, deleted, or the store cleared meanwhile
+        if (controller.signal.aborted || !this.has(id)) {
+          return;
+        }
 
         // Mark as completed
-        this.markCompleted(id, result);
+        this.markCompleted(id, response, savedImages);
       } finally {
         clearInterval(progressInterval);
       }
     } catch (error) {
-      // Handle errors
+      if (controller.signal.aborted || !this.has(id)) {
+        this.log.debug({ predictionId: id }, 'Prediction processing stopped');
+        return;
+      }
+
+      // Handle errors, retrying transient failures while the budget allows
       const errorInfo = this.extractErrorInfo(error);
+      const current = this.getOrThrow(id);
+      const automaticRetries = countAutomaticRetries(current);
+      if (errorInfo.retryable && automaticRetries < this.maxAutoRetries) {
+        // Back off before the retry: the client already retried the request
+        // with short delays before giving up
+        const delayMs = exponentialBackoff(automaticRetries, {
+          initialDelayMs: this.autoRetryDelayMs,
+          maxDelayMs: PREDICTION_QUEUE.AUTO_RETRY_MAX_DELAY_MS,
+        });
+        this.requeue(current, 'failed', 'automatic', errorInfo, {}, delayMs);
+        this.log.warn(
+          {
+            predictionId: id,
+            errorCode: errorInfo.code,
+            attempt: getAttemptNumber(current),
+            retryAt: current.retry_at,
+          },
+          'Prediction failed with a retryable error, scheduled for automatic retry'
+        );
+        return;
+      }
       this.markFailed(id, errorInfo);
+    } finally {
+      this.abortControllers.delete(id);
+    }
+  }
+
+  /**
+   * Gets queued predictions in the order they will be started:
+   * highest priority first, then oldest first.
+   */
+  private getQueuedInScheduleOrder(): Prediction[] {
+    // The sort is stable, so predictions with the same priority created in
+    // the same millisecond keep their insertion order.
+    return this.getByStatus('queued').sort((a, b) => {
+      const byPriority =
+        PRIORITY_RANK[b.priority ?? PREDICTION_QUEUE.DEFAULT_PRIORITY] -
+        PRIORITY_RANK[a.priority ?? PREDICTION_QUEUE.DEFAULT_PRIORITY];
+      if (byPriority !== 0) {
+        return byPriority;
+      }
+      return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    });
+  }
+
+  /**
+   * Checks whether a prediction's deadline has passed.
+   */
+  private isPastDeadline(prediction: Prediction): boolean {
+    return (
+      prediction.deadline_at !== undefined &&
+      new Date(prediction.deadline_at).getTime() <= Date.now()
+    );
+  }
+
+  /**
+   * Starts a timer that expires a queued prediction once its deadline passes.
+   */
+  private scheduleDeadline(prediction: Prediction): void {
+    if (prediction.deadline_at === undefined) {
+      return;
+    }
+
+    const { id } = prediction;
+    const delayMs = Math.max(0, new Date(prediction.deadline_at).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.deadlineTimers.delete(id);
+      if (this.get(id)?.status === 'queued') {
+        this.expire(id);
+      }
+    }, delayMs);
+
+    // Don't prevent process exit
+    timer.unref();
+    this.deadlineTimers.set(id, timer);
+  }
+
+  /**
+   * Fails a queued prediction that missed its deadline instead of running it late.
+   */
+  private expire(id: string): void {
+    const prediction = this.getOrThrow(id);
+    const deadlineAt = prediction.deadline_at ?? new Date().toISOString();
+
+    this.update(id, {
+      error: this.extractErrorInfo(createPredictionExpiredError(id, deadlineAt)),
+    });
+
+    this.log.warn({ predictionId: id, deadlineAt }, 'Prediction expired before it could start');
+  }
+
+  /**
+   * Stops the deadline timer of a prediction, if any.
+   */
+  private clearDeadline(id: string): void {
+    const timer = this.deadlineTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.deadlineTimers.delete(id);
+    }
+  }
+
+  /**
+   * Stops every deadline timer (used when the store is cleared or disposed).
+   */
+  private clearAllDeadlines(): void {
+    for (const timer of this.deadlineTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.deadlineTimers.clear();
+  }
+
+  /**
+   * Starts a timer that dispatches a prediction once its automatic retry
+   * delay has passed.
+   */
+  private scheduleRetry(prediction: Prediction): void {
+    if (prediction.retry_at === undefined) {
+      return;
+    }
+
+    const { id } = prediction;
+    this.clearRetryTimer(id);
+    const delayMs = Math.max(0, new Date(prediction.retry_at).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(id);
+      this.processNextIfIdle();
+    }, delayMs);
+
+    // Don't prevent process exit
+    timer.unref();
+    this.retryTimers.set(id, timer);
+  }
+
+  /**
+   * Stops the retry timer of a prediction, if any.
+   */
+  private clearRetryTimer(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
+  }
+
+  /**
+   * Stops every retry timer (used when the store is cleared or disposed).
+   */
+  private clearAllRetryTimers(): void {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Records the current (unsuccessful) attempt and puts the prediction back
+   * in the queue. With a delay, the prediction does not start before the
+   * delay has passed. The caller is responsible for dispatching it.
+   */
+  private requeue(
+    prediction: Prediction,
+    outcome: PredictionAttempt['status'],
+    trigger: PredictionRetryTrigger,
+    error?: PredictionAttempt['error'],
+    options: PredictionRetryOptions = {},
+    delayMs = 0
+  ): void {
+    const previousStatus = prediction.status;
+    const attempt: PredictionAttempt = {
+      attempt: getAttemptNumber(prediction),
+      status: outcome,
+      ended_at: prediction.completed_at ?? new Date().toISOString(),
+      retry: trigger,
+    };
+
+    // Only include optional fields if defined (exactOptionalPropertyTypes compliance)
+    if (prediction.started_at !== undefined) {
+      attempt.started_at = prediction.started_at;
+    }
+    if (prediction.request.seed !== undefined) {
+      attempt.seed = prediction.request.seed;
+    }
+    const attemptError = error ?? prediction.error;
+    if (attemptError !== undefined) {
+      attempt.error = attemptError;
+    }
+    if (delayMs > 0) {
+      attempt.retry_at = new Date(Date.now() + delayMs).toISOString();
+      prediction.retry_at = attempt.retry_at;
+    } else {
+      delete prediction.retry_at;
+    }
+
+    prediction.attempts = [...(prediction.attempts ?? []), attempt];
+    if (options.seed !== undefined) {
+      prediction.request.seed = options.seed;
+    }
+    prediction.status = 'queued';
+    prediction.progress = 0;
+    prediction.eta_seconds = this.estimateEta(prediction.request) + Math.ceil(delayMs / 1000);
+    delete prediction.started_at;
+    delete prediction.completed_at;
+    delete prediction.error;
+    delete prediction.webhook_delivery;
+
+    this.predictions.set(prediction.id, prediction);
+    this.persistence?.save(prediction);
+    this.scheduleDeadline(prediction);
+    this.scheduleRetry(prediction);
+
+    this.notifyStatusChange(prediction, previousStatus);
+  }
+
+  /**
+   * Aborts every running job (used when the store is cleared or disposed).
+   */
+  private abortAll(): void {
+    for (const controller of this.abortControllers.values()) {
+      controller.abort();
+    }
+    this.abortControllers.clear();
+  }
+
+  /**
+   * Notifies status listeners of a status change.
+   */
+  private notifyStatusChange(prediction: Prediction, previousStatus: PredictionStatus): void {
+    // A deadline only applies while the prediction waits in the queue
+    if (prediction.status !== 'queued') {
+      this.clearDeadline(prediction.id);
+    }
+
+    for (const listener of this.statusListeners) {
+      try {
+        listener(prediction, previousStatus);
+      } catch (error) {
+        this.log.warn(
+          {
+            predictionId: prediction.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Prediction status listener threw an error'
+        );
+      }
     }
   }
 
@@ -870,6 +1858,102 @@ export class PredictionStore {
   }
 }
 
+// =============================================================================
+// Update Helpers
+// =============================================================================
+
+/**
+ * Checks whether an update only changes the progress and ETA of a prediction.
+ */
+function isProgressOnlyUpdate(updates: UpdatePredictionOptions): boolean {
+  return Object.entries(updates).every(
+    ([key, value]) => value === undefined || key === 'progress' || key === 'etaSeconds'
+  );
+}
+
+// =============================================================================
+// Retry Helpers
+// =============================================================================
+
+/**
+ * Gets the number of the current attempt of a prediction (1-based).
+ */
+function getAttemptNumber(prediction: Prediction): number {
+  return (prediction.attempts?.length ?? 0) + 1;
+}
+
+/**
+ * Checks whether a queued prediction is waiting for its automatic retry delay.
+ */
+function isWaitingForRetry(prediction: Prediction): boolean {
+  return prediction.retry_at !== undefined && new Date(prediction.retry_at).getTime() > Date.now();
+}
+
+/**
+ * Counts the automatic retries made since the last manual retry.
+ */
+function countAutomaticRetries(prediction: Prediction): number {
+  let count = 0;
+  for (const attempt of [...(prediction.attempts ?? [])].reverse()) {
+    if (attempt.retry !== 'automatic') {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
+
+// =============================================================================
+// Query Cursor Helpers
+// =============================================================================
+
+/**
+ * Position of a prediction in the newest-first query order.
+ */
+type QueryCursorPosition = Pick<Prediction, 'id' | 'created_at'>;
+
+/**
+ * Orders predictions newest first, breaking ties by ID.
+ */
+function comparePredictionsNewestFirst(a: QueryCursorPosition, b: QueryCursorPosition): number {
+  const byCreated = new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  if (byCreated !== 0) {
+    return byCreated;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Encodes the position of a prediction as an opaque pagination cursor.
+ */
+function encodeQueryCursor(prediction: QueryCursorPosition): string {
+  return Buffer.from(
+    JSON.stringify({ id: prediction.id, created_at: prediction.created_at })
+  ).toString('base64url');
+}
+
+/**
+ * Decodes a pagination cursor created by encodeQueryCursor.
+ */
+function decodeQueryCursor(cursor: string): QueryCursorPosition {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof value['id'] === 'string' &&
+      typeof value['created_at'] === 'string' &&
+      !Number.isNaN(new Date(value['created_at']).getTime())
+    ) {
+      return { id: value['id'], created_at: value['created_at'] };
+    }
+  } catch {
+    // Fall through to the validation error below
+  }
+  throw createValidationError('cursor', 'Invalid pagination cursor');
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -932,12 +2016,13 @@ export function isPredictionTerminal(prediction: Prediction): boolean {
 
 /**
  * Checks if a prediction can be cancelled.
+ * Processing predictions are aborted by the store that runs them.
  *
  * @param prediction - The prediction to check
- * @returns True if the prediction is still queued
+ * @returns True if the prediction is queued or processing
  */
 export function isPredictionCancellable(prediction: Prediction): boolean {
-  return prediction.status === 'queued';
+  return prediction.status === 'queued' || prediction.status === 'processing';
 }
 
 /**
@@ -0,0 +1,214 @@
+/**
+ * Prediction Submission
+ *
+ * Builds the handlers of the *_async tools. Each tool only maps its input to
+ * an Ideogram request; queueing the prediction in the local store, logging,
+ * and the queued / error responses are shared:
+ * - Returns immediately with a prediction_id for polling
+ * - Passes the async settings (save_locally, priority, webhook_url,
+ *   deadline_seconds) to the prediction store
+ * - Asks the user to confirm predictions whose estimated cost is above
+ *   CONFIRM_CREDIT_THRESHOLD before queueing them (see confirmCost())
+ * - Converts queueing failures (e.g. a full queue) into tool errors
+ *
+ * @example
+ * ```typescript
+ * const handler = createPredictionSubmitHandler({
+ *   toolName: 'ideogram_upscale_async',
+ *   operation: 'Image upscale',
+ *   store,
+ *   logger,
+ *   getLogParams: (input) => ({ resemblance: input.resemblance }),
+ *   createPrediction: (input) => ({ type: 'upscale', request: { image: input.image } }),
+ * });
+ * ```
+ */
+
+import type { Logger } from 'pino';
+
+import type { PredictionPriority } from '../types/api.types.js';
+import type {
+  DryRunOutput,
+  GenerateAsyncOutput,
+  ToolErrorOutput,
+  ToolHandlerContext,
+} from '../types/tool.types.js';
+import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
+import { logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import { confirmCost, createDryRunOutput } from './cost.confirmation.js';
+import { estimatePredictionCost } from './prediction.output.js';
+import type { CreatePredictionOptions, PredictionStore } from './prediction.store.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Settings accepted by all *_async tools, after schema defaults are applied.
+ */
+export interface PredictionSubmitInput {
+  save_locally: boolean;
+  priority: PredictionPriority;
+  webhook_url?: string | undefined;
+  deadline_seconds?: number | undefined;
+}
+
+/**
+ * The type and request of the prediction to queue, without the async settings.
+ */
+export type PredictionToSubmit = {
+  [K in CreatePredictionOptions['type']]: Pick<
+    Extract<CreatePredictionOptions, { type: K }>,
+    'type' | 'request'
+  >;
+}[CreatePredictionOptions['type']];
+
+/**
+ * Configuration of a *_async tool handler.
+ */
+export interface PredictionSubmitHandlerOptions<TInput extends PredictionSubmitInput> {
+  /**
+   * Tool name used in logs.
+   */
+  toolName: string;
+
+  /**
+   * Operation named in the response message (e.g. 'Image edit').
+   */
+  operation: string;
+
+  /**
+   * Prediction store the prediction is queued in.
+   */
+  store: PredictionStore;
+
+  /**
+   * Logger of the tool.
+   */
+  logger: Logger;
+
+  /**
+   * Parameters logged with the tool invocation, in addition to the async settings.
+   */
+  getLogParams: (input: TInput) => Record<string, unknown>;
+
+  /**
+   * Maps the tool input to the prediction to queue. May throw an
+   * IdeogramMCPError to reject the input before anything is queued.
+   */
+  createPrediction: (input: TInput) => PredictionToSubmit;
+}
+
+/**
+ * Result of a *_async tool: the queued prediction, a dry run, or an error.
+ */
+export type PredictionSubmitResult = GenerateAsyncOutput | DryRunOutput | ToolErrorOutput;
+
+// =============================================================================
+// Handler Factory
+// =============================================================================
+
+/**
+ * Creates the handler of a *_async tool, which queues a prediction in the
+ * local store and returns its ID without waiting for it to run.
+ *
+ * @param options - Tool name, store, logger, and input mapping
+ * @returns The tool handler function
+ */
+export function createPredictionSubmitHandler<TInput extends PredictionSubmitInput>(
+  options: PredictionSubmitHandlerOptions<TInput>
+): (input: TInput, context?: ToolHandlerContext) => Promise<PredictionSubmitResult> {
+  const { toolName, operation, store, logger: log } = options;
+
+  return async function submitPrediction(
+    input: TInput,
+    context: ToolHandlerContext = {}
+  ): Promise<PredictionSubmitResult> {
+    const startTime = Date.now();
+
+    // Log tool invocation
+    logToolInvocation(log, {
+      tool: toolName,
+      params: {
+        ...options.getLogParams(input),
+        save_locally: input.save_locally,
+        webhook_url: input.webhook_url,
+        priority: input.priority,
+        deadline_seconds: input.deadline_seconds,
+      },
+    });
+
+    try {
+      const prediction = options.createPrediction(input);
+
+      // Ask the user to confirm predictions above the credit threshold
+      const estimate = estimatePredictionCost(prediction);
+      if ((await confirmCost(toolName, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(toolName, estimate);
+      }
+
+      // Create the prediction in the store
+      // Only include optional settings if defined (exactOptionalPropertyTypes compliance)
+      const createOptions: CreatePredictionOptions = {
+        ...prediction,
+        saveLocally: input.save_locally,
+        priority: input.priority,
+      };
+      if (input.webhook_url !== undefined) {
+        createOptions.webhookUrl = input.webhook_url;
+      }
+      if (input.deadline_seconds !== undefined) {
+        createOptions.deadlineSeconds = input.deadline_seconds;
+      }
+      const queued = store.create(createOptions);
+
+      // Build successful response
+      const result: GenerateAsyncOutput = {
+        success: true,
+        prediction_id: queued.id,
+        status: 'queued',
+        eta_seconds: queued.eta_seconds ?? 30,
+        message: `${operation} queued successfully. Use ideogram_get_prediction with prediction_id "${queued.id}" to check status and retrieve results.`,
+      };
+
+      // Log success
+      const durationMs = Date.now() - startTime;
+      logToolResult(log, {
+        tool: toolName,
+        success: true,
+        durationMs,
+      });
+
+      log.debug(
+        {
+          predictionId: queued.id,
+          type: queued.type,
+          etaSeconds: result.eta_seconds,
+          durationMs,
+        },
+        'Async prediction queued successfully'
+      );
+
+      return result;
+    } catch (error) {
+      // Convert to IdeogramMCPError if needed
+      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
+
+      // Log failure
+      const durationMs = Date.now() - startTime;
+      logError(log, mcpError, 'Async prediction queueing failed', {
+        tool: toolName,
+        durationMs,
+      });
+      logToolResult(log, {
+        tool: toolName,
+        success: false,
+        durationMs,
+        errorCode: mcpError.code,
+      });
+
+      // Return error response
+      return mcpError.toToolError();
+    }
+  };
+}
@@ -12,9 +12,10 @@
  * - Image type detection and proper extensions
  * - Configurable storage directory
  * - Batch download support
+ * - Download cancellation via AbortSignal
  */
 
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import { randomUUID } from 'crypto';
@@ -25,10 +26,13 @@ import { TIMEOUTS, VALIDATION } from '../config/constants.js';
 import {
   createStorageError,
   createDownloadFailedError,
+  createCancelledError,
+  isSignalAborted,
   wrapError,
   IdeogramMCPError,
 } from '../utils/error.handler.js';
 import { createChildLogger } from '../utils/logger.js';
+import type { ProgressCallback } from '../utils/progress.js';
 
 // =============================================================================
 // Types
@@ -143,6 +147,17 @@ export interface DownloadOptions {
    * Subdirectory within the storage directory.
    */
   subdir?: string;
+
+  /**
+   * Signal that aborts the download. Nothing is written once it is aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called by downloadImages() each time one of the images finishes downloading,
+   * whether or not the download succeeded.
+   */
+  onProgress?: ProgressCallback;
 }
 
 // =============================================================================
@@ -202,7 +217,7 @@ export class StorageService {
    * @param url - The URL to download the image from
    * @param options - Download options
    * @returns Promise resolving to saved image information
-   * @throws {IdeogramMCPError} If download or save fails
+   * @throws {IdeogramMCPError} If download or save fails, or CANCELLED if aborted
    *
    * @example
    * ```typescript
@@ -218,6 +233,11 @@ export class StorageService {
       throw createStorageError('download', 'Local storage is disabled');
     }
 
+    const { signal } = options;
+    if (isSignalAborted(signal)) {
+      throw createCancelledError('Image download');
+    }
+
     await this.ensureStorageDirectory(options.subdir);
 
     const startTime = Date.now();
@@ -225,11 +245,16 @@ export class StorageService {
 
     try {
       // Download the image
-      const response = await axios.get<ArrayBuffer>(url, {
+      const requestConfig: AxiosRequestConfig = {
         responseType: 'arraybuffer',
         timeout: this.downloadTimeoutMs,
         validateStatus: (status) => status >= 200 && status < 300,
-      });
+      };
+      if (signal !== undefined) {
+        requestConfig.signal = signal;
+      }
+
+      const response = await axios.get<ArrayBuffer>(url, requestConfig);
 
       const buffer = Buffer.from(response.data);
 
@@ -254,6 +279,11 @@ export class StorageService {
         : this.storageDir;
       const filePath = path.resolve(targetDir, filename);
 
+      // Skip the save if cancelled while downloading
+      if (isSignalAborted(signal)) {
+        throw createCancelledError('Image download');
+      }
+
       // Save the file
       await this.saveFile(filePath, buffer);
 
@@ -272,6 +302,10 @@ export class StorageService {
         throw error;
       }
 
+      if (isSignalAborted(signal)) {
+        throw createCancelledError('Image download');
+      }
+
       if (axios.isAxiosError(error)) {
         const message = error.response
           ? `HTTP ${error.response.status}: ${error.message}`
@@ -289,6 +323,7 @@ export class StorageService {
    * @param urls - Array of URLs to download
    * @param options - Download options applied to all images
    * @returns Promise resolving to batch save result
+   * @throws {IdeogramMCPError} CANCELLED if `options.signal` is aborted
    *
    * @example
    * ```typescript
@@ -321,25 +356,37 @@ export class StorageService {
     };
 
     // Download all images in parallel
+    const { onProgress, ...sharedOptions } = options;
+    let completed = 0;
     const downloadPromises = urls.map(async (url, index) => {
       try {
         // Generate unique options for each image
         const imageOptions: DownloadOptions = {
-          ...options,
+          ...sharedOptions,
           // Add index to prefix if multiple images
           prefix: options.prefix ? `${options.prefix}_${index + 1}` : `image_${index + 1}`,
         };
 
         const saved = await this.downloadImage(url, imageOptions);
+        completed += 1;
+        onProgress?.(`Downloaded ${completed} of ${urls.length} images`);
         return { success: true as const, url, saved };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        completed += 1;
+        onProgress?.(`Image download failed (${completed} of ${urls.length} images done)`);
         return { success: false as const, url, error: errorMessage };
       }
     });
 
     const downloadResults = await Promise.all(downloadPromises);
 
+    // Individual failures are reported in the result, but a cancellation is not a failure
+    if (isSignalAborted(options.signal)) {
+      this.log.info({ total: urls.length }, 'Batch download cancelled');
+      throw createCancelledError('Image download');
+    }
+
     // Process results
     for (const result of downloadResults) {
       if (result.success) {
@@ -452,6 +499,25 @@ export class StorageService {
     }
   }
 
+  /**
+   * Reads a file from the storage directory.
+   *
+   * @param filename - The filename to read
+   * @param subdir - Optional subdirectory
+   * @returns The file contents
+   * @throws {IdeogramMCPError} STORAGE_ERROR if the file cannot be read
+   */
+  async readFile(filename: string, subdir?: string): Promise<Buffer> {
+    const targetDir = subdir ? path.join(this.storageDir, subdir) : this.storageDir;
+    const filePath = path.resolve(targetDir, filename);
+
+    try {
+      return await fs.promises.readFile(filePath);
+    } catch {
+      throw createStorageError('read', `Failed to read file: ${filename}`);
+    }
+  }
+
   /**
    * Deletes a file from the storage directory.
    *
@@ -0,0 +1,279 @@
+/**
+ * Webhook Dispatcher for Async Predictions
+ *
+ * Notifies the `webhook_url` given to an `*_async` tool once its prediction
+ * reaches a terminal status (completed, failed, or cancelled). The dispatcher:
+ *
+ * - Subscribes to status changes on a PredictionStore
+ * - POSTs the same payload `ideogram_get_prediction` returns (GetPredictionOutput)
+ * - Signs the payload with HMAC-SHA256 when WEBHOOK_SECRET is configured
+ * - Retries transient failures with exponential backoff via `withRetry`
+ * - Records the delivery state on the prediction (`webhook_delivery`)
+ *
+ * Receivers can verify a request by recomputing
+ * `HMAC_SHA256(secret, "<X-Ideogram-Timestamp>.<raw body>")` and comparing it
+ * with the hex digest in the `X-Ideogram-Signature` header (`sha256=<hex>`).
+ */
+
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import type { Logger } from 'pino';
+
+import type { Prediction, PredictionWebhookDelivery } from '../types/api.types.js';
+import { config } from '../config/config.js';
+import { HTTP_STATUS, SERVER_INFO, TIMEOUTS, WEBHOOK_HEADERS } from '../config/constants.js';
+import { isPredictionTerminal, type PredictionStore } from './prediction.store.js';
+import { toPredictionOutput } from './prediction.output.js';
+import { withRetry, type RetryOptions } from '../utils/retry.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the WebhookDispatcher.
+ */
+export interface WebhookDispatcherOptions {
+  /**
+   * Secret used to sign webhook payloads.
+   * @default config.webhookSecret
+   */
+  secret?: string;
+
+  /**
+   * Timeout for each delivery attempt in milliseconds.
+   * @default TIMEOUTS.WEBHOOK_REQUEST_MS (10000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Retry behavior for failed deliveries.
+   * `shouldRetry`, `logger`, and `operationName` are managed by the dispatcher.
+   */
+  retryOptions?: Omit<RetryOptions, 'shouldRetry' | 'logger' | 'operationName'>;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// WebhookDispatcher Class
+// =============================================================================
+
+/**
+ * Delivers webhook notifications for finished predictions.
+ *
+ * @example
+ * ```typescript
+ * const store = createPredictionStore();
+ * const dispatcher = createWebhookDispatcher({ secret: 'my-secret' });
+ *
+ * // Notify webhook URLs whenever a prediction finishes
+ * const detach = dispatcher.attach(store);
+ *
+ * // Later, stop listening
+ * detach();
+ * ```
+ */
+export class WebhookDispatcher {
+  private readonly secret: string | undefined;
+  private readonly timeoutMs: number;
+  private readonly retryOptions: Omit<RetryOptions, 'shouldRetry' | 'logger' | 'operationName'>;
+  private readonly log: Logger;
+
+  /**
+   * Creates a new WebhookDispatcher instance.
+   *
+   * @param options - Dispatcher configuration options
+   */
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.secret = options.secret ?? config.webhookSecret;
+    this.timeoutMs = options.timeoutMs ?? TIMEOUTS.WEBHOOK_REQUEST_MS;
+    this.retryOptions = options.retryOptions ?? {};
+    this.log = options.logger ?? createChildLogger('webhook-dispatcher');
+  }
+
+  /**
+   * Subscribes to a store so that predictions with a webhook URL are
+   * delivered when they reach a terminal status.
+   *
+   * @param store - The prediction store to watch
+   * @returns Function that stops watching the store
+   */
+  attach(store: PredictionStore): () => void {
+    return store.onStatusChange((prediction) => {
+      if (!prediction.webhook_url || !isPredictionTerminal(prediction)) {
+        return;
+      }
+
+      void this.dispatch(store, prediction);
+    });
+  }
+
+  /**
+   * Delivers the webhook for a prediction, retrying transient failures.
+   * Never throws; the outcome is recorded on the prediction and returned.
+   *
+   * @param store - The store holding the prediction
+   * @param prediction - The prediction to notify about
+   * @returns The final delivery state
+   */
+  async dispatch(
+    store: PredictionStore,
+    prediction: Prediction
+  ): Promise<PredictionWebhookDelivery> {
+    const { id, webhook_url: url } = prediction;
+    const delivery: PredictionWebhookDelivery = { status: 'pending', attempts: 0 };
+
+    if (!url) {
+      delivery.status = 'failed';
+      delivery.error = 'Prediction has no webhook URL';
+      return delivery;
+    }
+
+    // Snapshot the payload now so retries send the same event
+    const event = `prediction.${prediction.status}`;
+    const body = JSON.stringify(toPredictionOutput(prediction));
+
+    this.record(store, id, delivery);
+
+    try {
+      const responseStatus = await withRetry(
+        async (context) => {
+          delivery.attempts = context.attempt;
+          delivery.last_attempt_at = new Date().toISOString();
+          this.record(store, id, delivery);
+
+          const response = await axios.post(url, body, {
+            headers: this.buildHeaders(event, body),
+            timeout: this.timeoutMs,
+            validateStatus: (status) => status >= 200 && status < 300,
+          });
+          return response.status;
+        },
+        {
+          ...this.retryOptions,
+          shouldRetry: isRetryableWebhookError,
+          logger: this.log,
+          operationName: 'webhook delivery',
+        }
+      );
+
+      delivery.status = 'delivered';
+      delivery.delivered_at = new Date().toISOString();
+      delivery.response_status = responseStatus;
+      delete delivery.error;
+
+      this.log.info({ predictionId: id, event, attempts: delivery.attempts }, 'Webhook delivered');
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : String(error);
+      if (axios.isAxiosError(error) && error.response) {
+        delivery.response_status = error.response.status;
+      }
+
+      this.log.warn(
+        { predictionId: id, event, attempts: delivery.attempts, error: delivery.error },
+        'Webhook delivery failed'
+      );
+    }
+
+    this.record(store, id, delivery);
+
+    return delivery;
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  /**
+   * Builds the request headers, including the signature when a secret is set.
+   */
+  private buildHeaders(event: string, body: string): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': `${SERVER_INFO.NAME}/${SERVER_INFO.VERSION}`,
+      [WEBHOOK_HEADERS.EVENT]: event,
+      [WEBHOOK_HEADERS.TIMESTAMP]: timestamp,
+    };
+
+    if (this.secret) {
+      headers[WEBHOOK_HEADERS.SIGNATURE] = signWebhookPayload(body, this.secret, timestamp);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Stores a copy of the delivery state on the prediction, if it still exists.
+   */
+  private record(store: PredictionStore, id: string, delivery: PredictionWebhookDelivery): void {
+    if (store.has(id)) {
+      store.update(id, { webhookDelivery: { ...delivery } });
+    }
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Creates a new WebhookDispatcher with default configuration.
+ *
+ * @param options - Optional dispatcher configuration
+ * @returns A new WebhookDispatcher instance
+ */
+export function createWebhookDispatcher(options?: WebhookDispatcherOptions): WebhookDispatcher {
+  return new WebhookDispatcher(options);
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Computes the signature header value for a webhook payload.
+ *
+ * @param body - The raw JSON request body
+ * @param secret - The shared webhook secret
+ * @param timestamp - Unix timestamp (seconds) sent in the timestamp header
+ * @returns The signature in the form `sha256=<hex>`
+ *
+ * @example
+ * ```typescript
+ * // Verifying a request on the receiving side
+ * const expected = signWebhookPayload(rawBody, secret, req.headers['x-ideogram-timestamp']);
+ * const valid = expected === req.headers['x-ideogram-signature'];
+ * ```
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Determines whether a failed delivery should be retried.
+ * Network errors, timeouts, 408, 429, and 5xx responses are retryable.
+ */
+function isRetryableWebhookError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  if (!error.response) {
+    return true;
+  }
+
+  const { status } = error.response;
+  return (
+    status === 408 ||
+    status === HTTP_STATUS.TOO_MANY_REQUESTS ||
+    status >= HTTP_STATUS.INTERNAL_SERVER_ERROR
+  );
+}
@@ -1,14 +1,15 @@
 /**
  * ideogram_cancel_prediction Tool
  *
- * Cancels locally queued async generation jobs before they're sent to the Ideogram API.
- * Since the Ideogram API is synchronous only, this tool provides a LOCAL implementation
- * for cancellation of predictions queued via ideogram_generate_async.
+ * Cancels async generation jobs created via ideogram_generate_async and the other
+ * *_async tools. Since the Ideogram API is synchronous only, this tool provides a
+ * LOCAL implementation of cancellation.
  *
  * Features:
- * - Cancels predictions in 'queued' status
- * - Returns appropriate status for already processing/completed predictions
- * - Cannot cancel jobs already submitted to the Ideogram API
+ * - Cancels predictions in 'queued' status before they reach the Ideogram API
+ * - Aborts predictions in 'processing' status (in-flight HTTP request, pending
+ *   retries, and local image saves)
+ * - Returns appropriate status for already finished predictions
  *
  * @example
  * ```typescript
@@ -28,9 +29,11 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   CancelPredictionInputSchema,
+  CancelPredictionOutputSchema,
   type CancelPredictionInput,
   type CancelPredictionOutput,
   type CancelPredictionSuccessOutput,
@@ -58,31 +61,30 @@ export const TOOL_NAME = 'ideogram_cancel_prediction';
 /**
  * Tool description for MCP registration
  */
-export const TOOL_DESCRIPTION = `Cancel a queued async image generation request.
+export const TOOL_DESCRIPTION = `Cancel a queued or running async image generation request.
 
-This tool cancels a prediction that was created with ideogram_generate_async. It only works for predictions that are still in the queue - once a prediction starts processing (submitted to the Ideogram API), it cannot be cancelled.
+This tool cancels a prediction that was created with ideogram_generate_async or any other *_async tool. Queued predictions are removed from the queue. Running predictions are aborted: the in-flight Ideogram API request is cancelled, pending retries are stopped, and no images are saved locally.
 
 This is a LOCAL implementation since the Ideogram API is synchronous only. Cancellation is managed by the local job queue.
 
 Parameters:
-- prediction_id: The unique ID returned from ideogram_generate_async (required)
+- prediction_id: The unique ID returned from an *_async tool (required)
 
 Returns one of:
 1. **Success** (status: 'cancelled'):
    - The prediction was successfully cancelled
-   - It will not be processed and no credits will be used
+   - If it was queued, it will not be processed and no credits will be used
+   - If it was processing, credits may still be charged if the Ideogram API had already accepted the request
 
-2. **Failed** (status: 'processing' | 'completed' | 'failed'):
-   - Cannot cancel because the prediction is already processing or completed
-   - If 'processing': The job was already sent to the Ideogram API
+2. **Failed** (status: 'completed' | 'failed' | 'processing'):
+   - Cannot cancel because the prediction has already finished
+   - If 'processing': The job is running outside this server's worker pool and cannot be aborted
    - If 'completed': The job finished successfully
    - If 'failed': The job already failed
 
-Note: You can only cancel predictions that are in 'queued' status. Once processing begins, the Ideogram API call is in progress and cannot be stopped.
-
 Typical workflow:
 1. Call ideogram_generate_async to queue a request
-2. If you change your mind, call ideogram_cancel_prediction before it starts processing
+2. If you change your mind, call ideogram_cancel_prediction
 3. Use ideogram_get_prediction to verify the cancellation`;
 
 /**
@@ -90,6 +92,21 @@ Typical workflow:
  */
 export const TOOL_SCHEMA = CancelPredictionInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = CancelPredictionOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: true,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -176,14 +193,18 @@ export function createCancelPredictionHandler(
           success: true,
           prediction_id: input.prediction_id,
           status: 'cancelled',
-          message: 'Prediction successfully cancelled. No credits will be used.',
+          // Aborting a running job may still cost credits
+          message:
+            cancelResult.previousStatus === 'processing'
+              ? 'Running prediction aborted and cancelled. Credits may still be charged if the Ideogram API had already accepted the request.'
+              : 'Prediction successfully cancelled. No credits will be used.',
         };
         result = successResult;
       } else {
         // Could not cancel - build appropriate failure message
         const statusLabels: Record<PredictionStatus, string> = {
           queued: 'is still queued',
-          processing: 'is already being processed by the Ideogram API and cannot be stopped',
+          processing: 'is being processed outside this server and cannot be aborted',
           completed: 'has already completed successfully',
           failed: 'has already failed',
           cancelled: 'was already cancelled',
@@ -211,7 +232,7 @@ export function createCancelPredictionHandler(
           message:
             `Cannot cancel this prediction because it ${statusLabels[cancelResult.status]}. ${
               cancelResult.status === 'processing'
-                ? 'The job was already sent to the Ideogram API.'
+                ? 'Wait for it to finish and use ideogram_get_prediction to retrieve the results.'
                 : cancelResult.status === 'completed'
                   ? 'Use ideogram_get_prediction to retrieve the results.'
                   : ''
@@ -378,6 +399,7 @@ export async function ideogramCancelPrediction(
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -399,6 +421,8 @@ export const ideogramCancelPredictionTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramCancelPrediction,
 } as const;
 
@@ -27,17 +27,21 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   DescribeInputSchema,
+  DescribeOutputSchema,
   type DescribeInput,
   type DescribeOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
 } from '../types/tool.types.js';
 import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
 import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
@@ -61,6 +65,7 @@ Analyzes an image and produces one or more text descriptions of its contents.
 Features:
 - Model version selection: V_2 or V_3 (default)
 - Accepts images as URLs, file paths, or base64 data URLs
+  (files inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS)
 - Returns detailed text descriptions of the image
 
 Returns an array of text descriptions.`;
@@ -70,6 +75,21 @@ Returns an array of text descriptions.`;
  */
 export const TOOL_SCHEMA = DescribeInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = DescribeOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -122,7 +142,7 @@ export type DescribeToolResult = DescribeOutput | ToolErrorOutput;
  */
 export function createDescribeHandler(
   options: DescribeToolOptions = {}
-): (input: DescribeInput) => Promise<DescribeToolResult> {
+): (input: DescribeInput, context?: ToolHandlerContext) => Promise<DescribeToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:describe');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -130,7 +150,10 @@ export function createDescribeHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramDescribeHandler(input: DescribeInput): Promise<DescribeToolResult> {
+  return async function ideogramDescribeHandler(
+    input: DescribeInput,
+    context: ToolHandlerContext = {}
+  ): Promise<DescribeToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -153,8 +176,17 @@ export function createDescribeHandler(
         describeParams.describeModelVersion = input.describe_model_version;
       }
 
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
+
       // Call Ideogram API
-      const response = await client.describe(describeParams);
+      const response = await client.describe(describeParams, requestOptions);
 
       // Build successful response
       const result: DescribeOutput = {
@@ -210,14 +242,19 @@ export function createDescribeHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: DescribeInput) => Promise<DescribeToolResult>) | null = null;
+let defaultHandler:
+  | ((input: DescribeInput, context?: ToolHandlerContext) => Promise<DescribeToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: DescribeInput) => Promise<DescribeToolResult> {
+export function getDefaultHandler(): (
+  input: DescribeInput,
+  context?: ToolHandlerContext
+) => Promise<DescribeToolResult> {
   if (!defaultHandler) {
     defaultHandler = createDescribeHandler();
   }
@@ -243,6 +280,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createDescribeHandler()` instead.
  *
  * @param input - The describe input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the describe result
  *
  * @example
@@ -261,8 +299,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramDescribe(input: DescribeInput): Promise<DescribeToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramDescribe(
+  input: DescribeInput,
+  context: ToolHandlerContext = {}
+): Promise<DescribeToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -276,6 +317,7 @@ export async function ideogramDescribe(input: DescribeInput): Promise<DescribeTo
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -297,6 +339,8 @@ export const ideogramDescribeTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramDescribe,
 } as const;
 
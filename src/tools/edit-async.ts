@@ -0,0 +1,372 @@
+/**
+ * ideogram_edit_async Tool
+ *
+ * Queues image editing (inpainting) requests for background processing using a local job queue.
+ * Since the Ideogram API is synchronous only, this tool provides a local async implementation.
+ *
+ * Features:
+ * - Returns immediately with a prediction_id for polling
+ * - Supports all edit parameters (prompt, image, mask, num_images, etc.)
+ * - Provides ETA estimates based on request parameters
+ * - Jobs are processed by priority, then in FIFO order, by the background processor
+ * - Optional deadline after which a job that has not started fails
+ * - Optional webhook URL notified when the prediction finishes
+ *
+ * @example
+ * ```typescript
+ * // Queue an async edit
+ * const result = await ideogramEditAsync({
+ *   prompt: 'Add a red hat',
+ *   image: 'https://example.com/photo.jpg',
+ *   mask: 'https://example.com/mask.png',
+ * });
+ *
+ * // Returns immediately
+ * console.log(result.prediction_id); // 'pred_abc123...'
+ * console.log(result.status);        // 'queued'
+ *
+ * // Then poll with ideogram_get_prediction
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  EditAsyncInputSchema,
+  EditAsyncOutputSchema,
+  type EditAsyncInput,
+  type EditAsyncOutput,
+  type DryRunOutput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import type { EditRequest, RenderingSpeed } from '../types/api.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { createPredictionSubmitHandler } from '../services/prediction.submit.js';
+import { createChildLogger } from '../utils/logger.js';
+import { assertCompatibleStyleOptions } from '../utils/validation.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_edit_async';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Queue an image edit (inpainting) request for background processing.
+
+Returns immediately with a prediction_id that can be used to poll for status and results using ideogram_get_prediction.
+
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed by priority, then in order.
+
+Parameters are the same as ideogram_edit:
+- prompt: Description of the desired changes (required)
+- image: Source image URL, file path, or base64 data URL (required)
+- mask: Mask image where black areas are edited (required)
+- num_images: Number of variations to generate (1-8)
+- rendering_speed: FLASH (fastest), TURBO, DEFAULT, or QUALITY (best)
+- magic_prompt: AUTO, ON, or OFF for prompt enhancement
+- style_type: AUTO, GENERAL, REALISTIC, DESIGN, or FICTION (RENDER_3D and ANIME with a legacy model)
+- model: Optional legacy V2 model (V_2 or V_2_TURBO)
+- style_reference_images / style_codes: Style references or 8-character style codes (not both)
+- webhook_url: Optional URL that receives the prediction result (POST) when it completes, fails, or is cancelled
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); a job still queued after this fails with PREDICTION_EXPIRED instead of running late
+
+Returns:
+- prediction_id: Unique ID for polling
+- status: 'queued'
+- eta_seconds: Estimated time to completion
+- message: Status message
+
+After calling this, use ideogram_get_prediction to check status and retrieve results.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = EditAsyncInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = EditAsyncOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the edit async tool handler
+ */
+export interface EditAsyncToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the edit async tool
+ */
+export type EditAsyncToolResult = EditAsyncOutput | DryRunOutput | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_edit_async tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createEditAsyncHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createEditAsyncHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createEditAsyncHandler(
+  options: EditAsyncToolOptions = {}
+): (input: EditAsyncInput, context?: ToolHandlerContext) => Promise<EditAsyncToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:edit-async');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  return createPredictionSubmitHandler<EditAsyncInput>({
+    toolName: TOOL_NAME,
+    operation: 'Image edit',
+    store,
+    logger: log,
+    getLogParams: (input) => ({
+      prompt: input.prompt,
+      hasImage: !!input.image,
+      hasMask: !!input.mask,
+      rendering_speed: input.rendering_speed,
+      num_images: input.num_images,
+      magic_prompt: input.magic_prompt,
+      style_type: input.style_type,
+    }),
+    createPrediction: (input) => {
+      // Reject option combinations the API refuses before anything is queued
+      assertCompatibleStyleOptions(input);
+
+      // Build the edit request for the prediction store
+      // Only include defined optional fields (exactOptionalPropertyTypes compliance)
+      const editRequest: EditRequest = {
+        prompt: input.prompt,
+        image: input.image,
+        mask: input.mask,
+      };
+
+      if (input.num_images !== undefined) {
+        editRequest.num_images = input.num_images;
+      }
+      if (input.seed !== undefined) {
+        editRequest.seed = input.seed;
+      }
+      if (input.rendering_speed !== undefined) {
+        editRequest.rendering_speed = input.rendering_speed as RenderingSpeed;
+      }
+      if (input.magic_prompt !== undefined) {
+        editRequest.magic_prompt = input.magic_prompt;
+      }
+      if (input.style_type !== undefined) {
+        editRequest.style_type = input.style_type;
+      }
+      if (
+        input.character_reference_images !== undefined &&
+        input.character_reference_images.length > 0
+      ) {
+        editRequest.character_reference_images = input.character_reference_images;
+      }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        editRequest.style_reference_images = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        editRequest.style_codes = input.style_codes;
+      }
+      if (input.model !== undefined) {
+        editRequest.model = input.model;
+      }
+
+      return { type: 'edit', request: editRequest };
+    },
+  });
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler:
+  | ((input: EditAsyncInput, context?: ToolHandlerContext) => Promise<EditAsyncToolResult>)
+  | null = null;
+
+/**
+ * Default prediction store instance.
+ * Shared across handlers to maintain queue state.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_get_prediction
+ * and ideogram_cancel_prediction.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance, creating it if necessary.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: EditAsyncInput,
+  context?: ToolHandlerContext
+) => Promise<EditAsyncToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createEditAsyncHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Queues an image edit request using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createEditAsyncHandler()` instead.
+ *
+ * @param input - The edit input parameters
+ * @param context - Optional per-call context (cost confirmation)
+ * @returns Promise resolving to the queued result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramEditAsync({
+ *   prompt: 'Add a red hat',
+ *   image: 'https://example.com/photo.jpg',
+ *   mask: 'https://example.com/mask.png',
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Queued with ID: ${result.prediction_id}`);
+ *   // Now poll with ideogram_get_prediction
+ * } else {
+ *   console.error(`Error: ${result.user_message}`);
+ * }
+ * ```
+ */
+export async function ideogramEditAsync(
+  input: EditAsyncInput,
+  context: ToolHandlerContext = {}
+): Promise<EditAsyncToolResult> {
+  return getDefaultHandler()(input, context);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramEditAsyncTool.name,
+ *   ideogramEditAsyncTool.description,
+ *   ideogramEditAsyncTool.schema,
+ *   ideogramEditAsyncTool.handler
+ * );
+ * ```
+ */
+export const ideogramEditAsyncTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramEditAsync,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type EditAsyncToolSchema = z.infer<typeof EditAsyncInputSchema>;
@@ -25,12 +25,15 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   EditInputSchema,
+  EditOutputSchema,
   type EditInput,
   type EditOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import type { RenderingSpeed } from '../types/api.types.js';
@@ -38,8 +41,14 @@ import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
-import { calculateEditCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import {
+  calculateEditCost,
+  toCostEstimateOutput,
+  type EditCostParams,
+} from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
@@ -47,6 +56,7 @@ import {
 } from '../services/storage.service.js';
 import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import { assertCompatibleStyleOptions } from '../utils/validation.js';
 
 // =============================================================================
 // Tool Constants
@@ -72,13 +82,16 @@ Features:
 - Mask-based selective editing
 - Rendering speed options: FLASH (fastest), TURBO (fast), DEFAULT (balanced), QUALITY (best quality)
 - Magic prompt enhancement to automatically improve prompts
-- Style types: AUTO, GENERAL, REALISTIC, DESIGN, FICTION
+- Style types: AUTO, GENERAL, REALISTIC, DESIGN, FICTION (RENDER_3D and ANIME with a legacy model)
+- Legacy V2 models (model: V_2 or V_2_TURBO) for reproducing earlier V2 results; rendering_speed does not apply
 - Character reference images for maintaining character consistency
+- Style reference images or reusable style codes for a consistent art style
 - Generate 1-8 variations per edit operation
 - Optional local saving of edited images
 - Cost tracking for usage monitoring
 
 Input image and mask can be provided as URLs, file paths, or base64 data URLs.
+Local file paths may be absolute, start with ~, or be relative to LOCAL_SAVE_DIR; they must be inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS.
 
 Returns edited image URLs, seeds for reproducibility, and cost estimates.`;
 
@@ -87,6 +100,21 @@ Returns edited image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = EditInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = EditOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -149,7 +177,7 @@ export type EditToolResult = EditOutput | ToolErrorOutput;
  */
 export function createEditHandler(
   options: EditToolOptions = {}
-): (input: EditInput) => Promise<EditToolResult> {
+): (input: EditInput, context?: ToolHandlerContext) => Promise<EditToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:edit');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -158,7 +186,10 @@ export function createEditHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramEditHandler(input: EditInput): Promise<EditToolResult> {
+  return async function ideogramEditHandler(
+    input: EditInput,
+    context: ToolHandlerContext = {}
+  ): Promise<EditToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -172,11 +203,15 @@ export function createEditHandler(
         num_images: input.num_images,
         magic_prompt: input.magic_prompt,
         style_type: input.style_type,
+        model: input.model,
         save_locally: input.save_locally,
       },
     });
 
     try {
+      // Reject option combinations the API refuses before confirming the cost
+      assertCompatibleStyleOptions(input);
+
       // Build edit params, only including defined optional fields
       // (required for exactOptionalPropertyTypes compliance)
       const editParams: Parameters<typeof client.edit>[0] = {
@@ -207,15 +242,42 @@ export function createEditHandler(
       ) {
         editParams.characterReferenceImages = input.character_reference_images;
       }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        editParams.styleReferenceImages = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        editParams.styleCodes = input.style_codes;
+      }
+
+      // Legacy V2 models are priced per model instead of rendering speed
+      const costParams: EditCostParams = {
+        renderingSpeed: input.rendering_speed as RenderingSpeed,
+      };
+      if (input.model !== undefined) {
+        editParams.model = input.model;
+        costParams.model = input.model;
+      }
+
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateEditCost({ ...costParams, numImages: input.num_images });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
 
       // Call Ideogram API
-      const response = await client.edit(editParams);
+      const response = await client.edit(editParams, requestOptions);
 
       // Calculate cost estimate
-      const cost = calculateEditCost({
-        numImages: response.data.length,
-        renderingSpeed: input.rendering_speed as RenderingSpeed,
-      });
+      const cost = calculateEditCost({ ...costParams, numImages: response.data.length });
 
       // Process images and optionally save locally
       const images: GeneratedImageOutput[] = [];
@@ -228,6 +290,7 @@ export function createEditHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'edited',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -340,14 +403,19 @@ export function createEditHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: EditInput) => Promise<EditToolResult>) | null = null;
+let defaultHandler:
+  | ((input: EditInput, context?: ToolHandlerContext) => Promise<EditToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: EditInput) => Promise<EditToolResult> {
+export function getDefaultHandler(): (
+  input: EditInput,
+  context?: ToolHandlerContext
+) => Promise<EditToolResult> {
   if (!defaultHandler) {
     defaultHandler = createEditHandler();
   }
@@ -373,6 +441,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createEditHandler()` instead.
  *
  * @param input - The edit input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the edit result
  *
  * @example
@@ -396,8 +465,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramEdit(input: EditInput): Promise<EditToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramEdit(
+  input: EditInput,
+  context: ToolHandlerContext = {}
+): Promise<EditToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -411,6 +483,7 @@ export async function ideogramEdit(input: EditInput): Promise<EditToolResult> {
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -432,6 +505,8 @@ export const ideogramEditTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramEdit,
 } as const;
 
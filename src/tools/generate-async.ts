@@ -8,8 +8,9 @@
  * - Returns immediately with a prediction_id for polling
  * - Supports all generate parameters (prompt, aspect_ratio, num_images, etc.)
  * - Provides ETA estimates based on request parameters
- * - Jobs are processed in FIFO order by the background processor
- * - Optional webhook URL for future notification support
+ * - Jobs are processed by priority, then in FIFO order, by the background processor
+ * - Optional deadline after which a job that has not started fails
+ * - Optional webhook URL notified when the prediction finishes
  *
  * @example
  * ```typescript
@@ -29,12 +30,16 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   GenerateAsyncInputSchema,
+  GenerateAsyncOutputSchema,
   type GenerateAsyncInput,
   type GenerateAsyncOutput,
+  type DryRunOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
 } from '../types/tool.types.js';
 import type { GenerateRequest, RenderingSpeed } from '../types/api.types.js';
 import {
@@ -42,8 +47,12 @@ import {
   createPredictionStore,
   type PredictionStoreOptions,
 } from '../services/prediction.store.js';
-import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
-import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import { createPredictionSubmitHandler } from '../services/prediction.submit.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
 
 // =============================================================================
 // Tool Constants
@@ -61,7 +70,7 @@ export const TOOL_DESCRIPTION = `Queue an image generation request for backgroun
 
 Returns immediately with a prediction_id that can be used to poll for status and results using ideogram_get_prediction.
 
-This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed in order. Use this when you want to:
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed by priority, then in order. Use this when you want to:
 - Queue multiple generations without waiting
 - Continue working while images generate in the background
 - Have more control over the generation workflow
@@ -69,10 +78,17 @@ This is a LOCAL async implementation since the Ideogram API is synchronous only.
 Parameters are the same as ideogram_generate:
 - prompt: Text description of the desired image (required)
 - aspect_ratio: Image dimensions (1x1, 16x9, etc.)
+- resolution: Explicit resolution (e.g. RESOLUTION_1024_576), instead of aspect_ratio
 - num_images: Number of images to generate (1-8)
 - rendering_speed: FLASH (fastest), TURBO, DEFAULT, or QUALITY (best)
 - magic_prompt: AUTO, ON, or OFF for prompt enhancement
-- style_type: AUTO, GENERAL, REALISTIC, DESIGN, or FICTION
+- style_type: AUTO, GENERAL, REALISTIC, DESIGN, or FICTION (RENDER_3D and ANIME with a legacy model)
+- model: Optional legacy V2 model (V_2 or V_2_TURBO)
+- style_reference_images / style_codes: Style references or 8-character style codes (not both)
+- color_palette: Named preset ({ name }) or hex colors with optional weights ({ members })
+- webhook_url: Optional URL that receives the prediction result (POST) when it completes, fails, or is cancelled
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); a job still queued after this fails with PREDICTION_EXPIRED instead of running late
 
 Returns:
 - prediction_id: Unique ID for polling
@@ -87,6 +103,21 @@ After calling this, use ideogram_get_prediction to check status and retrieve res
  */
 export const TOOL_SCHEMA = GenerateAsyncInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = GenerateAsyncOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -114,7 +145,7 @@ export interface GenerateAsyncToolOptions {
 /**
  * Result type from the generate async tool
  */
-export type GenerateAsyncToolResult = GenerateAsyncOutput | ToolErrorOutput;
+export type GenerateAsyncToolResult = GenerateAsyncOutput | DryRunOutput | ToolErrorOutput;
 
 // =============================================================================
 // Tool Handler Factory
@@ -139,35 +170,29 @@ export type GenerateAsyncToolResult = GenerateAsyncOutput | ToolErrorOutput;
  */
 export function createGenerateAsyncHandler(
   options: GenerateAsyncToolOptions = {}
-): (input: GenerateAsyncInput) => Promise<GenerateAsyncToolResult> {
+): (input: GenerateAsyncInput, context?: ToolHandlerContext) => Promise<GenerateAsyncToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:generate-async');
   const store = options.store ?? createPredictionStore(options.storeOptions);
 
-  /**
-   * Tool handler implementation
-   */
-  return async function ideogramGenerateAsyncHandler(
-    input: GenerateAsyncInput
-  ): Promise<GenerateAsyncToolResult> {
-    const startTime = Date.now();
-
-    // Log tool invocation
-    logToolInvocation(log, {
-      tool: TOOL_NAME,
-      params: {
-        prompt: input.prompt,
-        aspect_ratio: input.aspect_ratio,
-        num_images: input.num_images,
-        rendering_speed: input.rendering_speed,
-        magic_prompt: input.magic_prompt,
-        style_type: input.style_type,
-        save_locally: input.save_locally,
-        webhook_url: input.webhook_url,
-      },
-    });
+  return createPredictionSubmitHandler<GenerateAsyncInput>({
+    toolName: TOOL_NAME,
+    operation: 'Image generation',
+    store,
+    logger: log,
+    getLogParams: (input) => ({
+      prompt: input.prompt,
+      aspect_ratio: input.aspect_ratio,
+      num_images: input.num_images,
+      rendering_speed: input.rendering_speed,
+      magic_prompt: input.magic_prompt,
+      style_type: input.style_type,
+    }),
+    createPrediction: (input) => {
+      // Reject option combinations the API refuses before anything is queued
+      assertCompatibleResolutionOptions(input);
+      assertCompatibleStyleOptions(input);
 
-    try {
       // Build the generate request for the prediction store
       // Only include defined optional fields (exactOptionalPropertyTypes compliance)
       const generateRequest: GenerateRequest = {
@@ -180,6 +205,9 @@ export function createGenerateAsyncHandler(
       if (input.aspect_ratio !== undefined) {
         generateRequest.aspect_ratio = input.aspect_ratio;
       }
+      if (input.resolution !== undefined) {
+        generateRequest.resolution = input.resolution;
+      }
       if (input.num_images !== undefined) {
         generateRequest.num_images = input.num_images;
       }
@@ -195,66 +223,22 @@ export function createGenerateAsyncHandler(
       if (input.style_type !== undefined) {
         generateRequest.style_type = input.style_type;
       }
-
-      // Create the prediction in the store
-      // Only include webhookUrl if defined (exactOptionalPropertyTypes compliance)
-      const createOptions: Parameters<typeof store.create>[0] = {
-        request: generateRequest,
-        type: 'generate',
-      };
-      if (input.webhook_url !== undefined) {
-        createOptions.webhookUrl = input.webhook_url;
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        generateRequest.style_reference_images = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        generateRequest.style_codes = input.style_codes;
+      }
+      if (input.color_palette !== undefined) {
+        generateRequest.color_palette = input.color_palette;
+      }
+      if (input.model !== undefined) {
+        generateRequest.model = input.model;
       }
-      const prediction = store.create(createOptions);
-
-      // Build successful response
-      const result: GenerateAsyncOutput = {
-        success: true,
-        prediction_id: prediction.id,
-        status: 'queued',
-        eta_seconds: prediction.eta_seconds ?? 30,
-        message: `Image generation queued successfully. Use ideogram_get_prediction with prediction_id "${prediction.id}" to check status and retrieve results.`,
-      };
 
-      // Log success
-      const durationMs = Date.now() - startTime;
-      logToolResult(log, {
-        tool: TOOL_NAME,
-        success: true,
-        durationMs,
-      });
-
-      log.debug(
-        {
-          predictionId: prediction.id,
-          etaSeconds: result.eta_seconds,
-          durationMs,
-        },
-        'Async generation queued successfully'
-      );
-
-      return result;
-    } catch (error) {
-      // Convert to IdeogramMCPError if needed
-      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
-
-      // Log failure
-      const durationMs = Date.now() - startTime;
-      logError(log, mcpError, 'Async generation queueing failed', {
-        tool: TOOL_NAME,
-        durationMs,
-      });
-      logToolResult(log, {
-        tool: TOOL_NAME,
-        success: false,
-        durationMs,
-        errorCode: mcpError.code,
-      });
-
-      // Return error response
-      return mcpError.toToolError();
-    }
-  };
+      return { type: 'generate', request: generateRequest };
+    },
+  });
 }
 
 // =============================================================================
@@ -265,7 +249,9 @@ export function createGenerateAsyncHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: GenerateAsyncInput) => Promise<GenerateAsyncToolResult>) | null = null;
+let defaultHandler:
+  | ((input: GenerateAsyncInput, context?: ToolHandlerContext) => Promise<GenerateAsyncToolResult>)
+  | null = null;
 
 /**
  * Default prediction store instance.
@@ -273,6 +259,19 @@ let defaultHandler: ((input: GenerateAsyncInput) => Promise<GenerateAsyncToolRes
  */
 let defaultStore: PredictionStore | null = null;
 
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_get_prediction
+ * and ideogram_cancel_prediction.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
 /**
  * Gets the default prediction store instance, creating it if necessary.
  *
@@ -291,7 +290,8 @@ export function getDefaultStore(): PredictionStore {
  * @returns The default handler function
  */
 export function getDefaultHandler(): (
-  input: GenerateAsyncInput
+  input: GenerateAsyncInput,
+  context?: ToolHandlerContext
 ) => Promise<GenerateAsyncToolResult> {
   if (!defaultHandler) {
     defaultHandler = createGenerateAsyncHandler({
@@ -324,6 +324,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createGenerateAsyncHandler()` instead.
  *
  * @param input - The generation input parameters
+ * @param context - Optional per-call context (cost confirmation)
  * @returns Promise resolving to the queued result
  *
  * @example
@@ -344,9 +345,10 @@ export function resetDefaultHandler(): void {
  * ```
  */
 export async function ideogramGenerateAsync(
-  input: GenerateAsyncInput
+  input: GenerateAsyncInput,
+  context: ToolHandlerContext = {}
 ): Promise<GenerateAsyncToolResult> {
-  return getDefaultHandler()(input);
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -360,6 +362,7 @@ export async function ideogramGenerateAsync(
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -381,6 +384,8 @@ export const ideogramGenerateAsyncTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramGenerateAsync,
 } as const;
 
@@ -33,12 +33,15 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   GenerateInputSchema,
+  GenerateOutputSchema,
   type GenerateInput,
   type GenerateOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import type { RenderingSpeed } from '../types/api.types.js';
@@ -46,15 +49,29 @@ import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
-import { calculateCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import {
+  calculateCost,
+  toCostEstimateOutput,
+  type GenerateCostParams,
+} from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
   type StorageServiceOptions,
 } from '../services/storage.service.js';
-import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
+import {
+  IdeogramMCPError,
+  createPromptRefinementError,
+  wrapError,
+} from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
 
 // =============================================================================
 // Tool Constants
@@ -74,9 +91,14 @@ Creates high-quality AI-generated images based on text descriptions. Supports va
 
 Features:
 - 15 aspect ratio options (1x1, 16x9, 9x16, 4x3, 3x4, 3x2, 2x3, 4x5, 5x4, 1x2, 2x1, 1x3, 3x1, 10x16, 16x10)
+- Or an explicit resolution (e.g. RESOLUTION_1024_576) instead of an aspect ratio
 - Rendering speed options: FLASH (fastest), TURBO (fast), DEFAULT (balanced), QUALITY (best quality)
 - Magic prompt enhancement to automatically improve prompts
-- Style types: AUTO, GENERAL, REALISTIC, DESIGN, FICTION
+- Optional prompt refinement by the client's LLM (refine_prompt, requires sampling support)
+- Style types: AUTO, GENERAL, REALISTIC, DESIGN, FICTION (RENDER_3D and ANIME with a legacy model)
+- Legacy V2 models (model: V_2 or V_2_TURBO) for reproducing earlier V2 results; rendering_speed does not apply
+- Style reference images or reusable style codes for a consistent art style
+- Color palette control: a named preset (EMBER, FRESH, JUNGLE, MAGIC, MELON, MOSAIC, PASTEL, ULTRAMARINE) or hex colors with optional weights
 - Generate 1-8 images per request
 - Optional local saving of generated images
 - Cost tracking for usage monitoring
@@ -88,6 +110,21 @@ Returns image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = GenerateInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = GenerateOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -150,7 +187,7 @@ export type GenerateToolResult = GenerateOutput | ToolErrorOutput;
  */
 export function createGenerateHandler(
   options: GenerateToolOptions = {}
-): (input: GenerateInput) => Promise<GenerateToolResult> {
+): (input: GenerateInput, context?: ToolHandlerContext) => Promise<GenerateToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:generate');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -159,7 +196,10 @@ export function createGenerateHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramGenerateHandler(input: GenerateInput): Promise<GenerateToolResult> {
+  return async function ideogramGenerateHandler(
+    input: GenerateInput,
+    context: ToolHandlerContext = {}
+  ): Promise<GenerateToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -172,15 +212,32 @@ export function createGenerateHandler(
         rendering_speed: input.rendering_speed,
         magic_prompt: input.magic_prompt,
         style_type: input.style_type,
+        model: input.model,
         save_locally: input.save_locally,
+        refine_prompt: input.refine_prompt,
       },
     });
 
     try {
+      // Reject option combinations the API refuses before refining the prompt or
+      // confirming the cost
+      assertCompatibleResolutionOptions(input);
+      assertCompatibleStyleOptions(input);
+
+      // Rewrite the prompt with the client's LLM (MCP sampling) when requested
+      let prompt = input.prompt;
+      if (input.refine_prompt) {
+        if (context.refinePrompt === undefined) {
+          throw createPromptRefinementError('the client does not support sampling');
+        }
+        context.onProgress?.('Refining prompt with the client model');
+        prompt = await context.refinePrompt(input.prompt);
+      }
+
       // Build generate params, only including defined optional fields
       // (required for exactOptionalPropertyTypes compliance)
       const generateParams: Parameters<typeof client.generate>[0] = {
-        prompt: input.prompt,
+        prompt,
       };
 
       if (input.negative_prompt !== undefined) {
@@ -189,6 +246,9 @@ export function createGenerateHandler(
       if (input.aspect_ratio !== undefined) {
         generateParams.aspectRatio = input.aspect_ratio;
       }
+      if (input.resolution !== undefined) {
+        generateParams.resolution = input.resolution;
+      }
       if (input.num_images !== undefined) {
         generateParams.numImages = input.num_images;
       }
@@ -210,15 +270,50 @@ export function createGenerateHandler(
       ) {
         generateParams.characterReferenceImages = input.character_reference_images;
       }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        generateParams.styleReferenceImages = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        generateParams.styleCodes = input.style_codes;
+      }
+      if (input.color_palette !== undefined) {
+        generateParams.colorPalette = input.color_palette;
+      }
+
+      // Legacy V2 models are priced per model instead of rendering speed
+      const costParams: GenerateCostParams = {
+        renderingSpeed: input.rendering_speed as RenderingSpeed,
+      };
+      if (input.model !== undefined) {
+        generateParams.model = input.model;
+        costParams.model = input.model;
+      }
+
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateCost({ ...costParams, numImages: input.num_images });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        const dryRun = createDryRunOutput(TOOL_NAME, estimate);
+        if (input.refine_prompt) {
+          dryRun.original_prompt = input.prompt;
+          dryRun.refined_prompt = prompt;
+        }
+        return dryRun;
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
 
       // Call Ideogram API
-      const response = await client.generate(generateParams);
+      const response = await client.generate(generateParams, requestOptions);
 
       // Calculate cost estimate
-      const cost = calculateCost({
-        numImages: response.data.length,
-        renderingSpeed: input.rendering_speed as RenderingSpeed,
-      });
+      const cost = calculateCost({ ...costParams, numImages: response.data.length });
 
       // Process images and optionally save locally
       const images: GeneratedImageOutput[] = [];
@@ -231,6 +326,7 @@ export function createGenerateHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'generated',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -293,6 +389,10 @@ export function createGenerateHandler(
         total_cost: toCostEstimateOutput(cost),
         num_images: images.length,
       };
+      if (input.refine_prompt) {
+        result.original_prompt = input.prompt;
+        result.refined_prompt = prompt;
+      }
 
       // Log success
       const durationMs = Date.now() - startTime;
@@ -343,14 +443,19 @@ export function createGenerateHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: GenerateInput) => Promise<GenerateToolResult>) | null = null;
+let defaultHandler:
+  | ((input: GenerateInput, context?: ToolHandlerContext) => Promise<GenerateToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: GenerateInput) => Promise<GenerateToolResult> {
+export function getDefaultHandler(): (
+  input: GenerateInput,
+  context?: ToolHandlerContext
+) => Promise<GenerateToolResult> {
   if (!defaultHandler) {
     defaultHandler = createGenerateHandler();
   }
@@ -376,6 +481,8 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createGenerateHandler()` instead.
  *
  * @param input - The generation input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting,
+ *   prompt refinement)
  * @returns Promise resolving to the generation result
  *
  * @example
@@ -397,8 +504,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramGenerate(input: GenerateInput): Promise<GenerateToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramGenerate(
+  input: GenerateInput,
+  context: ToolHandlerContext = {}
+): Promise<GenerateToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -412,6 +522,7 @@ export async function ideogramGenerate(input: GenerateInput): Promise<GenerateTo
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -433,6 +544,8 @@ export const ideogramGenerateTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramGenerate,
 } as const;
 
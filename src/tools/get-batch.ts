@@ -0,0 +1,350 @@
+/**
+ * ideogram_get_batch Tool
+ *
+ * Polls a batch created with ideogram_submit_batch. Since the Ideogram API is
+ * synchronous only, this tool reads the LOCAL prediction store shared by the
+ * *_async tools.
+ *
+ * Features:
+ * - Aggregate status (queued, processing, completed, partial, failed, cancelled)
+ * - Number of predictions per status and overall progress
+ * - Cost of the completed predictions and estimated cost of the whole batch
+ * - All completed images in a single call
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramGetBatch({ batch_id: 'batch_abc123...' });
+ *
+ * if (result.success) {
+ *   console.log(`${result.status}: ${result.counts.completed}/${result.counts.total}`);
+ *   for (const image of result.images ?? []) {
+ *     console.log(image.prediction_id, image.url);
+ *   }
+ * }
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  GetBatchInputSchema,
+  GetBatchOutputSchema,
+  type GetBatchInput,
+  type GetBatchOutput,
+  type ToolErrorOutput,
+} from '../types/tool.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { toBatchOutput } from '../services/prediction.output.js';
+import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
+import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_get_batch';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Get the status and results of a batch created with ideogram_submit_batch.
+
+This is a LOCAL implementation since the Ideogram API is synchronous only. The batch state is managed by the local job queue.
+
+Parameters:
+- batch_id: The unique ID returned from ideogram_submit_batch (required)
+- include_images: Whether to include the images of completed predictions (default: true)
+
+Returns:
+- status: Aggregate status of the batch:
+  - queued: No prediction has started yet
+  - processing: Some predictions are still queued or processing
+  - completed: All predictions completed
+  - partial: All predictions finished, but only some completed
+  - failed / cancelled: All predictions finished and none completed
+- progress: Share of predictions that finished (0-100)
+- counts: Number of predictions per status
+- predictions: Summary of each prediction (ID, status, prompt, error code, ...)
+- images: All images of completed predictions, each with its prediction_id
+- total_cost: Credits and USD of the completed predictions
+- estimated_cost: Estimated credits and USD of the whole batch
+
+Poll every few seconds until status is no longer 'queued' or 'processing'. Use ideogram_retry_prediction to retry individual failed predictions.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = GetBatchInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = GetBatchOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the get batch tool handler
+ */
+export interface GetBatchToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the get batch tool
+ */
+export type GetBatchToolResult = GetBatchOutput | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_get_batch tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createGetBatchHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createGetBatchHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createGetBatchHandler(
+  options: GetBatchToolOptions = {}
+): (input: GetBatchInput) => Promise<GetBatchToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:get-batch');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  /**
+   * Tool handler implementation
+   */
+  return function ideogramGetBatchHandler(input: GetBatchInput): Promise<GetBatchToolResult> {
+    const startTime = Date.now();
+
+    // Log tool invocation
+    logToolInvocation(log, {
+      tool: TOOL_NAME,
+      params: {
+        batch_id: input.batch_id,
+        include_images: input.include_images,
+      },
+    });
+
+    try {
+      // Get the batch and its predictions from the store (throws if not found)
+      const batch = store.getBatchOrThrow(input.batch_id);
+      const predictions = store.getBatchPredictions(input.batch_id);
+
+      const result = toBatchOutput(batch, predictions, input.include_images);
+
+      // Log success
+      const durationMs = Date.now() - startTime;
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: true,
+        durationMs,
+      });
+
+      log.debug(
+        {
+          batchId: input.batch_id,
+          status: result.status,
+          completed: result.counts.completed,
+          total: result.counts.total,
+          durationMs,
+        },
+        'Batch status retrieved'
+      );
+
+      return Promise.resolve(result);
+    } catch (error) {
+      // Convert to IdeogramMCPError if needed
+      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
+
+      // Log failure
+      const durationMs = Date.now() - startTime;
+      logError(log, mcpError, 'Get batch failed', {
+        tool: TOOL_NAME,
+        batchId: input.batch_id,
+        durationMs,
+      });
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: false,
+        durationMs,
+        errorCode: mcpError.code,
+      });
+
+      // Return error response
+      return Promise.resolve(mcpError.toToolError());
+    }
+  };
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler: ((input: GetBatchInput) => Promise<GetBatchToolResult>) | null = null;
+
+/**
+ * Default prediction store instance.
+ * Should be shared with the async tools.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_submit_batch.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (input: GetBatchInput) => Promise<GetBatchToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createGetBatchHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Gets the status and results of a batch using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createGetBatchHandler()` instead.
+ *
+ * @param input - The get batch input parameters
+ * @returns Promise resolving to the aggregate batch output
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramGetBatch({
+ *   batch_id: 'batch_abc123...',
+ *   include_images: false,
+ * });
+ *
+ * if (result.success && result.status === 'partial') {
+ *   console.log(`${result.counts.failed} predictions failed`);
+ * }
+ * ```
+ */
+export async function ideogramGetBatch(input: GetBatchInput): Promise<GetBatchToolResult> {
+  return getDefaultHandler()(input);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramGetBatchTool.name,
+ *   ideogramGetBatchTool.description,
+ *   ideogramGetBatchTool.schema,
+ *   ideogramGetBatchTool.handler
+ * );
+ * ```
+ */
+export const ideogramGetBatchTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramGetBatch,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type GetBatchToolSchema = z.infer<typeof GetBatchInputSchema>;
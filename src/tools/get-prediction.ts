@@ -3,7 +3,9 @@
  *
  * Polls for local job queue status and retrieves results for async predictions.
  * Since the Ideogram API is synchronous only, this tool provides a LOCAL implementation
- * for checking the status of predictions queued via ideogram_generate_async.
+ * for checking the status of predictions queued via ideogram_generate_async and the
+ * other async tools (ideogram_edit_async, ideogram_remix_async, ideogram_upscale_async,
+ * ideogram_reframe_async, ideogram_replace_background_async).
  *
  * Features:
  * - Returns current status (queued, processing, completed, failed, cancelled)
@@ -33,29 +35,21 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   GetPredictionInputSchema,
+  GetPredictionOutputSchema,
   type GetPredictionInput,
   type GetPredictionOutput,
-  type GetPredictionProcessingOutput,
-  type GetPredictionCompletedOutput,
-  type GetPredictionFailedOutput,
   type ToolErrorOutput,
-  type GeneratedImageOutput,
 } from '../types/tool.types.js';
-import type { GenerateResponse, RenderingSpeed } from '../types/api.types.js';
 import {
   PredictionStore,
   createPredictionStore,
   type PredictionStoreOptions,
-  formatPredictionStatus,
 } from '../services/prediction.store.js';
-import {
-  calculateCost,
-  calculateEditCost,
-  toCostEstimateOutput,
-} from '../services/cost.calculator.js';
+import { toPredictionOutput } from '../services/prediction.output.js';
 import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
 
@@ -73,7 +67,7 @@ export const TOOL_NAME = 'ideogram_get_prediction';
  */
 export const TOOL_DESCRIPTION = `Check the status of an async image generation request.
 
-This tool polls the local job queue to check the status of a prediction created with ideogram_generate_async. Use it to:
+This tool polls the local job queue to check the status of a prediction created with ideogram_generate_async or any other *_async tool (edit, remix, upscale, reframe, replace_background). Use it to:
 - Monitor progress of queued or processing jobs
 - Retrieve completed results including generated images and cost estimates
 - Check if a job has failed and get error information
@@ -81,12 +75,13 @@ This tool polls the local job queue to check the status of a prediction created
 This is a LOCAL implementation since the Ideogram API is synchronous only. The prediction state is managed by the local job queue.
 
 Parameters:
-- prediction_id: The unique ID returned from ideogram_generate_async (required)
+- prediction_id: The unique ID returned from an *_async tool (required)
 
 Returns one of:
 1. **Processing** (status: 'queued' or 'processing'):
    - progress: Percentage complete (0-100)
    - eta_seconds: Estimated time remaining
+   - queue_position: Position in the local queue (1 = next to start, queued only)
    - message: Status description
 
 2. **Completed** (status: 'completed'):
@@ -99,7 +94,7 @@ Returns one of:
    - message: Description of what went wrong
 
 Typical workflow:
-1. Call ideogram_generate_async to queue a request
+1. Call ideogram_generate_async (or another *_async tool) to queue a request
 2. Poll with ideogram_get_prediction until status is 'completed' or 'failed'
 3. Process the results or handle the error`;
 
@@ -108,6 +103,21 @@ Typical workflow:
  */
 export const TOOL_SCHEMA = GetPredictionInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = GetPredictionOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -186,121 +196,9 @@ export function createGetPredictionHandler(
       const prediction = store.getOrThrow(input.prediction_id);
 
       // Build response based on prediction status
-      let result: GetPredictionOutput;
-
-      switch (prediction.status) {
-        case 'queued':
-        case 'processing': {
-          const processingResult: GetPredictionProcessingOutput = {
-            success: true,
-            prediction_id: prediction.id,
-            status: prediction.status,
-            message: `Prediction is ${formatPredictionStatus(prediction.status).toLowerCase()}. Please poll again in a few seconds.`,
-          };
-
-          // Add optional fields only if defined
-          if (prediction.eta_seconds !== undefined) {
-            processingResult.eta_seconds = prediction.eta_seconds;
-          }
-          if (prediction.progress !== undefined) {
-            processingResult.progress = prediction.progress;
-          }
-
-          result = processingResult;
-          break;
-        }
-
-        case 'completed': {
-          // Extract images from the result
-          const images: GeneratedImageOutput[] = [];
-          const apiResult = prediction.result as GenerateResponse | undefined;
-
-          if (apiResult?.data) {
-            for (const apiImage of apiResult.data) {
-              const outputImage: GeneratedImageOutput = {
-                url: apiImage.url,
-                seed: apiImage.seed,
-                is_image_safe: apiImage.is_image_safe,
-              };
-
-              // Add optional fields only if defined
-              if (apiImage.prompt !== undefined) {
-                outputImage.prompt = apiImage.prompt;
-              }
-              if (apiImage.resolution !== undefined) {
-                outputImage.resolution = apiImage.resolution;
-              }
-
-              images.push(outputImage);
-            }
-          }
-
-          // Calculate cost estimate based on request parameters
-          const renderingSpeed = (prediction.request.rendering_speed ??
-            'DEFAULT') as RenderingSpeed;
-          const numImages =
-            images.length > 0 ? images.length : (prediction.request.num_images ?? 1);
-
-          // Use different cost calculation for edit vs generate
-          const cost =
-            prediction.type === 'edit'
-              ? calculateEditCost({ numImages, renderingSpeed })
-              : calculateCost({ numImages, renderingSpeed });
-
-          const completedResult: GetPredictionCompletedOutput = {
-            success: true,
-            prediction_id: prediction.id,
-            status: 'completed',
-            created: prediction.created_at,
-            images,
-            total_cost: toCostEstimateOutput(cost),
-            num_images: images.length,
-          };
-
-          result = completedResult;
-          break;
-        }
-
-        case 'failed':
-        case 'cancelled': {
-          const failedResult: GetPredictionFailedOutput = {
-            success: false,
-            prediction_id: prediction.id,
-            status: prediction.status,
-            error: prediction.error ?? {
-              code: prediction.status === 'cancelled' ? 'CANCELLED' : 'UNKNOWN_ERROR',
-              message:
-                prediction.status === 'cancelled'
-                  ? 'Prediction was cancelled by user'
-                  : 'Prediction failed with an unknown error',
-              retryable: false,
-            },
-            message:
-              prediction.status === 'cancelled'
-                ? 'This prediction was cancelled. Create a new async generation request to try again.'
-                : `Prediction failed: ${prediction.error?.message ?? 'Unknown error'}. ${prediction.error?.retryable ? 'This error may be retryable.' : 'Please check your input and try again.'}`,
-          };
-
-          result = failedResult;
-          break;
-        }
-
-        default: {
-          // This should never happen, but handle it gracefully
-          const unknownResult: GetPredictionFailedOutput = {
-            success: false,
-            prediction_id: prediction.id,
-            status: 'failed',
-            error: {
-              code: 'UNKNOWN_STATUS',
-              message: `Unknown prediction status: ${prediction.status}`,
-              retryable: false,
-            },
-            message: 'Prediction has an unknown status. Please contact support.',
-          };
-          result = unknownResult;
-        }
-      }
+      const queuePosition =
+        prediction.status === 'queued' ? store.getQueuePosition(prediction.id) : undefined;
+      const result = toPredictionOutput(prediction, queuePosition);
 
       // Log success
       const durationMs = Date.now() - startTime;
@@ -462,6 +360,7 @@ export async function ideogramGetPrediction(
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -483,6 +382,8 @@ export const ideogramGetPredictionTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramGetPrediction,
 } as const;
 
@@ -7,22 +7,54 @@
  * @example
  * ```typescript
  * import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
- * import { registerTools, initializeSharedStore } from './tools/index.js';
+ * import { registerTools } from './tools/index.js';
  *
  * const server = new McpServer({ name: 'ideogram', version: '1.0.0' });
  *
- * // Initialize shared prediction store (required for async tools)
- * initializeSharedStore();
- *
- * // Register all tools with the server
+ * // Register all tools with the server. This also initializes the shared
+ * // prediction store and the background processor that runs async jobs.
  * registerTools(server);
  * ```
  */
 
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ClientCapabilities,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 
+import { config } from '../config/config.js';
+
 import { PredictionStore, createPredictionStore } from '../services/prediction.store.js';
+import { createJsonlPredictionPersistence } from '../services/prediction.persistence.js';
+import {
+  createPredictionProcessor,
+  type PredictionProcessorOptions,
+} from '../services/prediction.processor.js';
+import {
+  createWebhookDispatcher,
+  type WebhookDispatcherOptions,
+} from '../services/webhook.dispatcher.js';
+import {
+  ImageContentService,
+  createImageContentService,
+  type ImageContentServiceOptions,
+} from '../services/image.content.js';
+import {
+  isToolError,
+  type GeneratedImageOutput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import { createChildLogger } from '../utils/logger.js';
+import { createProgressReporter, type ProgressRequestExtra } from '../utils/progress.js';
+import { createCostConfirmer } from '../utils/elicitation.js';
+import { createPromptRefiner, type SamplingRequestExtra } from '../utils/sampling.js';
 
 // =============================================================================
 // Re-export Tool Modules
@@ -33,6 +65,8 @@ export {
   TOOL_NAME as GENERATE_TOOL_NAME,
   TOOL_DESCRIPTION as GENERATE_TOOL_DESCRIPTION,
   TOOL_SCHEMA as GENERATE_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as GENERATE_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as GENERATE_TOOL_ANNOTATIONS,
   createGenerateHandler,
   getDefaultHandler as getGenerateDefaultHandler,
   resetDefaultHandler as resetGenerateDefaultHandler,
@@ -48,6 +82,8 @@ export {
   TOOL_NAME as EDIT_TOOL_NAME,
   TOOL_DESCRIPTION as EDIT_TOOL_DESCRIPTION,
   TOOL_SCHEMA as EDIT_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as EDIT_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as EDIT_TOOL_ANNOTATIONS,
   createEditHandler,
   getDefaultHandler as getEditDefaultHandler,
   resetDefaultHandler as resetEditDefaultHandler,
@@ -63,9 +99,12 @@ export {
   TOOL_NAME as GENERATE_ASYNC_TOOL_NAME,
   TOOL_DESCRIPTION as GENERATE_ASYNC_TOOL_DESCRIPTION,
   TOOL_SCHEMA as GENERATE_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as GENERATE_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as GENERATE_ASYNC_TOOL_ANNOTATIONS,
   createGenerateAsyncHandler,
   getDefaultHandler as getGenerateAsyncDefaultHandler,
   getDefaultStore as getGenerateAsyncDefaultStore,
+  setDefaultStore as setGenerateAsyncDefaultStore,
   resetDefaultHandler as resetGenerateAsyncDefaultHandler,
   ideogramGenerateAsync,
   ideogramGenerateAsyncTool,
@@ -79,6 +118,8 @@ export {
   TOOL_NAME as GET_PREDICTION_TOOL_NAME,
   TOOL_DESCRIPTION as GET_PREDICTION_TOOL_DESCRIPTION,
   TOOL_SCHEMA as GET_PREDICTION_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as GET_PREDICTION_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as GET_PREDICTION_TOOL_ANNOTATIONS,
   createGetPredictionHandler,
   getDefaultHandler as getGetPredictionDefaultHandler,
   getDefaultStore as getGetPredictionDefaultStore,
@@ -96,6 +137,8 @@ export {
   TOOL_NAME as CANCEL_PREDICTION_TOOL_NAME,
   TOOL_DESCRIPTION as CANCEL_PREDICTION_TOOL_DESCRIPTION,
   TOOL_SCHEMA as CANCEL_PREDICTION_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as CANCEL_PREDICTION_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as CANCEL_PREDICTION_TOOL_ANNOTATIONS,
   createCancelPredictionHandler,
   getDefaultHandler as getCancelPredictionDefaultHandler,
   getDefaultStore as getCancelPredictionDefaultStore,
@@ -108,11 +151,91 @@ export {
   type CancelPredictionToolSchema,
 } from './cancel-prediction.js';
 
+// List Predictions Tool
+export {
+  TOOL_NAME as LIST_PREDICTIONS_TOOL_NAME,
+  TOOL_DESCRIPTION as LIST_PREDICTIONS_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as LIST_PREDICTIONS_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as LIST_PREDICTIONS_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as LIST_PREDICTIONS_TOOL_ANNOTATIONS,
+  createListPredictionsHandler,
+  getDefaultHandler as getListPredictionsDefaultHandler,
+  getDefaultStore as getListPredictionsDefaultStore,
+  setDefaultStore as setListPredictionsDefaultStore,
+  resetDefaultHandler as resetListPredictionsDefaultHandler,
+  ideogramListPredictions,
+  ideogramListPredictionsTool,
+  type ListPredictionsToolOptions,
+  type ListPredictionsToolResult,
+  type ListPredictionsToolSchema,
+} from './list-predictions.js';
+
+// Retry Prediction Tool
+export {
+  TOOL_NAME as RETRY_PREDICTION_TOOL_NAME,
+  TOOL_DESCRIPTION as RETRY_PREDICTION_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as RETRY_PREDICTION_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as RETRY_PREDICTION_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as RETRY_PREDICTION_TOOL_ANNOTATIONS,
+  createRetryPredictionHandler,
+  getDefaultHandler as getRetryPredictionDefaultHandler,
+  getDefaultStore as getRetryPredictionDefaultStore,
+  setDefaultStore as setRetryPredictionDefaultStore,
+  resetDefaultHandler as resetRetryPredictionDefaultHandler,
+  ideogramRetryPrediction,
+  ideogramRetryPredictionTool,
+  type RetryPredictionToolOptions,
+  type RetryPredictionToolResult,
+  type RetryPredictionToolSchema,
+} from './retry-prediction.js';
+
+// Submit Batch Tool
+export {
+  TOOL_NAME as SUBMIT_BATCH_TOOL_NAME,
+  TOOL_DESCRIPTION as SUBMIT_BATCH_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as SUBMIT_BATCH_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as SUBMIT_BATCH_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as SUBMIT_BATCH_TOOL_ANNOTATIONS,
+  createSubmitBatchHandler,
+  expandBatchMatrix,
+  getBatchMatrixSize,
+  getDefaultHandler as getSubmitBatchDefaultHandler,
+  getDefaultStore as getSubmitBatchDefaultStore,
+  setDefaultStore as setSubmitBatchDefaultStore,
+  resetDefaultHandler as resetSubmitBatchDefaultHandler,
+  ideogramSubmitBatch,
+  ideogramSubmitBatchTool,
+  type SubmitBatchToolOptions,
+  type SubmitBatchToolResult,
+  type SubmitBatchToolSchema,
+} from './submit-batch.js';
+
+// Get Batch Tool
+export {
+  TOOL_NAME as GET_BATCH_TOOL_NAME,
+  TOOL_DESCRIPTION as GET_BATCH_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as GET_BATCH_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as GET_BATCH_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as GET_BATCH_TOOL_ANNOTATIONS,
+  createGetBatchHandler,
+  getDefaultHandler as getGetBatchDefaultHandler,
+  getDefaultStore as getGetBatchDefaultStore,
+  setDefaultStore as setGetBatchDefaultStore,
+  resetDefaultHandler as resetGetBatchDefaultHandler,
+  ideogramGetBatch,
+  ideogramGetBatchTool,
+  type GetBatchToolOptions,
+  type GetBatchToolResult,
+  type GetBatchToolSchema,
+} from './get-batch.js';
+
 // Describe Tool
 export {
   TOOL_NAME as DESCRIBE_TOOL_NAME,
   TOOL_DESCRIPTION as DESCRIBE_TOOL_DESCRIPTION,
   TOOL_SCHEMA as DESCRIBE_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as DESCRIBE_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as DESCRIBE_TOOL_ANNOTATIONS,
   createDescribeHandler,
   getDefaultHandler as getDescribeDefaultHandler,
   resetDefaultHandler as resetDescribeDefaultHandler,
@@ -128,6 +251,8 @@ export {
   TOOL_NAME as UPSCALE_TOOL_NAME,
   TOOL_DESCRIPTION as UPSCALE_TOOL_DESCRIPTION,
   TOOL_SCHEMA as UPSCALE_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as UPSCALE_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as UPSCALE_TOOL_ANNOTATIONS,
   createUpscaleHandler,
   getDefaultHandler as getUpscaleDefaultHandler,
   resetDefaultHandler as resetUpscaleDefaultHandler,
@@ -143,6 +268,8 @@ export {
   TOOL_NAME as REMIX_TOOL_NAME,
   TOOL_DESCRIPTION as REMIX_TOOL_DESCRIPTION,
   TOOL_SCHEMA as REMIX_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REMIX_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REMIX_TOOL_ANNOTATIONS,
   createRemixHandler,
   getDefaultHandler as getRemixDefaultHandler,
   resetDefaultHandler as resetRemixDefaultHandler,
@@ -158,6 +285,8 @@ export {
   TOOL_NAME as REFRAME_TOOL_NAME,
   TOOL_DESCRIPTION as REFRAME_TOOL_DESCRIPTION,
   TOOL_SCHEMA as REFRAME_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REFRAME_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REFRAME_TOOL_ANNOTATIONS,
   createReframeHandler,
   getDefaultHandler as getReframeDefaultHandler,
   resetDefaultHandler as resetReframeDefaultHandler,
@@ -173,6 +302,8 @@ export {
   TOOL_NAME as REPLACE_BACKGROUND_TOOL_NAME,
   TOOL_DESCRIPTION as REPLACE_BACKGROUND_TOOL_DESCRIPTION,
   TOOL_SCHEMA as REPLACE_BACKGROUND_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REPLACE_BACKGROUND_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REPLACE_BACKGROUND_TOOL_ANNOTATIONS,
   createReplaceBackgroundHandler,
   getDefaultHandler as getReplaceBackgroundDefaultHandler,
   resetDefaultHandler as resetReplaceBackgroundDefaultHandler,
@@ -183,6 +314,101 @@ export {
   type ReplaceBackgroundToolSchema,
 } from './replace-background.js';
 
+// Edit Async Tool
+export {
+  TOOL_NAME as EDIT_ASYNC_TOOL_NAME,
+  TOOL_DESCRIPTION as EDIT_ASYNC_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as EDIT_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as EDIT_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as EDIT_ASYNC_TOOL_ANNOTATIONS,
+  createEditAsyncHandler,
+  getDefaultHandler as getEditAsyncDefaultHandler,
+  getDefaultStore as getEditAsyncDefaultStore,
+  setDefaultStore as setEditAsyncDefaultStore,
+  resetDefaultHandler as resetEditAsyncDefaultHandler,
+  ideogramEditAsync,
+  ideogramEditAsyncTool,
+  type EditAsyncToolOptions,
+  type EditAsyncToolResult,
+  type EditAsyncToolSchema,
+} from './edit-async.js';
+
+// Remix Async Tool
+export {
+  TOOL_NAME as REMIX_ASYNC_TOOL_NAME,
+  TOOL_DESCRIPTION as REMIX_ASYNC_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as REMIX_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REMIX_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REMIX_ASYNC_TOOL_ANNOTATIONS,
+  createRemixAsyncHandler,
+  getDefaultHandler as getRemixAsyncDefaultHandler,
+  getDefaultStore as getRemixAsyncDefaultStore,
+  setDefaultStore as setRemixAsyncDefaultStore,
+  resetDefaultHandler as resetRemixAsyncDefaultHandler,
+  ideogramRemixAsync,
+  ideogramRemixAsyncTool,
+  type RemixAsyncToolOptions,
+  type RemixAsyncToolResult,
+  type RemixAsyncToolSchema,
+} from './remix-async.js';
+
+// Upscale Async Tool
+export {
+  TOOL_NAME as UPSCALE_ASYNC_TOOL_NAME,
+  TOOL_DESCRIPTION as UPSCALE_ASYNC_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as UPSCALE_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as UPSCALE_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as UPSCALE_ASYNC_TOOL_ANNOTATIONS,
+  createUpscaleAsyncHandler,
+  getDefaultHandler as getUpscaleAsyncDefaultHandler,
+  getDefaultStore as getUpscaleAsyncDefaultStore,
+  setDefaultStore as setUpscaleAsyncDefaultStore,
+  resetDefaultHandler as resetUpscaleAsyncDefaultHandler,
+  ideogramUpscaleAsync,
+  ideogramUpscaleAsyncTool,
+  type UpscaleAsyncToolOptions,
+  type UpscaleAsyncToolResult,
+  type UpscaleAsyncToolSchema,
+} from './upscale-async.js';
+
+// Reframe Async Tool
+export {
+  TOOL_NAME as REFRAME_ASYNC_TOOL_NAME,
+  TOOL_DESCRIPTION as REFRAME_ASYNC_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as REFRAME_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REFRAME_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REFRAME_ASYNC_TOOL_ANNOTATIONS,
+  createReframeAsyncHandler,
+  getDefaultHandler as getReframeAsyncDefaultHandler,
+  getDefaultStore as getReframeAsyncDefaultStore,
+  setDefaultStore as setReframeAsyncDefaultStore,
+  resetDefaultHandler as resetReframeAsyncDefaultHandler,
+  ideogramReframeAsync,
+  ideogramReframeAsyncTool,
+  type ReframeAsyncToolOptions,
+  type ReframeAsyncToolResult,
+  type ReframeAsyncToolSchema,
+} from './reframe-async.js';
+
+// Replace Background Async Tool
+export {
+  TOOL_NAME as REPLACE_BACKGROUND_ASYNC_TOOL_NAME,
+  TOOL_DESCRIPTION as REPLACE_BACKGROUND_ASYNC_TOOL_DESCRIPTION,
+  TOOL_SCHEMA as REPLACE_BACKGROUND_ASYNC_TOOL_SCHEMA,
+  TOOL_OUTPUT_SCHEMA as REPLACE_BACKGROUND_ASYNC_TOOL_OUTPUT_SCHEMA,
+  TOOL_ANNOTATIONS as REPLACE_BACKGROUND_ASYNC_TOOL_ANNOTATIONS,
+  createReplaceBackgroundAsyncHandler,
+  getDefaultHandler as getReplaceBackgroundAsyncDefaultHandler,
+  getDefaultStore as getReplaceBackgroundAsyncDefaultStore,
+  setDefaultStore as setReplaceBackgroundAsyncDefaultStore,
+  resetDefaultHandler as resetReplaceBackgroundAsyncDefaultHandler,
+  ideogramReplaceBackgroundAsync,
+  ideogramReplaceBackgroundAsyncTool,
+  type ReplaceBackgroundAsyncToolOptions,
+  type ReplaceBackgroundAsyncToolResult,
+  type ReplaceBackgroundAsyncToolSchema,
+} from './replace-background-async.js';
+
 // =============================================================================
 // Tool Definition Type
 // =============================================================================
@@ -207,10 +433,21 @@ export interface ToolDefinition<TSchema extends z.ZodType> {
    */
   schema: TSchema;
 
+  /**
+   * Zod schema of the structured result (`structuredContent`)
+   */
+  outputSchema: z.AnyZodObject;
+
+  /**
+   * Hints about the tool's behavior (read-only, destructive, idempotent,
+   * open world) for clients
+   */
+  annotations: ToolAnnotations;
+
   /**
    * The handler function that executes the tool
    */
-  handler: (input: z.infer<TSchema>) => Promise<unknown>;
+  handler: (input: z.infer<TSchema>, context?: ToolHandlerContext) => Promise<unknown>;
 }
 
 // =============================================================================
@@ -218,16 +455,76 @@ export interface ToolDefinition<TSchema extends z.ZodType> {
 // =============================================================================
 
 // Import the tool definition objects
-import { ideogramGenerateTool } from './generate.js';
-import { ideogramEditTool } from './edit.js';
-import { ideogramGenerateAsyncTool } from './generate-async.js';
-import { ideogramGetPredictionTool } from './get-prediction.js';
-import { ideogramCancelPredictionTool } from './cancel-prediction.js';
-import { ideogramDescribeTool } from './describe.js';
-import { ideogramUpscaleTool } from './upscale.js';
-import { ideogramRemixTool } from './remix.js';
-import { ideogramReframeTool } from './reframe.js';
-import { ideogramReplaceBackgroundTool } from './replace-background.js';
+import { ideogramGenerateTool, resetDefaultHandler as resetGenerateHandler } from './generate.js';
+import { ideogramEditTool, resetDefaultHandler as resetEditHandler } from './edit.js';
+import {
+  ideogramGenerateAsyncTool,
+  setDefaultStore as setGenerateAsyncStore,
+  resetDefaultHandler as resetGenerateAsyncHandler,
+} from './generate-async.js';
+import {
+  ideogramGetPredictionTool,
+  setDefaultStore as setGetPredictionStore,
+  resetDefaultHandler as resetGetPredictionHandler,
+} from './get-prediction.js';
+import {
+  ideogramCancelPredictionTool,
+  setDefaultStore as setCancelPredictionStore,
+  resetDefaultHandler as resetCancelPredictionHandler,
+} from './cancel-prediction.js';
+import {
+  ideogramListPredictionsTool,
+  setDefaultStore as setListPredictionsStore,
+  resetDefaultHandler as resetListPredictionsHandler,
+} from './list-predictions.js';
+import {
+  ideogramRetryPredictionTool,
+  setDefaultStore as setRetryPredictionStore,
+  resetDefaultHandler as resetRetryPredictionHandler,
+} from './retry-prediction.js';
+import {
+  ideogramSubmitBatchTool,
+  setDefaultStore as setSubmitBatchStore,
+  resetDefaultHandler as resetSubmitBatchHandler,
+} from './submit-batch.js';
+import {
+  ideogramGetBatchTool,
+  setDefaultStore as setGetBatchStore,
+  resetDefaultHandler as resetGetBatchHandler,
+} from './get-batch.js';
+import { ideogramDescribeTool, resetDefaultHandler as resetDescribeHandler } from './describe.js';
+import { ideogramUpscaleTool, resetDefaultHandler as resetUpscaleHandler } from './upscale.js';
+import { ideogramRemixTool, resetDefaultHandler as resetRemixHandler } from './remix.js';
+import { ideogramReframeTool, resetDefaultHandler as resetReframeHandler } from './reframe.js';
+import {
+  ideogramReplaceBackgroundTool,
+  resetDefaultHandler as resetReplaceBackgroundHandler,
+} from './replace-background.js';
+import {
+  ideogramEditAsyncTool,
+  setDefaultStore as setEditAsyncStore,
+  resetDefaultHandler as resetEditAsyncHandler,
+} from './edit-async.js';
+import {
+  ideogramRemixAsyncTool,
+  setDefaultStore as setRemixAsyncStore,
+  resetDefaultHandler as resetRemixAsyncHandler,
+} from './remix-async.js';
+import {
+  ideogramUpscaleAsyncTool,
+  setDefaultStore as setUpscaleAsyncStore,
+  resetDefaultHandler as resetUpscaleAsyncHandler,
+} from './upscale-async.js';
+import {
+  ideogramReframeAsyncTool,
+  setDefaultStore as setReframeAsyncStore,
+  resetDefaultHandler as resetReframeAsyncHandler,
+} from './reframe-async.js';
+import {
+  ideogramReplaceBackgroundAsyncTool,
+  setDefaultStore as setReplaceBackgroundAsyncStore,
+  resetDefaultHandler as resetReplaceBackgroundAsyncHandler,
+} from './replace-background-async.js';
 
 /**
  * Array of all tool definitions for easy iteration.
@@ -247,11 +544,20 @@ export const allTools = [
   ideogramGenerateAsyncTool,
   ideogramGetPredictionTool,
   ideogramCancelPredictionTool,
+  ideogramListPredictionsTool,
+  ideogramRetryPredictionTool,
+  ideogramSubmitBatchTool,
+  ideogramGetBatchTool,
   ideogramDescribeTool,
   ideogramUpscaleTool,
   ideogramRemixTool,
   ideogramReframeTool,
   ideogramReplaceBackgroundTool,
+  ideogramEditAsyncTool,
+  ideogramRemixAsyncTool,
+  ideogramUpscaleAsyncTool,
+  ideogramReframeAsyncTool,
+  ideogramReplaceBackgroundAsyncTool,
 ] as const;
 
 /**
@@ -270,29 +576,37 @@ export type ToolName = (typeof allTools)[number]['name'];
 
 /**
  * Shared prediction store instance for async tools.
- * This store is shared between ideogram_generate_async, ideogram_get_prediction,
- * and ideogram_cancel_prediction tools.
+ * This store is shared between the *_async tools, ideogram_get_prediction,
+ * and ideogram_cancel_prediction.
  */
 let sharedPredictionStore: PredictionStore | null = null;
 
+/**
+ * Detaches the webhook dispatcher from the shared prediction store.
+ * Like the processor, only one dispatcher is attached at a time.
+ */
+let detachWebhookDispatcher: (() => void) | null = null;
+
 /**
  * Initializes the shared prediction store for async tools.
  *
- * This must be called before using the async tools (ideogram_generate_async,
+ * This must be called before using the async tools (the *_async tools,
  * ideogram_get_prediction, ideogram_cancel_prediction) to ensure they all
  * share the same prediction state.
  *
+ * No processor is registered on the store, so queued predictions are not
+ * executed until one is set. Use initializeToolStore() to also register the
+ * background processor and webhook dispatcher.
+ *
  * @param options - Optional configuration for the prediction store
  * @returns The shared PredictionStore instance
  *
  * @example
  * ```typescript
- * import { initializeSharedStore, registerTools } from './tools/index.js';
+ * import { initializeSharedStore } from './tools/index.js';
  *
- * // Initialize the shared store before registering tools
  * const store = initializeSharedStore();
- *
- * // The store is now shared between all async tools
+ * store.setProcessor(myProcessor);
  * ```
  */
 export function initializeSharedStore(
@@ -301,18 +615,20 @@ export function initializeSharedStore(
   if (!sharedPredictionStore) {
     sharedPredictionStore = createPredictionStore(options);
 
-    // Share the store with the tools that need it
-    // Note: We import these dynamically to avoid circular dependencies
-    import('./get-prediction.js').then(({ setDefaultStore }) => {
-      if (sharedPredictionStore) {
-        setDefaultStore(sharedPredictionStore);
-      }
-    });
-    import('./cancel-prediction.js').then(({ setDefaultStore }) => {
-      if (sharedPredictionStore) {
-        setDefaultStore(sharedPredictionStore);
-      }
-    });
+    // Share the store with the tools that need it. This is done synchronously
+    // so that a job queued right after initialization is visible to all tools.
+    setGenerateAsyncStore(sharedPredictionStore);
+    setGetPredictionStore(sharedPredictionStore);
+    setCancelPredictionStore(sharedPredictionStore);
+    setListPredictionsStore(sharedPredictionStore);
+    setRetryPredictionStore(sharedPredictionStore);
+    setSubmitBatchStore(sharedPredictionStore);
+    setGetBatchStore(sharedPredictionStore);
+    setEditAsyncStore(sharedPredictionStore);
+    setRemixAsyncStore(sharedPredictionStore);
+    setUpscaleAsyncStore(sharedPredictionStore);
+    setReframeAsyncStore(sharedPredictionStore);
+    setReplaceBackgroundAsyncStore(sharedPredictionStore);
   }
   return sharedPredictionStore;
 }
@@ -326,12 +642,55 @@ export function getSharedStore(): PredictionStore | null {
   return sharedPredictionStore;
 }
 
+/**
+ * Initializes the shared prediction store and attaches the background
+ * processor and webhook dispatcher to it, so queued predictions are executed.
+ *
+ * The store is persisted under LOCAL_SAVE_DIR unless PERSIST_PREDICTIONS is
+ * false. Calling this again keeps the existing store and replaces its
+ * processor and webhook dispatcher.
+ *
+ * registerTools() and createServer() call this unless `initializeStore` is
+ * false.
+ *
+ * @param options - Store, processor, and webhook options
+ * @returns The shared PredictionStore instance
+ *
+ * @example
+ * ```typescript
+ * const store = initializeToolStore({ storeOptions: { maxQueueSize: 50 } });
+ * ```
+ */
+export function initializeToolStore(
+  options: Pick<RegisterToolsOptions, 'storeOptions' | 'processorOptions' | 'webhookOptions'> = {}
+): PredictionStore {
+  const { storeOptions, processorOptions, webhookOptions } = options;
+
+  // Restore and persist predictions so job IDs survive server restarts
+  const sharedStoreOptions =
+    config.persistPredictions && storeOptions?.persistence === undefined
+      ? { ...storeOptions, persistence: createJsonlPredictionPersistence() }
+      : storeOptions;
+  const store = initializeSharedStore(sharedStoreOptions);
+
+  // Process queued predictions with the Ideogram API in the background
+  store.setProcessor(createPredictionProcessor(processorOptions));
+
+  // Notify webhook URLs when predictions complete, fail, or are cancelled
+  detachWebhookDispatcher?.();
+  detachWebhookDispatcher = createWebhookDispatcher(webhookOptions).attach(store);
+
+  return store;
+}
+
 /**
  * Disposes of the shared prediction store and resets all tool handlers.
  *
  * Call this when shutting down the server or during testing.
  */
 export function disposeSharedStore(): void {
+  detachWebhookDispatcher?.();
+  detachWebhookDispatcher = null;
   if (sharedPredictionStore) {
     sharedPredictionStore.dispose();
     sharedPredictionStore = null;
@@ -348,16 +707,169 @@ export function resetAllHandlers(): void {
   disposeSharedStore();
 
   // Reset individual tool handlers
-  import('./generate.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./edit.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./generate-async.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./get-prediction.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./cancel-prediction.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./describe.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./upscale.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./remix.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./reframe.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
-  import('./replace-background.js').then(({ resetDefaultHandler }) => resetDefaultHandler());
+  resetGenerateHandler();
+  resetEditHandler();
+  resetGenerateAsyncHandler();
+  resetGetPredictionHandler();
+  resetCancelPredictionHandler();
+  resetListPredictionsHandler();
+  resetRetryPredictionHandler();
+  resetSubmitBatchHandler();
+  resetGetBatchHandler();
+  resetDescribeHandler();
+  resetUpscaleHandler();
+  resetRemixHandler();
+  resetReframeHandler();
+  resetReplaceBackgroundHandler();
+  resetEditAsyncHandler();
+  resetRemixAsyncHandler();
+  resetUpscaleAsyncHandler();
+  resetReframeAsyncHandler();
+  resetReplaceBackgroundAsyncHandler();
+}
+
+// =============================================================================
+// Tool Results
+// =============================================================================
+
+/**
+ * Tools whose successful results contain generated images. Their MCP results
+ * include image content blocks with thumbnails of those images.
+ */
+export const IMAGE_RESULT_TOOL_NAMES: readonly string[] = [
+  ideogramGenerateTool.name,
+  ideogramEditTool.name,
+  ideogramRemixTool.name,
+  ideogramReframeTool.name,
+  ideogramUpscaleTool.name,
+  ideogramReplaceBackgroundTool.name,
+];
+
+/**
+ * Gets the images of a successful tool result, if it has any.
+ */
+function getResultImages(result: unknown): GeneratedImageOutput[] {
+  if (typeof result !== 'object' || result === null) {
+    return [];
+  }
+  const { success, images } = result as { success?: unknown; images?: unknown };
+  return success === true && Array.isArray(images) ? (images as GeneratedImageOutput[]) : [];
+}
+
+/**
+ * Checks whether a tool result is a ToolErrorOutput.
+ */
+function isToolErrorResult(result: unknown): result is ToolErrorOutput {
+  return (
+    typeof result === 'object' && result !== null && isToolError(result as { success: boolean })
+  );
+}
+
+/**
+ * Formats a tool result for MCP.
+ *
+ * The result is always returned as JSON in a text content block. For the image
+ * tools (see IMAGE_RESULT_TOOL_NAMES), thumbnails of the generated images
+ * follow as image content blocks so the client can see them.
+ *
+ * Successful results are also returned as `structuredContent`, matching the
+ * tool's output schema. Tool errors (ToolErrorOutput) are marked with
+ * `isError: true` and carry no structured content, since they do not match
+ * the output schema.
+ *
+ * @param toolName - Name of the tool that produced the result
+ * @param result - The tool handler result
+ * @param imageContent - Service creating the image content blocks
+ * @returns The MCP tool result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramGenerate({ prompt: 'A cat' });
+ * const formatted = await formatToolResult('ideogram_generate', result);
+ * // formatted.content: [{ type: 'text', ... }, { type: 'image', ... }]
+ * // formatted.structuredContent: { success: true, images: [...], ... }
+ * ```
+ */
+export async function formatToolResult(
+  toolName: string,
+  result: unknown,
+  imageContent: ImageContentService = createImageContentService()
+): Promise<CallToolResult> {
+  const content: CallToolResult['content'] = [
+    {
+      type: 'text',
+      text: JSON.stringify(result, null, 2),
+    },
+  ];
+
+  if (IMAGE_RESULT_TOOL_NAMES.includes(toolName)) {
+    content.push(...(await imageContent.createImageContent(getResultImages(result))));
+  }
+
+  if (isToolErrorResult(result)) {
+    return { content, isError: true };
+  }
+
+  const formatted: CallToolResult = { content };
+  if (typeof result === 'object' && result !== null) {
+    formatted.structuredContent = result as Record<string, unknown>;
+  }
+  return formatted;
+}
+
+// =============================================================================
+// Tool Handler Context
+// =============================================================================
+
+/**
+ * The parts of the MCP request handler context used by tool handlers.
+ */
+export type ToolRequestExtra = ProgressRequestExtra &
+  SamplingRequestExtra &
+  Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, 'signal'>;
+
+/**
+ * Builds the per-call context of a tool handler from the MCP request.
+ *
+ * The context carries the request's abort signal, so a call cancelled by the
+ * client stops its API request, retries, and downloads. When the client sent
+ * a `progressToken`, the context also reports progress as
+ * `notifications/progress`. When the client supports sampling, the context
+ * can refine prompts with the client's LLM (`refine_prompt`). When it supports
+ * form elicitation, the context can ask the user to confirm expensive
+ * operations.
+ *
+ * @param extra - The request handler context passed to the tool callback
+ * @param clientCapabilities - Capabilities the client declared on initialization
+ * @returns The tool handler context
+ *
+ * @example
+ * ```typescript
+ * server.registerTool(name, toolConfig, async (input, extra) => {
+ *   const context = createToolHandlerContext(extra, server.server.getClientCapabilities());
+ *   const result = await ideogramGenerate(input, context);
+ *   return formatToolResult(name, result);
+ * });
+ * ```
+ */
+export function createToolHandlerContext(
+  extra: ToolRequestExtra,
+  clientCapabilities?: ClientCapabilities
+): ToolHandlerContext {
+  const context: ToolHandlerContext = { signal: extra.signal };
+
+  const onProgress = createProgressReporter(extra);
+  if (onProgress !== undefined) {
+    context.onProgress = onProgress;
+  }
+  if (clientCapabilities?.sampling !== undefined) {
+    context.refinePrompt = createPromptRefiner(extra);
+  }
+  if (clientCapabilities?.elicitation?.form !== undefined) {
+    context.confirmCost = createCostConfirmer(extra);
+  }
+
+  return context;
 }
 
 // =============================================================================
@@ -378,17 +890,93 @@ export interface RegisterToolsOptions {
    * Options for the prediction store (if initializeStore is true).
    */
   storeOptions?: Parameters<typeof createPredictionStore>[0];
+
+  /**
+   * Options for the background prediction processor registered on the
+   * shared prediction store (client, storage, logger).
+   */
+  processorOptions?: PredictionProcessorOptions;
+
+  /**
+   * Options for the webhook dispatcher attached to the shared prediction
+   * store (signing secret, timeout, retry behavior).
+   */
+  webhookOptions?: WebhookDispatcherOptions;
+
+  /**
+   * Options for the image content blocks added to image tool results
+   * (enabled, thumbnail size cap).
+   */
+  imageContentOptions?: ImageContentServiceOptions;
+
+  /**
+   * Names of the tools to register.
+   * Default: IDEOGRAM_ENABLED_TOOLS (all tools when unset)
+   */
+  enabledTools?: readonly string[];
+
+  /**
+   * Names of the tools not to register, applied after enabledTools.
+   * Default: IDEOGRAM_DISABLED_TOOLS
+   */
+  disabledTools?: readonly string[];
+}
+
+/**
+ * Gets the tools to register, filtered by the allow and deny lists.
+ *
+ * A tool is registered if it is in the allow list (or there is no allow list)
+ * and not in the deny list. Names that match no tool are logged and ignored.
+ *
+ * @param options - The allow and deny lists (default: from the config)
+ * @returns The enabled tool definitions, in allTools order
+ *
+ * @example
+ * ```typescript
+ * // Read-only deployment
+ * const tools = getEnabledTools({
+ *   enabledTools: ['ideogram_describe', 'ideogram_get_prediction'],
+ * });
+ * ```
+ */
+export function getEnabledTools(
+  options: Pick<RegisterToolsOptions, 'enabledTools' | 'disabledTools'> = {}
+): Array<(typeof allTools)[number]> {
+  const enabledTools = options.enabledTools ?? config.enabledTools;
+  const disabledTools = new Set(options.disabledTools ?? config.disabledTools);
+
+  const toolNames = getToolNames();
+  const unknownTools = [...(enabledTools ?? []), ...disabledTools].filter(
+    (name) => !toolNames.includes(name)
+  );
+  if (unknownTools.length > 0) {
+    createChildLogger('tools').warn(
+      { unknownTools, availableTools: toolNames },
+      'Ignoring unknown tool names in the enabled/disabled tool lists'
+    );
+  }
+
+  return allTools.filter(
+    (tool) =>
+      (enabledTools === undefined || enabledTools.includes(tool.name)) &&
+      !disabledTools.has(tool.name)
+  );
 }
 
 /**
- * Registers all Ideogram tools with an MCP server.
+ * Registers the Ideogram tools with an MCP server.
  *
  * This is the recommended way to set up the server. It:
- * - Initializes the shared prediction store for async tools
- * - Registers all 10 tools with the server
+ * - Initializes the shared prediction store for async tools and registers
+ *   the background processor and webhook dispatcher on it (see
+ *   initializeToolStore())
+ * - Registers the enabled tools (all 19 by default, see getEnabledTools())
+ *   with their annotations
+ * - Returns thumbnails of generated images as image content blocks
  *
  * @param server - The MCP server instance
  * @param options - Optional configuration
+ * @returns Names of the registered tools
  *
  * @example
  * ```typescript
@@ -409,48 +997,63 @@ export interface RegisterToolsOptions {
  * // - ideogram_generate_async
  * // - ideogram_get_prediction
  * // - ideogram_cancel_prediction
+ * // - ideogram_list_predictions
+ * // - ideogram_retry_prediction
+ * // - ideogram_submit_batch
+ * // - ideogram_get_batch
  * // - ideogram_describe
  * // - ideogram_upscale
  * // - ideogram_remix
  * // - ideogram_reframe
  * // - ideogram_replace_background
+ * // - ideogram_edit_async
+ * // - ideogram_remix_async
+ * // - ideogram_upscale_async
+ * // - ideogram_reframe_async
+ * // - ideogram_replace_background_async
  * ```
  */
-export function registerTools(server: McpServer, options: RegisterToolsOptions = {}): void {
-  const { initializeStore = true, storeOptions } = options;
+export function registerTools(server: McpServer, options: RegisterToolsOptions = {}): string[] {
+  const { initializeStore = true, imageContentOptions } = options;
 
-  // Initialize shared store if requested
+  // Initialize shared store and its processor if requested
   if (initializeStore) {
-    initializeSharedStore(storeOptions);
+    initializeToolStore(options);
   }
 
-  // Register each tool with the server using the 4-parameter pattern
-  // server.tool(name, description, schema, handler)
-  for (const tool of allTools) {
-    server.tool(
+  // Thumbnails of generated images are returned as image content blocks
+  const imageContent = createImageContentService(imageContentOptions);
+
+  // Register each enabled tool with its input and output schemas and annotations
+  const tools = getEnabledTools(options);
+  for (const tool of tools) {
+    server.registerTool(
       tool.name,
-      tool.description,
-      // Type assertion needed because the SDK types are complex
-      // The schema is a valid Zod schema object - cast through unknown first
-      tool.schema as unknown as Record<string, unknown>,
+      {
+        description: tool.description,
+        inputSchema: tool.schema.shape,
+        outputSchema: tool.outputSchema.shape,
+        annotations: tool.annotations,
+      },
       // The handler receives validated input and returns a result
-      async (input: unknown) => {
+      async (input: unknown, extra: ToolRequestExtra) => {
         // Cast handler to accept unknown input since MCP SDK already validates against schema
-        const handler = tool.handler as (input: unknown) => Promise<unknown>;
-        const result = await handler(input);
+        const handler = tool.handler as (
+          input: unknown,
+          context: ToolHandlerContext
+        ) => Promise<unknown>;
+        const result = await handler(
+          input,
+          createToolHandlerContext(extra, server.server.getClientCapabilities())
+        );
 
         // Return the result formatted for MCP
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return formatToolResult(tool.name, result, imageContent);
       }
     );
   }
+
+  return tools.map((tool) => tool.name);
 }
 
 /**
@@ -0,0 +1,415 @@
+/**
+ * ideogram_list_predictions Tool
+ *
+ * Lists predictions in the local job queue so that an assistant which lost a
+ * prediction_id can discover what is queued, running, or finished.
+ * Since the Ideogram API is synchronous only, this tool queries the LOCAL
+ * prediction store shared by the *_async tools.
+ *
+ * Features:
+ * - Filters by status, operation type, creation time range, and prompt text
+ * - Cursor pagination (newest predictions first)
+ * - Queue statistics (queued, processing, completed, failed, cancelled)
+ *
+ * @example
+ * ```typescript
+ * // List running jobs
+ * const result = await ideogramListPredictions({
+ *   status: ['queued', 'processing'],
+ * });
+ *
+ * if (result.success) {
+ *   for (const prediction of result.predictions) {
+ *     console.log(prediction.prediction_id, prediction.status);
+ *   }
+ *   console.log('Queued:', result.stats.queued);
+ * }
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  ListPredictionsInputSchema,
+  ListPredictionsOutputSchema,
+  type ListPredictionsInput,
+  type ListPredictionsOutput,
+  type ToolErrorOutput,
+} from '../types/tool.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionQueryOptions,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { toPredictionSummary } from '../services/prediction.output.js';
+import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
+import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_list_predictions';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `List async image predictions in the local job queue.
+
+Use this to find predictions created with ideogram_generate_async or any other *_async tool, for example when a prediction_id was lost, or to see what is still running.
+
+This is a LOCAL implementation since the Ideogram API is synchronous only. The prediction state is managed by the local job queue.
+
+Parameters (all optional):
+- status: Only include these statuses (queued, processing, completed, failed, cancelled)
+- type: Only include these operations (generate, edit, remix, upscale, reframe, replace_background)
+- created_after / created_before: ISO 8601 creation time range (inclusive)
+- prompt_contains: Case-insensitive text the prompt must contain
+- limit: Page size (1-100, default 20)
+- cursor: next_cursor from the previous page
+
+Returns:
+- predictions: Matching predictions, newest first (ID, type, status, prompt, progress, ...)
+- total: Number of predictions matching the filters
+- next_cursor: Pass as cursor to get the next page (absent on the last page)
+- stats: Counts of queued, processing, completed, failed, and cancelled predictions
+
+Use ideogram_get_prediction with a prediction_id to retrieve full results.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = ListPredictionsInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = ListPredictionsOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: false,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the list predictions tool handler
+ */
+export interface ListPredictionsToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the list predictions tool
+ */
+export type ListPredictionsToolResult = ListPredictionsOutput | ToolErrorOutput;
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Converts tool input into store query options.
+ */
+function toQueryOptions(input: ListPredictionsInput): PredictionQueryOptions {
+  const query: PredictionQueryOptions = { limit: input.limit };
+
+  // Only include filters if defined (exactOptionalPropertyTypes compliance)
+  if (input.status !== undefined) {
+    query.status = input.status;
+  }
+  if (input.type !== undefined) {
+    query.type = input.type;
+  }
+  if (input.created_after !== undefined) {
+    query.createdAfter = input.created_after;
+  }
+  if (input.created_before !== undefined) {
+    query.createdBefore = input.created_before;
+  }
+  if (input.prompt_contains !== undefined) {
+    query.promptContains = input.prompt_contains;
+  }
+  if (input.cursor !== undefined) {
+    query.cursor = input.cursor;
+  }
+
+  return query;
+}
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_list_predictions tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createListPredictionsHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createListPredictionsHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createListPredictionsHandler(
+  options: ListPredictionsToolOptions = {}
+): (input: ListPredictionsInput) => Promise<ListPredictionsToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:list-predictions');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  /**
+   * Tool handler implementation
+   */
+  return function ideogramListPredictionsHandler(
+    input: ListPredictionsInput
+  ): Promise<ListPredictionsToolResult> {
+    const startTime = Date.now();
+
+    // Log tool invocation
+    logToolInvocation(log, {
+      tool: TOOL_NAME,
+      params: {
+        status: input.status,
+        type: input.type,
+        created_after: input.created_after,
+        created_before: input.created_before,
+        prompt_contains: input.prompt_contains,
+        limit: input.limit,
+        has_cursor: input.cursor !== undefined,
+      },
+    });
+
+    try {
+      // Query the store
+      const page = store.query(toQueryOptions(input));
+      const stats = store.getStats();
+
+      const result: ListPredictionsOutput = {
+        success: true,
+        predictions: page.predictions.map(toPredictionSummary),
+        total: page.total,
+        stats: {
+          total: stats.total,
+          queued: stats.queued,
+          processing: stats.processing,
+          completed: stats.completed,
+          failed: stats.failed,
+          cancelled: stats.cancelled,
+        },
+      };
+
+      if (page.nextCursor !== undefined) {
+        result.next_cursor = page.nextCursor;
+      }
+
+      // Log success
+      const durationMs = Date.now() - startTime;
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: true,
+        durationMs,
+      });
+
+      log.debug(
+        {
+          returned: result.predictions.length,
+          total: result.total,
+          hasMore: result.next_cursor !== undefined,
+          durationMs,
+        },
+        'Predictions listed successfully'
+      );
+
+      return Promise.resolve(result);
+    } catch (error) {
+      // Convert to IdeogramMCPError if needed
+      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
+
+      // Log failure
+      const durationMs = Date.now() - startTime;
+      logError(log, mcpError, 'List predictions failed', {
+        tool: TOOL_NAME,
+        durationMs,
+      });
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: false,
+        durationMs,
+        errorCode: mcpError.code,
+      });
+
+      // Return error response
+      return Promise.resolve(mcpError.toToolError());
+    }
+  };
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler: ((input: ListPredictionsInput) => Promise<ListPredictionsToolResult>) | null =
+  null;
+
+/**
+ * Default prediction store instance.
+ * Should be shared with the async tools.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by the async tools.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: ListPredictionsInput
+) => Promise<ListPredictionsToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createListPredictionsHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Lists predictions in the local job queue using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createListPredictionsHandler()` instead.
+ *
+ * @param input - The list predictions input parameters
+ * @returns Promise resolving to the matching predictions and queue statistics
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramListPredictions({
+ *   prompt_contains: 'sunset',
+ *   limit: 10,
+ * });
+ *
+ * if (result.success && result.next_cursor) {
+ *   const nextPage = await ideogramListPredictions({
+ *     prompt_contains: 'sunset',
+ *     limit: 10,
+ *     cursor: result.next_cursor,
+ *   });
+ * }
+ * ```
+ */
+export async function ideogramListPredictions(
+  input: ListPredictionsInput
+): Promise<ListPredictionsToolResult> {
+  return getDefaultHandler()(input);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramListPredictionsTool.name,
+ *   ideogramListPredictionsTool.description,
+ *   ideogramListPredictionsTool.schema,
+ *   ideogramListPredictionsTool.handler
+ * );
+ * ```
+ */
+export const ideogramListPredictionsTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramListPredictions,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type ListPredictionsToolSchema = z.infer<typeof ListPredictionsInputSchema>;
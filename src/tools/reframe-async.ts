@@ -0,0 +1,336 @@
+/**
+ * ideogram_reframe_async Tool
+ *
+ * Queues image reframing requests for background processing using a local job queue.
+ * Since the Ideogram API is synchronous only, this tool provides a local async implementation.
+ *
+ * Features:
+ * - Returns immediately with a prediction_id for polling
+ * - Supports all reframe parameters (image, resolution, num_images, etc.)
+ * - Provides ETA estimates based on request parameters
+ * - Jobs are processed by priority, then in FIFO order, by the background processor
+ * - Optional deadline after which a job that has not started fails
+ * - Optional webhook URL notified when the prediction finishes
+ *
+ * @example
+ * ```typescript
+ * // Queue an async reframe
+ * const result = await ideogramReframeAsync({
+ *   image: 'https://example.com/photo.jpg',
+ *   resolution: 'RESOLUTION_1024_640',
+ * });
+ *
+ * // Returns immediately
+ * console.log(result.prediction_id); // 'pred_abc123...'
+ * console.log(result.status);        // 'queued'
+ *
+ * // Then poll with ideogram_get_prediction
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  ReframeAsyncInputSchema,
+  ReframeAsyncOutputSchema,
+  type ReframeAsyncInput,
+  type ReframeAsyncOutput,
+  type DryRunOutput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import type { ReframeRequest, RenderingSpeed } from '../types/api.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { createPredictionSubmitHandler } from '../services/prediction.submit.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_reframe_async';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Queue an image reframe request for background processing.
+
+Returns immediately with a prediction_id that can be used to poll for status and results using ideogram_get_prediction.
+
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed by priority, then in order.
+
+Parameters are the same as ideogram_reframe:
+- image: Source image URL, file path, or base64 data URL (required)
+- resolution: Target resolution, e.g. "RESOLUTION_1024_640" (required)
+- num_images: Number of images to generate (1-8)
+- rendering_speed: FLASH (fastest), TURBO, DEFAULT, or QUALITY (best)
+- webhook_url: Optional URL that receives the prediction result (POST) when it completes, fails, or is cancelled
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); a job still queued after this fails with PREDICTION_EXPIRED instead of running late
+
+Returns:
+- prediction_id: Unique ID for polling
+- status: 'queued'
+- eta_seconds: Estimated time to completion
+- message: Status message
+
+After calling this, use ideogram_get_prediction to check status and retrieve results.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = ReframeAsyncInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = ReframeAsyncOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the reframe async tool handler
+ */
+export interface ReframeAsyncToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the reframe async tool
+ */
+export type ReframeAsyncToolResult = ReframeAsyncOutput | DryRunOutput | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_reframe_async tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createReframeAsyncHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createReframeAsyncHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createReframeAsyncHandler(
+  options: ReframeAsyncToolOptions = {}
+): (input: ReframeAsyncInput, context?: ToolHandlerContext) => Promise<ReframeAsyncToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:reframe-async');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  return createPredictionSubmitHandler<ReframeAsyncInput>({
+    toolName: TOOL_NAME,
+    operation: 'Image reframe',
+    store,
+    logger: log,
+    getLogParams: (input) => ({
+      hasImage: !!input.image,
+      resolution: input.resolution,
+      num_images: input.num_images,
+      rendering_speed: input.rendering_speed,
+    }),
+    createPrediction: (input) => {
+      // Build the reframe request for the prediction store
+      // Only include defined optional fields (exactOptionalPropertyTypes compliance)
+      const reframeRequest: ReframeRequest = {
+        image: input.image,
+        resolution: input.resolution,
+      };
+
+      if (input.num_images !== undefined) {
+        reframeRequest.num_images = input.num_images;
+      }
+      if (input.seed !== undefined) {
+        reframeRequest.seed = input.seed;
+      }
+      if (input.rendering_speed !== undefined) {
+        reframeRequest.rendering_speed = input.rendering_speed as RenderingSpeed;
+      }
+
+      return { type: 'reframe', request: reframeRequest };
+    },
+  });
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler:
+  | ((input: ReframeAsyncInput, context?: ToolHandlerContext) => Promise<ReframeAsyncToolResult>)
+  | null = null;
+
+/**
+ * Default prediction store instance.
+ * Shared across handlers to maintain queue state.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_get_prediction
+ * and ideogram_cancel_prediction.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance, creating it if necessary.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: ReframeAsyncInput,
+  context?: ToolHandlerContext
+) => Promise<ReframeAsyncToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createReframeAsyncHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Queues an image reframe request using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createReframeAsyncHandler()` instead.
+ *
+ * @param input - The reframe input parameters
+ * @param context - Optional per-call context (cost confirmation)
+ * @returns Promise resolving to the queued result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramReframeAsync({
+ *   image: 'https://example.com/photo.jpg',
+ *   resolution: 'RESOLUTION_1024_640',
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Queued with ID: ${result.prediction_id}`);
+ *   // Now poll with ideogram_get_prediction
+ * } else {
+ *   console.error(`Error: ${result.user_message}`);
+ * }
+ * ```
+ */
+export async function ideogramReframeAsync(
+  input: ReframeAsyncInput,
+  context: ToolHandlerContext = {}
+): Promise<ReframeAsyncToolResult> {
+  return getDefaultHandler()(input, context);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramReframeAsyncTool.name,
+ *   ideogramReframeAsyncTool.description,
+ *   ideogramReframeAsyncTool.schema,
+ *   ideogramReframeAsyncTool.handler
+ * );
+ * ```
+ */
+export const ideogramReframeAsyncTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramReframeAsync,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type ReframeAsyncToolSchema = z.infer<typeof ReframeAsyncInputSchema>;
@@ -23,7 +23,7 @@
  * // With rendering speed
  * const result = await ideogramReframe({
  *   image: 'https://example.com/photo.jpg',
- *   resolution: 'RESOLUTION_1920_1080',
+ *   resolution: 'RESOLUTION_1024_576',
  *   rendering_speed: 'QUALITY',
  *   save_locally: true,
  * });
@@ -32,12 +32,15 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   ReframeInputSchema,
+  ReframeOutputSchema,
   type ReframeInput,
   type ReframeOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import type { RenderingSpeed } from '../types/api.types.js';
@@ -45,8 +48,10 @@ import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
 import { calculateReframeCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
@@ -72,13 +77,14 @@ export const TOOL_DESCRIPTION = `Extend images to new resolutions via intelligen
 Reframes an existing image to fit a new target resolution, intelligently filling in any new areas with contextually appropriate content.
 
 Features:
-- Target resolution specification (e.g. "RESOLUTION_1024_768")
+- Target resolution from the supported list (e.g. "RESOLUTION_1024_768", "RESOLUTION_720_1280")
 - Rendering speed options: FLASH (fastest), TURBO (fast), DEFAULT (balanced), QUALITY (best quality)
 - Generate 1-8 reframed variants per request
 - Optional local saving of reframed images
 - Cost tracking for usage monitoring
 
 Input image can be provided as a URL, file path, or base64 data URL.
+Local file paths may be absolute, start with ~, or be relative to LOCAL_SAVE_DIR; they must be inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS.
 
 Returns reframed image URLs, seeds for reproducibility, and cost estimates.`;
 
@@ -87,6 +93,21 @@ Returns reframed image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = ReframeInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = ReframeOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -149,7 +170,7 @@ export type ReframeToolResult = ReframeOutput | ToolErrorOutput;
  */
 export function createReframeHandler(
   options: ReframeToolOptions = {}
-): (input: ReframeInput) => Promise<ReframeToolResult> {
+): (input: ReframeInput, context?: ToolHandlerContext) => Promise<ReframeToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:reframe');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -158,7 +179,10 @@ export function createReframeHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramReframeHandler(input: ReframeInput): Promise<ReframeToolResult> {
+  return async function ideogramReframeHandler(
+    input: ReframeInput,
+    context: ToolHandlerContext = {}
+  ): Promise<ReframeToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -191,8 +215,26 @@ export function createReframeHandler(
         reframeParams.renderingSpeed = input.rendering_speed as RenderingSpeed;
       }
 
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateReframeCost({
+        numImages: input.num_images,
+        renderingSpeed: input.rendering_speed as RenderingSpeed,
+      });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
+
       // Call Ideogram API
-      const response = await client.reframe(reframeParams);
+      const response = await client.reframe(reframeParams, requestOptions);
 
       // Calculate cost estimate
       const cost = calculateReframeCost({
@@ -211,6 +253,7 @@ export function createReframeHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'reframed',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -323,14 +366,19 @@ export function createReframeHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: ReframeInput) => Promise<ReframeToolResult>) | null = null;
+let defaultHandler:
+  | ((input: ReframeInput, context?: ToolHandlerContext) => Promise<ReframeToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: ReframeInput) => Promise<ReframeToolResult> {
+export function getDefaultHandler(): (
+  input: ReframeInput,
+  context?: ToolHandlerContext
+) => Promise<ReframeToolResult> {
   if (!defaultHandler) {
     defaultHandler = createReframeHandler();
   }
@@ -356,13 +404,14 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createReframeHandler()` instead.
  *
  * @param input - The reframe input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the reframe result
  *
  * @example
  * ```typescript
  * const result = await ideogramReframe({
  *   image: 'https://example.com/photo.jpg',
- *   resolution: 'RESOLUTION_1920_1080',
+ *   resolution: 'RESOLUTION_1024_576',
  *   rendering_speed: 'DEFAULT',
  * });
  *
@@ -377,8 +426,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramReframe(input: ReframeInput): Promise<ReframeToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramReframe(
+  input: ReframeInput,
+  context: ToolHandlerContext = {}
+): Promise<ReframeToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -392,6 +444,7 @@ export async function ideogramReframe(input: ReframeInput): Promise<ReframeToolR
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -413,6 +466,8 @@ export const ideogramReframeTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramReframe,
 } as const;
 
@@ -0,0 +1,389 @@
+/**
+ * ideogram_remix_async Tool
+ *
+ * Queues image remix requests for background processing using a local job queue.
+ * Since the Ideogram API is synchronous only, this tool provides a local async implementation.
+ *
+ * Features:
+ * - Returns immediately with a prediction_id for polling
+ * - Supports all remix parameters (prompt, image, image_weight, aspect_ratio, etc.)
+ * - Provides ETA estimates based on request parameters
+ * - Jobs are processed by priority, then in FIFO order, by the background processor
+ * - Optional deadline after which a job that has not started fails
+ * - Optional webhook URL notified when the prediction finishes
+ *
+ * @example
+ * ```typescript
+ * // Queue an async remix
+ * const result = await ideogramRemixAsync({
+ *   prompt: 'Make it a watercolor painting',
+ *   image: 'https://example.com/photo.jpg',
+ *   image_weight: 60,
+ * });
+ *
+ * // Returns immediately
+ * console.log(result.prediction_id); // 'pred_abc123...'
+ * console.log(result.status);        // 'queued'
+ *
+ * // Then poll with ideogram_get_prediction
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  RemixAsyncInputSchema,
+  RemixAsyncOutputSchema,
+  type RemixAsyncInput,
+  type RemixAsyncOutput,
+  type DryRunOutput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import type { RemixRequest, RenderingSpeed } from '../types/api.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { createPredictionSubmitHandler } from '../services/prediction.submit.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_remix_async';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Queue an image remix request for background processing.
+
+Returns immediately with a prediction_id that can be used to poll for status and results using ideogram_get_prediction.
+
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed by priority, then in order.
+
+Parameters are the same as ideogram_remix:
+- image: Source image URL, file path, or base64 data URL (required)
+- prompt: Description of the desired remix (required)
+- image_weight: How much the original image influences the result (0-100)
+- aspect_ratio: Output dimensions (1x1, 16x9, etc.)
+- resolution: Explicit resolution (e.g. RESOLUTION_1024_576), instead of aspect_ratio
+- num_images: Number of images to generate (1-8)
+- rendering_speed: FLASH (fastest), TURBO, DEFAULT, or QUALITY (best)
+- style_reference_images / style_codes: Style references or 8-character style codes (not both)
+- color_palette: Named preset ({ name }) or hex colors with optional weights ({ members })
+- webhook_url: Optional URL that receives the prediction result (POST) when it completes, fails, or is cancelled
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); a job still queued after this fails with PREDICTION_EXPIRED instead of running late
+
+Returns:
+- prediction_id: Unique ID for polling
+- status: 'queued'
+- eta_seconds: Estimated time to completion
+- message: Status message
+
+After calling this, use ideogram_get_prediction to check status and retrieve results.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = RemixAsyncInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = RemixAsyncOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the remix async tool handler
+ */
+export interface RemixAsyncToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the remix async tool
+ */
+export type RemixAsyncToolResult = RemixAsyncOutput | DryRunOutput | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_remix_async tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createRemixAsyncHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createRemixAsyncHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createRemixAsyncHandler(
+  options: RemixAsyncToolOptions = {}
+): (input: RemixAsyncInput, context?: ToolHandlerContext) => Promise<RemixAsyncToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:remix-async');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  return createPredictionSubmitHandler<RemixAsyncInput>({
+    toolName: TOOL_NAME,
+    operation: 'Image remix',
+    store,
+    logger: log,
+    getLogParams: (input) => ({
+      prompt: input.prompt,
+      hasImage: !!input.image,
+      image_weight: input.image_weight,
+      negative_prompt: input.negative_prompt,
+      aspect_ratio: input.aspect_ratio,
+      num_images: input.num_images,
+      rendering_speed: input.rendering_speed,
+      magic_prompt: input.magic_prompt,
+      style_type: input.style_type,
+    }),
+    createPrediction: (input) => {
+      // Reject option combinations the API refuses before anything is queued
+      assertCompatibleResolutionOptions(input);
+      assertCompatibleStyleOptions(input);
+
+      // Build the remix request for the prediction store
+      // Only include defined optional fields (exactOptionalPropertyTypes compliance)
+      const remixRequest: RemixRequest = {
+        prompt: input.prompt,
+        image: input.image,
+      };
+
+      if (input.image_weight !== undefined) {
+        remixRequest.image_weight = input.image_weight;
+      }
+      if (input.negative_prompt !== undefined) {
+        remixRequest.negative_prompt = input.negative_prompt;
+      }
+      if (input.aspect_ratio !== undefined) {
+        remixRequest.aspect_ratio = input.aspect_ratio;
+      }
+      if (input.resolution !== undefined) {
+        remixRequest.resolution = input.resolution;
+      }
+      if (input.num_images !== undefined) {
+        remixRequest.num_images = input.num_images;
+      }
+      if (input.seed !== undefined) {
+        remixRequest.seed = input.seed;
+      }
+      if (input.rendering_speed !== undefined) {
+        remixRequest.rendering_speed = input.rendering_speed as RenderingSpeed;
+      }
+      if (input.magic_prompt !== undefined) {
+        remixRequest.magic_prompt = input.magic_prompt;
+      }
+      if (input.style_type !== undefined) {
+        remixRequest.style_type = input.style_type;
+      }
+      if (
+        input.character_reference_images !== undefined &&
+        input.character_reference_images.length > 0
+      ) {
+        remixRequest.character_reference_images = input.character_reference_images;
+      }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        remixRequest.style_reference_images = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        remixRequest.style_codes = input.style_codes;
+      }
+      if (input.color_palette !== undefined) {
+        remixRequest.color_palette = input.color_palette;
+      }
+
+      return { type: 'remix', request: remixRequest };
+    },
+  });
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler:
+  | ((input: RemixAsyncInput, context?: ToolHandlerContext) => Promise<RemixAsyncToolResult>)
+  | null = null;
+
+/**
+ * Default prediction store instance.
+ * Shared across handlers to maintain queue state.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_get_prediction
+ * and ideogram_cancel_prediction.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance, creating it if necessary.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: RemixAsyncInput,
+  context?: ToolHandlerContext
+) => Promise<RemixAsyncToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createRemixAsyncHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Queues an image remix request using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createRemixAsyncHandler()` instead.
+ *
+ * @param input - The remix input parameters
+ * @param context - Optional per-call context (cost confirmation)
+ * @returns Promise resolving to the queued result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramRemixAsync({
+ *   prompt: 'Make it a watercolor painting',
+ *   image: 'https://example.com/photo.jpg',
+ *   image_weight: 60,
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Queued with ID: ${result.prediction_id}`);
+ *   // Now poll with ideogram_get_prediction
+ * } else {
+ *   console.error(`Error: ${result.user_message}`);
+ * }
+ * ```
+ */
+export async function ideogramRemixAsync(
+  input: RemixAsyncInput,
+  context: ToolHandlerContext = {}
+): Promise<RemixAsyncToolResult> {
+  return getDefaultHandler()(input, context);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramRemixAsyncTool.name,
+ *   ideogramRemixAsyncTool.description,
+ *   ideogramRemixAsyncTool.schema,
+ *   ideogramRemixAsyncTool.handler
+ * );
+ * ```
+ */
+export const ideogramRemixAsyncTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramRemixAsync,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type RemixAsyncToolSchema = z.infer<typeof RemixAsyncInputSchema>;
@@ -37,12 +37,15 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   RemixInputSchema,
+  RemixOutputSchema,
   type RemixInput,
   type RemixOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import type { RenderingSpeed } from '../types/api.types.js';
@@ -50,8 +53,10 @@ import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
 import { calculateRemixCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
@@ -59,6 +64,10 @@ import {
 } from '../services/storage.service.js';
 import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
 
 // =============================================================================
 // Tool Constants
@@ -79,15 +88,19 @@ Takes an existing image and transforms it according to a new text description, b
 Features:
 - Image weight control (0-100): how much influence the original image has
 - 15 aspect ratio options (1x1, 16x9, 9x16, 4x3, 3x4, 3x2, 2x3, 4x5, 5x4, 1x2, 2x1, 1x3, 3x1, 10x16, 16x10)
+- Or an explicit resolution (e.g. RESOLUTION_1024_576) instead of an aspect ratio
 - Rendering speed options: FLASH (fastest), TURBO (fast), DEFAULT (balanced), QUALITY (best quality)
 - Magic prompt enhancement to automatically improve prompts
 - Style types: AUTO, GENERAL, REALISTIC, DESIGN, FICTION
+- Style reference images or reusable style codes for a consistent art style
+- Color palette control: a named preset (EMBER, FRESH, JUNGLE, MAGIC, MELON, MOSAIC, PASTEL, ULTRAMARINE) or hex colors with optional weights
 - Negative prompt support
 - Generate 1-8 remixed images per request
 - Optional local saving of remixed images
 - Cost tracking for usage monitoring
 
 Input image can be provided as a URL, file path, or base64 data URL.
+Local file paths may be absolute, start with ~, or be relative to LOCAL_SAVE_DIR; they must be inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS.
 
 Returns remixed image URLs, seeds for reproducibility, and cost estimates.`;
 
@@ -96,6 +109,21 @@ Returns remixed image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = RemixInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = RemixOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -158,7 +186,7 @@ export type RemixToolResult = RemixOutput | ToolErrorOutput;
  */
 export function createRemixHandler(
   options: RemixToolOptions = {}
-): (input: RemixInput) => Promise<RemixToolResult> {
+): (input: RemixInput, context?: ToolHandlerContext) => Promise<RemixToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:remix');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -167,7 +195,10 @@ export function createRemixHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramRemixHandler(input: RemixInput): Promise<RemixToolResult> {
+  return async function ideogramRemixHandler(
+    input: RemixInput,
+    context: ToolHandlerContext = {}
+  ): Promise<RemixToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -188,6 +219,10 @@ export function createRemixHandler(
     });
 
     try {
+      // Reject option combinations the API refuses before confirming the cost
+      assertCompatibleResolutionOptions(input);
+      assertCompatibleStyleOptions(input);
+
       // Build remix params, only including defined optional fields
       // (required for exactOptionalPropertyTypes compliance)
       const remixParams: Parameters<typeof client.remix>[0] = {
@@ -204,6 +239,9 @@ export function createRemixHandler(
       if (input.aspect_ratio !== undefined) {
         remixParams.aspectRatio = input.aspect_ratio;
       }
+      if (input.resolution !== undefined) {
+        remixParams.resolution = input.resolution;
+      }
       if (input.num_images !== undefined) {
         remixParams.numImages = input.num_images;
       }
@@ -225,9 +263,36 @@ export function createRemixHandler(
       ) {
         remixParams.characterReferenceImages = input.character_reference_images;
       }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        remixParams.styleReferenceImages = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        remixParams.styleCodes = input.style_codes;
+      }
+      if (input.color_palette !== undefined) {
+        remixParams.colorPalette = input.color_palette;
+      }
+
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateRemixCost({
+        numImages: input.num_images,
+        renderingSpeed: input.rendering_speed as RenderingSpeed,
+      });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
 
       // Call Ideogram API
-      const response = await client.remix(remixParams);
+      const response = await client.remix(remixParams, requestOptions);
 
       // Calculate cost estimate
       const cost = calculateRemixCost({
@@ -246,6 +311,7 @@ export function createRemixHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'remixed',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -358,14 +424,19 @@ export function createRemixHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: RemixInput) => Promise<RemixToolResult>) | null = null;
+let defaultHandler:
+  | ((input: RemixInput, context?: ToolHandlerContext) => Promise<RemixToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: RemixInput) => Promise<RemixToolResult> {
+export function getDefaultHandler(): (
+  input: RemixInput,
+  context?: ToolHandlerContext
+) => Promise<RemixToolResult> {
   if (!defaultHandler) {
     defaultHandler = createRemixHandler();
   }
@@ -391,6 +462,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createRemixHandler()` instead.
  *
  * @param input - The remix input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the remix result
  *
  * @example
@@ -413,8 +485,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramRemix(input: RemixInput): Promise<RemixToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramRemix(
+  input: RemixInput,
+  context: ToolHandlerContext = {}
+): Promise<RemixToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -428,6 +503,7 @@ export async function ideogramRemix(input: RemixInput): Promise<RemixToolResult>
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -449,6 +525,8 @@ export const ideogramRemixTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramRemix,
 } as const;
 
@@ -0,0 +1,361 @@
+/**
+ * ideogram_replace_background_async Tool
+ *
+ * Queues background replacement requests for background processing using a local job queue.
+ * Since the Ideogram API is synchronous only, this tool provides a local async implementation.
+ *
+ * Features:
+ * - Returns immediately with a prediction_id for polling
+ * - Supports all replace_background parameters (image, prompt, num_images, etc.)
+ * - Provides ETA estimates based on request parameters
+ * - Jobs are processed by priority, then in FIFO order, by the background processor
+ * - Optional deadline after which a job that has not started fails
+ * - Optional webhook URL notified when the prediction finishes
+ *
+ * @example
+ * ```typescript
+ * // Queue an async background replacement
+ * const result = await ideogramReplaceBackgroundAsync({
+ *   image: 'https://example.com/product.jpg',
+ *   prompt: 'A marble countertop in a bright kitchen',
+ * });
+ *
+ * // Returns immediately
+ * console.log(result.prediction_id); // 'pred_abc123...'
+ * console.log(result.status);        // 'queued'
+ *
+ * // Then poll with ideogram_get_prediction
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  ReplaceBackgroundAsyncInputSchema,
+  ReplaceBackgroundAsyncOutputSchema,
+  type ReplaceBackgroundAsyncInput,
+  type ReplaceBackgroundAsyncOutput,
+  type DryRunOutput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import type { ReplaceBackgroundRequest, RenderingSpeed } from '../types/api.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { createPredictionSubmitHandler } from '../services/prediction.submit.js';
+import { createChildLogger } from '../utils/logger.js';
+import { assertCompatibleStyleOptions } from '../utils/validation.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_replace_background_async';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Queue a background replacement request for background processing.
+
+Returns immediately with a prediction_id that can be used to poll for status and results using ideogram_get_prediction.
+
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Jobs are queued internally and processed by priority, then in order.
+
+Parameters are the same as ideogram_replace_background:
+- image: Source image URL, file path, or base64 data URL (required)
+- prompt: Description of the new background (required)
+- magic_prompt: AUTO, ON, or OFF for prompt enhancement
+- num_images: Number of images to generate (1-8)
+- rendering_speed: FLASH (fastest), TURBO, DEFAULT, or QUALITY (best)
+- style_reference_images / style_codes: Style references or 8-character style codes (not both)
+- webhook_url: Optional URL that receives the prediction result (POST) when it completes, fails, or is cancelled
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); a job still queued after this fails with PREDICTION_EXPIRED instead of running late
+
+Returns:
+- prediction_id: Unique ID for polling
+- status: 'queued'
+- eta_seconds: Estimated time to completion
+- message: Status message
+
+After calling this, use ideogram_get_prediction to check status and retrieve results.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = ReplaceBackgroundAsyncInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = ReplaceBackgroundAsyncOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the replace-background async tool handler
+ */
+export interface ReplaceBackgroundAsyncToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the replace-background async tool
+ */
+export type ReplaceBackgroundAsyncToolResult =
+  | ReplaceBackgroundAsyncOutput
+  | DryRunOutput
+  | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_replace_background_async tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createReplaceBackgroundAsyncHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createReplaceBackgroundAsyncHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createReplaceBackgroundAsyncHandler(
+  options: ReplaceBackgroundAsyncToolOptions = {}
+): (
+  input: ReplaceBackgroundAsyncInput,
+  context?: ToolHandlerContext
+) => Promise<ReplaceBackgroundAsyncToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:replace-background-async');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  return createPredictionSubmitHandler<ReplaceBackgroundAsyncInput>({
+    toolName: TOOL_NAME,
+    operation: 'Background replacement',
+    store,
+    logger: log,
+    getLogParams: (input) => ({
+      prompt: input.prompt,
+      hasImage: !!input.image,
+      magic_prompt: input.magic_prompt,
+      num_images: input.num_images,
+      rendering_speed: input.rendering_speed,
+    }),
+    createPrediction: (input) => {
+      // Reject option combinations the API refuses before anything is queued
+      assertCompatibleStyleOptions(input);
+
+      // Build the background replacement request for the prediction store
+      // Only include defined optional fields (exactOptionalPropertyTypes compliance)
+      const replaceBackgroundRequest: ReplaceBackgroundRequest = {
+        image: input.image,
+        prompt: input.prompt,
+      };
+
+      if (input.magic_prompt !== undefined) {
+        replaceBackgroundRequest.magic_prompt = input.magic_prompt;
+      }
+      if (input.num_images !== undefined) {
+        replaceBackgroundRequest.num_images = input.num_images;
+      }
+      if (input.seed !== undefined) {
+        replaceBackgroundRequest.seed = input.seed;
+      }
+      if (input.rendering_speed !== undefined) {
+        replaceBackgroundRequest.rendering_speed = input.rendering_speed as RenderingSpeed;
+      }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        replaceBackgroundRequest.style_reference_images = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        replaceBackgroundRequest.style_codes = input.style_codes;
+      }
+
+      return { type: 'replace_background', request: replaceBackgroundRequest };
+    },
+  });
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler:
+  | ((
+      input: ReplaceBackgroundAsyncInput,
+      context?: ToolHandlerContext
+    ) => Promise<ReplaceBackgroundAsyncToolResult>)
+  | null = null;
+
+/**
+ * Default prediction store instance.
+ * Shared across handlers to maintain queue state.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by ideogram_get_prediction
+ * and ideogram_cancel_prediction.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance, creating it if necessary.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: ReplaceBackgroundAsyncInput,
+  context?: ToolHandlerContext
+) => Promise<ReplaceBackgroundAsyncToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createReplaceBackgroundAsyncHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Queues a background replacement request using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createReplaceBackgroundAsyncHandler()` instead.
+ *
+ * @param input - The background replacement input parameters
+ * @param context - Optional per-call context (cost confirmation)
+ * @returns Promise resolving to the queued result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramReplaceBackgroundAsync({
+ *   image: 'https://example.com/product.jpg',
+ *   prompt: 'A marble countertop in a bright kitchen',
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Queued with ID: ${result.prediction_id}`);
+ *   // Now poll with ideogram_get_prediction
+ * } else {
+ *   console.error(`Error: ${result.user_message}`);
+ * }
+ * ```
+ */
+export async function ideogramReplaceBackgroundAsync(
+  input: ReplaceBackgroundAsyncInput,
+  context: ToolHandlerContext = {}
+): Promise<ReplaceBackgroundAsyncToolResult> {
+  return getDefaultHandler()(input, context);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramReplaceBackgroundAsyncTool.name,
+ *   ideogramReplaceBackgroundAsyncTool.description,
+ *   ideogramReplaceBackgroundAsyncTool.schema,
+ *   ideogramReplaceBackgroundAsyncTool.handler
+ * );
+ * ```
+ */
+export const ideogramReplaceBackgroundAsyncTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramReplaceBackgroundAsync,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type ReplaceBackgroundAsyncToolSchema = z.infer<typeof ReplaceBackgroundAsyncInputSchema>;
@@ -33,12 +33,15 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   ReplaceBackgroundInputSchema,
+  ReplaceBackgroundOutputSchema,
   type ReplaceBackgroundInput,
   type ReplaceBackgroundOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import type { RenderingSpeed } from '../types/api.types.js';
@@ -46,8 +49,10 @@ import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
 import { calculateReplaceBgCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
@@ -55,6 +60,7 @@ import {
 } from '../services/storage.service.js';
 import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
 import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import { assertCompatibleStyleOptions } from '../utils/validation.js';
 
 // =============================================================================
 // Tool Constants
@@ -77,11 +83,13 @@ Features:
 - Text prompt for describing the desired new background
 - Rendering speed options: FLASH (fastest), TURBO (fast), DEFAULT (balanced), QUALITY (best quality)
 - Magic prompt enhancement to automatically improve prompts
+- Style reference images or reusable style codes for a consistent art style
 - Generate 1-8 variants per request
 - Optional local saving of modified images
 - Cost tracking for usage monitoring
 
 Input image can be provided as a URL, file path, or base64 data URL.
+Local file paths may be absolute, start with ~, or be relative to LOCAL_SAVE_DIR; they must be inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS.
 
 Returns modified image URLs, seeds for reproducibility, and cost estimates.`;
 
@@ -90,6 +98,21 @@ Returns modified image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = ReplaceBackgroundInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = ReplaceBackgroundOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -152,7 +175,10 @@ export type ReplaceBackgroundToolResult = ReplaceBackgroundOutput | ToolErrorOut
  */
 export function createReplaceBackgroundHandler(
   options: ReplaceBackgroundToolOptions = {}
-): (input: ReplaceBackgroundInput) => Promise<ReplaceBackgroundToolResult> {
+): (
+  input: ReplaceBackgroundInput,
+  context?: ToolHandlerContext
+) => Promise<ReplaceBackgroundToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:replace-background');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -162,7 +188,8 @@ export function createReplaceBackgroundHandler(
    * Tool handler implementation
    */
   return async function ideogramReplaceBackgroundHandler(
-    input: ReplaceBackgroundInput
+    input: ReplaceBackgroundInput,
+    context: ToolHandlerContext = {}
   ): Promise<ReplaceBackgroundToolResult> {
     const startTime = Date.now();
 
@@ -180,6 +207,9 @@ export function createReplaceBackgroundHandler(
     });
 
     try {
+      // Reject option combinations the API refuses before confirming the cost
+      assertCompatibleStyleOptions(input);
+
       // Build replace-background params, only including defined optional fields
       // (required for exactOptionalPropertyTypes compliance)
       const replaceParams: Parameters<typeof client.replaceBackground>[0] = {
@@ -199,9 +229,33 @@ export function createReplaceBackgroundHandler(
       if (input.rendering_speed !== undefined) {
         replaceParams.renderingSpeed = input.rendering_speed as RenderingSpeed;
       }
+      if (input.style_reference_images !== undefined && input.style_reference_images.length > 0) {
+        replaceParams.styleReferenceImages = input.style_reference_images;
+      }
+      if (input.style_codes !== undefined) {
+        replaceParams.styleCodes = input.style_codes;
+      }
+
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateReplaceBgCost({
+        numImages: input.num_images,
+        renderingSpeed: input.rendering_speed as RenderingSpeed,
+      });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
 
       // Call Ideogram API
-      const response = await client.replaceBackground(replaceParams);
+      const response = await client.replaceBackground(replaceParams, requestOptions);
 
       // Calculate cost estimate
       const cost = calculateReplaceBgCost({
@@ -220,6 +274,7 @@ export function createReplaceBackgroundHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'replace-bg',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -333,7 +388,10 @@ export function createReplaceBackgroundHandler(
  * Created lazily on first access to allow config to be loaded.
  */
 let defaultHandler:
-  | ((input: ReplaceBackgroundInput) => Promise<ReplaceBackgroundToolResult>)
+  | ((
+      input: ReplaceBackgroundInput,
+      context?: ToolHandlerContext
+    ) => Promise<ReplaceBackgroundToolResult>)
   | null = null;
 
 /**
@@ -342,7 +400,8 @@ let defaultHandler:
  * @returns The default handler function
  */
 export function getDefaultHandler(): (
-  input: ReplaceBackgroundInput
+  input: ReplaceBackgroundInput,
+  context?: ToolHandlerContext
 ) => Promise<ReplaceBackgroundToolResult> {
   if (!defaultHandler) {
     defaultHandler = createReplaceBackgroundHandler();
@@ -369,6 +428,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createReplaceBackgroundHandler()` instead.
  *
  * @param input - The replace-background input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the replace-background result
  *
  * @example
@@ -392,9 +452,10 @@ export function resetDefaultHandler(): void {
  * ```
  */
 export async function ideogramReplaceBackground(
-  input: ReplaceBackgroundInput
+  input: ReplaceBackgroundInput,
+  context: ToolHandlerContext = {}
 ): Promise<ReplaceBackgroundToolResult> {
-  return getDefaultHandler()(input);
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -408,6 +469,7 @@ export async function ideogramReplaceBackground(
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -429,6 +491,8 @@ export const ideogramReplaceBackgroundTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramReplaceBackground,
 } as const;
 
@@ -0,0 +1,402 @@
+/**
+ * ideogram_retry_prediction Tool
+ *
+ * Re-queues async jobs that failed or were cancelled. Since the Ideogram API is
+ * synchronous only, this tool operates on the LOCAL prediction store shared by
+ * the *_async tools.
+ *
+ * Features:
+ * - Re-queues 'failed' and 'cancelled' predictions with the same request
+ * - Keeps the prediction_id, so existing polling and webhooks keep working
+ * - Optionally replaces the seed for the new attempt
+ * - Records every unsuccessful attempt on the prediction
+ *
+ * Predictions that fail with a retryable error (e.g. rate limits or network
+ * errors) are already retried automatically by the store up to its limit;
+ * this tool is for resubmitting once that budget is exhausted or after a
+ * non-retryable failure.
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramRetryPrediction({
+ *   prediction_id: 'pred_abc123...',
+ *   seed: 42,
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Attempt ${result.attempt} queued`);
+ * } else if ('reason' in result) {
+ *   console.log('Could not retry:', result.reason);
+ * }
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  RetryPredictionInputSchema,
+  RetryPredictionOutputSchema,
+  type RetryPredictionInput,
+  type RetryPredictionOutput,
+  type RetryPredictionSuccessOutput,
+  type RetryPredictionFailedOutput,
+  type ToolErrorOutput,
+} from '../types/tool.types.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type PredictionRetryOptions,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { IdeogramMCPError, wrapError } from '../utils/error.handler.js';
+import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_retry_prediction';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Retry a failed or cancelled async image prediction.
+
+Re-queues a prediction created with ideogram_generate_async or any other *_async tool, using the same request. The prediction keeps its prediction_id, so continue polling it with ideogram_get_prediction.
+
+Predictions that fail with a retryable error (rate limits, network errors, timeouts) are already retried automatically a limited number of times. Use this tool to resubmit a prediction after that, or after it was cancelled or failed with a non-retryable error.
+
+This is a LOCAL implementation since the Ideogram API is synchronous only. Retries are managed by the local job queue. A retried prediction has no deadline.
+
+Parameters:
+- prediction_id: The unique ID returned from an *_async tool (required)
+- seed: Optional new seed (0-2147483647) for the retry; the original seed is used otherwise
+
+Returns one of:
+1. **Success** (status: 'queued'):
+   - attempt: Number of the attempt that is now queued
+   - eta_seconds: Estimated time to completion
+   - previous_status: 'failed' or 'cancelled'
+
+2. **Failed** (status: 'queued' | 'processing' | 'completed'):
+   - Cannot retry because the prediction is still pending or already completed
+
+Each retry uses Ideogram credits again once it is processed.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = RetryPredictionInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = RetryPredictionOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the retry prediction tool handler
+ */
+export interface RetryPredictionToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the retry prediction tool
+ */
+export type RetryPredictionToolResult = RetryPredictionOutput | ToolErrorOutput;
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_retry_prediction tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createRetryPredictionHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createRetryPredictionHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createRetryPredictionHandler(
+  options: RetryPredictionToolOptions = {}
+): (input: RetryPredictionInput) => Promise<RetryPredictionToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:retry-prediction');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  /**
+   * Tool handler implementation
+   */
+  return function ideogramRetryPredictionHandler(
+    input: RetryPredictionInput
+  ): Promise<RetryPredictionToolResult> {
+    const startTime = Date.now();
+
+    // Log tool invocation
+    logToolInvocation(log, {
+      tool: TOOL_NAME,
+      params: {
+        prediction_id: input.prediction_id,
+        seed: input.seed,
+      },
+    });
+
+    try {
+      // Only include seed if defined (exactOptionalPropertyTypes compliance)
+      const retryOptions: PredictionRetryOptions = {};
+      if (input.seed !== undefined) {
+        retryOptions.seed = input.seed;
+      }
+
+      // Attempt to re-queue the prediction
+      const retryResult = store.retry(input.prediction_id, retryOptions);
+
+      // Build response based on retry result
+      let result: RetryPredictionOutput;
+
+      if (retryResult.success) {
+        const prediction = store.getOrThrow(input.prediction_id);
+        const successResult: RetryPredictionSuccessOutput = {
+          success: true,
+          prediction_id: input.prediction_id,
+          status: 'queued',
+          previous_status: retryResult.previousStatus as 'failed' | 'cancelled',
+          attempt: retryResult.attempt,
+          eta_seconds: prediction.eta_seconds ?? 30,
+          message: `Prediction queued for retry (attempt ${retryResult.attempt}). Use ideogram_get_prediction with prediction_id "${input.prediction_id}" to check status and retrieve results.`,
+        };
+
+        if (prediction.request.seed !== undefined) {
+          successResult.seed = prediction.request.seed;
+        }
+
+        result = successResult;
+      } else {
+        const pendingStatus = retryResult.status as 'queued' | 'processing' | 'completed';
+        const failedResult: RetryPredictionFailedOutput = {
+          success: false,
+          prediction_id: input.prediction_id,
+          status: pendingStatus,
+          reason: retryResult.message,
+          message:
+            pendingStatus === 'completed'
+              ? 'Cannot retry this prediction because it has already completed successfully. Use ideogram_get_prediction to retrieve the results.'
+              : `Cannot retry this prediction because it is still ${pendingStatus}. Use ideogram_get_prediction to check its status.`,
+        };
+        result = failedResult;
+      }
+
+      // Log success
+      const durationMs = Date.now() - startTime;
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: true,
+        durationMs,
+      });
+
+      log.debug(
+        {
+          predictionId: input.prediction_id,
+          retried: retryResult.success,
+          status: retryResult.status,
+          attempt: retryResult.attempt,
+          durationMs,
+        },
+        'Retry prediction request processed'
+      );
+
+      return Promise.resolve(result);
+    } catch (error) {
+      // Convert to IdeogramMCPError if needed
+      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
+
+      // Log failure
+      const durationMs = Date.now() - startTime;
+      logError(log, mcpError, 'Retry prediction failed', {
+        tool: TOOL_NAME,
+        predictionId: input.prediction_id,
+        durationMs,
+      });
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: false,
+        durationMs,
+        errorCode: mcpError.code,
+      });
+
+      // Return error response
+      return Promise.resolve(mcpError.toToolError());
+    }
+  };
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler: ((input: RetryPredictionInput) => Promise<RetryPredictionToolResult>) | null =
+  null;
+
+/**
+ * Default prediction store instance.
+ * Should be shared with the async tools.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by the async tools.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: RetryPredictionInput
+) => Promise<RetryPredictionToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createRetryPredictionHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Retries a failed or cancelled async prediction using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createRetryPredictionHandler()` instead.
+ *
+ * @param input - The retry prediction input parameters
+ * @returns Promise resolving to the retry result
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramRetryPrediction({
+ *   prediction_id: 'pred_abc123...',
+ * });
+ *
+ * if (result.success) {
+ *   console.log(`Queued again, ETA ${result.eta_seconds}s`);
+ * }
+ * ```
+ */
+export async function ideogramRetryPrediction(
+  input: RetryPredictionInput
+): Promise<RetryPredictionToolResult> {
+  return getDefaultHandler()(input);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramRetryPredictionTool.name,
+ *   ideogramRetryPredictionTool.description,
+ *   ideogramRetryPredictionTool.schema,
+ *   ideogramRetryPredictionTool.handler
+ * );
+ * ```
+ */
+export const ideogramRetryPredictionTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramRetryPrediction,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type RetryPredictionToolSchema = z.infer<typeof RetryPredictionInputSchema>;
@@ -0,0 +1,574 @@
+/**
+ * ideogram_submit_batch Tool
+ *
+ * Fans out many image generations into one tracked batch. Since the Ideogram
+ * API is synchronous only, the batch lives in the LOCAL prediction store shared
+ * by the *_async tools: every generation becomes a child prediction that is
+ * queued and processed like one created with ideogram_generate_async.
+ *
+ * Features:
+ * - Explicit list of generation requests
+ * - Parameter matrix expanded into every combination (cartesian product)
+ * - One batch_id to poll with ideogram_get_batch
+ * - Estimated cost of the whole batch before anything runs
+ *
+ * @example
+ * ```typescript
+ * // Two prompts in three aspect ratios: six generations
+ * const result = await ideogramSubmitBatch({
+ *   matrix: {
+ *     prompt: ['A lighthouse at dawn', 'A lighthouse at night'],
+ *     aspect_ratio: ['1x1', '16x9', '9x16'],
+ *   },
+ * });
+ *
+ * if (result.success) {
+ *   console.log(result.batch_id, result.num_predictions); // 'batch_abc123...', 6
+ * }
+ * ```
+ */
+
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  SubmitBatchInputSchema,
+  SubmitBatchOutputSchema,
+  type SubmitBatchInput,
+  type SubmitBatchOutput,
+  type SubmitBatchDryRunOutput,
+  type BatchMatrixInput,
+  type ToolErrorOutput,
+  type ToolHandlerContext,
+} from '../types/tool.types.js';
+import type { GenerateRequest, RenderingSpeed } from '../types/api.types.js';
+import { PREDICTION_QUEUE } from '../config/constants.js';
+import {
+  PredictionStore,
+  createPredictionStore,
+  type CreatePredictionOptions,
+  type PredictionStoreOptions,
+} from '../services/prediction.store.js';
+import { calculateBatchCost } from '../services/prediction.output.js';
+import { confirmCost, createBatchDryRunOutput } from '../services/cost.confirmation.js';
+import { IdeogramMCPError, createValidationError, wrapError } from '../utils/error.handler.js';
+import { createChildLogger, logToolInvocation, logToolResult, logError } from '../utils/logger.js';
+import {
+  assertCompatibleResolutionOptions,
+  assertCompatibleStyleOptions,
+} from '../utils/validation.js';
+
+// =============================================================================
+// Tool Constants
+// =============================================================================
+
+/**
+ * Tool name for MCP registration
+ */
+export const TOOL_NAME = 'ideogram_submit_batch';
+
+/**
+ * Tool description for MCP registration
+ */
+export const TOOL_DESCRIPTION = `Queue many image generations as one tracked batch.
+
+Returns immediately with a batch_id that can be used to poll for aggregate status, cost, and all completed images using ideogram_get_batch.
+
+This is a LOCAL async implementation since the Ideogram API is synchronous only. Each generation becomes a prediction in the local job queue, processed like one created with ideogram_generate_async.
+
+Provide exactly one of:
+- requests: List of generations, each taking the ideogram_generate parameters (prompt, aspect_ratio, num_images, seed, rendering_speed, magic_prompt, style_type, negative_prompt, ...)
+- matrix: Lists of values combined into every combination (cartesian product):
+  - prompt: Prompts (required)
+  - aspect_ratio, rendering_speed, style_type, magic_prompt, seed: Optional lists of values
+  - negative_prompt, num_images: Shared by every combination
+
+A batch holds at most ${PREDICTION_QUEUE.MAX_BATCH_SIZE} generations.
+
+Batch-wide parameters:
+- save_locally: Whether to save generated images locally (default: true)
+- priority: low, normal (default), or high; higher priority jobs start first
+- deadline_seconds: Optional deadline (1-86400); generations still queued after this fail with PREDICTION_EXPIRED
+
+Returns:
+- batch_id: Unique ID for polling
+- prediction_ids: IDs of the queued predictions (each can also be polled with ideogram_get_prediction)
+- estimated_cost: Estimated credits and USD for the whole batch
+
+Each generation uses Ideogram credits once it is processed.`;
+
+/**
+ * Tool input schema for MCP registration
+ */
+export const TOOL_SCHEMA = SubmitBatchInputSchema;
+
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = SubmitBatchOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration options for the submit batch tool handler
+ */
+export interface SubmitBatchToolOptions {
+  /**
+   * Custom PredictionStore instance
+   */
+  store?: PredictionStore;
+
+  /**
+   * Options for creating a new store (if store not provided)
+   */
+  storeOptions?: PredictionStoreOptions;
+
+  /**
+   * Custom logger instance
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result type from the submit batch tool
+ */
+export type SubmitBatchToolResult = SubmitBatchOutput | SubmitBatchDryRunOutput | ToolErrorOutput;
+
+/**
+ * Single entry of the `requests` list
+ */
+type BatchRequestInput = NonNullable<SubmitBatchInput['requests']>[number];
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Gets the number of generations a parameter matrix expands into.
+ *
+ * @param matrix - The parameter matrix
+ * @returns The size of the cartesian product
+ */
+export function getBatchMatrixSize(matrix: BatchMatrixInput): number {
+  return [
+    matrix.prompt,
+    matrix.aspect_ratio,
+    matrix.rendering_speed,
+    matrix.style_type,
+    matrix.magic_prompt,
+    matrix.seed,
+  ].reduce((size, values) => size * (values?.length ?? 1), 1);
+}
+
+/**
+ * Expands a parameter matrix into one generate request per combination.
+ * Prompts vary slowest, so the requests of each prompt are adjacent.
+ *
+ * @param matrix - The parameter matrix
+ * @returns The generate requests, in combination order
+ *
+ * @example
+ * ```typescript
+ * const requests = expandBatchMatrix({
+ *   prompt: ['A fox', 'A wolf'],
+ *   aspect_ratio: ['1x1', '16x9'],
+ *   num_images: 1,
+ * });
+ * // A fox 1x1, A fox 16x9, A wolf 1x1, A wolf 16x9
+ * ```
+ */
+export function expandBatchMatrix(matrix: BatchMatrixInput): GenerateRequest[] {
+  let requests = matrix.prompt.map((prompt) => {
+    // Only include defined optional fields (exactOptionalPropertyTypes compliance)
+    const request: GenerateRequest = { prompt, num_images: matrix.num_images };
+    if (matrix.negative_prompt !== undefined) {
+      request.negative_prompt = matrix.negative_prompt;
+    }
+    return request;
+  });
+
+  requests = combine(requests, matrix.aspect_ratio, (request, aspect_ratio) => ({
+    ...request,
+    aspect_ratio,
+  }));
+  requests = combine(requests, matrix.rendering_speed, (request, rendering_speed) => ({
+    ...request,
+    rendering_speed: rendering_speed as RenderingSpeed,
+  }));
+  requests = combine(requests, matrix.style_type, (request, style_type) => ({
+    ...request,
+    style_type,
+  }));
+  requests = combine(requests, matrix.magic_prompt, (request, magic_prompt) => ({
+    ...request,
+    magic_prompt,
+  }));
+  requests = combine(requests, matrix.seed, (request, seed) => ({ ...request, seed }));
+
+  return requests;
+}
+
+/**
+ * Combines every request with every value of one matrix dimension.
+ * A dimension without values leaves the requests unchanged.
+ */
+function combine<T>(
+  requests: GenerateRequest[],
+  values: T[] | undefined,
+  apply: (request: GenerateRequest, value: T) => GenerateRequest
+): GenerateRequest[] {
+  if (values === undefined) {
+    return requests;
+  }
+  return requests.flatMap((request) => values.map((value) => apply(request, value)));
+}
+
+/**
+ * Converts an entry of the `requests` list into a generate request.
+ */
+function toGenerateRequest(input: BatchRequestInput): GenerateRequest {
+  // Fields with schema defaults are always set; only include the other
+  // optional fields if defined (exactOptionalPropertyTypes compliance)
+  const request: GenerateRequest = {
+    prompt: input.prompt,
+    num_images: input.num_images,
+    rendering_speed: input.rendering_speed as RenderingSpeed,
+    magic_prompt: input.magic_prompt,
+    style_type: input.style_type,
+  };
+
+  if (input.negative_prompt !== undefined) {
+    request.negative_prompt = input.negative_prompt;
+  }
+  if (input.aspect_ratio !== undefined) {
+    request.aspect_ratio = input.aspect_ratio;
+  }
+  if (input.resolution !== undefined) {
+    request.resolution = input.resolution;
+  }
+  if (input.seed !== undefined) {
+    request.seed = input.seed;
+  }
+  if (input.style_codes !== undefined) {
+    request.style_codes = input.style_codes;
+  }
+  if (input.color_palette !== undefined) {
+    request.color_palette = input.color_palette;
+  }
+  if (input.model !== undefined) {
+    request.model = input.model;
+  }
+
+  return request;
+}
+
+/**
+ * Resolves the generate requests of a batch from either the list or the matrix.
+ *
+ * @throws {IdeogramMCPError} If neither or both are given, or the matrix is too large
+ */
+function resolveBatchRequests(input: SubmitBatchInput): GenerateRequest[] {
+  if (input.requests !== undefined && input.matrix !== undefined) {
+    throw createValidationError('requests', 'Provide either requests or matrix, not both');
+  }
+
+  if (input.requests !== undefined) {
+    return input.requests.map(toGenerateRequest);
+  }
+
+  if (input.matrix !== undefined) {
+    // Check the size before expanding so a huge matrix is never materialized
+    const size = getBatchMatrixSize(input.matrix);
+    if (size > PREDICTION_QUEUE.MAX_BATCH_SIZE) {
+      throw createValidationError(
+        'matrix',
+        `Matrix expands into ${size} generations; a batch can hold at most ${PREDICTION_QUEUE.MAX_BATCH_SIZE}`,
+        { size }
+      );
+    }
+    return expandBatchMatrix(input.matrix);
+  }
+
+  throw createValidationError('requests', 'Provide either requests or matrix');
+}
+
+// =============================================================================
+// Tool Handler Factory
+// =============================================================================
+
+/**
+ * Creates a handler function for the ideogram_submit_batch tool.
+ *
+ * @param options - Configuration options for the handler
+ * @returns The tool handler function
+ *
+ * @example
+ * ```typescript
+ * // Create handler with default options
+ * const handler = createSubmitBatchHandler();
+ *
+ * // Create handler with custom store
+ * const handler = createSubmitBatchHandler({
+ *   store: myPredictionStore,
+ * });
+ * ```
+ */
+export function createSubmitBatchHandler(
+  options: SubmitBatchToolOptions = {}
+): (input: SubmitBatchInput, context?: ToolHandlerContext) => Promise<SubmitBatchToolResult> {
+  // Initialize dependencies
+  const log = options.logger ?? createChildLogger('tool:submit-batch');
+  const store = options.store ?? createPredictionStore(options.storeOptions);
+
+  /**
+   * Tool handler implementation
+   */
+  return async function ideogramSubmitBatchHandler(
+    input: SubmitBatchInput,
+    context: ToolHandlerContext = {}
+  ): Promise<SubmitBatchToolResult> {
+    const startTime = Date.now();
+
+    // Log tool invocation
+    logToolInvocation(log, {
+      tool: TOOL_NAME,
+      params: {
+        num_requests: input.requests?.length,
+        matrix_size: input.matrix !== undefined ? getBatchMatrixSize(input.matrix) : undefined,
+        save_locally: input.save_locally,
+        priority: input.priority,
+        deadline_seconds: input.deadline_seconds,
+      },
+    });
+
+    try {
+      const requests = resolveBatchRequests(input);
+
+      // Reject option combinations the API refuses before anything is queued
+      for (const request of requests) {
+        assertCompatibleResolutionOptions(request);
+        assertCompatibleStyleOptions(request);
+      }
+
+      // Create the batch in the store
+      // Only include optional settings if defined (exactOptionalPropertyTypes compliance)
+      const items = requests.map((request) => {
+        const createOptions: CreatePredictionOptions = {
+          request,
+          type: 'generate',
+          saveLocally: input.save_locally,
+          priority: input.priority,
+        };
+        if (input.deadline_seconds !== undefined) {
+          createOptions.deadlineSeconds = input.deadline_seconds;
+        }
+        return createOptions;
+      });
+
+      // Ask the user to confirm batches above the credit threshold
+      const estimate = calculateBatchCost(items);
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createBatchDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      const batch = store.createBatch(items);
+
+      // Build successful response
+      const result: SubmitBatchOutput = {
+        success: true,
+        batch_id: batch.id,
+        status: 'queued',
+        prediction_ids: [...batch.prediction_ids],
+        num_predictions: batch.prediction_ids.length,
+        estimated_cost: calculateBatchCost(store.getBatchPredictions(batch.id)),
+        message: `Batch of ${batch.prediction_ids.length} generations queued successfully. Use ideogram_get_batch with batch_id "${batch.id}" to check status and retrieve results.`,
+      };
+
+      // Log success
+      const durationMs = Date.now() - startTime;
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: true,
+        durationMs,
+      });
+
+      log.debug(
+        {
+          batchId: batch.id,
+          numPredictions: result.num_predictions,
+          estimatedCredits: result.estimated_cost.credits_used,
+          durationMs,
+        },
+        'Batch queued successfully'
+      );
+
+      return result;
+    } catch (error) {
+      // Convert to IdeogramMCPError if needed
+      const mcpError = error instanceof IdeogramMCPError ? error : wrapError(error);
+
+      // Log failure
+      const durationMs = Date.now() - startTime;
+      logError(log, mcpError, 'Batch submission failed', {
+        tool: TOOL_NAME,
+        durationMs,
+      });
+      logToolResult(log, {
+        tool: TOOL_NAME,
+        success: false,
+        durationMs,
+        errorCode: mcpError.code,
+      });
+
+      // Return error response
+      return mcpError.toToolError();
+    }
+  };
+}
+
+// =============================================================================
+// Default Handler
+// =============================================================================
+
+/**
+ * Default handler instance using environment configuration.
+ * Created lazily on first access to allow config to be loaded.
+ */
+let defaultHandler:
+  | ((input: SubmitBatchInput, context?: ToolHandlerContext) => Promise<SubmitBatchToolResult>)
+  | null = null;
+
+/**
+ * Default prediction store instance.
+ * Should be shared with the async tools.
+ */
+let defaultStore: PredictionStore | null = null;
+
+/**
+ * Sets the default prediction store for sharing across tools.
+ * This should be called with the same store used by the async tools.
+ *
+ * @param store - The PredictionStore to use as the default
+ */
+export function setDefaultStore(store: PredictionStore): void {
+  defaultStore = store;
+  // Reset handler so it will be recreated with the new store
+  defaultHandler = null;
+}
+
+/**
+ * Gets the default prediction store instance.
+ *
+ * @returns The default PredictionStore
+ */
+export function getDefaultStore(): PredictionStore {
+  if (!defaultStore) {
+    defaultStore = createPredictionStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Gets the default handler instance, creating it if necessary.
+ *
+ * @returns The default handler function
+ */
+export function getDefaultHandler(): (
+  input: SubmitBatchInput,
+  context?: ToolHandlerContext
+) => Promise<SubmitBatchToolResult> {
+  if (!defaultHandler) {
+    defaultHandler = createSubmitBatchHandler({
+      store: getDefaultStore(),
+    });
+  }
+  return defaultHandler;
+}
+
+/**
+ * Resets the default handler and store instances.
+ * Useful for testing or when configuration changes.
+ */
+export function resetDefaultHandler(): void {
+  if (defaultStore) {
+    defaultStore.dispose();
+    defaultStore = null;
+  }
+  defaultHandler = null;
+}
+
+// =============================================================================
+// Standalone Function
+// =============================================================================
+
+/**
+ * Queues a batch of generations using the default configuration.
+ *
+ * This is a convenience function that uses the default handler.
+ * For custom configuration, use `createSubmitBatchHandler()` instead.
+ *
+ * @param input - The submit batch input parameters
+ * @param context - Optional per-call context (cost confirmation)
+ * @returns Promise resolving to the queued batch
+ *
+ * @example
+ * ```typescript
+ * const result = await ideogramSubmitBatch({
+ *   requests: [
+ *     { prompt: 'A red bicycle', rendering_speed: 'TURBO' },
+ *     { prompt: 'A blue bicycle', num_images: 2 },
+ *   ],
+ *   priority: 'high',
+ * });
+ * ```
+ */
+export async function ideogramSubmitBatch(
+  input: SubmitBatchInput,
+  context: ToolHandlerContext = {}
+): Promise<SubmitBatchToolResult> {
+  return getDefaultHandler()(input, context);
+}
+
+// =============================================================================
+// MCP Tool Registration Helper
+// =============================================================================
+
+/**
+ * Tool definition for MCP server registration.
+ *
+ * @example
+ * ```typescript
+ * server.tool(
+ *   ideogramSubmitBatchTool.name,
+ *   ideogramSubmitBatchTool.description,
+ *   ideogramSubmitBatchTool.schema,
+ *   ideogramSubmitBatchTool.handler
+ * );
+ * ```
+ */
+export const ideogramSubmitBatchTool = {
+  name: TOOL_NAME,
+  description: TOOL_DESCRIPTION,
+  schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
+  handler: ideogramSubmitBatch,
+} as const;
+
+/**
+ * Type for the tool schema shape (for MCP SDK compatibility)
+ */
+export type SubmitBatchToolSchema = z.infer<typeof SubmitBatchInputSchema>;
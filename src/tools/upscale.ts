@@ -32,20 +32,25 @@
 
 import type { Logger } from 'pino';
 import type { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 
 import {
   UpscaleInputSchema,
+  UpscaleOutputSchema,
   type UpscaleInput,
   type UpscaleOutput,
   type ToolErrorOutput,
+  type ToolHandlerContext,
   type GeneratedImageOutput,
 } from '../types/tool.types.js';
 import {
   IdeogramClient,
   createIdeogramClient,
   type IdeogramClientOptions,
+  type RequestOptions,
 } from '../services/ideogram.client.js';
 import { calculateUpscaleCost, toCostEstimateOutput } from '../services/cost.calculator.js';
+import { confirmCost, createDryRunOutput } from '../services/cost.confirmation.js';
 import {
   StorageService,
   createStorageService,
@@ -80,6 +85,7 @@ Features:
 - Cost tracking for usage monitoring
 
 Input image can be provided as a URL, file path, or base64 data URL.
+Local file paths may be absolute, start with ~, or be relative to LOCAL_SAVE_DIR; they must be inside LOCAL_SAVE_DIR or IMAGE_INPUT_DIRS.
 
 Returns upscaled image URLs, seeds for reproducibility, and cost estimates.`;
 
@@ -88,6 +94,21 @@ Returns upscaled image URLs, seeds for reproducibility, and cost estimates.`;
  */
 export const TOOL_SCHEMA = UpscaleInputSchema;
 
+/**
+ * Tool output schema for MCP registration
+ */
+export const TOOL_OUTPUT_SCHEMA = UpscaleOutputSchema;
+
+/**
+ * Tool annotations for MCP registration
+ */
+export const TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  idempotentHint: false,
+  openWorldHint: true,
+};
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -150,7 +171,7 @@ export type UpscaleToolResult = UpscaleOutput | ToolErrorOutput;
  */
 export function createUpscaleHandler(
   options: UpscaleToolOptions = {}
-): (input: UpscaleInput) => Promise<UpscaleToolResult> {
+): (input: UpscaleInput, context?: ToolHandlerContext) => Promise<UpscaleToolResult> {
   // Initialize dependencies
   const log = options.logger ?? createChildLogger('tool:upscale');
   const client = options.client ?? createIdeogramClient(options.clientOptions);
@@ -159,7 +180,10 @@ export function createUpscaleHandler(
   /**
    * Tool handler implementation
    */
-  return async function ideogramUpscaleHandler(input: UpscaleInput): Promise<UpscaleToolResult> {
+  return async function ideogramUpscaleHandler(
+    input: UpscaleInput,
+    context: ToolHandlerContext = {}
+  ): Promise<UpscaleToolResult> {
     const startTime = Date.now();
 
     // Log tool invocation
@@ -202,8 +226,25 @@ export function createUpscaleHandler(
         upscaleParams.seed = input.seed;
       }
 
+      // Ask the user to confirm operations above the credit threshold
+      const estimate = calculateUpscaleCost({
+        numImages: input.num_images,
+      });
+      if ((await confirmCost(TOOL_NAME, estimate, context)) === 'dry_run') {
+        return createDryRunOutput(TOOL_NAME, estimate);
+      }
+
+      // Abort when the client cancels the call and report progress when requested
+      const requestOptions: RequestOptions = {};
+      if (context.signal !== undefined) {
+        requestOptions.signal = context.signal;
+      }
+      if (context.onProgress !== undefined) {
+        requestOptions.onProgress = context.onProgress;
+      }
+
       // Call Ideogram API
-      const response = await client.upscale(upscaleParams);
+      const response = await client.upscale(upscaleParams, requestOptions);
 
       // Calculate cost estimate
       const cost = calculateUpscaleCost({
@@ -221,6 +262,7 @@ export function createUpscaleHandler(
         const urls = response.data.map((img) => img.url);
         const saveResult = await storage.downloadImages(urls, {
           prefix: 'upscaled',
+          ...requestOptions,
         });
 
         // Map results back to images
@@ -333,14 +375,19 @@ export function createUpscaleHandler(
  * Default handler instance using environment configuration.
  * Created lazily on first access to allow config to be loaded.
  */
-let defaultHandler: ((input: UpscaleInput) => Promise<UpscaleToolResult>) | null = null;
+let defaultHandler:
+  | ((input: UpscaleInput, context?: ToolHandlerContext) => Promise<UpscaleToolResult>)
+  | null = null;
 
 /**
  * Gets the default handler instance, creating it if necessary.
  *
  * @returns The default handler function
  */
-export function getDefaultHandler(): (input: UpscaleInput) => Promise<UpscaleToolResult> {
+export function getDefaultHandler(): (
+  input: UpscaleInput,
+  context?: ToolHandlerContext
+) => Promise<UpscaleToolResult> {
   if (!defaultHandler) {
     defaultHandler = createUpscaleHandler();
   }
@@ -366,6 +413,7 @@ export function resetDefaultHandler(): void {
  * For custom configuration, use `createUpscaleHandler()` instead.
  *
  * @param input - The upscale input parameters
+ * @param context - Optional per-call context (cancellation signal, progress reporting)
  * @returns Promise resolving to the upscale result
  *
  * @example
@@ -388,8 +436,11 @@ export function resetDefaultHandler(): void {
  * }
  * ```
  */
-export async function ideogramUpscale(input: UpscaleInput): Promise<UpscaleToolResult> {
-  return getDefaultHandler()(input);
+export async function ideogramUpscale(
+  input: UpscaleInput,
+  context: ToolHandlerContext = {}
+): Promise<UpscaleToolResult> {
+  return getDefaultHandler()(input, context);
 }
 
 // =============================================================================
@@ -403,6 +454,7 @@ export async function ideogramUpscale(input: UpscaleInput): Promise<UpscaleToolR
  * - name: The tool identifier
  * - description: Human-readable description
  * - schema: Zod schema for input validation
+ * - outputSchema: Zod schema of the structured result
  * - handler: The function that executes the tool
  *
  * @example
@@ -424,6 +476,8 @@ export const ideogramUpscaleTool = {
   name: TOOL_NAME,
   description: TOOL_DESCRIPTION,
   schema: TOOL_SCHEMA,
+  outputSchema: TOOL_OUTPUT_SCHEMA,
+  annotations: TOOL_ANNOTATIONS,
   handler: ideogramUpscale,
 } as const;
 
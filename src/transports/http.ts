@@ -0,0 +1,414 @@
+/**
+ * HTTP Transports
+ *
+ * Serves the MCP server over HTTP so one server process can be shared by a
+ * whole team. Two transports are supported:
+ * - `http` - Streamable HTTP: POST, GET, and DELETE on the endpoint path,
+ *   with the session in the `Mcp-Session-Id` header
+ * - `sse` - legacy HTTP+SSE: GET on the endpoint path opens the event stream,
+ *   and clients POST messages to `<path>/messages?sessionId=...`
+ *
+ * Each client session gets its own McpServer instance, created with
+ * createServer(). The shared prediction store (with its background processor,
+ * webhook dispatcher, and persistence) is initialized once, so async jobs,
+ * batches, and their cost totals are visible from every session.
+ *
+ * @example
+ * ```typescript
+ * import { startHttpServer } from './transports/http.js';
+ *
+ * const { url, shutdown } = await startHttpServer({ mode: 'http', port: 3000 });
+ * console.log(`MCP endpoint: ${url}`);
+ *
+ * // Later, to shut down gracefully:
+ * await shutdown();
+ * ```
+ */
+
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { Logger } from 'pino';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { config } from '../config/config.js';
+import { HTTP_TRANSPORT } from '../config/constants.js';
+import { createServer, initializeServerStore, type ServerOptions } from '../server.js';
+import { disposeSharedStore } from '../tools/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * HTTP transport mode
+ */
+export type HttpTransportMode = 'http' | 'sse';
+
+/**
+ * Configuration options for the HTTP server.
+ */
+export interface HttpServerOptions {
+  /**
+   * Transport served over HTTP.
+   * Default: 'sse' if MCP_TRANSPORT is sse, otherwise 'http'
+   */
+  mode?: HttpTransportMode;
+
+  /**
+   * Interface to listen on.
+   * Default: MCP_HTTP_HOST (127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * Port to listen on (0 picks a free port).
+   * Default: MCP_HTTP_PORT (3000)
+   */
+  port?: number;
+
+  /**
+   * MCP endpoint path.
+   * Default: MCP_HTTP_PATH (/mcp)
+   */
+  path?: string;
+
+  /**
+   * Options for the McpServer created for each session. The shared
+   * prediction store is initialized once from these options.
+   */
+  serverOptions?: ServerOptions;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result of starting the HTTP server.
+ */
+export interface HttpServerStartResult {
+  /**
+   * The underlying Node.js HTTP server.
+   */
+  httpServer: http.Server;
+
+  /**
+   * URL of the MCP endpoint (with the actual port).
+   */
+  url: string;
+
+  /**
+   * Gets the number of open client sessions.
+   */
+  getSessionCount: () => number;
+
+  /**
+   * Function to gracefully shut down all sessions and the HTTP server.
+   */
+  shutdown: () => Promise<void>;
+}
+
+/**
+ * An open client session
+ */
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+// =============================================================================
+// Request Helpers
+// =============================================================================
+
+/**
+ * Error raised while reading a request body, with the HTTP status to return.
+ */
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Reads and parses the JSON body of a request.
+ *
+ * @throws {RequestBodyError} If the body is too large or not valid JSON
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > HTTP_TRANSPORT.MAX_BODY_BYTES) {
+      throw new RequestBodyError('Request body too large', 413);
+    }
+    chunks.push(buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+  } catch {
+    throw new RequestBodyError('Parse error: request body is not valid JSON', 400);
+  }
+}
+
+/**
+ * Checks whether a JSON-RPC body (single message or batch) initializes a session.
+ */
+function isInitializeBody(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Sends a JSON-RPC error response without an ID.
+ */
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  statusCode: number,
+  code: number,
+  message: string
+): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Gets the single value of a request header.
+ */
+function getHeader(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// =============================================================================
+// HTTP Server
+// =============================================================================
+
+/**
+ * Starts an HTTP server that serves the MCP server over Streamable HTTP or
+ * legacy HTTP+SSE.
+ *
+ * This function:
+ * 1. Initializes the shared prediction store once for all sessions
+ * 2. Creates an McpServer with its own transport for every client session
+ * 3. Routes requests to the session's transport and closes the server when
+ *    the session ends (DELETE request or closed SSE stream)
+ *
+ * Bind to 127.0.0.1 (the default) unless the port is only reachable from a
+ * trusted network: the server has no authentication of its own and every
+ * session uses the configured Ideogram API key.
+ *
+ * @param options - Optional HTTP server configuration
+ * @returns The HTTP server, endpoint URL, and shutdown function
+ *
+ * @example
+ * ```typescript
+ * const { url, shutdown } = await startHttpServer({
+ *   mode: 'sse',
+ *   host: '0.0.0.0',
+ *   port: 8080,
+ * });
+ * ```
+ */
+export async function startHttpServer(
+  options: HttpServerOptions = {}
+): Promise<HttpServerStartResult> {
+  const log = options.logger ?? createChildLogger('http-transport');
+  const mode = options.mode ?? (config.transport === 'sse' ? 'sse' : 'http');
+  const host = options.host ?? config.httpHost;
+  const endpointPath = options.path ?? config.httpPath;
+  const messagesPath = `${endpointPath.replace(/\/$/, '')}${HTTP_TRANSPORT.SSE_MESSAGES_SUFFIX}`;
+  const serverOptions = options.serverOptions ?? {};
+
+  // One shared store for all sessions; per-session servers must not replace it
+  const { initializeStore = true } = serverOptions.toolOptions ?? {};
+  if (initializeStore) {
+    initializeServerStore(serverOptions);
+  }
+  const sessionServerOptions: ServerOptions = {
+    ...serverOptions,
+    toolOptions: { ...serverOptions.toolOptions, initializeStore: false },
+  };
+
+  const sessions = new Map<string, Session>();
+
+  /**
+   * Removes a session and closes its server.
+   */
+  function closeSession(sessionId: string): void {
+    const session = sessions.get(sessionId);
+    if (session === undefined) {
+      return;
+    }
+    sessions.delete(sessionId);
+    log.info({ sessionId, sessionCount: sessions.size }, 'Session closed');
+    session.server.close().catch((error: unknown) => {
+      log.warn({ sessionId, err: error }, 'Failed to close session server');
+    });
+  }
+
+  /**
+   * Handles a request to the Streamable HTTP endpoint.
+   */
+  async function handleStreamableHttp(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const sessionId = getHeader(req, HTTP_TRANSPORT.SESSION_HEADER);
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId !== undefined) {
+      const session = sessions.get(sessionId);
+      if (session === undefined) {
+        sendJsonRpcError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Session uses a different transport');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeBody(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        ErrorCode.InvalidRequest,
+        'Bad Request: no valid session ID provided'
+      );
+      return;
+    }
+
+    // New session: the transport assigns the ID while handling initialize
+    const server = createServer(sessionServerOptions);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      onsessioninitialized: (id): void => {
+        sessions.set(id, { server, transport });
+        log.info({ sessionId: id, sessionCount: sessions.size }, 'Session opened');
+      },
+    });
+    transport.onclose = (): void => {
+      if (transport.sessionId !== undefined) {
+        closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport as Transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Handles a request to the legacy SSE endpoints.
+   */
+  async function handleSse(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    if (req.method === 'GET' && url.pathname === endpointPath) {
+      const transport = new SSEServerTransport(messagesPath, res);
+      const { sessionId } = transport;
+      res.on('close', () => closeSession(sessionId));
+
+      const server = createServer(sessionServerOptions);
+      await server.connect(transport);
+      sessions.set(sessionId, { server, transport });
+      log.info({ sessionId, sessionCount: sessions.size }, 'Session opened');
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === messagesPath) {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (session === undefined) {
+        sendJsonRpcError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+        return;
+      }
+      const body = await readJsonBody(req);
+      if (!(session.transport instanceof SSEServerTransport)) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Session uses a different transport');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res, body);
+      return;
+    }
+
+    res.writeHead(405, { Allow: url.pathname === endpointPath ? 'GET' : 'POST' }).end();
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const isEndpoint =
+      url.pathname === endpointPath || (mode === 'sse' && url.pathname === messagesPath);
+    if (!isEndpoint) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+
+    const handled = mode === 'sse' ? handleSse(req, res, url) : handleStreamableHttp(req, res);
+    handled.catch((error: unknown) => {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.statusCode, ErrorCode.ParseError, error.message);
+        return;
+      }
+      log.error({ err: error, method: req.method, path: url.pathname }, 'HTTP request failed');
+      sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? config.httpPort, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+  const url = `http://${urlHost}:${port}${endpointPath}`;
+  log.info({ mode, url }, 'HTTP transport listening');
+
+  const shutdown = async (): Promise<void> => {
+    log.info({ sessionCount: sessions.size }, 'Shutting down HTTP transport');
+
+    const open = [...sessions.values()];
+    sessions.clear();
+    await Promise.allSettled(open.map((session) => session.server.close()));
+
+    // SSE streams keep their connections open; end them so close() returns
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      httpServer.close((error) => (error !== undefined ? reject(error) : resolve()));
+    });
+
+    disposeSharedStore();
+    log.info('HTTP transport shut down');
+  };
+
+  return {
+    httpServer,
+    url,
+    getSessionCount: () => sessions.size,
+    shutdown,
+  };
+}
@@ -70,11 +70,57 @@ export type StyleType =
  */
 export type StyleTypeV3 = 'AUTO' | 'GENERAL' | 'REALISTIC' | 'DESIGN' | 'FICTION';
 
+/**
+ * Named color palette presets for V3 generate and remix.
+ */
+export type ColorPalettePreset =
+  | 'EMBER'
+  | 'FRESH'
+  | 'JUNGLE'
+  | 'MAGIC'
+  | 'MELON'
+  | 'MOSAIC'
+  | 'PASTEL'
+  | 'ULTRAMARINE';
+
+/**
+ * Color of a custom color palette.
+ */
+export interface ColorPaletteMember {
+  /** Hex color code (e.g. "#FF5733") */
+  color_hex: string;
+  /** Weight of the color in the palette (0.05-1) */
+  color_weight?: number | undefined;
+}
+
+/**
+ * Color palette for V3 generate and remix: a named preset or a list of
+ * (optionally weighted) hex colors.
+ */
+export type ColorPalette = { name: ColorPalettePreset } | { members: ColorPaletteMember[] };
+
 /**
  * Ideogram model versions (for legacy V2 endpoints)
  */
 export type Model = 'V_2' | 'V_2_TURBO';
 
+/**
+ * Aspect ratios of the legacy V2 endpoints.
+ * Note: Uses "ASPECT_<width>_<height>" (e.g., "ASPECT_16_9" for "16x9")
+ */
+export type LegacyAspectRatio =
+  | 'ASPECT_1_1'
+  | 'ASPECT_16_9'
+  | 'ASPECT_9_16'
+  | 'ASPECT_4_3'
+  | 'ASPECT_3_4'
+  | 'ASPECT_3_2'
+  | 'ASPECT_2_3'
+  | 'ASPECT_10_16'
+  | 'ASPECT_16_10'
+  | 'ASPECT_1_3'
+  | 'ASPECT_3_1';
+
 /**
  * Model versions supported by the Describe endpoint
  */
@@ -137,6 +183,11 @@ export type Resolution =
  */
 export type PredictionStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
+/**
+ * Scheduling priority of a queued prediction (higher priorities start first)
+ */
+export type PredictionPriority = 'low' | 'normal' | 'high';
+
 // =============================================================================
 // Request Types
 // =============================================================================
@@ -163,24 +214,153 @@ export interface BaseImageRequest {
 export interface GenerateRequest extends BaseImageRequest {
   /** Aspect ratio for the generated image */
   aspect_ratio?: AspectRatio;
+  /** Output resolution (cannot be combined with aspect_ratio) */
+  resolution?: Resolution;
   /** Number of images to generate (1-8) */
   num_images?: number;
   /** Rendering speed/quality tradeoff */
   rendering_speed?: RenderingSpeed;
+  /** Style reference images (URLs, file paths, or base64 data URLs) */
+  style_reference_images?: string[];
+  /** Style codes (8 hexadecimal characters) of previously used styles */
+  style_codes?: string[];
+  /** Color palette: a named preset or weighted hex colors */
+  color_palette?: ColorPalette;
+  /** Legacy V2 model; sends the request to the legacy endpoint */
+  model?: Model;
 }
 
 /**
- * Generate request for legacy V2 endpoint (/generate)
+ * Generate request for legacy V2 endpoint (/generate).
+ * Sent as JSON wrapped in an `image_request` field.
  */
-export interface LegacyGenerateRequest extends BaseImageRequest {
+export interface LegacyGenerateRequest extends Omit<BaseImageRequest, 'magic_prompt'> {
   /** Model version to use */
-  model?: Model;
+  model: Model;
   /** Resolution preset */
   resolution?: Resolution;
   /** Aspect ratio for the generated image */
+  aspect_ratio?: LegacyAspectRatio;
+  /** Number of images to generate (1-8) */
+  num_images?: number;
+  /** Magic prompt enhancement option */
+  magic_prompt_option?: MagicPrompt;
+  /** Color palette: a named preset or weighted hex colors */
+  color_palette?: ColorPalette;
+}
+
+/**
+ * Edit (inpainting) request for V3 endpoint (/v1/ideogram-v3/edit)
+ */
+export interface EditRequest {
+  /** Text prompt describing the desired edit */
+  prompt: string;
+  /** Source image (URL or base64 data URL) */
+  image: string;
+  /** Mask image (black=edit, white=preserve) */
+  mask: string;
+  /** Number of images to generate (1-8) */
+  num_images?: number;
+  /** Random seed for reproducible generation (0-2147483647) */
+  seed?: number;
+  /** Rendering speed/quality tradeoff */
+  rendering_speed?: RenderingSpeed;
+  /** Magic prompt enhancement option */
+  magic_prompt?: MagicPrompt;
+  /** Style type for the image (RENDER_3D and ANIME need a legacy model) */
+  style_type?: StyleType;
+  /** Character reference images (URLs or base64 data URLs) */
+  character_reference_images?: string[];
+  /** Style reference images (URLs, file paths, or base64 data URLs) */
+  style_reference_images?: string[];
+  /** Style codes (8 hexadecimal characters) of previously used styles */
+  style_codes?: string[];
+  /** Legacy V2 model; sends the request to the legacy endpoint */
+  model?: Model;
+}
+
+/**
+ * Remix request for V3 endpoint (/v1/ideogram-v3/remix)
+ */
+export interface RemixRequest extends BaseImageRequest {
+  /** Source image (URL or base64 data URL) */
+  image: string;
+  /** How much influence the original image has (0-100) */
+  image_weight?: number;
+  /** Aspect ratio for the remixed image */
   aspect_ratio?: AspectRatio;
+  /** Output resolution (cannot be combined with aspect_ratio) */
+  resolution?: Resolution;
+  /** Number of images to generate (1-8) */
+  num_images?: number;
+  /** Rendering speed/quality tradeoff */
+  rendering_speed?: RenderingSpeed;
+  /** Character reference images (URLs or base64 data URLs) */
+  character_reference_images?: string[];
+  /** Style reference images (URLs, file paths, or base64 data URLs) */
+  style_reference_images?: string[];
+  /** Style codes (8 hexadecimal characters) of previously used styles */
+  style_codes?: string[];
+  /** Color palette: a named preset or weighted hex colors */
+  color_palette?: ColorPalette;
+}
+
+/**
+ * Upscale request (/upscale)
+ */
+export interface UpscaleRequest {
+  /** Source image (URL or base64 data URL) */
+  image: string;
+  /** Optional guidance text for upscaling */
+  prompt?: string;
+  /** Similarity to original (0-100) */
+  resemblance?: number;
+  /** Detail enhancement level (0-100) */
+  detail?: number;
+  /** Magic prompt enhancement option */
+  magic_prompt?: MagicPrompt;
+  /** Number of images to generate (1-8) */
+  num_images?: number;
+  /** Random seed for reproducible generation (0-2147483647) */
+  seed?: number;
+}
+
+/**
+ * Reframe request for V3 endpoint (/v1/ideogram-v3/reframe)
+ */
+export interface ReframeRequest {
+  /** Source image (URL or base64 data URL) */
+  image: string;
+  /** Target resolution (e.g. "RESOLUTION_1024_768") */
+  resolution: Resolution;
+  /** Number of images to generate (1-8) */
+  num_images?: number;
+  /** Random seed for reproducible generation (0-2147483647) */
+  seed?: number;
+  /** Rendering speed/quality tradeoff */
+  rendering_speed?: RenderingSpeed;
+}
+
+/**
+ * Replace background request for V3 endpoint (/v1/ideogram-v3/replace-background)
+ */
+export interface ReplaceBackgroundRequest {
+  /** Source image (URL or base64 data URL) */
+  image: string;
+  /** Description of the desired new background */
+  prompt: string;
+  /** Magic prompt enhancement option */
+  magic_prompt?: MagicPrompt;
   /** Number of images to generate (1-8) */
   num_images?: number;
+  /** Random seed for reproducible generation (0-2147483647) */
+  seed?: number;
+  /** Rendering speed/quality tradeoff */
+  rendering_speed?: RenderingSpeed;
+  /** Style reference images (URLs, file paths, or base64 data URLs) */
+  style_reference_images?: string[];
+  /** Style codes (8 hexadecimal characters) of previously used styles */
+  style_codes?: string[];
 }
 
 // =============================================================================
@@ -263,17 +443,125 @@ export interface RateLimitInfo {
 // =============================================================================
 
 /**
- * Prediction record for local async queue
+ * Image saved locally while processing a prediction
+ */
+export interface PredictionSavedImage {
+  /** Original (temporary) Ideogram URL of the image */
+  url: string;
+  /** Absolute path of the locally saved file */
+  local_path: string;
+}
+
+/**
+ * Status of the webhook notification for a prediction
+ */
+export type PredictionWebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Webhook delivery state recorded on a prediction
+ */
+export interface PredictionWebhookDelivery {
+  /** Current delivery status */
+  status: PredictionWebhookDeliveryStatus;
+  /** Number of delivery attempts made so far */
+  attempts: number;
+  /** Timestamp of the most recent delivery attempt */
+  last_attempt_at?: string;
+  /** Timestamp when the webhook was successfully delivered */
+  delivered_at?: string;
+  /** HTTP status code returned by the receiver on the last attempt */
+  response_status?: number;
+  /** Error message from the last failed attempt */
+  error?: string;
+}
+
+/**
+ * How the retry that followed an unsuccessful attempt was triggered
+ */
+export type PredictionRetryTrigger = 'automatic' | 'manual';
+
+/**
+ * Previous, unsuccessful attempt of a retried prediction
+ */
+export interface PredictionAttempt {
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Outcome of the attempt */
+  status: 'failed' | 'cancelled';
+  /** Timestamp when the attempt started processing */
+  started_at?: string;
+  /** Timestamp when the attempt failed or was cancelled */
+  ended_at: string;
+  /** Seed used by the attempt, if one was set */
+  seed?: number;
+  /** Error information if the attempt failed */
+  error?: {
+    code: string;
+    message: string;
+    retryable: boolean;
+  };
+  /** Whether the store retried automatically or a retry was requested */
+  retry: PredictionRetryTrigger;
+  /** Timestamp when the automatic retry of this attempt was scheduled to start */
+  retry_at?: string;
+}
+
+/**
+ * Group of predictions submitted together as one batch.
+ * Children reference the batch through their `batch_id`.
+ */
+export interface PredictionBatch {
+  /** Unique batch ID */
+  id: string;
+  /** Timestamp when the batch was created */
+  created_at: string;
+  /** IDs of the child predictions, in submission order */
+  prediction_ids: string[];
+}
+
+/**
+ * Request type carried by a prediction, keyed by prediction type
+ */
+export interface PredictionRequestMap {
+  generate: GenerateRequest;
+  edit: EditRequest;
+  remix: RemixRequest;
+  upscale: UpscaleRequest;
+  reframe: ReframeRequest;
+  replace_background: ReplaceBackgroundRequest;
+}
+
+/**
+ * Image operation performed by a prediction
+ */
+export type PredictionType = keyof PredictionRequestMap;
+
+/**
+ * Request parameters of any prediction type
+ */
+export type PredictionRequest = PredictionRequestMap[PredictionType];
+
+/**
+ * Prediction record for local async queue.
+ * Discriminated by `type`, which determines the shape of `request`.
+ */
+export type Prediction = {
+  [K in PredictionType]: PredictionFields & {
+    /** Type of image operation */
+    type: K;
+    /** Original request parameters */
+    request: PredictionRequestMap[K];
+  };
+}[PredictionType];
+
+/**
+ * Fields shared by every prediction record, regardless of type
  */
-export interface Prediction {
+export interface PredictionFields {
   /** Unique prediction ID */
   id: string;
   /** Current status of the prediction */
   status: PredictionStatus;
-  /** Original request parameters */
-  request: GenerateRequest;
-  /** Type of request (generate or edit) */
-  type: 'generate' | 'edit';
   /** Timestamp when the prediction was created */
   created_at: string;
   /** Timestamp when the prediction started processing */
@@ -282,6 +570,24 @@ export interface Prediction {
   completed_at?: string;
   /** Result data if completed successfully */
   result?: GenerateResponse | EditResponse;
+  /** Whether result images should be saved locally once processed */
+  save_locally?: boolean;
+  /** Images saved locally by the background processor */
+  saved_images?: PredictionSavedImage[];
+  /** Webhook URL notified when the prediction finishes */
+  webhook_url?: string;
+  /** Delivery state of the webhook notification */
+  webhook_delivery?: PredictionWebhookDelivery;
+  /** Scheduling priority (defaults to 'normal') */
+  priority?: PredictionPriority;
+  /** Timestamp by which the prediction must start, or it fails as expired */
+  deadline_at?: string;
+  /** Previous unsuccessful attempts, oldest first (only set once retried) */
+  attempts?: PredictionAttempt[];
+  /** Timestamp before which a prediction queued for an automatic retry does not start */
+  retry_at?: string;
+  /** ID of the batch this prediction belongs to, if submitted as part of one */
+  batch_id?: string;
   /** Error information if failed */
   error?: {
     code: string;
@@ -307,10 +613,12 @@ export interface CostEstimate {
   credits_used: number;
   /** Estimated USD cost based on known pricing */
   estimated_usd: number;
-  /** Pricing tier used for estimation */
-  pricing_tier: 'FLASH' | 'TURBO' | 'DEFAULT' | 'QUALITY';
+  /** Pricing tier used for estimation (rendering speed, or legacy model) */
+  pricing_tier: RenderingSpeed | Model;
   /** Number of images in the request */
   num_images: number;
+  /** Caveat about the prices used, set for legacy models */
+  pricing_note?: string;
 }
 
 /**
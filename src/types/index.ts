@@ -22,12 +22,19 @@ export type {
   MagicPrompt,
   StyleType,
   Model,
+  LegacyAspectRatio,
   Resolution,
   PredictionStatus,
+  PredictionPriority,
   // Request Types
   BaseImageRequest,
   GenerateRequest,
   LegacyGenerateRequest,
+  EditRequest,
+  RemixRequest,
+  UpscaleRequest,
+  ReframeRequest,
+  ReplaceBackgroundRequest,
   // Response Types
   GeneratedImage,
   GenerateResponse,
@@ -37,6 +44,16 @@ export type {
   RateLimitInfo,
   // Prediction Types
   Prediction,
+  PredictionFields,
+  PredictionType,
+  PredictionRequest,
+  PredictionRequestMap,
+  PredictionSavedImage,
+  PredictionWebhookDelivery,
+  PredictionWebhookDeliveryStatus,
+  PredictionAttempt,
+  PredictionRetryTrigger,
+  PredictionBatch,
   // Cost Tracking Types
   CostEstimate,
   GenerateResponseWithCost,
@@ -65,14 +82,33 @@ export {
   StyleTypeSchema,
   ModelSchema,
   PredictionStatusSchema,
+  PredictionTypeSchema,
+  PredictionPrioritySchema,
   // Tool Input Schemas
   GenerateInputSchema,
   GenerateAsyncInputSchema,
   EditInputSchema,
   GetPredictionInputSchema,
   CancelPredictionInputSchema,
+  ListPredictionsInputSchema,
+  RetryPredictionInputSchema,
+  SubmitBatchInputSchema,
+  GetBatchInputSchema,
+  // Tool Output Schemas
+  GenerateOutputSchema,
+  GenerateAsyncOutputSchema,
+  EditOutputSchema,
+  DescribeOutputSchema,
+  GetPredictionOutputSchema,
+  CancelPredictionOutputSchema,
+  ListPredictionsOutputSchema,
+  RetryPredictionOutputSchema,
+  SubmitBatchOutputSchema,
+  GetBatchOutputSchema,
+  ToolErrorOutputSchema,
   // Tool Schema Exports
   ToolSchemas,
+  ToolOutputSchemas,
   // Type Guards
   isToolError,
   isPredictionCompleted,
@@ -88,6 +124,11 @@ export type {
   EditInput,
   GetPredictionInput,
   CancelPredictionInput,
+  ListPredictionsInput,
+  RetryPredictionInput,
+  SubmitBatchInput,
+  BatchMatrixInput,
+  GetBatchInput,
 } from './tool.types.js';
 
 // Tool Output Types
@@ -104,5 +145,17 @@ export type {
   CancelPredictionSuccessOutput,
   CancelPredictionFailedOutput,
   CancelPredictionOutput,
+  PredictionSummaryOutput,
+  PredictionQueueStatsOutput,
+  ListPredictionsOutput,
+  RetryPredictionSuccessOutput,
+  RetryPredictionFailedOutput,
+  RetryPredictionOutput,
+  BatchCostOutput,
+  BatchStatusOutput,
+  BatchImageOutput,
+  SubmitBatchOutput,
+  GetBatchOutput,
   ToolErrorOutput,
+  ToolHandlerContext,
 } from './tool.types.js';
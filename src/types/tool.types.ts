@@ -10,10 +10,19 @@
  * - ideogram_edit: Image editing (inpaint/outpaint)
  * - ideogram_get_prediction: Poll for async job status
  * - ideogram_cancel_prediction: Cancel queued jobs
+ * - ideogram_list_predictions: List async jobs with filters and pagination
+ * - ideogram_retry_prediction: Re-queue failed or cancelled jobs
+ * - ideogram_submit_batch: Queue many generations as one tracked batch
+ * - ideogram_get_batch: Poll a batch for aggregate status, cost, and images
  */
 
 import { z } from 'zod';
 
+import { PREDICTION_QUEUE, VALIDATION } from '../config/constants.js';
+import type { ProgressCallback } from '../utils/progress.js';
+import type { CostConfirmer } from '../utils/elicitation.js';
+import type { PromptRefiner } from '../utils/sampling.js';
+
 // =============================================================================
 // Shared Schema Components
 // =============================================================================
@@ -40,6 +49,59 @@ export const AspectRatioSchema = z.enum([
   '16x10',
 ]);
 
+/**
+ * Output resolutions (RESOLUTION_<width>_<height>)
+ */
+export const ResolutionSchema = z.enum([
+  'RESOLUTION_512_1536',
+  'RESOLUTION_576_1408',
+  'RESOLUTION_576_1472',
+  'RESOLUTION_576_1536',
+  'RESOLUTION_640_1024',
+  'RESOLUTION_640_1344',
+  'RESOLUTION_640_1408',
+  'RESOLUTION_640_1472',
+  'RESOLUTION_640_1536',
+  'RESOLUTION_704_1152',
+  'RESOLUTION_704_1216',
+  'RESOLUTION_704_1280',
+  'RESOLUTION_704_1344',
+  'RESOLUTION_704_1408',
+  'RESOLUTION_704_1472',
+  'RESOLUTION_720_1280',
+  'RESOLUTION_736_1312',
+  'RESOLUTION_768_1024',
+  'RESOLUTION_768_1088',
+  'RESOLUTION_768_1152',
+  'RESOLUTION_768_1216',
+  'RESOLUTION_768_1232',
+  'RESOLUTION_768_1280',
+  'RESOLUTION_768_1344',
+  'RESOLUTION_832_960',
+  'RESOLUTION_832_1024',
+  'RESOLUTION_832_1088',
+  'RESOLUTION_832_1152',
+  'RESOLUTION_832_1216',
+  'RESOLUTION_832_1248',
+  'RESOLUTION_864_1152',
+  'RESOLUTION_896_960',
+  'RESOLUTION_896_1024',
+  'RESOLUTION_896_1088',
+  'RESOLUTION_896_1120',
+  'RESOLUTION_896_1152',
+  'RESOLUTION_960_832',
+  'RESOLUTION_960_896',
+  'RESOLUTION_960_1024',
+  'RESOLUTION_960_1088',
+  'RESOLUTION_1024_576',
+  'RESOLUTION_1024_640',
+  'RESOLUTION_1024_768',
+  'RESOLUTION_1024_832',
+  'RESOLUTION_1024_896',
+  'RESOLUTION_1024_960',
+  'RESOLUTION_1024_1024',
+]);
+
 /**
  * Rendering speed options for Ideogram V3.
  * FLASH: Fastest, lower quality
@@ -75,6 +137,65 @@ export const StyleTypeSchema = z.enum([
  */
 export const StyleTypeV3Schema = z.enum(['AUTO', 'GENERAL', 'REALISTIC', 'DESIGN', 'FICTION']);
 
+/**
+ * Style reference images: URLs, file paths, or base64 data URLs (10MB in total).
+ */
+export const StyleReferenceImagesSchema = z
+  .array(z.string().min(1, 'Image reference is required'))
+  .max(5, 'Maximum 5 style reference images');
+
+/**
+ * Style codes of previously used styles (8 hexadecimal characters each).
+ * Cannot be combined with style reference images or a style type other than AUTO.
+ */
+export const StyleCodesSchema = z
+  .array(z.string().regex(/^[0-9a-fA-F]{8}$/, 'Style codes must be 8 hexadecimal characters'))
+  .min(1, 'Provide at least one style code');
+
+/**
+ * Named color palette presets.
+ */
+export const ColorPalettePresetSchema = z.enum([
+  'EMBER',
+  'FRESH',
+  'JUNGLE',
+  'MAGIC',
+  'MELON',
+  'MOSAIC',
+  'PASTEL',
+  'ULTRAMARINE',
+]);
+
+/**
+ * Color palette: a named preset ({ name }) or a list of hex colors with
+ * optional weights ({ members }).
+ */
+export const ColorPaletteSchema = z.union([
+  z.object({
+    name: ColorPalettePresetSchema,
+  }),
+  z.object({
+    members: z
+      .array(
+        z.object({
+          color_hex: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colors must be hex codes like #FF5733'),
+          color_weight: z
+            .number()
+            .min(
+              VALIDATION.COLOR_WEIGHT.MIN,
+              `Color weight must be at least ${VALIDATION.COLOR_WEIGHT.MIN}`
+            )
+            .max(
+              VALIDATION.COLOR_WEIGHT.MAX,
+              `Color weight must be at most ${VALIDATION.COLOR_WEIGHT.MAX}`
+            )
+            .optional(),
+        })
+      )
+      .min(1, 'Provide at least one color'),
+  }),
+]);
+
 /**
  * Model versions for legacy endpoints.
  */
@@ -91,6 +212,44 @@ export const PredictionStatusSchema = z.enum([
   'cancelled',
 ]);
 
+/**
+ * Image operation performed by an async prediction.
+ */
+export const PredictionTypeSchema = z.enum([
+  'generate',
+  'edit',
+  'remix',
+  'upscale',
+  'reframe',
+  'replace_background',
+]);
+
+/**
+ * Scheduling priority of an async prediction.
+ */
+export const PredictionPrioritySchema = z.enum(['low', 'normal', 'high']);
+
+/**
+ * Priority accepted by all async tools.
+ */
+const AsyncPrioritySchema = PredictionPrioritySchema.optional().default(
+  PREDICTION_QUEUE.DEFAULT_PRIORITY
+);
+
+/**
+ * Deadline accepted by all async tools: seconds after which a still-queued
+ * prediction fails instead of starting late.
+ */
+const AsyncDeadlineSecondsSchema = z
+  .number()
+  .int()
+  .min(1, 'Deadline must be at least 1 second')
+  .max(
+    PREDICTION_QUEUE.MAX_DEADLINE_SECONDS,
+    `Deadline must be at most ${PREDICTION_QUEUE.MAX_DEADLINE_SECONDS} seconds`
+  )
+  .optional();
+
 // =============================================================================
 // Tool Input Schemas
 // =============================================================================
@@ -113,7 +272,10 @@ export const GenerateInputSchema = z.object({
     .optional(),
 
   /** Aspect ratio for the generated image */
-  aspect_ratio: AspectRatioSchema.optional().default('1x1'),
+  aspect_ratio: AspectRatioSchema.optional(),
+
+  /** Explicit output resolution (cannot be combined with aspect_ratio) */
+  resolution: ResolutionSchema.optional(),
 
   /** Number of images to generate (1-8) */
   num_images: z
@@ -138,7 +300,7 @@ export const GenerateInputSchema = z.object({
   /** Magic prompt enhancement option */
   magic_prompt: MagicPromptSchema.optional().default('AUTO'),
 
-  /** Style type for the image */
+  /** Style type for the image (RENDER_3D and ANIME need a legacy model) */
   style_type: StyleTypeSchema.optional().default('AUTO'),
 
   /** Character reference images for maintaining character consistency across generations */
@@ -147,17 +309,37 @@ export const GenerateInputSchema = z.object({
     .max(5, 'Maximum 5 character reference images')
     .optional(),
 
+  /** Style reference images for keeping a consistent art style */
+  style_reference_images: StyleReferenceImagesSchema.optional(),
+
+  /** Style codes of previously used styles */
+  style_codes: StyleCodesSchema.optional(),
+
+  /** Color palette: a named preset or hex colors with optional weights */
+  color_palette: ColorPaletteSchema.optional(),
+
+  /** Legacy V2 model (V_2 or V_2_TURBO); uses the legacy endpoint and pricing */
+  model: ModelSchema.optional(),
+
   /** Whether to save generated images locally */
   save_locally: z.boolean().optional().default(true),
+
+  /** Rewrite the prompt with the client's LLM (MCP sampling) before generating */
+  refine_prompt: z.boolean().optional().default(false),
 });
 
 /**
  * Input schema for ideogram_generate_async tool.
  * Same parameters as generate, but returns immediately with a prediction_id.
+ * Prompts cannot be refined, since queued jobs run after the call returns.
  */
-export const GenerateAsyncInputSchema = GenerateInputSchema.extend({
-  /** Optional webhook URL for completion notification (reserved for future use) */
+export const GenerateAsyncInputSchema = GenerateInputSchema.omit({ refine_prompt: true }).extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
   webhook_url: z.string().url('Invalid webhook URL').optional(),
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
 });
 
 /**
@@ -203,8 +385,8 @@ export const EditInputSchema = z.object({
   /** Magic prompt enhancement option */
   magic_prompt: MagicPromptSchema.optional().default('AUTO'),
 
-  /** Style type for the image (V3 subset) */
-  style_type: StyleTypeV3Schema.optional().default('AUTO'),
+  /** Style type for the image (RENDER_3D and ANIME need a legacy model) */
+  style_type: StyleTypeSchema.optional().default('AUTO'),
 
   /** Character reference images for maintaining character consistency */
   character_reference_images: z
@@ -212,6 +394,15 @@ export const EditInputSchema = z.object({
     .max(5, 'Maximum 5 character reference images')
     .optional(),
 
+  /** Style reference images for keeping a consistent art style */
+  style_reference_images: StyleReferenceImagesSchema.optional(),
+
+  /** Style codes of previously used styles */
+  style_codes: StyleCodesSchema.optional(),
+
+  /** Legacy V2 model (V_2 or V_2_TURBO); uses the legacy endpoint and pricing */
+  model: ModelSchema.optional(),
+
   /** Whether to save generated images locally */
   save_locally: z.boolean().optional().default(true),
 });
@@ -234,6 +425,120 @@ export const CancelPredictionInputSchema = z.object({
   prediction_id: z.string().min(1, 'Prediction ID is required'),
 });
 
+/**
+ * Input schema for ideogram_list_predictions tool.
+ * Lists local async jobs with filters and cursor pagination.
+ */
+export const ListPredictionsInputSchema = z.object({
+  /** Only include predictions with these statuses */
+  status: z.array(PredictionStatusSchema).min(1).optional(),
+  /** Only include predictions of these operation types */
+  type: z.array(PredictionTypeSchema).min(1).optional(),
+  /** Only include predictions created at or after this ISO 8601 timestamp */
+  created_after: z
+    .string()
+    .datetime({ message: 'created_after must be an ISO 8601 timestamp' })
+    .optional(),
+  /** Only include predictions created at or before this ISO 8601 timestamp */
+  created_before: z
+    .string()
+    .datetime({ message: 'created_before must be an ISO 8601 timestamp' })
+    .optional(),
+  /** Only include predictions whose prompt contains this text (case-insensitive) */
+  prompt_contains: z.string().min(1).optional(),
+  /** Maximum number of predictions per page */
+  limit: z.number().int().min(1).max(100).optional().default(20),
+  /** Cursor from the previous page's next_cursor */
+  cursor: z.string().min(1).optional(),
+});
+
+/**
+ * Input schema for ideogram_retry_prediction tool.
+ * Re-queues a failed or cancelled async job with the same request.
+ */
+export const RetryPredictionInputSchema = z.object({
+  /** Unique prediction ID to retry */
+  prediction_id: z.string().min(1, 'Prediction ID is required'),
+  /** Optional new seed for the retry (0-2147483647) */
+  seed: z
+    .number()
+    .int('Seed must be an integer')
+    .min(0, 'Seed must be non-negative')
+    .max(2147483647, 'Seed must be at most 2147483647')
+    .optional(),
+});
+
+/**
+ * Single generation in the `requests` list of ideogram_submit_batch.
+ * Saving locally is set once for the whole batch, and reference images are
+ * not supported in batches (style codes are).
+ */
+const BatchRequestSchema = GenerateInputSchema.omit({
+  save_locally: true,
+  character_reference_images: true,
+  style_reference_images: true,
+  refine_prompt: true,
+});
+
+/**
+ * Parameter matrix of ideogram_submit_batch. One generation is queued for
+ * every combination of the listed values (cartesian product).
+ */
+const BatchMatrixSchema = z.object({
+  /** Prompts to generate (required) */
+  prompt: z.array(GenerateInputSchema.shape.prompt).min(1, 'At least one prompt is required'),
+  /** Aspect ratios to combine with each prompt */
+  aspect_ratio: z.array(AspectRatioSchema).min(1).optional(),
+  /** Rendering speeds to combine with each prompt */
+  rendering_speed: z.array(RenderingSpeedSchema).min(1).optional(),
+  /** Style types to combine with each prompt */
+  style_type: z.array(StyleTypeSchema).min(1).optional(),
+  /** Magic prompt options to combine with each prompt */
+  magic_prompt: z.array(MagicPromptSchema).min(1).optional(),
+  /** Seeds to combine with each prompt */
+  seed: z.array(GenerateInputSchema.shape.seed.unwrap()).min(1).optional(),
+  /** Negative prompt shared by every combination */
+  negative_prompt: GenerateInputSchema.shape.negative_prompt,
+  /** Number of images generated by every combination (1-8) */
+  num_images: GenerateInputSchema.shape.num_images,
+});
+
+/**
+ * Input schema for ideogram_submit_batch tool.
+ * Queues many generations at once, from either a list of requests or a
+ * parameter matrix (exactly one of the two).
+ */
+export const SubmitBatchInputSchema = z.object({
+  /** Explicit list of generations */
+  requests: z
+    .array(BatchRequestSchema)
+    .min(1, 'At least one request is required')
+    .max(
+      PREDICTION_QUEUE.MAX_BATCH_SIZE,
+      `A batch can hold at most ${PREDICTION_QUEUE.MAX_BATCH_SIZE} requests`
+    )
+    .optional(),
+  /** Parameter matrix expanded into every combination */
+  matrix: BatchMatrixSchema.optional(),
+  /** Whether to save generated images locally */
+  save_locally: z.boolean().optional().default(true),
+  /** Scheduling priority of every prediction in the batch */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which still-queued predictions fail */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
+/**
+ * Input schema for ideogram_get_batch tool.
+ * Polls a batch for its aggregate status and completed images.
+ */
+export const GetBatchInputSchema = z.object({
+  /** Unique batch ID returned from ideogram_submit_batch */
+  batch_id: z.string().min(1, 'Batch ID is required'),
+  /** Whether to include the images of completed predictions */
+  include_images: z.boolean().optional().default(true),
+});
+
 // =============================================================================
 // V3 Tool Shared Schema Components
 // =============================================================================
@@ -344,6 +649,9 @@ export const RemixInputSchema = z.object({
   /** Aspect ratio for the remixed image */
   aspect_ratio: AspectRatioSchema.optional(),
 
+  /** Explicit output resolution (cannot be combined with aspect_ratio) */
+  resolution: ResolutionSchema.optional(),
+
   /** Number of images to generate (1-8) */
   num_images: z
     .number()
@@ -376,6 +684,15 @@ export const RemixInputSchema = z.object({
     .max(5, 'Maximum 5 character reference images')
     .optional(),
 
+  /** Style reference images for keeping a consistent art style */
+  style_reference_images: StyleReferenceImagesSchema.optional(),
+
+  /** Style codes of previously used styles */
+  style_codes: StyleCodesSchema.optional(),
+
+  /** Color palette: a named preset or hex colors with optional weights */
+  color_palette: ColorPaletteSchema.optional(),
+
   /** Whether to save generated images locally */
   save_locally: z.boolean().optional().default(true),
 });
@@ -388,8 +705,8 @@ export const ReframeInputSchema = z.object({
   /** Source image: URL, file path, or base64 data URL */
   image: z.string().min(1, 'Image is required'),
 
-  /** Target resolution (e.g. "1024x768"). Required. */
-  resolution: z.string().min(1, 'Resolution is required'),
+  /** Target resolution (e.g. "RESOLUTION_1024_768"). Required. */
+  resolution: ResolutionSchema,
 
   /** Number of images to generate (1-8) */
   num_images: z
@@ -452,10 +769,90 @@ export const ReplaceBackgroundInputSchema = z.object({
   /** Rendering speed/quality tradeoff */
   rendering_speed: RenderingSpeedSchema.optional().default('DEFAULT'),
 
+  /** Style reference images for keeping a consistent art style */
+  style_reference_images: StyleReferenceImagesSchema.optional(),
+
+  /** Style codes of previously used styles */
+  style_codes: StyleCodesSchema.optional(),
+
   /** Whether to save generated images locally */
   save_locally: z.boolean().optional().default(true),
 });
 
+// =============================================================================
+// Async Tool Input Schemas
+// =============================================================================
+
+/**
+ * Webhook URL accepted by all async tools.
+ */
+const AsyncWebhookUrlSchema = z.string().url('Invalid webhook URL').optional();
+
+/**
+ * Input schema for ideogram_edit_async tool.
+ * Same parameters as edit, but returns immediately with a prediction_id.
+ */
+export const EditAsyncInputSchema = EditInputSchema.extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
+  webhook_url: AsyncWebhookUrlSchema,
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
+/**
+ * Input schema for ideogram_remix_async tool.
+ * Same parameters as remix, but returns immediately with a prediction_id.
+ */
+export const RemixAsyncInputSchema = RemixInputSchema.extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
+  webhook_url: AsyncWebhookUrlSchema,
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
+/**
+ * Input schema for ideogram_upscale_async tool.
+ * Same parameters as upscale, but returns immediately with a prediction_id.
+ */
+export const UpscaleAsyncInputSchema = UpscaleInputSchema.extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
+  webhook_url: AsyncWebhookUrlSchema,
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
+/**
+ * Input schema for ideogram_reframe_async tool.
+ * Same parameters as reframe, but returns immediately with a prediction_id.
+ */
+export const ReframeAsyncInputSchema = ReframeInputSchema.extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
+  webhook_url: AsyncWebhookUrlSchema,
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
+/**
+ * Input schema for ideogram_replace_background_async tool.
+ * Same parameters as replace_background, but returns immediately with a prediction_id.
+ */
+export const ReplaceBackgroundAsyncInputSchema = ReplaceBackgroundInputSchema.extend({
+  /** Optional webhook URL notified when the prediction completes, fails, or is cancelled */
+  webhook_url: AsyncWebhookUrlSchema,
+  /** Scheduling priority in the local queue */
+  priority: AsyncPrioritySchema,
+  /** Optional deadline (seconds) after which a still-queued prediction fails */
+  deadline_seconds: AsyncDeadlineSecondsSchema,
+});
+
 // =============================================================================
 // Tool Input Types (inferred from schemas)
 // =============================================================================
@@ -465,11 +862,21 @@ export type GenerateAsyncInput = z.infer<typeof GenerateAsyncInputSchema>;
 export type EditInput = z.infer<typeof EditInputSchema>;
 export type GetPredictionInput = z.infer<typeof GetPredictionInputSchema>;
 export type CancelPredictionInput = z.infer<typeof CancelPredictionInputSchema>;
+export type ListPredictionsInput = z.infer<typeof ListPredictionsInputSchema>;
+export type RetryPredictionInput = z.infer<typeof RetryPredictionInputSchema>;
+export type SubmitBatchInput = z.infer<typeof SubmitBatchInputSchema>;
+export type BatchMatrixInput = z.infer<typeof BatchMatrixSchema>;
+export type GetBatchInput = z.infer<typeof GetBatchInputSchema>;
 export type DescribeInput = z.infer<typeof DescribeInputSchema>;
 export type UpscaleInput = z.infer<typeof UpscaleInputSchema>;
 export type RemixInput = z.infer<typeof RemixInputSchema>;
 export type ReframeInput = z.infer<typeof ReframeInputSchema>;
 export type ReplaceBackgroundInput = z.infer<typeof ReplaceBackgroundInputSchema>;
+export type EditAsyncInput = z.infer<typeof EditAsyncInputSchema>;
+export type RemixAsyncInput = z.infer<typeof RemixAsyncInputSchema>;
+export type UpscaleAsyncInput = z.infer<typeof UpscaleAsyncInputSchema>;
+export type ReframeAsyncInput = z.infer<typeof ReframeAsyncInputSchema>;
+export type ReplaceBackgroundAsyncInput = z.infer<typeof ReplaceBackgroundAsyncInputSchema>;
 
 // =============================================================================
 // Tool Output Types
@@ -484,9 +891,11 @@ export interface CostEstimateOutput {
   /** Estimated USD cost based on known pricing */
   estimated_usd: number;
   /** Pricing tier used for estimation */
-  pricing_tier: 'FLASH' | 'TURBO' | 'DEFAULT' | 'QUALITY';
+  pricing_tier: 'FLASH' | 'TURBO' | 'DEFAULT' | 'QUALITY' | 'V_2' | 'V_2_TURBO';
   /** Number of images in the request */
   num_images: number;
+  /** Caveat about the prices used, set for legacy models */
+  pricing_note?: string;
 }
 
 /**
@@ -521,6 +930,25 @@ export interface GenerateOutput {
   total_cost: CostEstimateOutput;
   /** Number of images generated */
   num_images: number;
+  /** Set when nothing was run because the cost could not be confirmed */
+  dry_run?: true;
+  /** Explanation of the dry run */
+  message?: string;
+  /** Prompt given to the tool, when it was refined (refine_prompt) */
+  original_prompt?: string;
+  /** Refined prompt sent to the API (refine_prompt) */
+  refined_prompt?: string;
+}
+
+/**
+ * Output of an image tool that ran or queued nothing because the estimated
+ * cost was above CONFIRM_CREDIT_THRESHOLD and the client cannot confirm it
+ */
+export interface DryRunOutput extends GenerateOutput {
+  /** Always set for dry runs */
+  dry_run: true;
+  /** Explanation of the dry run */
+  message: string;
 }
 
 /**
@@ -553,6 +981,10 @@ export interface EditOutput {
   total_cost: CostEstimateOutput;
   /** Number of images generated */
   num_images: number;
+  /** Set when nothing was run because the cost could not be confirmed */
+  dry_run?: true;
+  /** Explanation of the dry run */
+  message?: string;
 }
 
 /**
@@ -585,6 +1017,31 @@ export type ReframeOutput = GenerateOutput;
  */
 export type ReplaceBackgroundOutput = GenerateOutput;
 
+/**
+ * Output from ideogram_edit_async tool (same shape as GenerateAsyncOutput)
+ */
+export type EditAsyncOutput = GenerateAsyncOutput;
+
+/**
+ * Output from ideogram_remix_async tool (same shape as GenerateAsyncOutput)
+ */
+export type RemixAsyncOutput = GenerateAsyncOutput;
+
+/**
+ * Output from ideogram_upscale_async tool (same shape as GenerateAsyncOutput)
+ */
+export type UpscaleAsyncOutput = GenerateAsyncOutput;
+
+/**
+ * Output from ideogram_reframe_async tool (same shape as GenerateAsyncOutput)
+ */
+export type ReframeAsyncOutput = GenerateAsyncOutput;
+
+/**
+ * Output from ideogram_replace_background_async tool (same shape as GenerateAsyncOutput)
+ */
+export type ReplaceBackgroundAsyncOutput = GenerateAsyncOutput;
+
 /**
  * Output from ideogram_get_prediction tool when still processing
  */
@@ -599,6 +1056,8 @@ export interface GetPredictionProcessingOutput {
   eta_seconds?: number;
   /** Progress percentage (0-100) */
   progress?: number;
+  /** 1-based position in the local queue (queued predictions only) */
+  queue_position?: number;
   /** Message for the user */
   message: string;
 }
@@ -686,6 +1145,207 @@ export interface CancelPredictionFailedOutput {
  */
 export type CancelPredictionOutput = CancelPredictionSuccessOutput | CancelPredictionFailedOutput;
 
+/**
+ * Summary of a prediction in ideogram_list_predictions output
+ */
+export interface PredictionSummaryOutput {
+  /** Unique prediction ID */
+  prediction_id: string;
+  /** Image operation performed by the prediction */
+  type: 'generate' | 'edit' | 'remix' | 'upscale' | 'reframe' | 'replace_background';
+  /** Current status */
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  /** Request creation timestamp */
+  created: string;
+  /** Timestamp when the prediction finished */
+  completed_at?: string;
+  /** Prompt of the request (if the operation takes one) */
+  prompt?: string;
+  /** Progress percentage (0-100) */
+  progress?: number;
+  /** Number of images produced (completed predictions only) */
+  num_images?: number;
+  /** Error code (failed predictions only) */
+  error_code?: string;
+}
+
+/**
+ * Queue statistics in ideogram_list_predictions output
+ */
+export interface PredictionQueueStatsOutput {
+  /** Total number of predictions in the store */
+  total: number;
+  /** Number of queued predictions */
+  queued: number;
+  /** Number of processing predictions */
+  processing: number;
+  /** Number of completed predictions */
+  completed: number;
+  /** Number of failed predictions */
+  failed: number;
+  /** Number of cancelled predictions */
+  cancelled: number;
+}
+
+/**
+ * Output from ideogram_list_predictions tool
+ */
+export interface ListPredictionsOutput {
+  /** Success indicator */
+  success: true;
+  /** Predictions on this page, newest first */
+  predictions: PredictionSummaryOutput[];
+  /** Total number of predictions matching the filters */
+  total: number;
+  /** Cursor for the next page (absent on the last page) */
+  next_cursor?: string;
+  /** Statistics for the whole queue (not affected by filters) */
+  stats: PredictionQueueStatsOutput;
+}
+
+/**
+ * Output from ideogram_retry_prediction tool when the prediction was re-queued
+ */
+export interface RetryPredictionSuccessOutput {
+  /** Success indicator */
+  success: true;
+  /** Unique prediction ID (unchanged by the retry) */
+  prediction_id: string;
+  /** Status after the retry */
+  status: 'queued';
+  /** Status before the retry */
+  previous_status: 'failed' | 'cancelled';
+  /** Number of the attempt that is now queued (1-based) */
+  attempt: number;
+  /** Seed used by the new attempt, if one is set */
+  seed?: number;
+  /** Estimated time to completion (seconds) */
+  eta_seconds: number;
+  /** Message for the user */
+  message: string;
+}
+
+/**
+ * Output from ideogram_retry_prediction tool when the prediction cannot be retried
+ */
+export interface RetryPredictionFailedOutput {
+  /** Success indicator */
+  success: false;
+  /** Unique prediction ID */
+  prediction_id: string;
+  /** Current status (still pending or already completed) */
+  status: 'queued' | 'processing' | 'completed';
+  /** Reason the retry was refused */
+  reason: string;
+  /** Message for the user */
+  message: string;
+}
+
+/**
+ * Combined output type for ideogram_retry_prediction tool
+ */
+export type RetryPredictionOutput = RetryPredictionSuccessOutput | RetryPredictionFailedOutput;
+
+/**
+ * Aggregate cost of the predictions in a batch
+ */
+export interface BatchCostOutput {
+  /** Estimated credits summed over the predictions */
+  credits_used: number;
+  /** Estimated USD summed over the predictions */
+  estimated_usd: number;
+  /** Number of images counted */
+  num_images: number;
+  /** Number of predictions counted */
+  num_predictions: number;
+}
+
+/**
+ * Aggregate status of a batch.
+ * 'partial' means every prediction finished but only some completed.
+ */
+export type BatchStatusOutput =
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'partial'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Completed image in ideogram_get_batch output
+ */
+export interface BatchImageOutput extends GeneratedImageOutput {
+  /** Prediction that produced the image */
+  prediction_id: string;
+}
+
+/**
+ * Output from ideogram_submit_batch tool
+ */
+export interface SubmitBatchOutput {
+  /** Success indicator */
+  success: true;
+  /** Unique batch ID for polling */
+  batch_id: string;
+  /** Current status of the batch */
+  status: 'queued';
+  /** IDs of the queued predictions, in submission order */
+  prediction_ids: string[];
+  /** Number of queued predictions */
+  num_predictions: number;
+  /** Estimated cost of the whole batch */
+  estimated_cost: BatchCostOutput;
+  /** Message for the user */
+  message: string;
+}
+
+/**
+ * Output from ideogram_submit_batch when nothing was queued because the
+ * estimated cost was above CONFIRM_CREDIT_THRESHOLD and the client cannot
+ * confirm it
+ */
+export interface SubmitBatchDryRunOutput {
+  /** Success indicator */
+  success: true;
+  /** Number of predictions the batch would queue */
+  num_predictions: number;
+  /** Estimated cost of the whole batch */
+  estimated_cost: BatchCostOutput;
+  /** Always set for dry runs */
+  dry_run: true;
+  /** Explanation of the dry run */
+  message: string;
+}
+
+/**
+ * Output from ideogram_get_batch tool
+ */
+export interface GetBatchOutput {
+  /** Success indicator */
+  success: true;
+  /** Unique batch ID */
+  batch_id: string;
+  /** Aggregate status of the batch */
+  status: BatchStatusOutput;
+  /** Batch creation timestamp */
+  created: string;
+  /** Share of predictions that finished (0-100) */
+  progress: number;
+  /** Number of predictions per status */
+  counts: PredictionQueueStatsOutput;
+  /** Summary of each prediction, in submission order */
+  predictions: PredictionSummaryOutput[];
+  /** Images of all completed predictions (unless include_images is false) */
+  images?: BatchImageOutput[];
+  /** Cost of the completed predictions */
+  total_cost: BatchCostOutput;
+  /** Estimated cost of the whole batch */
+  estimated_cost: BatchCostOutput;
+  /** Message for the user */
+  message: string;
+}
+
 // =============================================================================
 // Tool Error Output
 // =============================================================================
@@ -708,6 +1368,299 @@ export interface ToolErrorOutput {
   details?: Record<string, unknown>;
 }
 
+// =============================================================================
+// Tool Output Schemas
+// =============================================================================
+//
+// Declared as the `outputSchema` of each tool so that MCP clients receive the
+// results as typed `structuredContent`. Each schema mirrors the output
+// interface above. MCP output schemas must be objects, so the tools with
+// several result variants (get_prediction, cancel_prediction,
+// retry_prediction, and the *_async and submit_batch tools with their dry
+// runs) use one object schema in which the fields that only some variants
+// have are optional.
+
+/**
+ * Output schema of CostEstimateOutput
+ */
+export const CostEstimateOutputSchema = z.object({
+  credits_used: z.number().describe('Estimated credits used for this request'),
+  estimated_usd: z.number().describe('Estimated USD cost based on known pricing'),
+  pricing_tier: z
+    .union([RenderingSpeedSchema, ModelSchema])
+    .describe('Pricing tier used for estimation (rendering speed, or legacy model)'),
+  num_images: z.number().int().describe('Number of images in the request'),
+  pricing_note: z
+    .string()
+    .optional()
+    .describe('Caveat about the prices used, set for legacy models'),
+});
+
+/**
+ * Output schema of GeneratedImageOutput
+ */
+export const GeneratedImageOutputSchema = z.object({
+  url: z.string().describe('URL to the generated image (temporary Ideogram URL)'),
+  local_path: z.string().optional().describe('Local file path if saved locally'),
+  seed: z.number().int().describe('Seed used for this specific image'),
+  is_image_safe: z.boolean().describe('Whether safety filters were triggered'),
+  prompt: z.string().optional().describe('Prompt used (may differ from input with magic_prompt)'),
+  resolution: z.string().optional().describe('Resolution of the generated image'),
+});
+
+/**
+ * Output schema of ideogram_edit (EditOutput)
+ */
+export const EditOutputSchema = z.object({
+  success: z.literal(true),
+  created: z.string().describe('Request creation timestamp'),
+  images: z.array(GeneratedImageOutputSchema),
+  total_cost: CostEstimateOutputSchema,
+  num_images: z.number().int().describe('Number of images generated'),
+  dry_run: z
+    .literal(true)
+    .optional()
+    .describe('Set when nothing was run because the cost could not be confirmed'),
+  message: z.string().optional().describe('Explanation of the dry run'),
+});
+
+/**
+ * Output schema of ideogram_generate (GenerateOutput)
+ */
+export const GenerateOutputSchema = EditOutputSchema.extend({
+  original_prompt: z
+    .string()
+    .optional()
+    .describe('Prompt given to the tool, when it was refined (refine_prompt)'),
+  refined_prompt: z.string().optional().describe('Refined prompt sent to the API (refine_prompt)'),
+});
+
+/**
+ * Output schema of ideogram_generate_async (GenerateAsyncOutput or DryRunOutput)
+ */
+export const GenerateAsyncOutputSchema = z.object({
+  success: z.literal(true),
+  prediction_id: z.string().optional().describe('Unique prediction ID for polling'),
+  status: z.literal('queued').optional(),
+  eta_seconds: z.number().optional().describe('Estimated time to completion (seconds)'),
+  message: z.string(),
+  created: z.string().optional().describe('Dry run creation timestamp'),
+  images: z.array(GeneratedImageOutputSchema).optional().describe('Empty for dry runs'),
+  total_cost: CostEstimateOutputSchema.optional().describe('Estimated cost of the dry run'),
+  num_images: z.number().int().optional().describe('0 for dry runs'),
+  dry_run: z
+    .literal(true)
+    .optional()
+    .describe('Set when nothing was queued because the cost could not be confirmed'),
+});
+
+/**
+ * Output schema of ideogram_describe (DescribeOutput)
+ */
+export const DescribeOutputSchema = z.object({
+  success: z.literal(true),
+  descriptions: z.array(z.object({ text: z.string() })),
+});
+
+/**
+ * Output schemas of the image operations with the same shape as EditOutput
+ */
+export const UpscaleOutputSchema = EditOutputSchema;
+export const RemixOutputSchema = EditOutputSchema;
+export const ReframeOutputSchema = EditOutputSchema;
+export const ReplaceBackgroundOutputSchema = EditOutputSchema;
+
+/**
+ * Output schemas of the async image operations (same shape as GenerateAsyncOutput)
+ */
+export const EditAsyncOutputSchema = GenerateAsyncOutputSchema;
+export const RemixAsyncOutputSchema = GenerateAsyncOutputSchema;
+export const UpscaleAsyncOutputSchema = GenerateAsyncOutputSchema;
+export const ReframeAsyncOutputSchema = GenerateAsyncOutputSchema;
+export const ReplaceBackgroundAsyncOutputSchema = GenerateAsyncOutputSchema;
+
+/**
+ * Output schema of ideogram_get_prediction (GetPredictionOutput).
+ * `success` is false for failed and cancelled predictions.
+ */
+export const GetPredictionOutputSchema = z.object({
+  success: z.boolean(),
+  prediction_id: z.string(),
+  status: PredictionStatusSchema,
+  message: z.string().optional().describe('Message for the user (all but completed)'),
+  eta_seconds: z.number().optional().describe('Estimated time remaining (seconds)'),
+  progress: z.number().optional().describe('Progress percentage (0-100)'),
+  queue_position: z.number().int().optional().describe('1-based position in the local queue'),
+  created: z.string().optional().describe('Request creation timestamp (completed only)'),
+  images: z.array(GeneratedImageOutputSchema).optional().describe('Images (completed only)'),
+  total_cost: CostEstimateOutputSchema.optional().describe('Cost estimate (completed only)'),
+  num_images: z.number().int().optional().describe('Number of images (completed only)'),
+  error: z
+    .object({ code: z.string(), message: z.string(), retryable: z.boolean() })
+    .optional()
+    .describe('Error information (failed and cancelled only)'),
+});
+
+/**
+ * Output schema of ideogram_cancel_prediction (CancelPredictionOutput).
+ * `success` is false when the prediction could not be cancelled.
+ */
+export const CancelPredictionOutputSchema = z.object({
+  success: z.boolean(),
+  prediction_id: z.string(),
+  status: z.enum(['cancelled', 'completed', 'processing', 'failed']),
+  reason: z.string().optional().describe('Reason cancellation failed'),
+  message: z.string(),
+});
+
+/**
+ * Output schema of PredictionSummaryOutput
+ */
+export const PredictionSummaryOutputSchema = z.object({
+  prediction_id: z.string(),
+  type: PredictionTypeSchema,
+  status: PredictionStatusSchema,
+  created: z.string(),
+  completed_at: z.string().optional(),
+  prompt: z.string().optional(),
+  progress: z.number().optional(),
+  num_images: z.number().int().optional(),
+  error_code: z.string().optional(),
+});
+
+/**
+ * Output schema of PredictionQueueStatsOutput
+ */
+export const PredictionQueueStatsOutputSchema = z.object({
+  total: z.number().int(),
+  queued: z.number().int(),
+  processing: z.number().int(),
+  completed: z.number().int(),
+  failed: z.number().int(),
+  cancelled: z.number().int(),
+});
+
+/**
+ * Output schema of ideogram_list_predictions (ListPredictionsOutput)
+ */
+export const ListPredictionsOutputSchema = z.object({
+  success: z.literal(true),
+  predictions: z.array(PredictionSummaryOutputSchema),
+  total: z.number().int().describe('Total number of predictions matching the filters'),
+  next_cursor: z.string().optional().describe('Cursor for the next page'),
+  stats: PredictionQueueStatsOutputSchema,
+});
+
+/**
+ * Output schema of ideogram_retry_prediction (RetryPredictionOutput).
+ * `success` is false when the prediction could not be retried.
+ */
+export const RetryPredictionOutputSchema = z.object({
+  success: z.boolean(),
+  prediction_id: z.string(),
+  status: z.enum(['queued', 'processing', 'completed']),
+  previous_status: z.enum(['failed', 'cancelled']).optional(),
+  attempt: z.number().int().optional().describe('Number of the queued attempt (1-based)'),
+  seed: z.number().int().optional(),
+  eta_seconds: z.number().optional(),
+  reason: z.string().optional().describe('Reason the retry was refused'),
+  message: z.string(),
+});
+
+/**
+ * Output schema of BatchCostOutput
+ */
+export const BatchCostOutputSchema = z.object({
+  credits_used: z.number(),
+  estimated_usd: z.number(),
+  num_images: z.number().int(),
+  num_predictions: z.number().int(),
+});
+
+/**
+ * Output schema of BatchStatusOutput
+ */
+export const BatchStatusOutputSchema = z.enum([
+  'queued',
+  'processing',
+  'completed',
+  'partial',
+  'failed',
+  'cancelled',
+]);
+
+/**
+ * Output schema of BatchImageOutput
+ */
+export const BatchImageOutputSchema = GeneratedImageOutputSchema.extend({
+  prediction_id: z.string(),
+});
+
+/**
+ * Output schema of ideogram_submit_batch (SubmitBatchOutput or SubmitBatchDryRunOutput)
+ */
+export const SubmitBatchOutputSchema = z.object({
+  success: z.literal(true),
+  batch_id: z.string().optional(),
+  status: z.literal('queued').optional(),
+  prediction_ids: z.array(z.string()).optional(),
+  num_predictions: z.number().int(),
+  estimated_cost: BatchCostOutputSchema,
+  message: z.string(),
+  dry_run: z
+    .literal(true)
+    .optional()
+    .describe('Set when nothing was queued because the cost could not be confirmed'),
+});
+
+/**
+ * Output schema of ideogram_get_batch (GetBatchOutput)
+ */
+export const GetBatchOutputSchema = z.object({
+  success: z.literal(true),
+  batch_id: z.string(),
+  status: BatchStatusOutputSchema,
+  created: z.string(),
+  progress: z.number().describe('Share of predictions that finished (0-100)'),
+  counts: PredictionQueueStatsOutputSchema,
+  predictions: z.array(PredictionSummaryOutputSchema),
+  images: z.array(BatchImageOutputSchema).optional(),
+  total_cost: BatchCostOutputSchema,
+  estimated_cost: BatchCostOutputSchema,
+  message: z.string(),
+});
+
+/**
+ * Schema of ToolErrorOutput, the JSON returned by failed tool calls
+ * (`isError: true`)
+ */
+export const ToolErrorOutputSchema = z.object({
+  success: z.literal(false),
+  error_code: z.string(),
+  error: z.string(),
+  user_message: z.string(),
+  retryable: z.boolean(),
+  details: z.record(z.unknown()).optional(),
+});
+
+// =============================================================================
+// Tool Handler Context
+// =============================================================================
+
+/**
+ * Per-call context passed to tool handlers alongside the validated input
+ */
+export interface ToolHandlerContext {
+  /** Aborts the call when the client cancels the request */
+  signal?: AbortSignal;
+  /** Reports progress of the call; set when the client sent a progress token */
+  onProgress?: ProgressCallback;
+  /** Rewrites prompts with the client's LLM; set when the client supports sampling */
+  refinePrompt?: PromptRefiner;
+  /** Asks the user to confirm expensive operations; set when the client supports elicitation */
+  confirmCost?: CostConfirmer;
+}
+
 // =============================================================================
 // Tool Schema Exports for MCP Registration
 // =============================================================================
@@ -722,11 +1675,45 @@ export const ToolSchemas = {
   edit: EditInputSchema,
   getPrediction: GetPredictionInputSchema,
   cancelPrediction: CancelPredictionInputSchema,
+  listPredictions: ListPredictionsInputSchema,
+  retryPrediction: RetryPredictionInputSchema,
+  submitBatch: SubmitBatchInputSchema,
+  getBatch: GetBatchInputSchema,
   describe: DescribeInputSchema,
   upscale: UpscaleInputSchema,
   remix: RemixInputSchema,
   reframe: ReframeInputSchema,
   replaceBackground: ReplaceBackgroundInputSchema,
+  editAsync: EditAsyncInputSchema,
+  remixAsync: RemixAsyncInputSchema,
+  upscaleAsync: UpscaleAsyncInputSchema,
+  reframeAsync: ReframeAsyncInputSchema,
+  replaceBackgroundAsync: ReplaceBackgroundAsyncInputSchema,
+} as const;
+
+/**
+ * Output schemas for MCP tool registration, keyed like ToolSchemas.
+ */
+export const ToolOutputSchemas = {
+  generate: GenerateOutputSchema,
+  generateAsync: GenerateAsyncOutputSchema,
+  edit: EditOutputSchema,
+  getPrediction: GetPredictionOutputSchema,
+  cancelPrediction: CancelPredictionOutputSchema,
+  listPredictions: ListPredictionsOutputSchema,
+  retryPrediction: RetryPredictionOutputSchema,
+  submitBatch: SubmitBatchOutputSchema,
+  getBatch: GetBatchOutputSchema,
+  describe: DescribeOutputSchema,
+  upscale: UpscaleOutputSchema,
+  remix: RemixOutputSchema,
+  reframe: ReframeOutputSchema,
+  replaceBackground: ReplaceBackgroundOutputSchema,
+  editAsync: EditAsyncOutputSchema,
+  remixAsync: RemixAsyncOutputSchema,
+  upscaleAsync: UpscaleAsyncOutputSchema,
+  reframeAsync: ReframeAsyncOutputSchema,
+  replaceBackgroundAsync: ReplaceBackgroundAsyncOutputSchema,
 } as const;
 
 // =============================================================================
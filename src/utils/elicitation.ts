@@ -0,0 +1,114 @@
+/**
+ * Elicitation Utilities
+ *
+ * Helpers for asking the user to confirm an operation through MCP elicitation
+ * (`elicitation/create`):
+ * - The CostConfirmer passed down to the tool handlers
+ * - Creation of a confirmer that sends form elicitation requests for the
+ *   current call
+ *
+ * Confirmers are only created for clients that declare the `elicitation`
+ * capability with form support.
+ */
+
+import type { Logger } from 'pino';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ElicitResultSchema,
+  type ElicitRequest,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { COST_CONFIRMATION } from '../config/constants.js';
+import { createCancelledError } from './error.handler.js';
+import { createChildLogger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Asks the user to confirm an operation described by `message`.
+ * Resolves with true if the user confirmed it.
+ */
+export type CostConfirmer = (message: string) => Promise<boolean>;
+
+/**
+ * The parts of the MCP request handler context used for elicitation requests.
+ */
+export type ElicitationRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  'sendRequest' | 'signal'
+>;
+
+// =============================================================================
+// Cost Confirmer
+// =============================================================================
+
+/**
+ * Creates a confirmer that asks the user to confirm an operation through an
+ * MCP form elicitation with a single `confirm` checkbox.
+ *
+ * The operation is confirmed only if the user accepts the form with
+ * `confirm: true`. Declining, cancelling the form, or a failed elicitation
+ * request count as not confirmed, so no credits are spent by mistake.
+ *
+ * @param extra - The request handler context passed to the tool callback
+ * @param logger - Custom logger instance
+ * @returns The cost confirmer
+ * @throws {IdeogramMCPError} CANCELLED if the call is cancelled while waiting
+ *
+ * @example
+ * ```typescript
+ * server.registerTool(name, toolConfig, async (input, extra) => {
+ *   const confirm = createCostConfirmer(extra);
+ *   if (await confirm('Generate 8 images for 1.60 credits?')) {
+ *     // ...
+ *   }
+ * });
+ * ```
+ */
+export function createCostConfirmer(
+  extra: ElicitationRequestExtra,
+  logger: Logger = createChildLogger('elicitation')
+): CostConfirmer {
+  return async (message: string): Promise<boolean> => {
+    const request: ElicitRequest = {
+      method: 'elicitation/create',
+      params: {
+        mode: 'form',
+        message,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Proceed',
+              description: 'Run the operation and spend the estimated credits',
+              default: false,
+            },
+          },
+          required: ['confirm'],
+        },
+      },
+    };
+
+    try {
+      const result = await extra.sendRequest(request, ElicitResultSchema, {
+        signal: extra.signal,
+        timeout: COST_CONFIRMATION.TIMEOUT_MS,
+      });
+      const confirmed = result.action === 'accept' && result.content?.['confirm'] === true;
+
+      logger.debug({ action: result.action, confirmed }, 'Cost confirmation answered');
+      return confirmed;
+    } catch (error) {
+      if (extra.signal.aborted) {
+        throw createCancelledError('Cost confirmation');
+      }
+      logger.warn({ err: error }, 'Cost confirmation request failed');
+      return false;
+    }
+  };
+}
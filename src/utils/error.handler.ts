@@ -280,6 +280,20 @@ export function createImageTooLargeError(
   );
 }
 
+/**
+ * Creates an error for an image file outside the allowed directories.
+ */
+export function createImagePathNotAllowedError(filePath: string): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.IMAGE_PATH_NOT_ALLOWED,
+    `Image file is outside the allowed directories: ${filePath}`,
+    `The image file "${filePath}" cannot be read. Local images must be inside LOCAL_SAVE_DIR or a directory listed in IMAGE_INPUT_DIRS.`,
+    HTTP_STATUS.FORBIDDEN,
+    false,
+    { field: 'image', path: filePath }
+  );
+}
+
 /**
  * Creates an error for network failures.
  */
@@ -308,6 +322,50 @@ export function createTimeoutError(timeoutMs: number): IdeogramMCPError {
   );
 }
 
+/**
+ * Creates an error for a request aborted through its AbortSignal.
+ */
+export function createCancelledError(operation = 'Request'): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.CANCELLED,
+    `${operation} was cancelled`,
+    'The request was cancelled before it completed.',
+    0,
+    false
+  );
+}
+
+/**
+ * Creates an error for a prompt the client could not refine through MCP sampling.
+ */
+export function createPromptRefinementError(reason: string): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.PROMPT_REFINEMENT_FAILED,
+    `Prompt refinement failed: ${reason}`,
+    'The prompt could not be refined. Try again without refine_prompt.',
+    0,
+    false,
+    { reason }
+  );
+}
+
+/**
+ * Creates an error for an expensive operation the user did not confirm.
+ */
+export function createCostNotConfirmedError(
+  creditsUsed: number,
+  thresholdCredits: number
+): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.COST_NOT_CONFIRMED,
+    `Estimated cost of ${creditsUsed} credits was not confirmed (threshold: ${thresholdCredits} credits)`,
+    'The operation was not run because its estimated cost was not confirmed.',
+    0,
+    false,
+    { credits_used: creditsUsed, threshold_credits: thresholdCredits }
+  );
+}
+
 /**
  * Creates an error for prediction not found.
  */
@@ -322,6 +380,20 @@ export function createPredictionNotFoundError(predictionId: string): IdeogramMCP
   );
 }
 
+/**
+ * Creates an error for batch not found.
+ */
+export function createBatchNotFoundError(batchId: string): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.BATCH_NOT_FOUND,
+    `Batch not found: ${batchId}`,
+    'The requested batch was not found. Its predictions may have expired or it never existed.',
+    HTTP_STATUS.NOT_FOUND,
+    false,
+    { batch_id: batchId }
+  );
+}
+
 /**
  * Creates an error when trying to cancel an already completed prediction.
  */
@@ -353,6 +425,23 @@ export function createPredictionFailedError(
   );
 }
 
+/**
+ * Creates an error for a queued prediction whose deadline passed before it started.
+ */
+export function createPredictionExpiredError(
+  predictionId: string,
+  deadlineAt: string
+): IdeogramMCPError {
+  return new IdeogramMCPError(
+    ERROR_CODES.PREDICTION_EXPIRED,
+    `Prediction expired: deadline ${deadlineAt} passed before processing started`,
+    'The prediction did not start before its deadline and was not run. Queue it again with a longer deadline_seconds or a higher priority.',
+    0,
+    false,
+    { prediction_id: predictionId, deadline_at: deadlineAt }
+  );
+}
+
 /**
  * Creates an error for storage operations.
  */
@@ -517,6 +606,15 @@ export function isIdeogramMCPError(error: unknown): error is IdeogramMCPError {
   return error instanceof IdeogramMCPError;
 }
 
+/**
+ * Checks whether an optional AbortSignal has been aborted.
+ * A call (rather than reading `signal.aborted` inline) is not narrowed by
+ * TypeScript, so the signal can be re-checked after each await.
+ */
+export function isSignalAborted(signal?: AbortSignal): boolean {
+  return signal?.aborted === true;
+}
+
 /**
  * Type guard to check if an error is retryable.
  */
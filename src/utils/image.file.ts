@@ -0,0 +1,190 @@
+/**
+ * Image File Utilities
+ *
+ * Reads local image files given as image inputs to the image tools:
+ * - Absolute paths, `~` (home directory), and paths relative to LOCAL_SAVE_DIR
+ * - Allowlist of readable directories: LOCAL_SAVE_DIR and IMAGE_INPUT_DIRS
+ * - Image type detection from magic bytes (PNG, JPEG, WebP)
+ *
+ * Paths are checked against the allowlist both as given and after following
+ * symbolic links, so links cannot be used to read files outside of it.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { config } from '../config/config.js';
+import { VALIDATION } from '../config/constants.js';
+import {
+  createImagePathNotAllowedError,
+  createImageTooLargeError,
+  createInvalidImageError,
+} from './error.handler.js';
+import { detectImageMimeType } from './image.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for reading a local image file.
+ */
+export interface ReadImageFileOptions {
+  /**
+   * Directory relative paths are resolved against.
+   * Default: LOCAL_SAVE_DIR
+   */
+  baseDir?: string;
+
+  /**
+   * Directories image files may be read from, including their subdirectories.
+   * Default: LOCAL_SAVE_DIR and IMAGE_INPUT_DIRS
+   */
+  allowedDirs?: readonly string[];
+
+  /**
+   * Maximum file size in bytes.
+   * Default: 10MB
+   */
+  maxSizeBytes?: number;
+}
+
+/**
+ * A local image file read into memory.
+ */
+export interface ImageFile {
+  /** File contents */
+  data: Buffer;
+  /** MIME type detected from the magic bytes */
+  contentType: string;
+  /** Resolved path of the file, with symbolic links followed */
+  filePath: string;
+}
+
+// =============================================================================
+// Path Resolution
+// =============================================================================
+
+/**
+ * Expands a leading `~` to the home directory of the current user.
+ */
+function expandHomeDir(input: string): string {
+  if (input === '~' || input.startsWith('~/') || input.startsWith('~\\')) {
+    return path.join(os.homedir(), input.slice(1));
+  }
+  return input;
+}
+
+/**
+ * Resolves an image file path given as tool input to an absolute path.
+ *
+ * @param input - Absolute path, `~` path, or path relative to `baseDir`
+ * @param baseDir - Directory relative paths are resolved against
+ * @returns The absolute path
+ *
+ * @example
+ * ```typescript
+ * resolveImagePath('~/Pictures/cat.png', './ideogram_images'); // '/home/me/Pictures/cat.png'
+ * resolveImagePath('cat.png', '/data/images'); // '/data/images/cat.png'
+ * ```
+ */
+export function resolveImagePath(input: string, baseDir: string = config.localSaveDir): string {
+  return path.resolve(baseDir, expandHomeDir(input));
+}
+
+/**
+ * Checks whether a path is inside a directory (or is the directory itself).
+ */
+function isPathWithin(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Follows symbolic links in a path, keeping the path as is if it does not exist.
+ */
+async function realpathOrSelf(filePath: string): Promise<string> {
+  try {
+    return await fs.promises.realpath(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+// =============================================================================
+// Image File Reading
+// =============================================================================
+
+/**
+ * Reads a local image file given as tool input.
+ *
+ * The file must be inside one of the allowed directories, no larger than the
+ * size limit, and a PNG, JPEG or WebP image (detected from its magic bytes,
+ * not its extension).
+ *
+ * @param input - Absolute path, `~` path, or path relative to LOCAL_SAVE_DIR
+ * @param options - Optional configuration
+ * @returns The file contents and detected MIME type
+ * @throws {IdeogramMCPError} IMAGE_PATH_NOT_ALLOWED if the file is outside the
+ *   allowed directories, IMAGE_TOO_LARGE if it exceeds the size limit, or
+ *   INVALID_IMAGE if it cannot be read or is not a supported image
+ *
+ * @example
+ * ```typescript
+ * const image = await readImageFile('~/Pictures/cat.png', {
+ *   allowedDirs: ['~/Pictures'],
+ * });
+ * console.log(image.contentType); // 'image/png'
+ * ```
+ */
+export async function readImageFile(
+  input: string,
+  options: ReadImageFileOptions = {}
+): Promise<ImageFile> {
+  const baseDir = options.baseDir ?? config.localSaveDir;
+  const allowedDirs = (options.allowedDirs ?? [config.localSaveDir, ...config.imageInputDirs]).map(
+    (dir) => path.resolve(expandHomeDir(dir))
+  );
+  const maxSizeBytes = options.maxSizeBytes ?? VALIDATION.IMAGE.MAX_SIZE_BYTES;
+
+  // Check the path as given before touching the file system
+  const requestedPath = resolveImagePath(input, baseDir);
+  if (!allowedDirs.some((dir) => isPathWithin(requestedPath, dir))) {
+    throw createImagePathNotAllowedError(input);
+  }
+
+  // Check it again with symbolic links followed
+  let filePath: string;
+  try {
+    filePath = await fs.promises.realpath(requestedPath);
+  } catch {
+    throw createInvalidImageError(`file not found: ${input}`);
+  }
+  const realAllowedDirs = await Promise.all(allowedDirs.map(realpathOrSelf));
+  if (!realAllowedDirs.some((dir) => isPathWithin(filePath, dir))) {
+    throw createImagePathNotAllowedError(input);
+  }
+
+  const stats = await fs.promises.stat(filePath);
+  if (!stats.isFile()) {
+    throw createInvalidImageError(`not a file: ${input}`);
+  }
+  if (stats.size > maxSizeBytes) {
+    throw createImageTooLargeError(stats.size, maxSizeBytes);
+  }
+
+  const data = await fs.promises.readFile(filePath);
+  const contentType = detectImageMimeType(data);
+  if (
+    contentType === undefined ||
+    !(VALIDATION.IMAGE.SUPPORTED_FORMATS as readonly string[]).includes(contentType)
+  ) {
+    throw createInvalidImageError(`${input} is not a PNG, JPEG, or WebP image`);
+  }
+
+  return { data, contentType, filePath };
+}
@@ -0,0 +1,378 @@
+/**
+ * Image Utilities
+ *
+ * Dependency-free helpers for working with image buffers:
+ * - Image type detection from magic numbers
+ * - Decoding and encoding of 8-bit, non-interlaced PNG images
+ * - Box-filter downscaling of decoded images
+ * - PNG thumbnail creation for MCP image content blocks
+ *
+ * Ideogram returns PNG images, so only PNG is decoded. Other formats can be
+ * detected but not resized.
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Decoded image with interleaved 8-bit samples.
+ */
+export interface RawImage {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Samples per pixel: 1 (gray), 2 (gray + alpha), 3 (RGB), or 4 (RGBA) */
+  channels: 1 | 2 | 3 | 4;
+  /** Pixel data, row by row, `width * height * channels` bytes */
+  data: Buffer;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * PNG file signature
+ */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Samples per pixel for the supported PNG color types
+ */
+const PNG_CHANNELS: Record<number, RawImage['channels']> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+/**
+ * PNG color type for a number of channels
+ */
+const PNG_COLOR_TYPES: Record<RawImage['channels'], number> = {
+  1: 0,
+  2: 4,
+  3: 2,
+  4: 6,
+};
+
+/**
+ * CRC-32 lookup table used for PNG chunk checksums
+ */
+const CRC_TABLE = ((): Uint32Array => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// =============================================================================
+// Image Type Detection
+// =============================================================================
+
+/**
+ * Detects the MIME type of an image from its magic numbers.
+ *
+ * @param buffer - The image data
+ * @returns The MIME type, or undefined if the format is not recognized
+ *
+ * @example
+ * ```typescript
+ * detectImageMimeType(fs.readFileSync('image.png')); // 'image/png'
+ * ```
+ */
+export function detectImageMimeType(buffer: Buffer): string | undefined {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  if (buffer.length >= 4 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+    return 'image/gif';
+  }
+  return undefined;
+}
+
+// =============================================================================
+// PNG Decoding and Encoding
+// =============================================================================
+
+/**
+ * Decodes a PNG image.
+ *
+ * Supports 8-bit grayscale, grayscale + alpha, RGB, and RGBA images without
+ * interlacing. Returns null for anything else (palette images, 16-bit samples,
+ * interlaced images, or data that is not a valid PNG).
+ *
+ * @param buffer - The PNG file data
+ * @returns The decoded image, or null if the PNG is not supported
+ */
+export function decodePng(buffer: Buffer): RawImage | null {
+  if (detectImageMimeType(buffer) !== 'image/png') {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels: RawImage['channels'] | undefined;
+  const idat: Buffer[] = [];
+
+  // Walk the chunks: length (4), type (4), data (length), CRC (4)
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (data.length !== length) {
+      return null;
+    }
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const bitDepth = data[8];
+      const colorType = data[9] ?? -1;
+      const interlace = data[12];
+      channels = PNG_CHANNELS[colorType];
+      if (bitDepth !== 8 || interlace !== 0 || channels === undefined) {
+        return null;
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += length + 12;
+  }
+
+  if (channels === undefined || width === 0 || height === 0 || idat.length === 0) {
+    return null;
+  }
+
+  let filtered: Buffer;
+  try {
+    filtered = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const stride = width * channels;
+  if (filtered.length < (stride + 1) * height) {
+    return null;
+  }
+
+  // Reverse the per-row filters
+  const data = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const raw = filtered[source + x] ?? 0;
+      const left = x >= channels ? (data[row + x - channels] ?? 0) : 0;
+      const up = y > 0 ? (data[previous + x] ?? 0) : 0;
+      const upLeft = y > 0 && x >= channels ? (data[previous + x - channels] ?? 0) : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          return null;
+      }
+
+      data[row + x] = (raw + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, channels, data };
+}
+
+/**
+ * Encodes an image as an 8-bit, non-interlaced PNG.
+ *
+ * @param image - The image to encode
+ * @returns The PNG file data
+ */
+export function encodePng(image: RawImage): Buffer {
+  const { width, height, channels, data } = image;
+  const stride = width * channels;
+
+  // Use the Sub filter on every row; it compresses photos well and is cheap
+  const filtered = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const target = y * (stride + 1);
+    const row = y * stride;
+    filtered[target] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? (data[row + x - channels] ?? 0) : 0;
+      filtered[target + 1 + x] = ((data[row + x] ?? 0) - left) & 0xff;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = PNG_COLOR_TYPES[channels];
+  header[10] = 0; // Compression
+  header[11] = 0; // Filter method
+  header[12] = 0; // No interlacing
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(filtered)),
+    createChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// =============================================================================
+// Resizing
+// =============================================================================
+
+/**
+ * Downscales an image so that neither side exceeds maxDimension, keeping the
+ * aspect ratio. Each target pixel is the average of the source pixels it
+ * covers. Images that already fit are returned unchanged.
+ *
+ * @param image - The image to downscale
+ * @param maxDimension - Maximum width and height in pixels
+ * @returns The downscaled image
+ */
+export function downscaleImage(image: RawImage, maxDimension: number): RawImage {
+  const { width, height, channels, data } = image;
+  const scale = maxDimension / Math.max(width, height);
+  if (scale >= 1) {
+    return image;
+  }
+
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  const output = Buffer.alloc(targetWidth * targetHeight * channels);
+  const sums = new Array<number>(channels);
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+
+      sums.fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const source = (y * width + x) * channels;
+          for (let c = 0; c < channels; c++) {
+            sums[c] = (sums[c] ?? 0) + (data[source + c] ?? 0);
+          }
+        }
+      }
+
+      const count = (y1 - y0) * (x1 - x0);
+      const target = (ty * targetWidth + tx) * channels;
+      for (let c = 0; c < channels; c++) {
+        output[target + c] = Math.round((sums[c] ?? 0) / count);
+      }
+    }
+  }
+
+  return { width: targetWidth, height: targetHeight, channels, data: output };
+}
+
+/**
+ * Creates a PNG thumbnail no larger than maxDimension on either side.
+ *
+ * @param buffer - The PNG file data
+ * @param maxDimension - Maximum width and height in pixels
+ * @returns The thumbnail PNG, the original buffer if it already fits, or null
+ *   if the PNG cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const thumbnail = createPngThumbnail(await fs.promises.readFile('image.png'), 512);
+ * if (thumbnail) {
+ *   const data = thumbnail.toString('base64');
+ * }
+ * ```
+ */
+export function createPngThumbnail(buffer: Buffer, maxDimension: number): Buffer | null {
+  const image = decodePng(buffer);
+  if (image === null) {
+    return null;
+  }
+  if (Math.max(image.width, image.height) <= maxDimension) {
+    return buffer;
+  }
+  return encodePng(downscaleImage(image, maxDimension));
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Paeth predictor from the PNG specification.
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+    return left;
+  }
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Builds a PNG chunk with its length and CRC.
+ */
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+
+  let crc = 0xffffffff;
+  for (let i = 4; i < data.length + 8; i++) {
+    crc = (CRC_TABLE[(crc ^ (chunk[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  chunk.writeUInt32BE((crc ^ 0xffffffff) >>> 0, data.length + 8);
+
+  return chunk;
+}
@@ -213,14 +213,37 @@ export type LoggerComponent =
   | 'tool:edit'
   | 'tool:get-prediction'
   | 'tool:cancel-prediction'
+  | 'tool:list-predictions'
+  | 'tool:retry-prediction'
+  | 'tool:submit-batch'
+  | 'tool:get-batch'
   | 'tool:describe'
   | 'tool:upscale'
   | 'tool:remix'
   | 'tool:reframe'
   | 'tool:replace-background'
+  | 'tool:edit-async'
+  | 'tool:remix-async'
+  | 'tool:upscale-async'
+  | 'tool:reframe-async'
+  | 'tool:replace-background-async'
+  | 'resource:images'
+  | 'resource:predictions'
+  | 'tools'
+  | 'resources'
+  | 'prompts'
+  | 'http-transport'
   | 'cost-calculator'
   | 'storage'
   | 'prediction-store'
+  | 'prediction-processor'
+  | 'prediction-persistence'
+  | 'webhook-dispatcher'
+  | 'image-content'
+  | 'progress'
+  | 'sampling'
+  | 'elicitation'
+  | 'cost-confirmation'
   | 'validation';
 
 /**
@@ -0,0 +1,84 @@
+/**
+ * Progress Reporting Utilities
+ *
+ * Helpers for reporting the progress of long-running tool calls:
+ * - The ProgressCallback passed down to the API client and storage service
+ * - Conversion of progress callbacks into MCP `notifications/progress`
+ *
+ * Clients opt in by sending a `progressToken` in the request `_meta`. Without
+ * one, no callback is created and no notifications are sent.
+ */
+
+import type { Logger } from 'pino';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { createChildLogger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Callback invoked at each step of a long-running operation
+ * (e.g. "Downloading image 2 of 4").
+ */
+export type ProgressCallback = (message: string) => void;
+
+/**
+ * The parts of the MCP request handler context used for progress reporting.
+ */
+export type ProgressRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  '_meta' | 'sendNotification'
+>;
+
+// =============================================================================
+// Progress Reporter
+// =============================================================================
+
+/**
+ * Creates a progress callback that sends MCP `notifications/progress` for the
+ * current request.
+ *
+ * The total number of steps is not known up front (retries add steps), so
+ * each call increments `progress` by one and carries the step description as
+ * `message`. Failures to send a notification are logged and never fail the
+ * tool call.
+ *
+ * @param extra - The request handler context passed to the tool callback
+ * @param logger - Custom logger instance
+ * @returns The progress callback, or undefined if the request has no progress token
+ *
+ * @example
+ * ```typescript
+ * server.tool(name, description, shape, async (input, extra) => {
+ *   const onProgress = createProgressReporter(extra);
+ *   onProgress?.('Sending generate request');
+ *   // ...
+ * });
+ * ```
+ */
+export function createProgressReporter(
+  extra: ProgressRequestExtra,
+  logger: Logger = createChildLogger('progress')
+): ProgressCallback | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+
+  return (message: string): void => {
+    progress += 1;
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      })
+      .catch((error: unknown) => {
+        logger.debug({ err: error, progressToken }, 'Failed to send progress notification');
+      });
+  };
+}
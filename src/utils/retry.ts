@@ -7,11 +7,18 @@
  * - Integration with retryable error detection
  * - Rate limit header handling (Retry-After)
  * - Structured logging of retry attempts
+ * - Cancellation via AbortSignal
  */
 
 import type { Logger } from 'pino';
 import { RETRY_CONFIG, RETRYABLE_STATUS_CODES } from '../config/constants.js';
-import { isIdeogramMCPError, isRetryableError, extractRetryAfter } from './error.handler.js';
+import {
+  isIdeogramMCPError,
+  isRetryableError,
+  extractRetryAfter,
+  createCancelledError,
+  isSignalAborted,
+} from './error.handler.js';
 import { createChildLogger } from './logger.js';
 
 // =============================================================================
@@ -75,6 +82,13 @@ export interface RetryOptions {
    * @default 'operation'
    */
   operationName?: string;
+
+  /**
+   * Signal that aborts the operation.
+   * Once aborted, no further attempts are made, pending backoff delays end
+   * immediately, and a CANCELLED error is thrown.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -215,6 +229,7 @@ export function calculateRetryDelay(
  * - Rate limit header handling
  * - Structured logging of retry attempts
  * - Customizable retry behavior
+ * - Cancellation via `options.signal`
  *
  * @param operation - The async function to execute
  * @param options - Configuration options for retry behavior
@@ -255,6 +270,7 @@ export async function withRetry<T>(
     logger: customLogger,
     onRetry,
     operationName = 'operation',
+    signal,
   } = options;
 
   const log = customLogger ?? createChildLogger('ideogram-client');
@@ -270,6 +286,11 @@ export async function withRetry<T>(
       isRetry: attempt > 1,
     };
 
+    // Stop before starting another attempt once cancelled
+    if (isSignalAborted(signal)) {
+      throw createCancelledError(operationName);
+    }
+
     try {
       const result = await operation(context);
 
@@ -285,6 +306,12 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error;
 
+      // A cancelled operation is never retried
+      if (isSignalAborted(signal)) {
+        log.debug({ operation: operationName, attempt }, 'Operation cancelled');
+        throw createCancelledError(operationName);
+      }
+
       // Extract headers from error if available (for rate limit handling)
       lastHeaders = extractHeadersFromError(error);
 
@@ -332,8 +359,8 @@ export async function withRetry<T>(
         onRetry(error, attempt, delayMs);
       }
 
-      // Wait before retrying
-      await sleep(delayMs);
+      // Wait before retrying (ends early if cancelled)
+      await sleep(delayMs, signal);
     }
   }
 
@@ -500,9 +527,20 @@ function formatErrorForLog(error: unknown): Record<string, unknown> {
 
 /**
  * Sleeps for the specified number of milliseconds.
+ * Resolves early when the signal is aborted; the caller checks the signal.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+
+    function done(): void {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 // =============================================================================
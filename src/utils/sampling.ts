@@ -0,0 +1,172 @@
+/**
+ * Prompt Refinement Utilities
+ *
+ * Helpers for rewriting image prompts with the connected client's LLM through
+ * MCP sampling (`sampling/createMessage`):
+ * - The PromptRefiner passed down to the tool handlers
+ * - Creation of a refiner that sends sampling requests for the current call
+ *
+ * Refiners are only created for clients that declare the `sampling`
+ * capability. The team's style guide (PROMPT_STYLE_GUIDE_FILE) is appended to
+ * the system prompt of every sampling request.
+ */
+
+import * as fs from 'fs';
+import type { Logger } from 'pino';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CreateMessageResultSchema,
+  type CreateMessageRequest,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { config } from '../config/config.js';
+import { PROMPT_REFINEMENT, VALIDATION } from '../config/constants.js';
+import { createCancelledError, createPromptRefinementError } from './error.handler.js';
+import { createChildLogger } from './logger.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Rewrites an image prompt and resolves with the refined prompt.
+ */
+export type PromptRefiner = (prompt: string) => Promise<string>;
+
+/**
+ * The parts of the MCP request handler context used for sampling requests.
+ */
+export type SamplingRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  'sendRequest' | 'signal'
+>;
+
+/**
+ * Configuration options for the prompt refiner.
+ */
+export interface PromptRefinerOptions {
+  /**
+   * Text file with the team's prompt style guide.
+   * Default: PROMPT_STYLE_GUIDE_FILE (no style guide when unset)
+   */
+  styleGuideFile?: string;
+
+  /**
+   * Custom logger instance.
+   */
+  logger?: Logger;
+}
+
+// =============================================================================
+// Prompt Refiner
+// =============================================================================
+
+/**
+ * Reads the style guide and appends it to the refinement instructions.
+ */
+async function buildSystemPrompt(styleGuideFile: string | undefined): Promise<string> {
+  if (styleGuideFile === undefined) {
+    return PROMPT_REFINEMENT.SYSTEM_PROMPT;
+  }
+
+  let styleGuide: string;
+  try {
+    styleGuide = (await fs.promises.readFile(styleGuideFile, 'utf8')).trim();
+  } catch (error) {
+    throw createPromptRefinementError(
+      `could not read the style guide ${styleGuideFile}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return styleGuide === ''
+    ? PROMPT_REFINEMENT.SYSTEM_PROMPT
+    : `${PROMPT_REFINEMENT.SYSTEM_PROMPT}\n\nFollow this style guide:\n\n${styleGuide}`;
+}
+
+/**
+ * Removes quotes the model wrapped around the whole prompt.
+ */
+function stripQuotes(text: string): string {
+  const match = /^(["“])([\s\S]*)(["”])$/.exec(text);
+  return match?.[2]?.trim() ?? text;
+}
+
+/**
+ * Creates a prompt refiner that asks the client's LLM to rewrite prompts
+ * through MCP `sampling/createMessage`.
+ *
+ * The sampling requests are sent as part of the current tool call and are
+ * cancelled with it. The refined prompt is trimmed and must be a valid
+ * Ideogram prompt (not empty, at most 10000 characters).
+ *
+ * @param extra - The request handler context passed to the tool callback
+ * @param options - Optional configuration
+ * @returns The prompt refiner
+ * @throws {IdeogramMCPError} PROMPT_REFINEMENT_FAILED when the client cannot
+ *   refine the prompt, or CANCELLED if the call is cancelled
+ *
+ * @example
+ * ```typescript
+ * server.registerTool(name, toolConfig, async (input, extra) => {
+ *   const refinePrompt = createPromptRefiner(extra);
+ *   const prompt = await refinePrompt('a cat in a window');
+ *   // ...
+ * });
+ * ```
+ */
+export function createPromptRefiner(
+  extra: SamplingRequestExtra,
+  options: PromptRefinerOptions = {}
+): PromptRefiner {
+  const log = options.logger ?? createChildLogger('sampling');
+  const styleGuideFile = options.styleGuideFile ?? config.promptStyleGuideFile;
+
+  return async (prompt: string): Promise<string> => {
+    const request: CreateMessageRequest = {
+      method: 'sampling/createMessage',
+      params: {
+        messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+        systemPrompt: await buildSystemPrompt(styleGuideFile),
+        includeContext: 'none',
+        maxTokens: PROMPT_REFINEMENT.MAX_TOKENS,
+      },
+    };
+
+    let result;
+    try {
+      result = await extra.sendRequest(request, CreateMessageResultSchema, {
+        signal: extra.signal,
+        timeout: PROMPT_REFINEMENT.TIMEOUT_MS,
+      });
+    } catch (error) {
+      if (extra.signal.aborted) {
+        throw createCancelledError('Prompt refinement');
+      }
+      throw createPromptRefinementError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (result.content.type !== 'text') {
+      throw createPromptRefinementError(
+        `the client returned ${result.content.type} content instead of text`
+      );
+    }
+
+    const refined = stripQuotes(result.content.text.trim());
+    if (refined === '') {
+      throw createPromptRefinementError('the client returned an empty prompt');
+    }
+    if (refined.length > VALIDATION.PROMPT.MAX_LENGTH) {
+      throw createPromptRefinementError(
+        `the refined prompt exceeds ${VALIDATION.PROMPT.MAX_LENGTH} characters`
+      );
+    }
+
+    log.debug(
+      { model: result.model, promptLength: prompt.length, refinedLength: refined.length },
+      'Prompt refined through sampling'
+    );
+    return refined;
+  };
+}
@@ -11,12 +11,20 @@
 import type { ZodSchema, ZodError, ZodIssue } from 'zod';
 import {
   ASPECT_RATIOS,
+  RESOLUTIONS,
   VALIDATION,
   RENDERING_SPEEDS,
   MAGIC_PROMPT_OPTIONS,
   STYLE_TYPES,
 } from '../config/constants.js';
-import type { AspectRatio, RenderingSpeed, MagicPrompt, StyleType } from '../types/api.types.js';
+import type {
+  AspectRatio,
+  Resolution,
+  RenderingSpeed,
+  MagicPrompt,
+  StyleType,
+} from '../types/api.types.js';
+import { createValidationError } from './error.handler.js';
 
 // =============================================================================
 // Result Types for Safe Validation
@@ -345,6 +353,86 @@ export function isValidAspectRatio(value: string): value is AspectRatio {
   return (ASPECT_RATIOS as readonly string[]).includes(value);
 }
 
+// =============================================================================
+// Resolution Helpers
+// =============================================================================
+
+/**
+ * Checks if a string is a supported resolution.
+ */
+export function isValidResolution(value: string): value is Resolution {
+  return (RESOLUTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses the width and height of a resolution.
+ *
+ * @example
+ * ```typescript
+ * parseResolution('RESOLUTION_1024_768'); // { width: 1024, height: 768 }
+ * ```
+ */
+export function parseResolution(resolution: Resolution): { width: number; height: number } {
+  const [, width, height] = resolution.split('_');
+  return { width: Number(width), height: Number(height) };
+}
+
+/**
+ * Finds the supported resolution closest to a width x height request.
+ *
+ * The closest aspect ratio wins; among resolutions with the same aspect ratio,
+ * the one with the closest pixel count is chosen. Any size is accepted, so
+ * larger requests (e.g. 1920x1080) map to a supported resolution of the same
+ * shape.
+ *
+ * @param width - Requested width in pixels
+ * @param height - Requested height in pixels
+ * @returns The nearest supported resolution
+ * @throws IdeogramMCPError with a validation error if the width or height is
+ *   not a positive finite number
+ *
+ * @example
+ * ```typescript
+ * findNearestResolution(1920, 1080); // 'RESOLUTION_1024_576'
+ * findNearestResolution(1000, 1000); // 'RESOLUTION_1024_1024'
+ * ```
+ */
+export function findNearestResolution(width: number, height: number): Resolution {
+  if (!Number.isFinite(width) || width <= 0) {
+    throw createValidationError('width', `width must be a positive number, got ${width}`);
+  }
+  if (!Number.isFinite(height) || height <= 0) {
+    throw createValidationError('height', `height must be a positive number, got ${height}`);
+  }
+
+  const targetRatio = Math.log(width / height);
+  const targetArea = width * height;
+
+  let nearest = RESOLUTIONS[0] as Resolution;
+  let nearestRatioDistance = Infinity;
+  let nearestAreaDistance = Infinity;
+
+  for (const resolution of RESOLUTIONS) {
+    const candidate = parseResolution(resolution);
+    // Round so that resolutions of the same shape compare as equal
+    const ratioDistance =
+      Math.round(Math.abs(Math.log(candidate.width / candidate.height) - targetRatio) * 1000) /
+      1000;
+    const areaDistance = Math.abs(candidate.width * candidate.height - targetArea);
+
+    if (
+      ratioDistance < nearestRatioDistance ||
+      (ratioDistance === nearestRatioDistance && areaDistance < nearestAreaDistance)
+    ) {
+      nearest = resolution;
+      nearestRatioDistance = ratioDistance;
+      nearestAreaDistance = areaDistance;
+    }
+  }
+
+  return nearest;
+}
+
 // =============================================================================
 // Enum Validation Helpers
 // =============================================================================
@@ -370,6 +458,65 @@ export function isValidStyleType(value: string): value is StyleType {
   return (STYLE_TYPES as readonly string[]).includes(value);
 }
 
+// =============================================================================
+// Option Compatibility
+// =============================================================================
+
+/**
+ * Size options of a generate or remix request.
+ */
+export interface ResolutionOptionsInput {
+  aspect_ratio?: string | undefined;
+  resolution?: string | undefined;
+}
+
+/**
+ * Checks that an explicit resolution is not combined with an aspect ratio,
+ * which the API rejects.
+ *
+ * @param options - Size options of the request
+ * @throws IdeogramMCPError with a validation error if both are set
+ */
+export function assertCompatibleResolutionOptions(options: ResolutionOptionsInput): void {
+  if (options.resolution !== undefined && options.aspect_ratio !== undefined) {
+    throw createValidationError('resolution', 'resolution cannot be combined with aspect_ratio');
+  }
+}
+
+/**
+ * Style options of a generate, edit, remix, or replace background request.
+ */
+export interface StyleOptionsInput {
+  style_type?: string | undefined;
+  style_codes?: readonly string[] | undefined;
+  style_reference_images?: readonly unknown[] | undefined;
+}
+
+/**
+ * Checks that style codes are not combined with style reference images or a
+ * style type other than AUTO, which the API rejects.
+ *
+ * @param options - Style options of the request
+ * @throws IdeogramMCPError with a validation error if the options conflict
+ */
+export function assertCompatibleStyleOptions(options: StyleOptionsInput): void {
+  if (options.style_codes === undefined || options.style_codes.length === 0) {
+    return;
+  }
+  if (options.style_reference_images !== undefined && options.style_reference_images.length > 0) {
+    throw createValidationError(
+      'style_codes',
+      'style_codes cannot be combined with style_reference_images'
+    );
+  }
+  if (options.style_type !== undefined && options.style_type !== 'AUTO') {
+    throw createValidationError(
+      'style_codes',
+      `style_codes cannot be combined with style_type ${options.style_type}`
+    );
+  }
+}
+
 // =============================================================================
 // Prompt Validation
 // =============================================================================